@@ -4,7 +4,24 @@ import helmet from "helmet";
 import path from "path";
 import { fileURLToPath } from "url";
 import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { randomBytes } from "crypto";
 import compression from "compression";
+import { OAUTH_CALLBACK_PAGE } from "./oauth-callback.js";
+import { StdioBridge } from "./stdio-bridge.js";
+import { RequestProxy } from "./request-proxy.js";
+import { LocalAccess, getLocalHosts } from "./local-access.js";
+
+export {
+  createMockOAuthServer,
+  startMockOAuthServer,
+  type MockOAuthServerOptions,
+} from "./mock-oauth-server.js";
+export {
+  createReferenceServer,
+  startReferenceServer,
+  type ReferenceServerOptions,
+} from "./reference-server.js";
 
 const app = express();
 
@@ -16,6 +33,18 @@ export interface ServerOptions {
   host?: string;
   cors?: boolean;
   helmet?: boolean;
+  // Run stdio MCP servers for the UI. Off unless given, since it lets the
+  // UI start local processes.
+  stdio?: boolean;
+  // Hosts the UI may reach through /api/proxy, which is off unless given.
+  // "*.example.com" matches subdomains and "*" matches any host.
+  proxyAllowlist?: string[];
+  // Host headers to accept besides this server's own, like "localhost:3000"
+  // for a dev server that forwards to this one
+  allowedHosts?: string[];
+  // Token the UI sends with stdio and proxy requests. Generated at startup
+  // unless given.
+  token?: string;
 }
 
 function findUiBuildPath(): string {
@@ -54,14 +83,25 @@ export function createServer(options: ServerOptions = {}): {
   app: express.Express;
   port: number;
   host: string;
+  stdioBridge?: StdioBridge;
+  requestProxy?: RequestProxy;
 } {
   const {
     port = process.env.PORT ? parseInt(process.env.PORT) : 3001,
     host = "localhost",
     cors: enableCors = true,
     helmet: enableHelmet = true,
+    stdio: enableStdio = false,
+    proxyAllowlist = [],
+    allowedHosts = [],
+    token = randomBytes(32).toString("hex"),
   } = options;
 
+  const access = new LocalAccess({
+    hosts: [...getLocalHosts(host, port), ...allowedHosts],
+    token,
+  });
+
   if (enableHelmet) {
     app.use(
       helmet({
@@ -105,6 +145,8 @@ export function createServer(options: ServerOptions = {}): {
           },
         },
         crossOriginEmbedderPolicy: false,
+        // Lets the UI watch the OAuth popup it opens
+        crossOriginOpenerPolicy: { policy: "same-origin-allow-popups" },
       })
     );
   }
@@ -118,6 +160,15 @@ export function createServer(options: ServerOptions = {}): {
     );
   }
 
+  // Mounted before the body parser so request bodies stream through as is
+  const requestProxy =
+    proxyAllowlist.length > 0
+      ? new RequestProxy({ allowedHosts: proxyAllowlist, access })
+      : undefined;
+  if (requestProxy) {
+    app.use("/api/proxy", requestProxy.createRouter());
+  }
+
   app.use(express.json());
 
   app.get("/health", (req, res) => {
@@ -128,6 +179,17 @@ export function createServer(options: ServerOptions = {}): {
     res.json({ status: "ok", message: "MCPConnect API running" });
   });
 
+  // Redirect URI for OAuth connections
+  app.get("/oauth/callback", (req, res) => {
+    res.setHeader("Cache-Control", "no-store");
+    res.type("html").send(OAUTH_CALLBACK_PAGE);
+  });
+
+  const stdioBridge = enableStdio ? new StdioBridge(access) : undefined;
+  if (stdioBridge) {
+    app.use("/api/stdio", stdioBridge.createRouter());
+  }
+
   const uiBuildPath = findUiBuildPath();
 
   app.use(
@@ -178,6 +240,8 @@ export function createServer(options: ServerOptions = {}): {
       etag: true,
       lastModified: true,
       fallthrough: true, // IMPORTANT: Allow requests to continue if file not found
+      // index.html is served below, with the access token written into it
+      index: false,
       setHeaders: (res, filePath) => {
         const ext = path.extname(filePath).toLowerCase();
 
@@ -263,23 +327,29 @@ export function createServer(options: ServerOptions = {}): {
     // For all other routes (client-side routes), serve index.html
     const indexPath = path.join(uiBuildPath, "index.html");
 
-    // Use sendFile with proper error handling
-    res.sendFile(indexPath, err => {
-      if (err) {
+    readFile(indexPath, "utf8")
+      .then(html => {
+        // The page carries the token, so other sites must not read it
+        res.removeHeader("Access-Control-Allow-Origin");
+        res.removeHeader("Access-Control-Allow-Credentials");
+        res.setHeader("Cache-Control", "no-cache");
+        res.type("html").send(access.injectToken(req, html));
+      })
+      .catch(err => {
         console.error("Error serving index.html:", err);
         res.status(500).send("Internal server error");
-      }
-    });
+      });
   });
 
-  return { app: app, port, host };
+  return { app: app, port, host, stdioBridge, requestProxy };
 }
 
 export function startServer(
   options: ServerOptions = {}
 ): Promise<{ port: number; host: string; url: string }> {
   return new Promise((resolve, reject) => {
-    const { app, port, host } = createServer(options);
+    const { app, port, host, stdioBridge, requestProxy } =
+      createServer(options);
 
     const server = app.listen(port, host, () => {
       const url = `http://${host}:${port}`;
@@ -295,11 +365,29 @@ export function startServer(
     server.on("error", err => {
       reject(err);
     });
+
+    server.on("upgrade", (req, socket, head) => {
+      if (stdioBridge?.handleUpgrade(req, socket, head)) return;
+      if (requestProxy?.handleUpgrade(req, socket, head)) return;
+
+      socket.write("HTTP/1.1 404 Not Found\r\n\r\n");
+      socket.destroy();
+    });
+
+    if (stdioBridge) {
+      process.on("exit", () => stdioBridge.killAll());
+    }
   });
 }
 
 if (import.meta.url === `file://${process.argv[1]}`) {
-  startServer().catch(err => {
+  // Run directly in development, where the UI's dev server forwards to
+  // this one and needs to share its token
+  startServer({
+    stdio: process.env.MCPCONNECT_STDIO === "true",
+    allowedHosts: process.env.MCPCONNECT_ALLOWED_HOSTS?.split(","),
+    token: process.env.MCPCONNECT_TOKEN || undefined,
+  }).catch(err => {
     console.error("Failed to start server:", err);
     process.exit(1);
   });
@@ -0,0 +1,101 @@
+import { timingSafeEqual } from "crypto";
+import type { IncomingMessage } from "http";
+
+/**
+ * Guards the routes that act on this machine's behalf, like running
+ * processes or proxying requests, so only the UI this server serves can use
+ * them. Three things are required of every request:
+ *
+ * - A Host header naming this server, since a site that rebinds its own
+ *   domain to 127.0.0.1 sends requests with its domain as the Host
+ * - An Origin, when the browser sends one, matching that Host
+ * - The token generated when the server started, which only the pages it
+ *   serves are given
+ */
+
+export interface LocalAccessOptions {
+  // Host headers the server answers to, like "localhost:3001"
+  hosts: string[];
+  token: string;
+}
+
+// Query parameter the token is sent in, which works for fetch, EventSource
+// and WebSocket alike
+export const LOCAL_TOKEN_PARAM = "token";
+
+// Name of the meta tag the token is written into in the served page
+export const LOCAL_TOKEN_META = "mcpconnect-token";
+
+export class LocalAccess {
+  private hosts: Set<string>;
+  readonly token: string;
+
+  constructor(options: LocalAccessOptions) {
+    this.hosts = new Set(options.hosts.map(host => host.toLowerCase()));
+    this.token = options.token;
+  }
+
+  isAllowedHost(req: IncomingMessage): boolean {
+    const host = req.headers.host?.toLowerCase();
+    return Boolean(host && this.hosts.has(host));
+  }
+
+  private isSameOrigin(req: IncomingMessage): boolean {
+    const origin = req.headers.origin;
+    if (!origin) return true;
+
+    try {
+      return new URL(origin).host === req.headers.host;
+    } catch {
+      return false;
+    }
+  }
+
+  private hasToken(req: IncomingMessage): boolean {
+    const token = new URL(req.url || "/", "http://localhost").searchParams.get(
+      LOCAL_TOKEN_PARAM
+    );
+    if (!token) return false;
+
+    const expected = Buffer.from(this.token);
+    const received = Buffer.from(token);
+    return (
+      expected.length === received.length && timingSafeEqual(expected, received)
+    );
+  }
+
+  isAllowed(req: IncomingMessage): boolean {
+    return (
+      this.isAllowedHost(req) && this.isSameOrigin(req) && this.hasToken(req)
+    );
+  }
+
+  /**
+   * Add the token to an HTML page for the UI to read. Pages requested
+   * under another Host are left without it.
+   */
+  injectToken(req: IncomingMessage, html: string): string {
+    if (!this.isAllowedHost(req)) return html;
+    return html.replace(
+      "</head>",
+      `<meta name="${LOCAL_TOKEN_META}" content="${this.token}" />\n</head>`
+    );
+  }
+}
+
+/**
+ * Host headers a server listening on host and port answers to. Loopback
+ * names are always accepted, as only this machine can send them.
+ */
+export const getLocalHosts = (host: string, port: number): string[] => {
+  const formatHost = (name: string) =>
+    name.includes(":") && !name.startsWith("[") ? `[${name}]` : name;
+
+  return Array.from(
+    new Set(
+      [host, "localhost", "127.0.0.1", "::1"].map(
+        name => `${formatHost(name)}:${port}`
+      )
+    )
+  );
+};
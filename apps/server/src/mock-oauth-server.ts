@@ -0,0 +1,421 @@
+import express from "express";
+import cors from "cors";
+import { createHash, randomBytes, randomUUID } from "crypto";
+
+/**
+ * An OAuth 2.1 authorization server and the MCP server it protects, in one
+ * process, for trying OAuth connections offline. Add a Streamable HTTP
+ * connection to <url>/mcp with OAuth 2.1 authentication and authorize it.
+ */
+
+export interface MockOAuthServerOptions {
+  port?: number;
+  host?: string;
+  // Access token lifetime in seconds, short to exercise refreshing
+  tokenLifetime?: number;
+}
+
+interface RegisteredClient {
+  clientName?: string;
+  redirectUris: string[];
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  resource?: string;
+  scope?: string;
+  expiresAt: number;
+}
+
+interface IssuedGrant {
+  clientId: string;
+  resource?: string;
+  scope?: string;
+}
+
+const SUPPORTED_PROTOCOL_VERSIONS = ["2024-11-05", "2025-03-26", "2025-06-18"];
+const SCOPES = ["mcp:tools"];
+
+const randomToken = () => randomBytes(24).toString("base64url");
+
+const escapeHtml = (value: string) =>
+  value.replace(
+    /[&<>"']/g,
+    char =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&#39;",
+      })[char] as string
+  );
+
+export function createMockOAuthServer(options: MockOAuthServerOptions = {}): {
+  app: express.Express;
+  port: number;
+  host: string;
+  url: string;
+} {
+  const { port = 3002, host = "localhost", tokenLifetime = 300 } = options;
+  const url = `http://${host}:${port}`;
+  const resource = `${url}/mcp`;
+  const resourceMetadataUrl = `${url}/.well-known/oauth-protected-resource/mcp`;
+
+  const clients = new Map<string, RegisteredClient>();
+  const codes = new Map<string, AuthorizationCode>();
+  const accessTokens = new Map<string, IssuedGrant & { expiresAt: number }>();
+  const refreshTokens = new Map<string, IssuedGrant>();
+
+  const app = express();
+  app.use(
+    cors({
+      origin: true,
+      exposedHeaders: ["WWW-Authenticate", "Mcp-Session-Id"],
+    })
+  );
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  const protectedResourceMetadata = {
+    resource,
+    authorization_servers: [url],
+    scopes_supported: SCOPES,
+    bearer_methods_supported: ["header"],
+  };
+  app.get("/.well-known/oauth-protected-resource", (req, res) => {
+    res.json(protectedResourceMetadata);
+  });
+  app.get("/.well-known/oauth-protected-resource/mcp", (req, res) => {
+    res.json(protectedResourceMetadata);
+  });
+
+  app.get("/.well-known/oauth-authorization-server", (req, res) => {
+    res.json({
+      issuer: url,
+      authorization_endpoint: `${url}/authorize`,
+      token_endpoint: `${url}/token`,
+      registration_endpoint: `${url}/register`,
+      scopes_supported: SCOPES,
+      response_types_supported: ["code"],
+      grant_types_supported: ["authorization_code", "refresh_token"],
+      code_challenge_methods_supported: ["S256"],
+      token_endpoint_auth_methods_supported: ["none"],
+    });
+  });
+
+  app.post("/register", (req, res) => {
+    const redirectUris = req.body?.redirect_uris;
+    if (!Array.isArray(redirectUris) || redirectUris.length === 0) {
+      return res.status(400).json({
+        error: "invalid_redirect_uri",
+        error_description: "redirect_uris is required",
+      });
+    }
+
+    const clientId = `client_${randomUUID()}`;
+    clients.set(clientId, {
+      clientName: req.body.client_name,
+      redirectUris,
+    });
+    console.log(`[Mock OAuth] Registered ${clientId}`);
+
+    res.status(201).json({
+      client_id: clientId,
+      client_id_issued_at: Math.floor(Date.now() / 1000),
+      client_name: req.body.client_name,
+      redirect_uris: redirectUris,
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      token_endpoint_auth_method: "none",
+    });
+  });
+
+  app.get("/authorize", (req, res) => {
+    const params = req.query as Record<string, string | undefined>;
+    const client = params.client_id ? clients.get(params.client_id) : undefined;
+
+    // Without a known client and redirect URI there is nowhere safe to
+    // send an error, so it is shown here
+    if (
+      !client ||
+      !params.redirect_uri ||
+      !client.redirectUris.includes(params.redirect_uri)
+    ) {
+      return res
+        .status(400)
+        .send("Unknown client_id or unregistered redirect_uri");
+    }
+
+    if (
+      params.response_type !== "code" ||
+      !params.code_challenge ||
+      params.code_challenge_method !== "S256"
+    ) {
+      const redirect = new URL(params.redirect_uri);
+      redirect.searchParams.set("error", "invalid_request");
+      redirect.searchParams.set(
+        "error_description",
+        "response_type=code with an S256 code_challenge is required"
+      );
+      if (params.state) redirect.searchParams.set("state", params.state);
+      return res.redirect(redirect.toString());
+    }
+
+    const hiddenFields = [
+      "client_id",
+      "redirect_uri",
+      "code_challenge",
+      "state",
+      "scope",
+      "resource",
+    ]
+      .filter(name => params[name])
+      .map(
+        name =>
+          `<input type="hidden" name="${name}" value="${escapeHtml(params[name] as string)}" />`
+      )
+      .join("");
+
+    res.type("html").send(`<!DOCTYPE html>
+<html lang="en">
+  <head><meta charset="utf-8" /><title>Mock authorization</title></head>
+  <body style="font-family: system-ui, sans-serif; max-width: 420px; margin: 80px auto">
+    <h2>Authorize ${escapeHtml(client.clientName || "client")}?</h2>
+    <p>Scope: <code>${escapeHtml(params.scope || "(none)")}</code></p>
+    <p>Resource: <code>${escapeHtml(params.resource || "(none)")}</code></p>
+    <form method="post" action="/authorize">
+      ${hiddenFields}
+      <button name="decision" value="approve">Approve</button>
+      <button name="decision" value="deny">Deny</button>
+    </form>
+  </body>
+</html>`);
+  });
+
+  app.post("/authorize", (req, res) => {
+    const params = req.body as Record<string, string | undefined>;
+    const client = params.client_id ? clients.get(params.client_id) : undefined;
+    if (
+      !client ||
+      !params.redirect_uri ||
+      !client.redirectUris.includes(params.redirect_uri)
+    ) {
+      return res
+        .status(400)
+        .send("Unknown client_id or unregistered redirect_uri");
+    }
+
+    const redirect = new URL(params.redirect_uri);
+    if (params.state) redirect.searchParams.set("state", params.state);
+
+    if (params.decision !== "approve") {
+      redirect.searchParams.set("error", "access_denied");
+      return res.redirect(redirect.toString());
+    }
+
+    const code = randomToken();
+    codes.set(code, {
+      clientId: params.client_id as string,
+      redirectUri: params.redirect_uri,
+      codeChallenge: params.code_challenge as string,
+      resource: params.resource,
+      scope: params.scope,
+      expiresAt: Date.now() + 60000,
+    });
+    redirect.searchParams.set("code", code);
+    res.redirect(redirect.toString());
+  });
+
+  const issueTokens = (res: express.Response, grant: IssuedGrant) => {
+    const accessToken = randomToken();
+    const refreshToken = randomToken();
+    accessTokens.set(accessToken, {
+      ...grant,
+      expiresAt: Date.now() + tokenLifetime * 1000,
+    });
+    refreshTokens.set(refreshToken, grant);
+
+    res.set("Cache-Control", "no-store").json({
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: tokenLifetime,
+      refresh_token: refreshToken,
+      ...(grant.scope ? { scope: grant.scope } : {}),
+    });
+  };
+
+  app.post("/token", (req, res) => {
+    const params = req.body as Record<string, string | undefined>;
+    const invalidGrant = (description: string) =>
+      res
+        .status(400)
+        .json({ error: "invalid_grant", error_description: description });
+
+    if (params.grant_type === "authorization_code") {
+      const code = params.code ? codes.get(params.code) : undefined;
+      if (params.code) codes.delete(params.code);
+
+      if (!code || code.expiresAt < Date.now()) {
+        return invalidGrant("Unknown or expired authorization code");
+      }
+      if (
+        code.clientId !== params.client_id ||
+        code.redirectUri !== params.redirect_uri
+      ) {
+        return invalidGrant("client_id or redirect_uri does not match");
+      }
+
+      const challenge = createHash("sha256")
+        .update(params.code_verifier || "")
+        .digest("base64url");
+      if (challenge !== code.codeChallenge) {
+        return invalidGrant("code_verifier does not match the challenge");
+      }
+      if (params.resource && params.resource !== code.resource) {
+        return invalidGrant("resource does not match the authorization");
+      }
+
+      return issueTokens(res, {
+        clientId: code.clientId,
+        resource: code.resource,
+        scope: code.scope,
+      });
+    }
+
+    if (params.grant_type === "refresh_token") {
+      const grant = params.refresh_token
+        ? refreshTokens.get(params.refresh_token)
+        : undefined;
+      if (!grant || grant.clientId !== params.client_id) {
+        return invalidGrant("Unknown refresh token");
+      }
+
+      // Refresh tokens are rotated, as OAuth 2.1 asks of public clients
+      refreshTokens.delete(params.refresh_token as string);
+      return issueTokens(res, grant);
+    }
+
+    res.status(400).json({ error: "unsupported_grant_type" });
+  });
+
+  app.use("/mcp", (req, res, next) => {
+    const [scheme, token] = (req.headers.authorization || "").split(" ");
+    const grant = scheme === "Bearer" ? accessTokens.get(token) : undefined;
+
+    if (!grant || grant.expiresAt < Date.now()) {
+      const challenge = token
+        ? `Bearer error="invalid_token", resource_metadata="${resourceMetadataUrl}"`
+        : `Bearer resource_metadata="${resourceMetadataUrl}"`;
+      return res
+        .status(401)
+        .set("WWW-Authenticate", challenge)
+        .json({ error: token ? "invalid_token" : "unauthorized" });
+    }
+
+    res.locals.grant = grant;
+    next();
+  });
+
+  app.post("/mcp", (req, res) => {
+    const message = req.body;
+    const grant = res.locals.grant as IssuedGrant & { expiresAt: number };
+
+    if (message?.id === undefined) {
+      return res.status(202).end();
+    }
+
+    const reply = (result: unknown) =>
+      res.json({ jsonrpc: "2.0", id: message.id, result });
+
+    switch (message.method) {
+      case "initialize": {
+        const requested = message.params?.protocolVersion;
+        res.set("Mcp-Session-Id", randomUUID());
+        return reply({
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : SUPPORTED_PROTOCOL_VERSIONS[
+                SUPPORTED_PROTOCOL_VERSIONS.length - 1
+              ],
+          capabilities: { tools: {} },
+          serverInfo: { name: "mock-oauth-server", version: "1.0.0" },
+        });
+      }
+      case "ping":
+        return reply({});
+      case "tools/list":
+        return reply({
+          tools: [
+            {
+              name: "whoami",
+              description: "Describe the access token this call was made with",
+              inputSchema: { type: "object", properties: {} },
+            },
+          ],
+        });
+      case "tools/call":
+        if (message.params?.name !== "whoami") break;
+        return reply({
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  clientId: grant.clientId,
+                  scope: grant.scope,
+                  resource: grant.resource,
+                  expiresAt: new Date(grant.expiresAt).toISOString(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        });
+    }
+
+    res.json({
+      jsonrpc: "2.0",
+      id: message.id,
+      error: { code: -32601, message: `Method not found: ${message.method}` },
+    });
+  });
+
+  app.get("/mcp", (req, res) => {
+    res.status(405).set("Allow", "POST, DELETE").end();
+  });
+
+  app.delete("/mcp", (req, res) => {
+    res.status(200).end();
+  });
+
+  return { app, port, host, url };
+}
+
+export function startMockOAuthServer(
+  options: MockOAuthServerOptions = {}
+): Promise<{ url: string; mcpUrl: string }> {
+  return new Promise((resolve, reject) => {
+    const { app, port, host, url } = createMockOAuthServer(options);
+
+    const server = app.listen(port, host, () => {
+      console.log(`Mock OAuth server running on ${url}`);
+      console.log(`Protected MCP endpoint: ${url}/mcp`);
+      resolve({ url, mcpUrl: `${url}/mcp` });
+    });
+
+    server.on("error", err => {
+      reject(err);
+    });
+  });
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  startMockOAuthServer().catch(err => {
+    console.error("Failed to start mock OAuth server:", err);
+    process.exit(1);
+  });
+}
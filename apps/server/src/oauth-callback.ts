@@ -0,0 +1,57 @@
+/**
+ * Page authorization servers redirect back to at /oauth/callback. It hands
+ * the code to the UI through localStorage, which reaches the window that
+ * opened the popup even when an opener policy along the way cut
+ * window.opener. Full-page redirects are sent back to where they started.
+ */
+export const OAUTH_CALLBACK_PAGE = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>MCPConnect authorization</title>
+    <style>
+      body {
+        font-family: system-ui, sans-serif;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        height: 100vh;
+        margin: 0;
+        color: #374151;
+      }
+    </style>
+  </head>
+  <body>
+    <p id="message">Completing authorization…</p>
+    <script>
+      (function () {
+        var params = new URLSearchParams(window.location.search);
+        var result = {
+          code: params.get("code") || undefined,
+          state: params.get("state") || undefined,
+          error: params.get("error") || undefined,
+          errorDescription: params.get("error_description") || undefined,
+          receivedAt: Date.now(),
+        };
+
+        localStorage.setItem(
+          "mcpconnect:oauth-callback",
+          JSON.stringify(result)
+        );
+
+        var returnTo = sessionStorage.getItem("mcpconnect:oauth-return");
+        if (returnTo) {
+          sessionStorage.removeItem("mcpconnect:oauth-return");
+          window.location.replace(returnTo);
+          return;
+        }
+
+        document.getElementById("message").textContent = result.error
+          ? "Authorization failed. You can close this window."
+          : "Authorization complete. You can close this window.";
+        window.close();
+      })();
+    </script>
+  </body>
+</html>
+`;
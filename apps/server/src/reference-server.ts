@@ -0,0 +1,432 @@
+import express from "express";
+import cors from "cors";
+import { randomUUID } from "crypto";
+
+/**
+ * A small Streamable HTTP MCP server that follows the spec closely, for
+ * testing the conformance checker against. With broken set it gets a
+ * handful of things deliberately wrong, so every check has something to
+ * catch.
+ */
+
+export interface ReferenceServerOptions {
+  port?: number;
+  host?: string;
+  // Misbehave in the ways the conformance checks look for
+  broken?: boolean;
+}
+
+interface JsonRpcError {
+  code: number;
+  message: string;
+}
+
+const SUPPORTED_PROTOCOL_VERSIONS = ["2024-11-05", "2025-03-26", "2025-06-18"];
+const LOGGING_LEVELS = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+];
+// Small so that every list spans several pages
+const PAGE_SIZE = 2;
+
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const RESOURCE_NOT_FOUND = -32002;
+
+const TOOLS = [
+  {
+    name: "echo",
+    description: "Return the message it was given",
+    inputSchema: {
+      type: "object",
+      properties: { message: { type: "string" } },
+      required: ["message"],
+    },
+  },
+  {
+    name: "add",
+    description: "Add two numbers",
+    inputSchema: {
+      type: "object",
+      properties: { a: { type: "number" }, b: { type: "number" } },
+      required: ["a", "b"],
+    },
+  },
+  {
+    name: "get-time",
+    description: "Return the server's current time",
+    inputSchema: { type: "object", properties: {} },
+  },
+];
+
+// Structurally invalid, for the broken server to list
+const BROKEN_TOOL = {
+  name: "broken-schema",
+  description: "A tool whose input schema is not valid JSON Schema",
+  inputSchema: {
+    type: "map",
+    properties: { count: { type: "int" } },
+    required: "count",
+  },
+};
+
+const RESOURCES = [
+  {
+    uri: "reference://readme",
+    name: "readme",
+    mimeType: "text/plain",
+    text: "The reference server for the MCPConnect conformance checks.",
+  },
+  {
+    uri: "reference://config",
+    name: "config",
+    mimeType: "application/json",
+    text: JSON.stringify({ pageSize: PAGE_SIZE }),
+  },
+  {
+    uri: "reference://changelog",
+    name: "changelog",
+    mimeType: "text/plain",
+    text: "1.0.0: First release",
+  },
+];
+
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "reference://items/{id}",
+    name: "item",
+    mimeType: "application/json",
+  },
+];
+
+const PROMPTS = [
+  {
+    name: "greet",
+    description: "Greet someone by name",
+    arguments: [{ name: "name", required: true }],
+  },
+  { name: "summarize", description: "Summarize the conversation so far" },
+  {
+    name: "translate",
+    description: "Translate text into another language",
+    arguments: [
+      { name: "text", required: true },
+      { name: "language", required: true },
+    ],
+  },
+];
+
+class RpcError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const encodeCursor = (offset: number) =>
+  Buffer.from(`offset:${offset}`).toString("base64url");
+
+const decodeCursor = (cursor: unknown): number => {
+  const match =
+    typeof cursor === "string"
+      ? Buffer.from(cursor, "base64url")
+          .toString()
+          .match(/^offset:(\d+)$/)
+      : null;
+  if (!match) throw new RpcError(INVALID_PARAMS, "Invalid cursor");
+  return Number(match[1]);
+};
+
+export function createReferenceServer(options: ReferenceServerOptions = {}): {
+  app: express.Express;
+  port: number;
+  host: string;
+  url: string;
+} {
+  const { port = 3003, host = "localhost", broken = false } = options;
+  const url = `http://${host}:${port}`;
+  const sessions = new Set<string>();
+
+  const tools = broken ? [...TOOLS, BROKEN_TOOL] : TOOLS;
+
+  const paginate = <T>(items: T[], cursor: unknown) => {
+    let offset = 0;
+    if (cursor !== undefined) {
+      try {
+        offset = decodeCursor(cursor);
+      } catch (error) {
+        // The broken server starts over rather than rejecting the cursor
+        if (!broken) throw error;
+      }
+    }
+
+    const page = items.slice(offset, offset + PAGE_SIZE);
+    const next = offset + PAGE_SIZE;
+    if (next < items.length) {
+      return { page, nextCursor: encodeCursor(next) };
+    }
+    // The broken server hands out its last cursor again at the end
+    return broken && offset > 0
+      ? { page, nextCursor: encodeCursor(offset) }
+      : { page };
+  };
+
+  const requireString = (params: any, name: string): string => {
+    if (typeof params?.[name] !== "string") {
+      throw new RpcError(
+        broken ? -32603 : INVALID_PARAMS,
+        `Missing required parameter: ${name}`
+      );
+    }
+    return params[name];
+  };
+
+  const callTool = (name: string, args: Record<string, any>) => {
+    switch (name) {
+      case "echo":
+        return [{ type: "text", text: String(args.message ?? "") }];
+      case "add":
+        if (typeof args.a !== "number" || typeof args.b !== "number") {
+          throw new RpcError(INVALID_PARAMS, "a and b must be numbers");
+        }
+        return [{ type: "text", text: String(args.a + args.b) }];
+      case "get-time":
+        return [{ type: "text", text: new Date().toISOString() }];
+    }
+    throw new RpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+  };
+
+  const handleRequest = (method: string, params: any): unknown => {
+    switch (method) {
+      case "ping":
+        return broken ? { pong: true } : {};
+      case "tools/list": {
+        const { page, nextCursor } = paginate(tools, params?.cursor);
+        return { tools: page, ...(nextCursor ? { nextCursor } : {}) };
+      }
+      case "tools/call": {
+        const name = requireString(params, "name");
+        if (broken && !tools.some(tool => tool.name === name)) {
+          return {
+            content: [{ type: "text", text: `Unknown tool: ${name}` }],
+            isError: true,
+          };
+        }
+        return { content: callTool(name, params.arguments || {}) };
+      }
+      case "resources/list": {
+        const { page, nextCursor } = paginate(RESOURCES, params?.cursor);
+        return {
+          resources: page.map(({ uri, name, mimeType }) => ({
+            uri,
+            name,
+            mimeType,
+          })),
+          ...(nextCursor ? { nextCursor } : {}),
+        };
+      }
+      case "resources/templates/list": {
+        const { page, nextCursor } = paginate(
+          RESOURCE_TEMPLATES,
+          params?.cursor
+        );
+        return {
+          resourceTemplates: page,
+          ...(nextCursor ? { nextCursor } : {}),
+        };
+      }
+      case "resources/read": {
+        const uri = requireString(params, "uri");
+        const resource = RESOURCES.find(item => item.uri === uri);
+        if (!resource) {
+          throw new RpcError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+        }
+        return {
+          contents: [{ uri, mimeType: resource.mimeType, text: resource.text }],
+        };
+      }
+      case "prompts/list": {
+        const { page, nextCursor } = paginate(PROMPTS, params?.cursor);
+        return { prompts: page, ...(nextCursor ? { nextCursor } : {}) };
+      }
+      case "prompts/get": {
+        const name = requireString(params, "name");
+        const prompt = PROMPTS.find(item => item.name === name);
+        if (!prompt) {
+          throw new RpcError(INVALID_PARAMS, `Unknown prompt: ${name}`);
+        }
+        return {
+          description: prompt.description,
+          messages: [
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: `${prompt.description}: ${JSON.stringify(params.arguments || {})}`,
+              },
+            },
+          ],
+        };
+      }
+      case "logging/setLevel": {
+        // The broken server declares logging but doesn't implement it
+        if (broken) break;
+        if (!LOGGING_LEVELS.includes(params?.level)) {
+          throw new RpcError(INVALID_PARAMS, "Unknown logging level");
+        }
+        return {};
+      }
+      case "completion/complete":
+        return { completion: { values: [], total: 0, hasMore: false } };
+    }
+
+    throw new RpcError(
+      broken ? -32600 : METHOD_NOT_FOUND,
+      `Method not found: ${method}`
+    );
+  };
+
+  const answer = (
+    method: string,
+    params: any
+  ): { result: unknown } | { error: JsonRpcError } => {
+    try {
+      return { result: handleRequest(method, params) };
+    } catch (error) {
+      if (error instanceof RpcError) {
+        return { error: { code: error.code, message: error.message } };
+      }
+      return {
+        error: {
+          code: -32603,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  };
+
+  const app = express();
+  app.use(cors({ origin: true, exposedHeaders: ["Mcp-Session-Id"] }));
+  app.use(express.json());
+
+  app.post("/mcp", (req, res) => {
+    const message = req.body;
+    const sessionId = req.header("Mcp-Session-Id");
+
+    if (message?.method !== "initialize") {
+      if (!sessionId) {
+        return res.status(400).json({
+          jsonrpc: "2.0",
+          id: null,
+          error: { code: -32600, message: "Missing Mcp-Session-Id header" },
+        });
+      }
+      if (!sessions.has(sessionId)) {
+        return res.status(404).end();
+      }
+    }
+
+    // Batches are answered with an array of the responses to their requests
+    if (Array.isArray(message)) {
+      const responses = message
+        .filter(item => item?.id !== undefined && item.method !== undefined)
+        .map(item => ({
+          jsonrpc: "2.0",
+          id: item.id,
+          ...answer(item.method, item.params),
+        }));
+      return responses.length > 0 ? res.json(responses) : res.status(202).end();
+    }
+
+    // Notifications and responses to server requests carry no id to answer
+    if (message?.id === undefined || message.method === undefined) {
+      if (broken && message?.method === "notifications/cancelled") {
+        return res.status(400).end();
+      }
+      return res.status(202).end();
+    }
+
+    const reply = (body: { result: unknown } | { error: JsonRpcError }) =>
+      res.json({ jsonrpc: "2.0", id: message.id, ...body });
+
+    if (message.method === "initialize") {
+      const requested = message.params?.protocolVersion;
+      const newSessionId = randomUUID();
+      sessions.add(newSessionId);
+      res.set("Mcp-Session-Id", newSessionId);
+
+      return reply({
+        result: {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+            ? requested
+            : SUPPORTED_PROTOCOL_VERSIONS[
+                SUPPORTED_PROTOCOL_VERSIONS.length - 1
+              ],
+          capabilities: {
+            tools: { listChanged: false },
+            resources: { subscribe: false, listChanged: false },
+            prompts: { listChanged: false },
+            logging: {},
+            completions: {},
+          },
+          serverInfo: broken
+            ? { name: "reference-server" }
+            : { name: "reference-server", version: "1.0.0" },
+          instructions:
+            "Reference server for the MCPConnect protocol conformance checks.",
+        },
+      });
+    }
+
+    return reply(answer(message.method, message.params));
+  });
+
+  app.get("/mcp", (req, res) => {
+    res.status(405).set("Allow", "POST, DELETE").end();
+  });
+
+  app.delete("/mcp", (req, res) => {
+    const sessionId = req.header("Mcp-Session-Id");
+    if (sessionId) sessions.delete(sessionId);
+    res.status(200).end();
+  });
+
+  return { app, port, host, url };
+}
+
+export function startReferenceServer(
+  options: ReferenceServerOptions = {}
+): Promise<{ url: string; mcpUrl: string }> {
+  return new Promise((resolve, reject) => {
+    const { app, port, host, url } = createReferenceServer(options);
+
+    const server = app.listen(port, host, () => {
+      console.log(
+        `Reference MCP server${options.broken ? " (broken)" : ""} running on ${url}`
+      );
+      console.log(`Streamable HTTP endpoint: ${url}/mcp`);
+      resolve({ url, mcpUrl: `${url}/mcp` });
+    });
+
+    server.on("error", err => {
+      reject(err);
+    });
+  });
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  startReferenceServer({ broken: process.argv.includes("--broken") }).catch(
+    err => {
+      console.error("Failed to start reference server:", err);
+      process.exit(1);
+    }
+  );
+}
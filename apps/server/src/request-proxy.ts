@@ -0,0 +1,278 @@
+import http, { type IncomingHttpHeaders, type IncomingMessage } from "http";
+import https from "https";
+import type { Duplex } from "stream";
+import express from "express";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+import { LOCAL_TOKEN_PARAM, type LocalAccess } from "./local-access.js";
+
+/**
+ * Forwards requests from the UI to servers it cannot reach directly, such
+ * as MCP servers without CORS headers. The target is passed as
+ * /api/proxy?url=<target>. Bodies and responses are streamed as they come,
+ * so SSE streams stay live, and WebSocket upgrades to the same route are
+ * relayed frame by frame.
+ */
+
+export interface RequestProxyOptions {
+  // Host patterns targets must match: "example.com", "example.com:8080",
+  // "*.example.com", or "*" for any host
+  allowedHosts: string[];
+  access: LocalAccess;
+}
+
+const PROXY_PATH = "/api/proxy";
+
+// Headers about one connection, which are not passed on either way
+const HOP_BY_HOP_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+]);
+
+// Headers the browser adds for this server rather than for the target
+const DROPPED_REQUEST_HEADERS = new Set([
+  "host",
+  "origin",
+  "referer",
+  "cookie",
+]);
+
+const filterRequestHeaders = (headers: IncomingHttpHeaders) => {
+  const filtered: IncomingHttpHeaders = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    if (HOP_BY_HOP_HEADERS.has(name) || DROPPED_REQUEST_HEADERS.has(name)) {
+      return;
+    }
+    if (name.startsWith("sec-") || name.startsWith("x-forwarded-")) return;
+    filtered[name] = value;
+  });
+  return filtered;
+};
+
+// Cookies would be set for this server, and CORS is answered by it too
+const isForwardedResponseHeader = (name: string) =>
+  !HOP_BY_HOP_HEADERS.has(name) &&
+  name !== "set-cookie" &&
+  !name.startsWith("access-control-");
+
+const toProxyUrl = (target: string, token: string) =>
+  `${PROXY_PATH}?url=${encodeURIComponent(target)}&${LOCAL_TOKEN_PARAM}=${encodeURIComponent(token)}`;
+
+// WebSocket close codes that can't be sent in a close frame
+const toSendableCloseCode = (code: number) =>
+  code === 1005 || code === 1006 || code === 1015 ? 1011 : code;
+
+export class RequestProxy {
+  private allowedHosts: string[];
+  private access: LocalAccess;
+  private wss = new WebSocketServer({ noServer: true });
+
+  constructor(options: RequestProxyOptions) {
+    this.allowedHosts = options.allowedHosts.map(host => host.toLowerCase());
+    this.access = options.access;
+  }
+
+  private isAllowed(target: URL): boolean {
+    const hostname = target.hostname.toLowerCase();
+    const host = target.host.toLowerCase();
+
+    return this.allowedHosts.some(pattern => {
+      if (pattern === "*") return true;
+      if (pattern.startsWith("*.")) {
+        return hostname.endsWith(pattern.slice(1));
+      }
+      return pattern.includes(":") ? host === pattern : hostname === pattern;
+    });
+  }
+
+  /**
+   * Parse and check the target of a proxied request. Returns an error
+   * status and message when it can't be forwarded.
+   */
+  private resolveTarget(
+    req: IncomingMessage,
+    protocols: string[]
+  ): URL | { status: number; error: string } {
+    if (!this.access.isAllowed(req)) {
+      return {
+        status: 403,
+        error: "Only the MCPConnect UI can send requests through the proxy",
+      };
+    }
+
+    const param = new URL(req.url || "/", "http://localhost").searchParams.get(
+      "url"
+    );
+    if (!param) {
+      return { status: 400, error: "url is required" };
+    }
+
+    let target: URL;
+    try {
+      target = new URL(param);
+    } catch {
+      return { status: 400, error: `Invalid target URL: ${param}` };
+    }
+
+    if (!protocols.includes(target.protocol)) {
+      return {
+        status: 400,
+        error: `Unsupported protocol for this request: ${target.protocol}`,
+      };
+    }
+    if (!this.isAllowed(target)) {
+      return {
+        status: 403,
+        error: `${target.host} is not in the proxy allowlist`,
+      };
+    }
+    return target;
+  }
+
+  createRouter(): express.Router {
+    const router = express.Router();
+
+    router.all("/", (req, res) => {
+      // Without a target, tell the UI the proxy is there
+      if (req.method === "GET" && !req.query.url) {
+        if (!this.access.isAllowed(req)) {
+          return res
+            .status(403)
+            .json({ error: "Only the MCPConnect UI can use the proxy" });
+        }
+        return res.json({ enabled: true, allowedHosts: this.allowedHosts });
+      }
+
+      const target = this.resolveTarget(req, ["http:", "https:"]);
+      if (!(target instanceof URL)) {
+        return res.status(target.status).json({ error: target.error });
+      }
+
+      const client = target.protocol === "https:" ? https : http;
+      const upstream = client.request(
+        target,
+        {
+          method: req.method,
+          headers: filterRequestHeaders(req.headers),
+        },
+        upstreamRes => {
+          res.status(upstreamRes.statusCode || 502);
+
+          Object.entries(upstreamRes.headers).forEach(([name, value]) => {
+            if (value === undefined || !isForwardedResponseHeader(name)) {
+              return;
+            }
+            // Redirects are followed through the proxy as well. A Location
+            // that isn't a URL is passed on as it is.
+            if (name === "location" && typeof value === "string") {
+              let location: URL;
+              try {
+                location = new URL(value, target);
+              } catch {
+                res.setHeader(name, value);
+                return;
+              }
+              res.setHeader(name, toProxyUrl(location.href, this.access.token));
+              return;
+            }
+            res.setHeader(name, value);
+          });
+
+          res.flushHeaders();
+          upstreamRes.pipe(res);
+        }
+      );
+
+      upstream.on("error", error => {
+        console.error(`[proxy] ${req.method} ${target.href} failed:`, error);
+        if (res.headersSent) {
+          res.destroy();
+        } else {
+          res.status(502).json({ error: `Proxy request failed: ${error}` });
+        }
+      });
+
+      // Stop the upstream request when the browser goes away, such as
+      // when it closes an SSE stream
+      res.on("close", () => upstream.destroy());
+
+      req.pipe(upstream);
+    });
+
+    return router;
+  }
+
+  /**
+   * Take a WebSocket upgrade if it is for the proxy. Returns false for other
+   * paths so the caller can pass it on.
+   */
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean {
+    if (new URL(req.url || "/", "http://localhost").pathname !== PROXY_PATH) {
+      return false;
+    }
+
+    const target = this.resolveTarget(req, ["ws:", "wss:"]);
+    if (!(target instanceof URL)) {
+      socket.write(
+        `HTTP/1.1 ${target.status} ${http.STATUS_CODES[target.status]}\r\n\r\n`
+      );
+      socket.destroy();
+      return true;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, client =>
+      this.relay(client, target, req)
+    );
+    return true;
+  }
+
+  private relay(client: WebSocket, target: URL, req: IncomingMessage) {
+    const protocols = req.headers["sec-websocket-protocol"]
+      ?.split(",")
+      .map(protocol => protocol.trim())
+      .filter(Boolean);
+    const upstream = new WebSocket(target, protocols);
+    // Frames the browser sends before the target has accepted the socket
+    const queued: Array<{ data: RawData; isBinary: boolean }> = [];
+
+    upstream.on("open", () => {
+      queued.forEach(({ data, isBinary }) =>
+        upstream.send(data, { binary: isBinary })
+      );
+      queued.length = 0;
+    });
+    upstream.on("message", (data, isBinary) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(data, { binary: isBinary });
+      }
+    });
+    upstream.on("close", (code, reason) => {
+      client.close(toSendableCloseCode(code), reason);
+    });
+    upstream.on("error", error => {
+      console.error(`[proxy] WebSocket to ${target.href} failed:`, error);
+      client.close(1011, "Proxy connection failed");
+    });
+
+    client.on("message", (data, isBinary) => {
+      if (upstream.readyState === WebSocket.OPEN) {
+        upstream.send(data, { binary: isBinary });
+      } else if (upstream.readyState === WebSocket.CONNECTING) {
+        queued.push({ data, isBinary });
+      }
+    });
+    client.on("close", (code, reason) => {
+      if (upstream.readyState === WebSocket.CONNECTING) {
+        upstream.terminate();
+      } else if (upstream.readyState === WebSocket.OPEN) {
+        upstream.close(toSendableCloseCode(code), reason);
+      }
+    });
+  }
+}
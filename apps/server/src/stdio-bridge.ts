@@ -0,0 +1,456 @@
+import { spawn, type ChildProcess } from "child_process";
+import type { IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import express from "express";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { LocalAccess } from "./local-access.js";
+
+/**
+ * Runs stdio MCP servers for the UI. Each bridged server is configured with
+ * PUT /api/stdio/:id and reached over a WebSocket at /api/stdio/:id/ws,
+ * which carries one JSON-RPC message per frame to and from the process.
+ */
+
+export interface StdioServerConfig {
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  cwd?: string;
+}
+
+export interface StdioProcessStatus {
+  state: "stopped" | "running" | "exited";
+  command: string;
+  args: string[];
+  pid?: number;
+  exitCode?: number | null;
+  signal?: string | null;
+  startedAt?: string;
+  error?: string;
+}
+
+interface StderrLine {
+  seq: number;
+  line: string;
+  timestamp: string;
+}
+
+type BridgeEvent =
+  | { type: "status"; status: StdioProcessStatus }
+  | { type: "stderr"; entry: StderrLine };
+
+// Lines of stderr kept per process for clients that subscribe later
+const STDERR_BUFFER_SIZE = 500;
+// Processes that ignore SIGTERM are killed after this long
+const STOP_TIMEOUT = 5000;
+
+const BRIDGE_PATH = /^\/api\/stdio\/([^/]+)\/ws$/;
+
+const parseConfig = (body: any): StdioServerConfig | string => {
+  if (typeof body?.command !== "string" || !body.command.trim()) {
+    return "command is required";
+  }
+
+  const args = body.args ?? [];
+  if (!Array.isArray(args) || args.some(arg => typeof arg !== "string")) {
+    return "args must be an array of strings";
+  }
+
+  const env = body.env ?? {};
+  if (
+    typeof env !== "object" ||
+    Array.isArray(env) ||
+    Object.values(env).some(value => typeof value !== "string")
+  ) {
+    return "env must map names to strings";
+  }
+
+  if (body.cwd !== undefined && typeof body.cwd !== "string") {
+    return "cwd must be a string";
+  }
+
+  return {
+    command: body.command.trim(),
+    args,
+    env,
+    cwd: body.cwd?.trim() || undefined,
+  };
+};
+
+class StdioProcess {
+  private child?: ChildProcess;
+  private socket?: WebSocket;
+  // Whether a client has used the running process. The next client gets a
+  // fresh one, since stdio servers expect a single initialize.
+  private claimed = false;
+  private stopping = false;
+  private stdoutBuffer = "";
+  private stderrBuffer = "";
+  // Lines of stdout that arrived with no client to send them to
+  private droppedLines = 0;
+  private stderr: StderrLine[] = [];
+  private nextSeq = 1;
+  private status: StdioProcessStatus;
+  private listeners = new Set<(event: BridgeEvent) => void>();
+
+  constructor(public config: StdioServerConfig) {
+    this.status = {
+      state: "stopped",
+      command: config.command,
+      args: config.args,
+    };
+  }
+
+  getStatus(): StdioProcessStatus {
+    return this.status;
+  }
+
+  getStderr(): StderrLine[] {
+    return this.stderr;
+  }
+
+  subscribe(listener: (event: BridgeEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: BridgeEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private setStatus(status: Omit<StdioProcessStatus, "command" | "args">) {
+    this.status = {
+      ...status,
+      command: this.config.command,
+      args: this.config.args,
+    };
+    this.emit({ type: "status", status: this.status });
+  }
+
+  private appendStderr(line: string) {
+    const entry = {
+      seq: this.nextSeq++,
+      line,
+      timestamp: new Date().toISOString(),
+    };
+    this.stderr.push(entry);
+    if (this.stderr.length > STDERR_BUFFER_SIZE) {
+      this.stderr.shift();
+    }
+    this.emit({ type: "stderr", entry });
+  }
+
+  start(): void {
+    if (this.child) return;
+
+    const { command, args, env, cwd } = this.config;
+    this.claimed = false;
+    this.stdoutBuffer = "";
+    this.stderrBuffer = "";
+
+    let child: ChildProcess;
+    try {
+      child = spawn(command, args, {
+        cwd,
+        env: { ...process.env, ...env },
+        stdio: ["pipe", "pipe", "pipe"],
+        // Commands like npx are .cmd scripts on Windows
+        shell: process.platform === "win32",
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.appendStderr(`[bridge] ${message}`);
+      this.setStatus({ state: "exited", error: message });
+      return;
+    }
+
+    this.child = child;
+    this.setStatus({
+      state: "running",
+      pid: child.pid,
+      startedAt: new Date().toISOString(),
+    });
+
+    child.stdout?.setEncoding("utf8");
+    child.stdout?.on("data", (chunk: string) => this.handleStdout(chunk));
+    child.stderr?.setEncoding("utf8");
+    child.stderr?.on("data", (chunk: string) => this.handleStderr(chunk));
+    // Writes racing the process's exit fail with EPIPE
+    child.stdin?.on("error", () => {});
+
+    // Spawn failures such as a missing command only arrive as errors
+    child.on("error", error => {
+      this.appendStderr(`[bridge] ${error.message}`);
+      this.handleExit(child, null, null, error.message);
+    });
+    child.on("exit", (code, signal) => this.handleExit(child, code, signal));
+  }
+
+  private handleStdout(chunk: string) {
+    this.stdoutBuffer += chunk;
+    const lines = this.stdoutBuffer.split("\n");
+    this.stdoutBuffer = lines.pop() || "";
+
+    for (const rawLine of lines) {
+      const line = rawLine.replace(/\r$/, "");
+      if (!line.trim()) continue;
+
+      if (this.socket && this.socket.readyState === this.socket.OPEN) {
+        this.socket.send(line);
+      } else {
+        this.droppedLines++;
+      }
+    }
+  }
+
+  // Dropped lines are reported as one total once a client attaches or the
+  // process exits
+  private reportDroppedLines() {
+    if (this.droppedLines === 0) return;
+    console.log(
+      `[stdio] Dropped ${this.droppedLines} line(s) of output from ${this.config.command} with no client attached`
+    );
+    this.droppedLines = 0;
+  }
+
+  private handleStderr(chunk: string) {
+    this.stderrBuffer += chunk;
+    const lines = this.stderrBuffer.split("\n");
+    this.stderrBuffer = lines.pop() || "";
+    lines.forEach(line => this.appendStderr(line.replace(/\r$/, "")));
+  }
+
+  private handleExit(
+    child: ChildProcess,
+    exitCode: number | null,
+    signal: string | null,
+    error?: string
+  ) {
+    if (this.child !== child) return;
+    this.child = undefined;
+    this.reportDroppedLines();
+
+    if (this.stderrBuffer) {
+      this.appendStderr(this.stderrBuffer);
+      this.stderrBuffer = "";
+    }
+
+    const stopped = this.stopping;
+    this.stopping = false;
+    this.setStatus({
+      state: stopped ? "stopped" : "exited",
+      exitCode,
+      signal,
+      error,
+    });
+
+    // Close reasons are limited to 123 bytes
+    const reason = stopped
+      ? "Process stopped"
+      : error || `Process exited with ${signal || `code ${exitCode}`}`;
+    this.socket?.close(stopped ? 1000 : 1011, reason.slice(0, 120));
+    this.socket = undefined;
+  }
+
+  stop(): Promise<void> {
+    const child = this.child;
+    if (!child) return Promise.resolve();
+
+    this.stopping = true;
+    return new Promise(resolve => {
+      const timer = setTimeout(() => child.kill("SIGKILL"), STOP_TIMEOUT);
+      child.once("exit", () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      child.stdin?.end();
+      child.kill("SIGTERM");
+    });
+  }
+
+  async restart(): Promise<void> {
+    await this.stop();
+    this.start();
+  }
+
+  /** Kill without waiting, for when the server itself is exiting */
+  kill(): void {
+    this.child?.kill();
+  }
+
+  attach(socket: WebSocket): void {
+    const previous = this.socket;
+    this.socket = undefined;
+    previous?.close(1000, "Replaced by a new client");
+
+    // The socket is only attached once the process for its session is up,
+    // so a restart does not close it along with the old process
+    const ready = (async () => {
+      if (this.child && this.claimed) {
+        await this.restart();
+      }
+      this.start();
+
+      if (!this.child) {
+        socket.close(1011, this.status.error || "Process failed to start");
+      } else if (socket.readyState === socket.OPEN) {
+        this.reportDroppedLines();
+        this.socket = socket;
+      }
+    })();
+
+    socket.on("message", data => {
+      ready.then(() => {
+        if (this.socket !== socket) return;
+        this.claimed = true;
+        this.child?.stdin?.write(`${data.toString()}\n`);
+      });
+    });
+
+    socket.on("close", () => {
+      if (this.socket === socket) {
+        this.socket = undefined;
+      }
+    });
+  }
+}
+
+export class StdioBridge {
+  private processes = new Map<string, StdioProcess>();
+  private wss = new WebSocketServer({ noServer: true });
+
+  constructor(private access: LocalAccess) {}
+
+  createRouter(): express.Router {
+    const router = express.Router();
+
+    router.use((req, res, next) => {
+      if (!this.access.isAllowed(req)) {
+        return res
+          .status(403)
+          .json({ error: "Only the MCPConnect UI can control processes" });
+      }
+      next();
+    });
+
+    router.get("/", (req, res) => {
+      res.json({ enabled: true, platform: process.platform });
+    });
+
+    router.put("/:id", async (req, res) => {
+      const config = parseConfig(req.body);
+      if (typeof config === "string") {
+        return res.status(400).json({ error: config });
+      }
+
+      const existing = this.processes.get(req.params.id);
+      if (!existing) {
+        const created = new StdioProcess(config);
+        this.processes.set(req.params.id, created);
+        return res.json(created.getStatus());
+      }
+
+      // A changed config takes effect by restarting a running process
+      if (JSON.stringify(existing.config) !== JSON.stringify(config)) {
+        const wasRunning = existing.getStatus().state === "running";
+        await existing.stop();
+        existing.config = config;
+        if (wasRunning) existing.start();
+      }
+      res.json(existing.getStatus());
+    });
+
+    router.get("/:id", (req, res) => {
+      const bridged = this.processes.get(req.params.id);
+      if (!bridged) {
+        return res.status(404).json({ error: "Unknown stdio server" });
+      }
+      res.json({ ...bridged.getStatus(), stderr: bridged.getStderr() });
+    });
+
+    router.post("/:id/:action(start|stop|restart)", async (req, res) => {
+      const bridged = this.processes.get(req.params.id);
+      if (!bridged) {
+        return res.status(404).json({ error: "Unknown stdio server" });
+      }
+
+      switch (req.params.action) {
+        case "start":
+          bridged.start();
+          break;
+        case "stop":
+          await bridged.stop();
+          break;
+        case "restart":
+          await bridged.restart();
+          break;
+      }
+      res.json(bridged.getStatus());
+    });
+
+    router.delete("/:id", async (req, res) => {
+      const bridged = this.processes.get(req.params.id);
+      if (bridged) {
+        await bridged.stop();
+        this.processes.delete(req.params.id);
+      }
+      res.status(204).end();
+    });
+
+    router.get("/:id/events", (req, res) => {
+      const bridged = this.processes.get(req.params.id);
+      if (!bridged) {
+        return res.status(404).json({ error: "Unknown stdio server" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+
+      const send = (event: BridgeEvent) => {
+        const data = event.type === "status" ? event.status : event.entry;
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      send({ type: "status", status: bridged.getStatus() });
+      bridged.getStderr().forEach(entry => send({ type: "stderr", entry }));
+
+      const unsubscribe = bridged.subscribe(send);
+      req.on("close", unsubscribe);
+    });
+
+    return router;
+  }
+
+  /**
+   * Take a WebSocket upgrade if it is for a bridged server. Returns false
+   * for other paths so the caller can pass it on.
+   */
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean {
+    const match = BRIDGE_PATH.exec(
+      new URL(req.url || "/", "http://localhost").pathname
+    );
+    if (!match) return false;
+
+    const allowed = this.access.isAllowed(req);
+    const bridged = this.processes.get(decodeURIComponent(match[1]));
+    if (!allowed || !bridged) {
+      socket.write(
+        `HTTP/1.1 ${allowed ? "404 Not Found" : "403 Forbidden"}\r\n\r\n`
+      );
+      socket.destroy();
+      return true;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, ws => bridged.attach(ws));
+    return true;
+  }
+
+  killAll(): void {
+    this.processes.forEach(bridged => bridged.kill());
+  }
+}
@@ -12,13 +12,23 @@ import {
   ChatInterface,
   ConnectionView,
   ToolDetailPage,
+  PromptDetailPage,
+  ResourceBrowserPage,
+  ConsolePage,
+  SamplingRequestHandler,
 } from "./components";
 import { useStorage } from "./contexts/StorageContext";
 import { InspectorProvider, InspectorUI } from "./contexts/InspectorProvider";
+import { ElicitationProvider } from "./contexts/ElicitationProvider";
+import { ServerLogProvider } from "./contexts/ServerLogProvider";
+import { TrafficProvider } from "./contexts/TrafficProvider";
+import { HealthMonitorProvider } from "./contexts/HealthMonitorProvider";
+import { useOAuthTokens } from "./hooks/useOAuthTokens";
 
 function AppContent() {
   const { connections, resources, conversations, isLoading, error } =
     useStorage();
+  useOAuthTokens();
 
   if (isLoading) {
     return (
@@ -92,50 +102,82 @@ function AppContent() {
 
   return (
     <InspectorProvider>
-      <MCPLayout
-        header={<Header />}
-        sidebar={<Sidebar connections={connections} resources={resources} />}
-        inspector={<InspectorUI />}
-      >
-        <Routes>
-          {/* Connections overview */}
-          <Route
-            path="/connections"
-            element={<ConnectionView connections={connections} />}
-          />
-
-          {/* Connection redirects */}
-          <Route
-            path="/connections/:connectionId"
-            element={<ConnectionChatRedirect />}
-          />
-
-          <Route
-            path="/connections/:connectionId/chat"
-            element={<ConnectionChatRedirect />}
-          />
-
-          {/* Chat interface */}
-          <Route
-            path="/connections/:connectionId/chat/:chatId"
-            element={<ChatInterface />}
-          />
-
-          <Route
-            path="/connections/:connectionId/chat/:chatId/tools/:toolId"
-            element={<ChatInterface expandedToolCall={true} />}
-          />
-
-          {/* Tool detail page - now uses the same layout */}
-          <Route
-            path="/connections/:connectionId/tools/:toolId"
-            element={<ToolDetailPage />}
-          />
-
-          {/* Catch-all for main app routes */}
-          <Route path="*" element={<Navigate to="/connections" replace />} />
-        </Routes>
-      </MCPLayout>
+      <ServerLogProvider>
+        <TrafficProvider>
+          <HealthMonitorProvider>
+            <ElicitationProvider>
+              <MCPLayout
+                header={<Header />}
+                sidebar={
+                  <Sidebar connections={connections} resources={resources} />
+                }
+                inspector={<InspectorUI />}
+              >
+                <Routes>
+                  {/* Connections overview */}
+                  <Route
+                    path="/connections"
+                    element={<ConnectionView connections={connections} />}
+                  />
+
+                  {/* Connection redirects */}
+                  <Route
+                    path="/connections/:connectionId"
+                    element={<ConnectionChatRedirect />}
+                  />
+
+                  <Route
+                    path="/connections/:connectionId/chat"
+                    element={<ConnectionChatRedirect />}
+                  />
+
+                  {/* Chat interface */}
+                  <Route
+                    path="/connections/:connectionId/chat/:chatId"
+                    element={<ChatInterface />}
+                  />
+
+                  <Route
+                    path="/connections/:connectionId/chat/:chatId/tools/:toolId"
+                    element={<ChatInterface expandedToolCall={true} />}
+                  />
+
+                  {/* Tool detail page - now uses the same layout */}
+                  <Route
+                    path="/connections/:connectionId/tools/:toolId"
+                    element={<ToolDetailPage />}
+                  />
+
+                  {/* Prompt detail page */}
+                  <Route
+                    path="/connections/:connectionId/prompts/:promptName"
+                    element={<PromptDetailPage />}
+                  />
+
+                  {/* Resource browser */}
+                  <Route
+                    path="/connections/:connectionId/resources"
+                    element={<ResourceBrowserPage />}
+                  />
+
+                  {/* Raw JSON-RPC console */}
+                  <Route
+                    path="/connections/:connectionId/console"
+                    element={<ConsolePage />}
+                  />
+
+                  {/* Catch-all for main app routes */}
+                  <Route
+                    path="*"
+                    element={<Navigate to="/connections" replace />}
+                  />
+                </Routes>
+              </MCPLayout>
+              <SamplingRequestHandler />
+            </ElicitationProvider>
+          </HealthMonitorProvider>
+        </TrafficProvider>
+      </ServerLogProvider>
     </InspectorProvider>
   );
 }
@@ -4,10 +4,12 @@ import { useParams, useNavigate } from "react-router-dom";
 import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { useStorage } from "../contexts/StorageContext";
 import { useInspector } from "../contexts/InspectorProvider";
+import { useElicitation } from "../contexts/ElicitationProvider";
 import { ModelService, LLMSettings } from "../services/modelService";
 import { ChatService } from "../services/chatService";
 import { SettingsModal } from "./SettingsModal";
 import { ChatExportButton } from "./ChatExportButton";
+import { ToolApprovalDialog } from "./ToolApprovalDialog";
 import { nanoid } from "nanoid";
 import {
   ChatTabs,
@@ -26,7 +28,10 @@ import { useChatConversationWarnings } from "../hooks/useChatConversationWarning
 import { useChatStreaming } from "../hooks/useChatStreaming";
 import { useChatConversationManager } from "../hooks/useChatConversationManager";
 import { useNeo4jSync } from "../hooks/useNeo4jSync";
+import { useActiveToolCalls } from "../hooks/useActiveToolCalls";
+import { useResourceReader } from "../hooks/useResourceReader";
 import { createToolSelectionProvider } from "../services/mcpRagService";
+import type { ToolApprovalRequest } from "@mcpconnect/adapter-ai-sdk";
 import type {
   ToolSelectionProvider,
   ToolSelectionCallbacks,
@@ -112,6 +117,7 @@ export const ChatInterface = (_args: ChatInterfaceProps) => {
   } = useStorage();
   const { expandedToolCall: inspectorExpandedTool, syncToolCallState } =
     useInspector();
+  const { isAwaitingInput } = useElicitation();
 
   // Local state for UI interactions
   const [messageInput, setMessageInput] = useState("");
@@ -122,15 +128,23 @@ export const ChatInterface = (_args: ChatInterfaceProps) => {
   const [isLoadingSettings, setIsLoadingSettings] = useState(true);
   const [settingsPreSelectedConnectionId, setSettingsPreSelectedConnectionId] =
     useState<string | undefined>(undefined);
+  const [pendingApproval, setPendingApproval] = useState<{
+    request: ToolApprovalRequest;
+    resolve: (approved: boolean) => void;
+  } | null>(null);
 
   // Reactive tool state - forces re-render when tool enablement changes
   const [, setToolStateVersion] = useState(0);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Settles the approval being waited on, for cleanups that can't see state
+  const denyPendingApprovalRef = useRef<(() => void) | null>(null);
 
   // Get the current connection and conversation using chat ID
   const currentConnection = connections.find(conn => conn.id === connectionId);
+  const { findActiveCall, cancelCall } = useActiveToolCalls();
+  const readResource = useResourceReader(currentConnection);
   const currentConversation =
     chatId && chatId !== "new"
       ? (conversations[connectionId || ""] || []).find(
@@ -208,6 +222,49 @@ export const ChatInterface = (_args: ChatInterfaceProps) => {
     initializeTokenUsageForStreaming,
   } = useChatStreaming(updateConversationMessages, refreshAll);
 
+  // A tool call mid-stream may be blocked on an elicitation form or on
+  // approval to run a destructive tool
+  const streamingStatus = pendingApproval
+    ? `Waiting for approval to run ${pendingApproval.request.tool.name}...`
+    : streamingState.isStreaming && isAwaitingInput(currentConnection?.url)
+      ? "Waiting for your input..."
+      : streamingState.streamingStatus;
+
+  // The agent loop stays paused until the approval dialog is answered. The
+  // call is denied if the stream is aborted first, so the loop can finish.
+  const confirmToolCall = useCallback(
+    (request: ToolApprovalRequest) =>
+      new Promise<boolean>(resolve => {
+        const signal = abortControllerRef.current?.signal;
+        if (signal?.aborted) {
+          resolve(false);
+          return;
+        }
+
+        const settle = (approved: boolean) => {
+          signal?.removeEventListener("abort", deny);
+          denyPendingApprovalRef.current = null;
+          setPendingApproval(null);
+          resolve(approved);
+        };
+        const deny = () => settle(false);
+
+        signal?.addEventListener("abort", deny);
+        denyPendingApprovalRef.current = deny;
+        setPendingApproval({ request, resolve: settle });
+      }),
+    []
+  );
+
+  const answerToolApproval = (approved: boolean) => {
+    pendingApproval?.resolve(approved);
+  };
+
+  // An approval asked for in one chat is denied when leaving it
+  useEffect(() => {
+    return () => denyPendingApprovalRef.current?.();
+  }, [connectionId, chatId]);
+
   const {
     connectionConversations,
     isCreatingChat,
@@ -500,12 +557,14 @@ export const ChatInterface = (_args: ChatInterfaceProps) => {
     streamingState.streamingToolMessages,
   ]);
 
-  // Cleanup abort controller on unmount
+  // Cleanup abort controller on unmount, which also denies any approval
+  // still waiting
   useEffect(() => {
     return () => {
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
+      denyPendingApprovalRef.current?.();
     };
   }, []);
 
@@ -743,6 +802,9 @@ export const ChatInterface = (_args: ChatInterfaceProps) => {
           fallbackToAll: true,
         },
         toolSelectionCallbacks,
+        confirmToolCall: currentConnection.confirmDestructiveTools
+          ? confirmToolCall
+          : undefined,
       };
 
       if (!ChatService.validateChatContext(chatContext)) {
@@ -796,6 +858,11 @@ export const ChatInterface = (_args: ChatInterfaceProps) => {
                       response: {
                         success: true,
                         result: toolMsg.toolExecution.result,
+                        structuredContent:
+                          toolMsg.toolExecution.structuredContent,
+                        outputValidation:
+                          toolMsg.toolExecution.outputValidation,
+                        content: toolMsg.toolExecution.content,
                         timestamp: now.toISOString(),
                       },
                     }
@@ -985,6 +1052,16 @@ export const ChatInterface = (_args: ChatInterfaceProps) => {
                           )}
                           onToolCallExpand={handleToolCallExpand}
                           onToolNavigate={handleToolNavigate}
+                          activeToolCall={
+                            msg.isExecuting
+                              ? findActiveCall(
+                                  currentConnection?.url,
+                                  msg.executingTool
+                                )
+                              : undefined
+                          }
+                          onCancelTool={cancelCall}
+                          onReadResource={readResource}
                           isToolEnabled={(toolName: string) => {
                             if (
                               systemTools.some(tool => tool.name === toolName)
@@ -1001,11 +1078,11 @@ export const ChatInterface = (_args: ChatInterfaceProps) => {
                   {/* Show streaming message if active (but not during semantic search) */}
                   {(streamingState.isStreaming ||
                     streamingState.currentStreamingContent ||
-                    streamingState.streamingStatus) &&
+                    streamingStatus) &&
                     !streamingState.semanticSearch.isSearching && (
                       <StreamingMessage
                         content={streamingState.currentStreamingContent}
-                        status={streamingState.streamingStatus}
+                        status={streamingStatus}
                       />
                     )}
 
@@ -1041,7 +1118,7 @@ export const ChatInterface = (_args: ChatInterfaceProps) => {
           isConnected={currentConnection?.isConnected}
           isLoading={isLoading}
           isStreaming={streamingState.isStreaming}
-          streamingStatus={streamingState.streamingStatus}
+          streamingStatus={streamingStatus}
           semanticSearch={{
             isSearching: streamingState.semanticSearch.isSearching,
             relevantToolsCount:
@@ -1053,6 +1130,14 @@ export const ChatInterface = (_args: ChatInterfaceProps) => {
         />
       </div>
 
+      {pendingApproval && (
+        <ToolApprovalDialog
+          request={pendingApproval.request}
+          onApprove={() => answerToolApproval(true)}
+          onDeny={() => answerToolApproval(false)}
+        />
+      )}
+
       {/* Settings Modal */}
       <SettingsModal
         isOpen={isSettingsOpen}
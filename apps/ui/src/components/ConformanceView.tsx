@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from "react";
+import { ConformanceCheckResult, Connection } from "@mcpconnect/schemas";
+import { runConformanceChecks } from "@mcpconnect/adapter-ai-sdk";
+import { ConformancePanel } from "@mcpconnect/components";
+import { useStorage } from "../contexts/StorageContext";
+
+export const ConformanceView = ({ connection }: { connection: Connection }) => {
+  const { updateConnection } = useStorage();
+  const [progress, setProgress] = useState<ConformanceCheckResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Leaving the panel stops a run that is still going
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress([]);
+    setError(null);
+    setIsRunning(true);
+
+    try {
+      const report = await runConformanceChecks(connection, {
+        abortSignal: controller.signal,
+        onResult: result => setProgress(prev => [...prev, result]),
+      });
+      await updateConnection({ ...connection, conformanceReport: report });
+    } catch (runError) {
+      if (!controller.signal.aborted) {
+        console.error("[ConformanceView] Conformance run failed:", runError);
+        setError(
+          runError instanceof Error
+            ? runError.message
+            : "Failed to run the conformance checks"
+        );
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  };
+
+  return (
+    <ConformancePanel
+      key={connection.id}
+      report={connection.conformanceReport}
+      progress={progress}
+      isRunning={isRunning}
+      error={error}
+      onRun={handleRun}
+      onCancel={() => controllerRef.current?.abort()}
+      supported={connection.connectionType !== "graphql"}
+    />
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useId } from "react";
 import {
   X,
   Globe,
@@ -12,13 +12,32 @@ import {
   Globe2,
   Radio,
   Database,
+  FolderOpen,
+  KeyRound,
+  Terminal,
 } from "lucide-react";
 import {
   Connection,
   ConnectionType,
   GraphQLConnectionConfig,
+  IntrospectionList,
+  OAuthConfig,
+  ProtocolVersion,
+  ProtocolVersionSchema,
+  Root,
+  StdioConfig,
 } from "@mcpconnect/schemas";
-import { MCPService } from "@mcpconnect/adapter-ai-sdk";
+import {
+  MCPService,
+  ProxyInfo,
+  deleteStdioProcess,
+  getProxyInfo,
+  getStdioBridgeInfo,
+  getStdioBridgeUrl,
+} from "@mcpconnect/adapter-ai-sdk";
+import { getIncompleteListsWarning } from "@mcpconnect/components";
+import { formatIntrospectionProgress } from "../utils/introspectionProgress";
+import { OAuthService } from "../services/oauthService";
 
 interface ConnectionModalProps {
   isOpen: boolean;
@@ -34,17 +53,22 @@ type FormData = {
   name: string;
   url: string;
   connectionType: ConnectionType;
-  authType: "none" | "bearer" | "apiKey" | "basic";
+  authType: Connection["authType"];
   credentials: {
     token?: string;
     apiKey?: string;
     username?: string;
     password?: string;
   };
+  oauth?: OAuthConfig;
   headers: Record<string, string>;
   timeout: number;
   retryAttempts: number;
   graphqlConfig?: GraphQLConnectionConfig;
+  roots: Root[];
+  confirmDestructiveTools: boolean;
+  useProxy: boolean;
+  protocolVersion?: ProtocolVersion;
 };
 
 const initialConnectionState: FormData = {
@@ -56,6 +80,80 @@ const initialConnectionState: FormData = {
   headers: {},
   timeout: 30000,
   retryAttempts: 3,
+  roots: [],
+  confirmDestructiveTools: false,
+  useProxy: false,
+};
+
+// Drop blank rows and return the first root URI that is not a file:// URI,
+// the only kind the MCP spec allows for roots
+const prepareRoots = (roots: Root[]) => {
+  const cleaned = roots
+    .map(root => ({
+      uri: root.uri.trim(),
+      name: root.name?.trim() || undefined,
+    }))
+    .filter(root => root.uri);
+  const invalid = cleaned.find(root => {
+    try {
+      return new URL(root.uri).protocol !== "file:";
+    } catch {
+      return true;
+    }
+  });
+  return { roots: cleaned, invalidUri: invalid?.uri };
+};
+
+// Stdio settings as typed: one argument per line and KEY=VALUE lines
+type StdioForm = {
+  command: string;
+  args: string;
+  env: string;
+  cwd: string;
+};
+
+const emptyStdioForm: StdioForm = { command: "", args: "", env: "", cwd: "" };
+
+const toStdioForm = (config?: StdioConfig): StdioForm =>
+  config
+    ? {
+        command: config.command,
+        args: config.args.join("\n"),
+        env: Object.entries(config.env)
+          .map(([key, value]) => `${key}=${value}`)
+          .join("\n"),
+        cwd: config.cwd || "",
+      }
+    : emptyStdioForm;
+
+// Parse the typed settings and return the first environment line without a name
+const prepareStdio = (form: StdioForm) => {
+  const env: Record<string, string> = {};
+  let invalidEnv: string | undefined;
+
+  form.env
+    .split("\n")
+    .filter(line => line.trim())
+    .forEach(line => {
+      const separator = line.indexOf("=");
+      const key = separator > 0 ? line.slice(0, separator).trim() : "";
+      if (!key) {
+        invalidEnv ??= line.trim();
+        return;
+      }
+      env[key] = line.slice(separator + 1);
+    });
+
+  const config: StdioConfig = {
+    command: form.command.trim(),
+    args: form.args
+      .split("\n")
+      .map(arg => arg.trim())
+      .filter(Boolean),
+    env,
+    cwd: form.cwd.trim() || undefined,
+  };
+  return { config, invalidEnv };
 };
 
 export const ConnectionModal: React.FC<ConnectionModalProps> = ({
@@ -81,9 +179,26 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
     tools: number;
     resources: number;
     serverInfo?: any;
+    incompleteLists?: IntrospectionList[];
+    protocolVersion?: string;
   } | null>(null);
+  const [testProgress, setTestProgress] = useState<string | null>(null);
+  const [isAuthorizing, setIsAuthorizing] = useState(false);
+  const [oauthError, setOAuthError] = useState<string | null>(null);
+  const [stdioForm, setStdioForm] = useState<StdioForm>(emptyStdioForm);
+  const [stdioAvailable, setStdioAvailable] = useState<boolean | null>(null);
+  const [proxyInfo, setProxyInfo] = useState<ProxyInfo | null>(null);
 
   const isEditing = Boolean(connection);
+  const protocolSelectId = useId();
+  const oauthClientIdInputId = useId();
+  const oauthClientSecretInputId = useId();
+  const oauthScopeInputId = useId();
+  const stdioCommandInputId = useId();
+  const stdioArgsInputId = useId();
+  const stdioEnvInputId = useId();
+  const stdioCwdInputId = useId();
+  const isStdio = formData.connectionType === "stdio";
 
   // Initialize form data when modal opens or connection changes
   useEffect(() => {
@@ -95,12 +210,19 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
           connectionType: connection.connectionType || "sse",
           authType: connection.authType || "none",
           credentials: connection.credentials || {},
+          oauth: connection.oauth,
           headers: connection.headers || {},
           timeout: connection.timeout || 30000,
           retryAttempts: connection.retryAttempts || 3,
           graphqlConfig: connection.graphqlConfig,
+          roots: connection.roots || [],
+          confirmDestructiveTools: connection.confirmDestructiveTools ?? false,
+          useProxy: connection.useProxy ?? false,
+          protocolVersion: connection.protocolVersion,
         });
 
+        setStdioForm(toStdioForm(connection.stdio));
+
         if (connection.headers) {
           setCustomHeaders(
             Object.entries(connection.headers).map(([key, value]) => ({
@@ -114,15 +236,38 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
       } else {
         setFormData(initialConnectionState);
         setCustomHeaders([]);
+        setStdioForm(emptyStdioForm);
       }
       setTestStatus("idle");
       setTestError(null);
       setShowPassword(false);
       setShowToken(false);
       setDiscoveredInfo(null);
+      setOAuthError(null);
     }
   }, [isOpen, connection]);
 
+  // Stdio servers and the proxy are only there when the UI is served by
+  // the local server
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    getStdioBridgeInfo(window.location.origin).then(info => {
+      if (!cancelled) setStdioAvailable(Boolean(info));
+    });
+    getProxyInfo(window.location.origin).then(info => {
+      if (!cancelled) setProxyInfo(info);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const handleStdioChange = (field: keyof StdioForm, value: string) => {
+    setStdioForm(prev => ({ ...prev, [field]: value }));
+  };
+
   const handleInputChange = <K extends keyof FormData>(
     field: K,
     value: FormData[K]
@@ -167,6 +312,21 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
     }));
   };
 
+  const handleOAuthChange = (
+    field: "clientId" | "clientSecret" | "scope",
+    value: string
+  ) => {
+    setFormData(prev => ({
+      ...prev,
+      oauth: {
+        ...prev.oauth,
+        [field]: value || undefined,
+        // A client ID typed in replaces the dynamically registered one
+        ...(field === "clientId" ? { registeredRedirectUri: undefined } : {}),
+      },
+    }));
+  };
+
   const handleHeaderChange = (
     index: number,
     field: "key" | "value",
@@ -202,41 +362,128 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
     handleInputChange("headers", headersObj);
   };
 
-  const testConnection = async () => {
+  const handleRootChange = (
+    index: number,
+    field: keyof Root,
+    value: string
+  ) => {
+    handleInputChange(
+      "roots",
+      formData.roots.map((root, i) =>
+        i === index ? { ...root, [field]: value } : root
+      )
+    );
+  };
+
+  const addRoot = () => {
+    handleInputChange("roots", [...formData.roots, { uri: "", name: "" }]);
+  };
+
+  const removeRoot = (index: number) => {
+    handleInputChange(
+      "roots",
+      formData.roots.filter((_, i) => i !== index)
+    );
+  };
+
+  // The form as a connection that can be tried before it is saved
+  const buildTestConnection = (roots: Root[]): Connection => ({
+    id: connection?.id || "test",
+    name: formData.name,
+    url: isStdio
+      ? getStdioBridgeUrl(window.location.origin, connection?.id || "test")
+      : formData.url,
+    connectionType: formData.connectionType,
+    stdio: isStdio ? prepareStdio(stdioForm).config : undefined,
+    isActive: true,
+    isConnected: false,
+    authType: formData.authType,
+    credentials: formData.credentials,
+    oauth: formData.oauth,
+    headers: formData.headers,
+    timeout: formData.timeout,
+    retryAttempts: formData.retryAttempts,
+    graphqlConfig: formData.graphqlConfig,
+    roots,
+    protocolVersion: formData.protocolVersion,
+    useProxy: !isStdio && formData.useProxy,
+  });
+
+  const handleAuthorize = async () => {
+    if (!MCPService.validateConnectionUrl(formData.url)) {
+      setOAuthError("Enter the server URL before authorizing");
+      return;
+    }
+
+    setIsAuthorizing(true);
+    setOAuthError(null);
+
+    try {
+      const oauth = await OAuthService.authorize(
+        buildTestConnection(prepareRoots(formData.roots).roots),
+        // Leaving the page only keeps the result for saved connections
+        { allowRedirect: isEditing }
+      );
+      handleInputChange("oauth", oauth);
+    } catch (error) {
+      setOAuthError(
+        error instanceof Error ? error.message : "Authorization failed"
+      );
+    } finally {
+      setIsAuthorizing(false);
+    }
+  };
+
+  // Stdio connections need a command where the others need a URL
+  const validateTarget = (): string | null => {
+    if (isStdio) {
+      if (!formData.name.trim() || !stdioForm.command.trim()) {
+        return "Name and command are required";
+      }
+      const { invalidEnv } = prepareStdio(stdioForm);
+      return invalidEnv ? `Invalid environment variable: ${invalidEnv}` : null;
+    }
+
     if (!formData.name.trim() || !formData.url.trim()) {
-      setTestError("Name and URL are required");
+      return "Name and URL are required";
+    }
+    return null;
+  };
+
+  const testConnection = async () => {
+    const targetError = validateTarget();
+    if (targetError) {
+      setTestError(targetError);
       return;
     }
 
-    if (!MCPService.validateConnectionUrl(formData.url)) {
+    if (!isStdio && !MCPService.validateConnectionUrl(formData.url)) {
       setTestError(
         "Please enter a valid URL (http://, https://, ws://, or wss://)"
       );
       return;
     }
 
+    const { roots, invalidUri } = prepareRoots(formData.roots);
+    if (invalidUri) {
+      setTestError(
+        `Invalid root URI: ${invalidUri}. Roots must be file:// URIs.`
+      );
+      return;
+    }
+
     setTestStatus("testing");
+    setTestProgress(null);
     setTestError(null);
     setDiscoveredInfo(null);
 
+    const testConnection = buildTestConnection(roots);
     try {
-      const testConnection: Connection = {
-        id: connection?.id || "test",
-        name: formData.name,
-        url: formData.url,
-        connectionType: formData.connectionType,
-        isActive: true,
-        isConnected: false,
-        authType: formData.authType,
-        credentials: formData.credentials,
-        headers: formData.headers,
-        timeout: formData.timeout,
-        retryAttempts: formData.retryAttempts,
-        graphqlConfig: formData.graphqlConfig,
-      };
-
-      const introspectionResult =
-        await MCPService.connectAndIntrospect(testConnection);
+      const introspectionResult = await MCPService.connectAndIntrospect(
+        testConnection,
+        undefined,
+        progress => setTestProgress(formatIntrospectionProgress(progress))
+      );
 
       if (introspectionResult.isConnected) {
         setTestStatus("success");
@@ -244,6 +491,8 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
           tools: introspectionResult.tools.length,
           resources: introspectionResult.resources.length,
           serverInfo: introspectionResult.serverInfo,
+          incompleteLists: introspectionResult.incompleteLists,
+          protocolVersion: introspectionResult.protocolVersion,
         });
       } else {
         setTestStatus("error");
@@ -258,16 +507,27 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
         error instanceof Error ? error.message : "Connection test failed"
       );
       console.error("[ConnectionModal] Test connection failed:", error);
+    } finally {
+      setTestProgress(null);
+
+      // A process started only for the test is not kept running
+      if (isStdio && testConnection.id === "test") {
+        await MCPService.disconnect(testConnection);
+        deleteStdioProcess(testConnection).catch(error =>
+          console.warn("[ConnectionModal] Stopping test process failed:", error)
+        );
+      }
     }
   };
 
   const handleSave = async () => {
-    if (!formData.name.trim() || !formData.url.trim()) {
-      setTestError("Name and URL are required");
+    const targetError = validateTarget();
+    if (targetError) {
+      setTestError(targetError);
       return;
     }
 
-    if (!MCPService.validateConnectionUrl(formData.url)) {
+    if (!isStdio && !MCPService.validateConnectionUrl(formData.url)) {
       setTestError("Please enter a valid URL");
       return;
     }
@@ -283,6 +543,14 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
       return;
     }
 
+    const { roots, invalidUri } = prepareRoots(formData.roots);
+    if (invalidUri) {
+      setTestError(
+        `Invalid root URI: ${invalidUri}. Roots must be file:// URIs.`
+      );
+      return;
+    }
+
     setIsLoading(true);
 
     try {
@@ -291,10 +559,12 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
         name: formData.name.trim(),
         url: formData.url.trim(),
         connectionType: formData.connectionType,
+        stdio: isStdio ? prepareStdio(stdioForm).config : undefined,
         isActive: false,
         isConnected: false,
         authType: formData.authType,
         credentials: formData.credentials,
+        oauth: formData.authType === "oauth" ? formData.oauth : undefined,
         headers: formData.headers,
         timeout: formData.timeout,
         retryAttempts: formData.retryAttempts,
@@ -302,12 +572,30 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
           formData.connectionType === "graphql"
             ? formData.graphqlConfig
             : undefined,
+        roots:
+          formData.connectionType !== "graphql" && roots.length > 0
+            ? roots
+            : undefined,
+        confirmDestructiveTools: formData.confirmDestructiveTools || undefined,
+        useProxy: (!isStdio && formData.useProxy) || undefined,
+        protocolVersion:
+          formData.connectionType !== "graphql"
+            ? formData.protocolVersion
+            : undefined,
       };
 
       const finalConnection = connection?.id
         ? connectionData
         : MCPService.createConnection(connectionData);
 
+      // The bridge URL is keyed by the connection, so it needs the new id
+      if (isStdio) {
+        finalConnection.url = getStdioBridgeUrl(
+          window.location.origin,
+          finalConnection.id
+        );
+      }
+
       onSave(finalConnection);
       onClose();
     } catch (error) {
@@ -340,6 +628,8 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
         return <Globe className="w-4 h-4" />;
       case "websocket":
         return <Radio className="w-4 h-4" />;
+      case "stdio":
+        return <Terminal className="w-4 h-4" />;
       case "graphql":
         return <Database className="w-4 h-4" />;
       default:
@@ -355,6 +645,10 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
         return "HTTP - Traditional request/response";
       case "websocket":
         return "WebSocket - Bidirectional real-time communication";
+      case "stdio":
+        return stdioAvailable === false
+          ? "Stdio - Needs the UI served by the mcpconnect CLI with --stdio"
+          : "Stdio - Run a local command through the mcpconnect server";
       case "graphql":
         return "GraphQL - Query any GraphQL API with introspection";
       default:
@@ -364,6 +658,10 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
 
   if (!isOpen) return null;
 
+  const incompleteWarning = getIncompleteListsWarning(
+    discoveredInfo?.incompleteLists
+  );
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -403,27 +701,29 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
             </div>
 
             {/* Connection URL */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Server URL *
-              </label>
-              <input
-                type="url"
-                value={formData.url}
-                onChange={e => handleInputChange("url", e.target.value)}
-                placeholder={
-                  formData.connectionType === "graphql"
-                    ? "https://api.example.com/graphql"
-                    : "https://api.example.com/mcp or ws://localhost:3000/mcp"
-                }
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
-              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                {formData.connectionType === "graphql"
-                  ? "GraphQL endpoint URL (introspection will be used to discover operations)"
-                  : "Supports HTTP (http://, https://) and WebSocket (ws://, wss://) MCP protocol endpoints"}
-              </p>
-            </div>
+            {!isStdio && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Server URL *
+                </label>
+                <input
+                  type="url"
+                  value={formData.url}
+                  onChange={e => handleInputChange("url", e.target.value)}
+                  placeholder={
+                    formData.connectionType === "graphql"
+                      ? "https://api.example.com/graphql"
+                      : "https://api.example.com/mcp or ws://localhost:3000/mcp"
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {formData.connectionType === "graphql"
+                    ? "GraphQL endpoint URL (introspection will be used to discover operations)"
+                    : "Supports HTTP (http://, https://) and WebSocket (ws://, wss://) MCP protocol endpoints"}
+                </p>
+              </div>
+            )}
 
             {/* Connection Type */}
             <div>
@@ -432,67 +732,85 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
               </label>
               <div className="space-y-3">
                 {(
-                  ["sse", "http", "websocket", "graphql"] as ConnectionType[]
-                ).map(type => (
-                  <label
-                    key={type}
-                    className={`flex items-center p-3 border rounded-lg cursor-pointer transition-colors ${
-                      formData.connectionType === type
-                        ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
-                        : "border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500"
-                    }`}
-                  >
-                    <input
-                      type="radio"
-                      name="connectionType"
-                      value={type}
-                      checked={formData.connectionType === type}
-                      onChange={e =>
-                        handleInputChange(
-                          "connectionType",
-                          e.target.value as ConnectionType
-                        )
-                      }
-                      className="sr-only"
-                    />
-                    <div className="flex items-center gap-3 flex-1">
-                      <div
-                        className={`p-2 rounded-lg ${
-                          formData.connectionType === type
-                            ? "bg-blue-500 text-white"
-                            : "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400"
-                        }`}
-                      >
-                        {getConnectionTypeIcon(type)}
-                      </div>
-                      <div className="flex-1">
+                  [
+                    "sse",
+                    "http",
+                    "websocket",
+                    "stdio",
+                    "graphql",
+                  ] as ConnectionType[]
+                ).map(type => {
+                  const isUnavailable =
+                    type === "stdio" &&
+                    stdioAvailable === false &&
+                    formData.connectionType !== "stdio";
+
+                  return (
+                    <label
+                      key={type}
+                      className={`flex items-center p-3 border rounded-lg transition-colors ${
+                        isUnavailable
+                          ? "opacity-50 cursor-not-allowed"
+                          : "cursor-pointer"
+                      } ${
+                        formData.connectionType === type
+                          ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                          : "border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500"
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="connectionType"
+                        value={type}
+                        disabled={isUnavailable}
+                        checked={formData.connectionType === type}
+                        onChange={e =>
+                          handleInputChange(
+                            "connectionType",
+                            e.target.value as ConnectionType
+                          )
+                        }
+                        className="sr-only"
+                      />
+                      <div className="flex items-center gap-3 flex-1">
                         <div
-                          className={`font-medium text-sm ${
+                          className={`p-2 rounded-lg ${
                             formData.connectionType === type
-                              ? "text-blue-700 dark:text-blue-300"
-                              : "text-gray-900 dark:text-white"
+                              ? "bg-blue-500 text-white"
+                              : "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400"
                           }`}
                         >
-                          {type.toUpperCase()}
-                          {type === "sse" && (
-                            <span className="ml-2 text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 px-2 py-0.5 rounded-full">
-                              Recommended
-                            </span>
-                          )}
+                          {getConnectionTypeIcon(type)}
                         </div>
-                        <div
-                          className={`text-xs ${
-                            formData.connectionType === type
-                              ? "text-blue-600 dark:text-blue-400"
-                              : "text-gray-500 dark:text-gray-400"
-                          }`}
-                        >
-                          {getConnectionTypeDescription(type)}
+                        <div className="flex-1">
+                          <div
+                            className={`font-medium text-sm ${
+                              formData.connectionType === type
+                                ? "text-blue-700 dark:text-blue-300"
+                                : "text-gray-900 dark:text-white"
+                            }`}
+                          >
+                            {type.toUpperCase()}
+                            {type === "sse" && (
+                              <span className="ml-2 text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 px-2 py-0.5 rounded-full">
+                                Recommended
+                              </span>
+                            )}
+                          </div>
+                          <div
+                            className={`text-xs ${
+                              formData.connectionType === type
+                                ? "text-blue-600 dark:text-blue-400"
+                                : "text-gray-500 dark:text-gray-400"
+                            }`}
+                          >
+                            {getConnectionTypeDescription(type)}
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  </label>
-                ))}
+                    </label>
+                  );
+                })}
               </div>
             </div>
           </div>
@@ -633,195 +951,497 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
             </div>
           )}
 
-          {/* Authentication */}
-          <div className="space-y-4">
-            <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2">
-              <Lock className="w-4 h-4" />
-              Authentication
-            </h3>
+          {/* Stdio Configuration */}
+          {isStdio && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2">
+                <Terminal className="w-4 h-4" />
+                Command
+              </h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                The mcpconnect server starts this command on this machine and
+                passes messages over its stdin and stdout. Its stderr is shown
+                in the inspector&apos;s Process tab.
+              </p>
+              {stdioAvailable === false && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">
+                  This page is not served by the mcpconnect CLI with stdio
+                  servers turned on, so they cannot be run. Start the UI with
+                  npx @mcpconnect/cli --stdio.
+                </p>
+              )}
 
-            {/* Auth Type */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Authentication Type
-              </label>
-              <select
-                value={formData.authType}
-                onChange={e =>
-                  handleInputChange(
-                    "authType",
-                    e.target.value as FormData["authType"]
-                  )
-                }
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-              >
-                <option value="none">No Authentication</option>
-                <option value="bearer">Bearer Token</option>
-                <option value="apiKey">API Key</option>
-                <option value="basic">Basic Auth</option>
-              </select>
-            </div>
+              <div>
+                <label
+                  htmlFor={stdioCommandInputId}
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Command *
+                </label>
+                <input
+                  id={stdioCommandInputId}
+                  type="text"
+                  value={stdioForm.command}
+                  onChange={e => handleStdioChange("command", e.target.value)}
+                  placeholder="npx"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
 
-            {/* Bearer Token */}
-            {formData.authType === "bearer" && (
               <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Bearer Token
+                <label
+                  htmlFor={stdioArgsInputId}
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Arguments
                 </label>
-                <div className="relative">
-                  <input
-                    type={showToken ? "text" : "password"}
-                    value={formData.credentials.token || ""}
-                    onChange={e =>
-                      handleCredentialChange("token", e.target.value)
-                    }
-                    placeholder="your-bearer-token"
-                    className="w-full px-3 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowToken(!showToken)}
-                    className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                  >
-                    {showToken ? (
-                      <EyeOff className="w-4 h-4" />
-                    ) : (
-                      <Eye className="w-4 h-4" />
-                    )}
-                  </button>
-                </div>
+                <textarea
+                  id={stdioArgsInputId}
+                  value={stdioForm.args}
+                  onChange={e => handleStdioChange("args", e.target.value)}
+                  placeholder={
+                    "-y\n@modelcontextprotocol/server-filesystem\n/path/to/dir"
+                  }
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  One argument per line, passed as is without a shell
+                </p>
               </div>
-            )}
 
-            {/* API Key */}
-            {formData.authType === "apiKey" && (
               <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  API Key
+                <label
+                  htmlFor={stdioEnvInputId}
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Environment
                 </label>
-                <div className="relative">
-                  <input
-                    type={showToken ? "text" : "password"}
-                    value={formData.credentials.apiKey || ""}
-                    onChange={e =>
-                      handleCredentialChange("apiKey", e.target.value)
-                    }
-                    placeholder="your-api-key"
-                    className="w-full px-3 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowToken(!showToken)}
-                    className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                  >
-                    {showToken ? (
-                      <EyeOff className="w-4 h-4" />
-                    ) : (
-                      <Eye className="w-4 h-4" />
-                    )}
-                  </button>
-                </div>
+                <textarea
+                  id={stdioEnvInputId}
+                  value={stdioForm.env}
+                  onChange={e => handleStdioChange("env", e.target.value)}
+                  placeholder="API_KEY=..."
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  KEY=VALUE lines, added to the server&apos;s own environment
+                </p>
               </div>
-            )}
 
-            {/* Basic Auth */}
-            {formData.authType === "basic" && (
-              <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor={stdioCwdInputId}
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Working Directory
+                </label>
+                <input
+                  id={stdioCwdInputId}
+                  type="text"
+                  value={stdioForm.cwd}
+                  onChange={e => handleStdioChange("cwd", e.target.value)}
+                  placeholder="Where the mcpconnect server was started"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          )}
+
+          {!isStdio && (
+            <>
+              {/* Authentication */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2">
+                  <Lock className="w-4 h-4" />
+                  Authentication
+                </h3>
+
+                {/* Auth Type */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                    Username
+                    Authentication Type
                   </label>
-                  <input
-                    type="text"
-                    value={formData.credentials.username || ""}
+                  <select
+                    value={formData.authType}
                     onChange={e =>
-                      handleCredentialChange("username", e.target.value)
+                      handleInputChange(
+                        "authType",
+                        e.target.value as FormData["authType"]
+                      )
                     }
-                    placeholder="username"
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
+                  >
+                    <option value="none">No Authentication</option>
+                    <option value="bearer">Bearer Token</option>
+                    <option value="apiKey">API Key</option>
+                    <option value="basic">Basic Auth</option>
+                    <option value="oauth">OAuth 2.1</option>
+                  </select>
                 </div>
+
+                {/* Bearer Token */}
+                {formData.authType === "bearer" && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Bearer Token
+                    </label>
+                    <div className="relative">
+                      <input
+                        type={showToken ? "text" : "password"}
+                        value={formData.credentials.token || ""}
+                        onChange={e =>
+                          handleCredentialChange("token", e.target.value)
+                        }
+                        placeholder="your-bearer-token"
+                        className="w-full px-3 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowToken(!showToken)}
+                        className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                      >
+                        {showToken ? (
+                          <EyeOff className="w-4 h-4" />
+                        ) : (
+                          <Eye className="w-4 h-4" />
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* API Key */}
+                {formData.authType === "apiKey" && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      API Key
+                    </label>
+                    <div className="relative">
+                      <input
+                        type={showToken ? "text" : "password"}
+                        value={formData.credentials.apiKey || ""}
+                        onChange={e =>
+                          handleCredentialChange("apiKey", e.target.value)
+                        }
+                        placeholder="your-api-key"
+                        className="w-full px-3 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowToken(!showToken)}
+                        className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                      >
+                        {showToken ? (
+                          <EyeOff className="w-4 h-4" />
+                        ) : (
+                          <Eye className="w-4 h-4" />
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Basic Auth */}
+                {formData.authType === "basic" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Username
+                      </label>
+                      <input
+                        type="text"
+                        value={formData.credentials.username || ""}
+                        onChange={e =>
+                          handleCredentialChange("username", e.target.value)
+                        }
+                        placeholder="username"
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Password
+                      </label>
+                      <div className="relative">
+                        <input
+                          type={showPassword ? "text" : "password"}
+                          value={formData.credentials.password || ""}
+                          onChange={e =>
+                            handleCredentialChange("password", e.target.value)
+                          }
+                          placeholder="password"
+                          className="w-full px-3 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setShowPassword(!showPassword)}
+                          className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                        >
+                          {showPassword ? (
+                            <EyeOff className="w-4 h-4" />
+                          ) : (
+                            <Eye className="w-4 h-4" />
+                          )}
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {/* OAuth 2.1 */}
+                {formData.authType === "oauth" && (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label
+                          htmlFor={oauthClientIdInputId}
+                          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                        >
+                          Client ID
+                        </label>
+                        <input
+                          id={oauthClientIdInputId}
+                          type="text"
+                          value={formData.oauth?.clientId || ""}
+                          onChange={e =>
+                            handleOAuthChange("clientId", e.target.value)
+                          }
+                          placeholder="Registered automatically"
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label
+                          htmlFor={oauthClientSecretInputId}
+                          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                        >
+                          Client Secret
+                        </label>
+                        <input
+                          id={oauthClientSecretInputId}
+                          type="password"
+                          value={formData.oauth?.clientSecret || ""}
+                          onChange={e =>
+                            handleOAuthChange("clientSecret", e.target.value)
+                          }
+                          placeholder="Optional"
+                          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label
+                        htmlFor={oauthScopeInputId}
+                        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                      >
+                        Scope
+                      </label>
+                      <input
+                        id={oauthScopeInputId}
+                        type="text"
+                        value={formData.oauth?.scope || ""}
+                        onChange={e =>
+                          handleOAuthChange("scope", e.target.value)
+                        }
+                        placeholder="Defaults to the scopes the server advertises"
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Clients registered by hand need the redirect URI{" "}
+                        <code className="font-mono">
+                          {OAuthService.getRedirectUri()}
+                        </code>
+                        {formData.connectionType === "websocket" &&
+                          ". Browsers cannot send the token over WebSocket, so use HTTP or SSE."}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md">
+                      <div className="text-sm min-w-0">
+                        {formData.oauth?.tokens ? (
+                          <>
+                            <div className="text-green-700 dark:text-green-400 font-medium">
+                              Authorized
+                              {formData.oauth.authorizationServer &&
+                                ` with ${formData.oauth.authorizationServer}`}
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              {formData.oauth.tokens.expiresAt
+                                ? `Token expires ${new Date(formData.oauth.tokens.expiresAt).toLocaleString()}`
+                                : "Token does not expire"}
+                              {formData.oauth.tokens.refreshToken &&
+                                ", refreshed automatically"}
+                            </div>
+                          </>
+                        ) : (
+                          <div className="text-gray-600 dark:text-gray-400">
+                            Not authorized yet
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {formData.oauth?.tokens && (
+                          <button
+                            type="button"
+                            onClick={() =>
+                              handleInputChange("oauth", {
+                                ...formData.oauth,
+                                tokens: undefined,
+                              })
+                            }
+                            className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 rounded-md transition-colors"
+                          >
+                            Sign Out
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={handleAuthorize}
+                          disabled={isAuthorizing || !formData.url.trim()}
+                          className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          {isAuthorizing ? (
+                            <Loader className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <KeyRound className="w-4 h-4" />
+                          )}
+                          {formData.oauth?.tokens
+                            ? "Re-authorize"
+                            : "Authorize"}
+                        </button>
+                      </div>
+                    </div>
+
+                    {oauthError && (
+                      <p className="text-sm text-red-600 dark:text-red-400">
+                        {oauthError}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Custom Headers */}
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                    Custom Headers
+                  </h3>
+                  <button
+                    onClick={addCustomHeader}
+                    className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Header
+                  </button>
+                </div>
+
+                {customHeaders.map((header, index) => (
+                  <div
+                    key={index}
+                    className="grid grid-cols-12 gap-2 items-center"
+                  >
+                    <div className="col-span-5">
+                      <input
+                        type="text"
+                        value={header.key}
+                        onChange={e =>
+                          handleHeaderChange(index, "key", e.target.value)
+                        }
+                        placeholder="Header name"
+                        className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div className="col-span-6">
+                      <input
+                        type="text"
+                        value={header.value}
+                        onChange={e =>
+                          handleHeaderChange(index, "value", e.target.value)
+                        }
+                        placeholder="Header value"
+                        className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div className="col-span-1">
+                      <button
+                        onClick={() => removeCustomHeader(index)}
+                        className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {/* Roots */}
+          {formData.connectionType !== "graphql" && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                    Password
-                  </label>
-                  <div className="relative">
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                    Roots
+                  </h3>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Directories or URIs the server may operate on, returned from
+                    roots/list
+                  </p>
+                </div>
+                <button
+                  onClick={addRoot}
+                  className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Root
+                </button>
+              </div>
+
+              {formData.roots.map((root, index) => (
+                <div
+                  key={index}
+                  className="grid grid-cols-12 gap-2 items-center"
+                >
+                  <div className="col-span-4 flex items-center gap-2">
+                    <FolderOpen className="w-4 h-4 text-gray-400 flex-shrink-0" />
                     <input
-                      type={showPassword ? "text" : "password"}
-                      value={formData.credentials.password || ""}
+                      type="text"
+                      value={root.name || ""}
                       onChange={e =>
-                        handleCredentialChange("password", e.target.value)
+                        handleRootChange(index, "name", e.target.value)
                       }
-                      placeholder="password"
-                      className="w-full px-3 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Name (optional)"
+                      className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
                     />
+                  </div>
+                  <div className="col-span-7">
+                    <input
+                      type="text"
+                      value={root.uri}
+                      onChange={e =>
+                        handleRootChange(index, "uri", e.target.value)
+                      }
+                      placeholder="file:///home/user/project"
+                      className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="col-span-1">
                     <button
-                      type="button"
-                      onClick={() => setShowPassword(!showPassword)}
-                      className="absolute right-2 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                      onClick={() => removeRoot(index)}
+                      className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
                     >
-                      {showPassword ? (
-                        <EyeOff className="w-4 h-4" />
-                      ) : (
-                        <Eye className="w-4 h-4" />
-                      )}
+                      <Trash2 className="w-4 h-4" />
                     </button>
                   </div>
                 </div>
-              </div>
-            )}
-          </div>
-
-          {/* Custom Headers */}
-          <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <h3 className="text-lg font-medium text-gray-900 dark:text-white">
-                Custom Headers
-              </h3>
-              <button
-                onClick={addCustomHeader}
-                className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700"
-              >
-                <Plus className="w-4 h-4" />
-                Add Header
-              </button>
+              ))}
             </div>
-
-            {customHeaders.map((header, index) => (
-              <div key={index} className="grid grid-cols-12 gap-2 items-center">
-                <div className="col-span-5">
-                  <input
-                    type="text"
-                    value={header.key}
-                    onChange={e =>
-                      handleHeaderChange(index, "key", e.target.value)
-                    }
-                    placeholder="Header name"
-                    className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
-                  />
-                </div>
-                <div className="col-span-6">
-                  <input
-                    type="text"
-                    value={header.value}
-                    onChange={e =>
-                      handleHeaderChange(index, "value", e.target.value)
-                    }
-                    placeholder="Header value"
-                    className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
-                  />
-                </div>
-                <div className="col-span-1">
-                  <button
-                    onClick={() => removeCustomHeader(index)}
-                    className="p-2 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
-                </div>
-              </div>
-            ))}
-          </div>
+          )}
 
           {/* Advanced Settings */}
           <div className="space-y-4">
@@ -869,6 +1489,93 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
                 />
               </div>
             </div>
+
+            {formData.connectionType !== "graphql" && (
+              <div>
+                <label
+                  htmlFor={protocolSelectId}
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Protocol Version
+                </label>
+                <select
+                  id={protocolSelectId}
+                  value={formData.protocolVersion || ""}
+                  onChange={e =>
+                    handleInputChange(
+                      "protocolVersion",
+                      (e.target.value as ProtocolVersion) || undefined
+                    )
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Auto (latest)</option>
+                  {[...ProtocolVersionSchema.options].reverse().map(version => (
+                    <option key={version} value={version}>
+                      {version}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Sent in initialize. The server may answer with an older
+                  version, which is then used for the session.
+                  {formData.protocolVersion === "2024-11-05" &&
+                    formData.connectionType === "http" &&
+                    " Servers that only speak 2024-11-05 expect HTTP+SSE; HTTP falls back to it when initialize is rejected."}
+                </p>
+              </div>
+            )}
+
+            <div>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={formData.confirmDestructiveTools}
+                  onChange={e =>
+                    handleInputChange(
+                      "confirmDestructiveTools",
+                      e.target.checked
+                    )
+                  }
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">
+                  Confirm destructive tools
+                </span>
+              </label>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 ml-6">
+                Pause the chat for your approval before your LLM runs a tool the
+                server doesn&apos;t mark read-only or non-destructive
+              </p>
+            </div>
+
+            {!isStdio && (
+              <div>
+                <label
+                  className={`flex items-center gap-2 ${
+                    !proxyInfo && !formData.useProxy ? "opacity-50" : ""
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={formData.useProxy}
+                    disabled={!proxyInfo && !formData.useProxy}
+                    onChange={e =>
+                      handleInputChange("useProxy", e.target.checked)
+                    }
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700 dark:text-gray-300">
+                    Route through local proxy
+                  </span>
+                </label>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 ml-6">
+                  {proxyInfo
+                    ? `Send requests through the mcpconnect server, for servers that don't send CORS headers. Allowed hosts: ${proxyInfo.allowedHosts.join(", ")}`
+                    : "Start the UI with npx @mcpconnect/cli --proxy <hosts> to reach servers that don't send CORS headers"}
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Test Connection */}
@@ -882,7 +1589,12 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
                 disabled={testStatus === "testing"}
                 className="flex items-center gap-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Test Connection
+                {testStatus === "testing" && (
+                  <Loader className="w-4 h-4 animate-spin" />
+                )}
+                {testStatus === "testing" && testProgress
+                  ? testProgress
+                  : "Test Connection"}
               </button>
             </div>
 
@@ -907,6 +1619,28 @@ export const ConnectionModal: React.FC<ConnectionModalProps> = ({
                         {discoveredInfo.serverInfo.version}
                       </div>
                     )}
+                    {discoveredInfo.protocolVersion && (
+                      <div
+                        className={
+                          formData.protocolVersion &&
+                          formData.protocolVersion !==
+                            discoveredInfo.protocolVersion
+                            ? "text-amber-700 dark:text-amber-300"
+                            : undefined
+                        }
+                      >
+                        • Protocol: {discoveredInfo.protocolVersion}
+                        {formData.protocolVersion &&
+                          formData.protocolVersion !==
+                            discoveredInfo.protocolVersion &&
+                          ` (requested ${formData.protocolVersion})`}
+                      </div>
+                    )}
+                    {incompleteWarning && (
+                      <div className="text-amber-700 dark:text-amber-300">
+                        • {incompleteWarning}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -2,21 +2,71 @@ import {
   ConnectionGrid,
   ConnectionEmptyState,
   ConnectionHeader,
+  ConnectionStreamBanner,
 } from "@mcpconnect/components";
-import { Connection, Resource, Tool } from "@mcpconnect/schemas";
+import {
+  Connection,
+  Prompt,
+  Resource,
+  ResourceTemplate,
+  Tool,
+} from "@mcpconnect/schemas";
 import { useNavigate } from "react-router-dom";
 import { useState } from "react";
 import { ConnectionModal } from "./ConnectionModal";
 import { useStorage } from "../contexts/StorageContext";
-import { MCPService } from "@mcpconnect/adapter-ai-sdk";
+import { useWebSocketStates } from "../hooks/useWebSocketStates";
+import { useSSEStates } from "../hooks/useSSEStates";
+import { useHealthMonitor } from "../contexts/HealthMonitorProvider";
+import { MCPService, deleteStdioProcess } from "@mcpconnect/adapter-ai-sdk";
 
 interface ConnectionViewProps {
   connections: Connection[];
 }
 
+// Settings that decide how the server is reached. Changing any of them needs
+// a new session, where the others apply to the open one.
+const SESSION_SETTINGS: (keyof Connection)[] = [
+  "url",
+  "connectionType",
+  "stdio",
+  "authType",
+  "credentials",
+  "oauth",
+  "headers",
+  "timeout",
+  "retryAttempts",
+  "useProxy",
+  "protocolVersion",
+  "graphqlConfig",
+];
+
+const needsNewSession = (previous: Connection, next: Connection) =>
+  SESSION_SETTINGS.some(
+    key => JSON.stringify(previous[key]) !== JSON.stringify(next[key])
+  );
+
 export const ConnectionView = ({ connections }: ConnectionViewProps) => {
   const navigate = useNavigate();
-  const { adapter, updateConversations, conversations } = useStorage();
+  const { adapter, updateConversations, conversations, updateConnection } =
+    useStorage();
+  const { getSocketState } = useWebSocketStates();
+  const { health } = useHealthMonitor();
+  const { getStreamStatus } = useSSEStates();
+
+  const droppedStreams = connections.flatMap(connection => {
+    const status = getStreamStatus(connection.url);
+    return status &&
+      (status.state === "reconnecting" || status.state === "failed")
+      ? [{ connection, status }]
+      : [];
+  });
+
+  const handleReconnectStream = (connection: Connection) => {
+    MCPService.reconnectSSE(connection).catch(error => {
+      console.error("[ConnectionView] Reconnect failed:", error);
+    });
+  };
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingConnection, setEditingConnection] = useState<Connection | null>(
@@ -66,6 +116,11 @@ export const ConnectionView = ({ connections }: ConnectionViewProps) => {
         await updateConversations(updatedConversations);
 
         await adapter.removeConnectionData(connectionId);
+        if (connection.connectionType === "stdio") {
+          await deleteStdioProcess(connection).catch(error =>
+            console.warn("Failed to stop the stdio process:", error)
+          );
+        }
         window.location.reload();
       } catch (error) {
         console.error("Failed to delete connection:", error);
@@ -92,12 +147,48 @@ export const ConnectionView = ({ connections }: ConnectionViewProps) => {
 
       let finalConnection = { ...connection };
 
+      // Edits that leave the session settings alone, like changed roots,
+      // apply to the open session. Its server is told the roots changed and
+      // lists them again on the session it was told on.
+      if (
+        editingConnection?.isConnected &&
+        !needsNewSession(editingConnection, connection)
+      ) {
+        if (
+          JSON.stringify(editingConnection.roots || []) !==
+          JSON.stringify(connection.roots || [])
+        ) {
+          try {
+            await MCPService.notifyRootsChanged(connection);
+          } catch (notifyError) {
+            console.warn(
+              "[ConnectionView] Failed to send roots/list_changed:",
+              notifyError
+            );
+          }
+        }
+
+        // What the session learned, like the negotiated version, still holds
+        await updateConnection({
+          ...editingConnection,
+          ...connection,
+          isConnected: true,
+        });
+        return;
+      }
+
       try {
         const introspectionResult =
           await MCPService.connectAndIntrospect(connection);
 
         if (introspectionResult.isConnected) {
           finalConnection.isConnected = true;
+          const { incompleteLists } = introspectionResult;
+          finalConnection.incompleteLists = incompleteLists?.length
+            ? incompleteLists
+            : undefined;
+          finalConnection.negotiatedProtocolVersion =
+            introspectionResult.protocolVersion;
 
           if (introspectionResult.tools.length > 0) {
             const normalizedTools: Tool[] = (
@@ -122,6 +213,20 @@ export const ConnectionView = ({ connections }: ConnectionViewProps) => {
               introspectionResult.resources as Resource[]
             );
           }
+
+          if (introspectionResult.resourceTemplates?.length) {
+            await adapter.setConnectionResourceTemplates(
+              connection.id,
+              introspectionResult.resourceTemplates as ResourceTemplate[]
+            );
+          }
+
+          if (introspectionResult.prompts?.length) {
+            await adapter.setConnectionPrompts(
+              connection.id,
+              introspectionResult.prompts as Prompt[]
+            );
+          }
         } else {
           console.warn(`[ConnectionView] Connection test failed`);
           finalConnection.isConnected = false;
@@ -174,6 +279,11 @@ export const ConnectionView = ({ connections }: ConnectionViewProps) => {
             />
           )}
 
+          <ConnectionStreamBanner
+            streams={droppedStreams}
+            onReconnect={handleReconnectStream}
+          />
+
           {/* Connections Grid or Empty State */}
           {connections.length === 0 ? (
             <ConnectionEmptyState onCreateConnection={handleCreateConnection} />
@@ -184,6 +294,13 @@ export const ConnectionView = ({ connections }: ConnectionViewProps) => {
               onEditConnection={handleEditConnection}
               onDeleteConnection={handleDeleteConnection}
               conversations={conversations}
+              socketStates={Object.fromEntries(
+                connections.flatMap(connection => {
+                  const state = getSocketState(connection.url);
+                  return state ? [[connection.id, state]] : [];
+                })
+              )}
+              healthStates={health}
             />
           )}
         </div>
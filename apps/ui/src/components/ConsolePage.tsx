@@ -0,0 +1,726 @@
+import React, { useState, useEffect, useRef } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useStorage } from "../contexts/StorageContext";
+import { MCPService, normalizeUrl } from "@mcpconnect/adapter-ai-sdk";
+import { getConsoleMethods } from "../utils/consoleMethods";
+import {
+  ArrowLeft,
+  AlertCircle,
+  ArrowDownLeft,
+  ArrowUpRight,
+  Bell,
+  Bookmark,
+  History,
+  ListPlus,
+  Loader,
+  Send,
+  Terminal,
+  Trash2,
+  X,
+} from "lucide-react";
+import { nanoid } from "nanoid";
+
+// Older entries are dropped once these are exceeded
+const MAX_HISTORY_ENTRIES = 50;
+const MAX_TIMELINE_ENTRIES = 200;
+
+const SNIPPETS_KEY = "console-snippets";
+const getHistoryKey = (connectionId: string) =>
+  `console-history-${connectionId}`;
+
+type ConsoleMessage = Record<string, unknown>;
+type ConsolePayload = ConsoleMessage | ConsoleMessage[];
+
+interface ConsoleHistoryEntry {
+  id: string;
+  sentAt: string;
+  payload: ConsolePayload;
+}
+
+interface ConsoleSnippet {
+  id: string;
+  name: string;
+  payload: ConsolePayload;
+}
+
+interface TimelineEntry {
+  id: string;
+  kind: "sent" | "received" | "notification" | "error";
+  at: string;
+  body: unknown;
+  duration?: number;
+}
+
+const TIMELINE_DISPLAY: Record<
+  TimelineEntry["kind"],
+  { label: string; icon: typeof Send; className: string }
+> = {
+  sent: {
+    label: "Sent",
+    icon: ArrowUpRight,
+    className: "text-blue-600 dark:text-blue-400",
+  },
+  received: {
+    label: "Response",
+    icon: ArrowDownLeft,
+    className: "text-green-600 dark:text-green-400",
+  },
+  notification: {
+    label: "Notification",
+    icon: Bell,
+    className: "text-amber-600 dark:text-amber-400",
+  },
+  error: {
+    label: "Error",
+    icon: AlertCircle,
+    className: "text-red-600 dark:text-red-400",
+  },
+};
+
+// Kept apart from the ids the service gives its own requests
+const createId = () => `console-${nanoid(8)}`;
+
+const describePayload = (payload: ConsolePayload): string =>
+  Array.isArray(payload)
+    ? `Batch of ${payload.length}: ${payload.map(message => message.method).join(", ")}`
+    : String(payload.method);
+
+export const ConsolePage: React.FC = () => {
+  const { connectionId } = useParams<{ connectionId: string }>();
+  const navigate = useNavigate();
+  const { connections, conversations, adapter } = useStorage();
+
+  const [method, setMethod] = useState("");
+  const [paramsText, setParamsText] = useState("");
+  const [isNotification, setIsNotification] = useState(false);
+  const [batch, setBatch] = useState<ConsoleMessage[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [history, setHistory] = useState<ConsoleHistoryEntry[]>([]);
+  const [snippets, setSnippets] = useState<ConsoleSnippet[]>([]);
+  const [snippetName, setSnippetName] = useState("");
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const currentConnection = connections.find(conn => conn.id === connectionId);
+
+  // Capabilities are read on every render, as they are only known once a
+  // session has been initialized
+  const methods = getConsoleMethods(
+    currentConnection
+      ? MCPService.getServerCapabilities(currentConnection)
+      : undefined
+  );
+
+  const appendToTimeline = (entry: Omit<TimelineEntry, "id">) => {
+    setTimeline(prev =>
+      [...prev, { id: nanoid(), ...entry }].slice(-MAX_TIMELINE_ENTRIES)
+    );
+  };
+
+  // Load this connection's history and the shared snippets
+  useEffect(() => {
+    if (!connectionId) return;
+
+    let cancelled = false;
+    Promise.all([
+      adapter.get(getHistoryKey(connectionId)),
+      adapter.get(SNIPPETS_KEY),
+    ])
+      .then(([storedHistory, storedSnippets]) => {
+        if (cancelled) return;
+        setHistory(
+          Array.isArray(storedHistory?.value) ? storedHistory.value : []
+        );
+        setSnippets(
+          Array.isArray(storedSnippets?.value) ? storedSnippets.value : []
+        );
+      })
+      .catch(error =>
+        console.error("[Console] Failed to load history and snippets:", error)
+      );
+
+    setTimeline([]);
+    setBatch([]);
+    setFormError(null);
+
+    return () => {
+      cancelled = true;
+      controllerRef.current?.abort();
+    };
+  }, [connectionId, adapter]);
+
+  // Notifications from the server are shown between the exchanges
+  useEffect(() => {
+    if (!currentConnection) return;
+
+    const connectionUrl = normalizeUrl(currentConnection.url);
+    return MCPService.onNotification(notification => {
+      if (notification.connectionUrl !== connectionUrl) return;
+
+      appendToTimeline({
+        kind: "notification",
+        at: notification.receivedAt,
+        body: {
+          jsonrpc: "2.0",
+          method: notification.method,
+          ...(notification.params !== undefined
+            ? { params: notification.params }
+            : {}),
+        },
+      });
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentConnection?.url]);
+
+  const saveHistory = async (entries: ConsoleHistoryEntry[]) => {
+    setHistory(entries);
+    try {
+      await adapter.set(getHistoryKey(connectionId!), entries, {
+        type: "array",
+        tags: ["mcp", "console-history", connectionId!],
+        compress: true,
+        encrypt: false,
+      });
+    } catch (error) {
+      console.error("[Console] Failed to save history:", error);
+    }
+  };
+
+  const saveSnippets = async (entries: ConsoleSnippet[]) => {
+    setSnippets(entries);
+    try {
+      await adapter.set(SNIPPETS_KEY, entries, {
+        type: "array",
+        tags: ["mcp", "console-snippets"],
+        compress: true,
+        encrypt: false,
+      });
+    } catch (error) {
+      console.error("[Console] Failed to save snippets:", error);
+    }
+  };
+
+  const handleMethodChange = (value: string) => {
+    setMethod(value);
+    setFormError(null);
+
+    // Picking a known method fills in its params unless they were edited
+    const suggestion = methods.find(item => item.method === value);
+    const isUnedited =
+      paramsText.trim() === "" ||
+      methods.some(
+        item =>
+          item.params && JSON.stringify(item.params, null, 2) === paramsText
+      );
+    if (suggestion && isUnedited) {
+      setParamsText(
+        suggestion.params ? JSON.stringify(suggestion.params, null, 2) : ""
+      );
+      setIsNotification(Boolean(suggestion.notification));
+    }
+  };
+
+  /**
+   * Build the message in the editor, or report why it can't be sent
+   */
+  const buildMessage = (): ConsoleMessage | null => {
+    if (!method.trim()) {
+      setFormError("Enter a method");
+      return null;
+    }
+
+    let params: unknown;
+    if (paramsText.trim()) {
+      try {
+        params = JSON.parse(paramsText);
+      } catch (error) {
+        setFormError(
+          `Params are not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+        );
+        return null;
+      }
+    }
+
+    setFormError(null);
+    return {
+      jsonrpc: "2.0",
+      ...(isNotification ? {} : { id: createId() }),
+      method: method.trim(),
+      ...(params !== undefined ? { params } : {}),
+    };
+  };
+
+  const loadMessage = (message: ConsoleMessage) => {
+    setMethod(String(message.method ?? ""));
+    setParamsText(
+      message.params !== undefined
+        ? JSON.stringify(message.params, null, 2)
+        : ""
+    );
+    setIsNotification(message.id === undefined);
+    setFormError(null);
+  };
+
+  // Requests loaded from history or snippets get new ids
+  const loadPayload = (payload: ConsolePayload) => {
+    if (Array.isArray(payload)) {
+      setBatch(
+        payload.map(message =>
+          message.id !== undefined ? { ...message, id: createId() } : message
+        )
+      );
+    } else {
+      setBatch([]);
+      loadMessage(payload);
+    }
+  };
+
+  const handleAddToBatch = () => {
+    const message = buildMessage();
+    if (message) {
+      setBatch(prev => [...prev, message]);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!currentConnection || !connectionId) return;
+
+    let payload: ConsolePayload;
+    if (batch.length > 0) {
+      payload = batch;
+    } else {
+      const message = buildMessage();
+      if (!message) return;
+      payload = message;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsSending(true);
+
+    const sentAt = new Date();
+    appendToTimeline({ kind: "sent", at: sentAt.toISOString(), body: payload });
+    saveHistory(
+      [
+        { id: nanoid(), sentAt: sentAt.toISOString(), payload },
+        ...history,
+      ].slice(0, MAX_HISTORY_ENTRIES)
+    );
+
+    try {
+      const response = await MCPService.sendRawMessage(
+        currentConnection,
+        payload,
+        controller.signal
+      );
+      appendToTimeline({
+        kind: "received",
+        at: new Date().toISOString(),
+        body:
+          response === undefined
+            ? "Accepted, notifications get no response"
+            : response,
+        duration: Date.now() - sentAt.getTime(),
+      });
+      setBatch([]);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("[Console] Send failed:", error);
+        appendToTimeline({
+          kind: "error",
+          at: new Date().toISOString(),
+          body: error instanceof Error ? error.message : String(error),
+          duration: Date.now() - sentAt.getTime(),
+        });
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsSending(false);
+      }
+    }
+  };
+
+  const handleSaveSnippet = () => {
+    const name = snippetName.trim();
+    if (!name) return;
+
+    let payload: ConsolePayload;
+    if (batch.length > 0) {
+      payload = batch;
+    } else {
+      const message = buildMessage();
+      if (!message) return;
+      payload = message;
+    }
+
+    saveSnippets([
+      ...snippets.filter(snippet => snippet.name !== name),
+      { id: nanoid(), name, payload },
+    ]);
+    setSnippetName("");
+  };
+
+  const handleBack = () => {
+    if (currentConnection) {
+      const connectionConversations = conversations[connectionId!] || [];
+      const firstChatId =
+        connectionConversations.length > 0
+          ? connectionConversations[0].id
+          : "new";
+
+      navigate(`/connections/${connectionId}/chat/${firstChatId}`);
+    } else {
+      navigate("/connections");
+    }
+  };
+
+  if (!currentConnection) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-gray-50 dark:bg-gray-950">
+        <div className="text-center max-w-md">
+          <div className="w-12 h-12 bg-gray-100 dark:bg-gray-800 rounded-lg mx-auto mb-3 flex items-center justify-center">
+            <AlertCircle className="w-6 h-6 text-gray-400 dark:text-gray-600" />
+          </div>
+          <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100 mb-2">
+            Connection Not Found
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            The requested connection could not be found.
+          </p>
+          <button
+            onClick={handleBack}
+            className="w-full px-4 py-2 bg-blue-600 dark:bg-blue-500 text-white rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors text-sm font-medium"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isSupported = currentConnection.connectionType !== "graphql";
+
+  return (
+    <div className="flex-1 flex flex-col bg-gray-50 dark:bg-gray-950 overflow-hidden">
+      {/* Compact Header */}
+      <div className="flex-shrink-0 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800">
+        <div className="px-4 py-3">
+          <div className="flex items-start gap-3">
+            <button
+              onClick={handleBack}
+              className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors flex-shrink-0"
+              title="Back to chat"
+            >
+              <ArrowLeft className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+            </button>
+
+            <div className="flex items-start gap-2 min-w-0 flex-1">
+              <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300">
+                <Terminal className="w-4 h-4" />
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <h1 className="text-base font-semibold text-gray-900 dark:text-gray-100">
+                  Console
+                </h1>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  Raw JSON-RPC over the {currentConnection.connectionType}{" "}
+                  transport of {currentConnection.name}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {!isSupported ? (
+        <div className="flex-1 flex items-center justify-center">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            GraphQL connections do not take JSON-RPC messages
+          </p>
+        </div>
+      ) : (
+        <div className="flex-1 flex min-h-0">
+          {/* Editor, batch, snippets and history */}
+          <div className="w-96 flex-shrink-0 border-r border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 overflow-y-auto p-3 space-y-4">
+            <div className="space-y-2">
+              <div>
+                <label className="block text-[10px] font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+                  Method
+                </label>
+                <input
+                  list="console-methods"
+                  value={method}
+                  onChange={event => handleMethodChange(event.target.value)}
+                  placeholder="tools/list"
+                  className="w-full px-2 py-1.5 text-xs font-mono border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <datalist id="console-methods">
+                  {methods.map(suggestion => (
+                    <option key={suggestion.method} value={suggestion.method}>
+                      {suggestion.notification ? "notification" : "request"}
+                    </option>
+                  ))}
+                </datalist>
+              </div>
+
+              <div>
+                <label className="block text-[10px] font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+                  Params
+                </label>
+                <textarea
+                  value={paramsText}
+                  onChange={event => {
+                    setParamsText(event.target.value);
+                    setFormError(null);
+                  }}
+                  placeholder="{}"
+                  rows={8}
+                  spellCheck={false}
+                  className="w-full px-2 py-1.5 text-xs font-mono border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={isNotification}
+                  onChange={event => setIsNotification(event.target.checked)}
+                />
+                Send as a notification, without an id
+              </label>
+
+              {formError && (
+                <div className="text-[10px] text-red-600 dark:text-red-400">
+                  {formError}
+                </div>
+              )}
+
+              <div className="flex items-center gap-1.5">
+                <button
+                  onClick={handleSend}
+                  disabled={isSending}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-blue-600 dark:bg-blue-500 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors disabled:opacity-50"
+                >
+                  {isSending ? (
+                    <Loader className="w-3.5 h-3.5 animate-spin" />
+                  ) : (
+                    <Send className="w-3.5 h-3.5" />
+                  )}
+                  {batch.length > 0 ? `Send batch (${batch.length})` : "Send"}
+                </button>
+                <button
+                  onClick={handleAddToBatch}
+                  disabled={isSending}
+                  className="flex items-center gap-1 px-2 py-1.5 text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-md transition-colors disabled:opacity-50"
+                >
+                  <ListPlus className="w-3.5 h-3.5" />
+                  Add to batch
+                </button>
+              </div>
+            </div>
+
+            {batch.length > 0 && (
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-[10px] font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                    Batch
+                  </span>
+                  <button
+                    onClick={() => setBatch([])}
+                    className="text-[10px] text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  >
+                    Clear
+                  </button>
+                </div>
+                <div className="space-y-0.5">
+                  {batch.map((message, index) => (
+                    <div
+                      key={index}
+                      className="flex items-center gap-2 px-2 py-1 rounded-md bg-gray-50 dark:bg-gray-800"
+                    >
+                      <span className="flex-1 min-w-0 truncate text-xs font-mono text-gray-900 dark:text-gray-100">
+                        {String(message.method)}
+                      </span>
+                      <span className="text-[10px] text-gray-400 dark:text-gray-500">
+                        {message.id === undefined ? "notification" : "request"}
+                      </span>
+                      <button
+                        onClick={() =>
+                          setBatch(prev => prev.filter((_, i) => i !== index))
+                        }
+                        className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                        title="Remove from batch"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Snippets */}
+            <div>
+              <div className="flex items-center gap-1 mb-1 text-[10px] font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                <Bookmark className="w-3 h-3" />
+                Snippets
+              </div>
+              <div className="flex items-center gap-1.5 mb-1.5">
+                <input
+                  value={snippetName}
+                  onChange={event => setSnippetName(event.target.value)}
+                  onKeyDown={event => {
+                    if (event.key === "Enter") handleSaveSnippet();
+                  }}
+                  placeholder="Name to save the current message as"
+                  className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleSaveSnippet}
+                  disabled={!snippetName.trim()}
+                  className="px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors disabled:opacity-40"
+                >
+                  Save
+                </button>
+              </div>
+              {snippets.length === 0 ? (
+                <p className="text-[10px] text-gray-500 dark:text-gray-400">
+                  Saved snippets are shared by every connection
+                </p>
+              ) : (
+                <div className="space-y-0.5">
+                  {snippets.map(snippet => (
+                    <div
+                      key={snippet.id}
+                      className="group flex items-center gap-2 px-2 py-1 rounded-md hover:bg-gray-50 dark:hover:bg-gray-800"
+                    >
+                      <button
+                        onClick={() => loadPayload(snippet.payload)}
+                        title={describePayload(snippet.payload)}
+                        className="flex-1 min-w-0 text-left truncate text-xs text-gray-900 dark:text-gray-100"
+                      >
+                        {snippet.name}
+                      </button>
+                      <button
+                        onClick={() =>
+                          saveSnippets(
+                            snippets.filter(item => item.id !== snippet.id)
+                          )
+                        }
+                        className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                        title="Delete snippet"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* History */}
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <span className="flex items-center gap-1 text-[10px] font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                  <History className="w-3 h-3" />
+                  History
+                </span>
+                {history.length > 0 && (
+                  <button
+                    onClick={() => saveHistory([])}
+                    className="text-[10px] text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+              {history.length === 0 ? (
+                <p className="text-[10px] text-gray-500 dark:text-gray-400">
+                  Messages sent on this connection show up here
+                </p>
+              ) : (
+                <div className="space-y-0.5">
+                  {history.map(entry => (
+                    <button
+                      key={entry.id}
+                      onClick={() => loadPayload(entry.payload)}
+                      className="w-full flex items-baseline gap-2 px-2 py-1 rounded-md text-left hover:bg-gray-50 dark:hover:bg-gray-800"
+                    >
+                      <span className="flex-1 min-w-0 truncate text-xs font-mono text-gray-900 dark:text-gray-100">
+                        {describePayload(entry.payload)}
+                      </span>
+                      <span className="text-[10px] text-gray-400 dark:text-gray-500 flex-shrink-0">
+                        {new Date(entry.sentAt).toLocaleTimeString()}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Timeline */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="flex-shrink-0 flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900">
+              <span className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                Timeline
+              </span>
+              {timeline.length > 0 && (
+                <button
+                  onClick={() => setTimeline([])}
+                  className="text-[10px] text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-2">
+              {timeline.length === 0 ? (
+                <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400 text-center">
+                  Sent messages, raw responses and notifications from the server
+                  appear here in the order they happened
+                </div>
+              ) : (
+                timeline.map(entry => {
+                  const display = TIMELINE_DISPLAY[entry.kind];
+                  const Icon = display.icon;
+
+                  return (
+                    <div
+                      key={entry.id}
+                      className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg"
+                    >
+                      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-gray-100 dark:border-gray-800">
+                        <Icon className={`w-3.5 h-3.5 ${display.className}`} />
+                        <span
+                          className={`text-xs font-medium ${display.className}`}
+                        >
+                          {display.label}
+                        </span>
+                        <span className="ml-auto text-[10px] text-gray-400 dark:text-gray-500">
+                          {entry.duration !== undefined &&
+                            `${entry.duration}ms · `}
+                          {new Date(entry.at).toLocaleTimeString()}
+                        </span>
+                      </div>
+                      <pre className="px-3 py-2 text-xs font-mono text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-words">
+                        {typeof entry.body === "string"
+                          ? entry.body
+                          : JSON.stringify(entry.body, null, 2)}
+                      </pre>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
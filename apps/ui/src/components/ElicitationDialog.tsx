@@ -0,0 +1,101 @@
+import { useMemo } from "react";
+import { MessageSquareMore, X } from "lucide-react";
+import { Tool } from "@mcpconnect/schemas";
+import { MCPElicitationRequest } from "@mcpconnect/base-adapters";
+import { ToolExecutionForm } from "./ToolExecutionForm";
+
+export interface ElicitationDialogProps {
+  serverName: string;
+  request: MCPElicitationRequest;
+  pendingCount: number;
+  onAccept: (content: Record<string, unknown>) => void;
+  onDecline: () => void;
+  onCancel: () => void;
+}
+
+export const ElicitationDialog = ({
+  serverName,
+  request,
+  pendingCount,
+  onAccept,
+  onDecline,
+  onCancel,
+}: ElicitationDialogProps) => {
+  // The requested schema is rendered with the same form used for tool input
+  const schemaAsTool: Tool = useMemo(
+    () => ({
+      id: "elicitation",
+      name: "elicitation",
+      description: request.message,
+      inputSchema: request.requestedSchema,
+      deprecated: false,
+    }),
+    [request]
+  );
+
+  const handleSubmit = async (values: Record<string, any>) => {
+    const content = Object.fromEntries(
+      Object.entries(values).filter(
+        ([, value]) => value !== undefined && value !== ""
+      )
+    );
+    onAccept(content);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <MessageSquareMore className="w-5 h-5" />
+              Input Requested
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {serverName} is waiting for your response
+              {pendingCount > 1 && ` (${pendingCount - 1} more waiting)`}
+            </p>
+          </div>
+          <button
+            onClick={onCancel}
+            title="Cancel"
+            className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <p className="text-sm text-gray-900 dark:text-gray-100 whitespace-pre-wrap">
+            {request.message}
+          </p>
+
+          <ToolExecutionForm
+            tool={schemaAsTool}
+            onExecute={handleSubmit}
+            isExecuting={false}
+            submitLabel="Submit"
+            submitHint={`Sent back to ${serverName}`}
+          />
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onDecline}
+            className="px-4 py-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
+          >
+            Decline
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,341 @@
+import React, { useState, useMemo } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useStorage } from "../contexts/StorageContext";
+import {
+  ChatMessage,
+  PromptGetResult,
+  PromptMessage,
+  Tool,
+} from "@mcpconnect/schemas";
+import { MCPService } from "@mcpconnect/adapter-ai-sdk";
+import { ToolExecutionForm } from "./ToolExecutionForm";
+import {
+  ArrowLeft,
+  MessageSquare,
+  MessageSquarePlus,
+  AlertCircle,
+  User,
+  Bot,
+} from "lucide-react";
+import { nanoid } from "nanoid";
+
+/**
+ * Flatten a prompt message's content into plain text suitable for a chat turn
+ */
+const promptContentToText = (content: PromptMessage["content"]): string => {
+  switch (content.type) {
+    case "text":
+      return content.text || "";
+    case "resource": {
+      const resource = content.resource || {};
+      if (typeof resource.text === "string") {
+        return resource.text;
+      }
+      return `[resource: ${String(resource.uri ?? "unknown")}]`;
+    }
+    default:
+      return `[${content.type}${content.mimeType ? `: ${content.mimeType}` : ""}]`;
+  }
+};
+
+export const PromptDetailPage: React.FC = () => {
+  const { connectionId, promptName } = useParams<{
+    connectionId: string;
+    promptName: string;
+  }>();
+  const navigate = useNavigate();
+  const { connections, prompts, conversations, updateConversations } =
+    useStorage();
+
+  const [isRendering, setIsRendering] = useState(false);
+  const [renderedPrompt, setRenderedPrompt] = useState<PromptGetResult | null>(
+    null
+  );
+  const [renderedArguments, setRenderedArguments] = useState<
+    Record<string, string>
+  >({});
+  const [renderError, setRenderError] = useState<string | null>(null);
+
+  const currentConnection = connections.find(conn => conn.id === connectionId);
+  const prompt = (prompts[connectionId || ""] || []).find(
+    p => p.name === promptName
+  );
+
+  // Prompt arguments are always strings, so they map directly onto form fields
+  const promptAsTool: Tool | null = useMemo(() => {
+    if (!prompt) return null;
+
+    return {
+      id: prompt.name,
+      name: prompt.name,
+      description: prompt.description || prompt.name,
+      parameters: (prompt.arguments || []).map(arg => ({
+        name: arg.name,
+        type: "string" as const,
+        description: arg.description,
+        required: arg.required ?? false,
+      })),
+      category: "prompt",
+      deprecated: false,
+    };
+  }, [prompt]);
+
+  // Only offer suggestions when the server declared the completions capability
+  const supportsCompletions = currentConnection
+    ? Boolean(MCPService.getServerCapabilities(currentConnection)?.completions)
+    : false;
+
+  const handleComplete = (
+    argumentName: string,
+    value: string,
+    otherArguments: Record<string, string>,
+    abortSignal: AbortSignal
+  ) =>
+    MCPService.complete(
+      currentConnection!,
+      { type: "ref/prompt", name: prompt!.name },
+      { name: argumentName, value },
+      otherArguments,
+      abortSignal
+    );
+
+  const handleRender = async (formValues: Record<string, any>) => {
+    if (!prompt || !currentConnection) return;
+
+    setIsRendering(true);
+    setRenderError(null);
+
+    const promptArguments: Record<string, string> = {};
+    Object.entries(formValues).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") {
+        promptArguments[key] = String(value);
+      }
+    });
+
+    try {
+      const result = await MCPService.getPrompt(
+        currentConnection,
+        prompt.name,
+        promptArguments
+      );
+      setRenderedPrompt(result);
+      setRenderedArguments(promptArguments);
+    } catch (error) {
+      console.error("[PromptDetail] Prompt rendering failed:", error);
+      setRenderedPrompt(null);
+      setRenderError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const handleStartChat = async () => {
+    if (!connectionId || !prompt || !renderedPrompt) return;
+
+    const now = new Date();
+    const messages: ChatMessage[] = renderedPrompt.messages.map(
+      (message, index) => ({
+        id: nanoid(),
+        message: promptContentToText(message.content),
+        isUser: message.role === "user",
+        timestamp: now,
+        isExecuting: false,
+        isPartial: false,
+        messageOrder: index,
+        metadata: {
+          source: "prompt",
+          promptName: prompt.name,
+          promptArguments: renderedArguments,
+        },
+      })
+    );
+
+    const newChatId = nanoid();
+    const connectionConversations = conversations[connectionId] || [];
+    const newChat = {
+      id: newChatId,
+      title: prompt.title || prompt.name,
+      messages,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await updateConversations({
+      ...conversations,
+      [connectionId]: [...connectionConversations, newChat],
+    });
+
+    navigate(`/connections/${connectionId}/chat/${newChatId}`);
+  };
+
+  const handleBack = () => {
+    if (currentConnection) {
+      const connectionConversations = conversations[connectionId!] || [];
+      const firstChatId =
+        connectionConversations.length > 0
+          ? connectionConversations[0].id
+          : "new";
+
+      navigate(`/connections/${connectionId}/chat/${firstChatId}`);
+    } else {
+      navigate("/connections");
+    }
+  };
+
+  if (!prompt || !promptAsTool) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-gray-50 dark:bg-gray-950">
+        <div className="text-center max-w-md">
+          <div className="w-12 h-12 bg-gray-100 dark:bg-gray-800 rounded-lg mx-auto mb-3 flex items-center justify-center">
+            <AlertCircle className="w-6 h-6 text-gray-400 dark:text-gray-600" />
+          </div>
+          <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100 mb-2">
+            Prompt Not Found
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            The requested prompt could not be found.
+          </p>
+          <button
+            onClick={handleBack}
+            className="w-full px-4 py-2 bg-blue-600 dark:bg-blue-500 text-white rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors text-sm font-medium"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col bg-gray-50 dark:bg-gray-950 overflow-hidden">
+      {/* Compact Header */}
+      <div className="flex-shrink-0 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800">
+        <div className="max-w-4xl mx-auto px-4 py-3">
+          <div className="flex items-start gap-3">
+            <button
+              onClick={handleBack}
+              className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors flex-shrink-0"
+              title="Back to chat"
+            >
+              <ArrowLeft className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+            </button>
+
+            <div className="flex items-start gap-2 min-w-0 flex-1">
+              <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400">
+                <MessageSquare className="w-4 h-4" />
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap mb-1">
+                  <h1 className="text-base font-semibold text-gray-900 dark:text-gray-100">
+                    {prompt.title || prompt.name}
+                  </h1>
+                  <span className="px-1.5 py-0.5 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 rounded text-xs font-medium">
+                    prompt
+                  </span>
+                </div>
+                {prompt.description && (
+                  <p className="text-xs text-gray-600 dark:text-gray-400 leading-relaxed">
+                    {prompt.description}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main Content Area */}
+      <div className="flex-1 overflow-y-auto">
+        <div className="max-w-3xl mx-auto px-4 py-4 space-y-4">
+          {/* Argument Form Card */}
+          <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
+            <div className="px-4 py-2.5 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                Prompt Arguments
+              </h2>
+            </div>
+
+            <div className="p-4">
+              <ToolExecutionForm
+                tool={promptAsTool}
+                onExecute={handleRender}
+                isExecuting={isRendering}
+                disabled={!currentConnection}
+                submitLabel="Render Prompt"
+                submitHint="Rendered messages appear below"
+                onComplete={supportsCompletions ? handleComplete : undefined}
+              />
+            </div>
+          </div>
+
+          {renderError && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <AlertCircle className="w-4 h-4 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+              <p className="text-xs text-red-700 dark:text-red-300 break-words">
+                {renderError}
+              </p>
+            </div>
+          )}
+
+          {/* Rendered Messages */}
+          {renderedPrompt && (
+            <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
+              <div className="px-4 py-2.5 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 flex items-center justify-between gap-3">
+                <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                  Rendered Messages ({renderedPrompt.messages.length})
+                </h2>
+                <button
+                  onClick={handleStartChat}
+                  disabled={renderedPrompt.messages.length === 0}
+                  className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium bg-blue-600 dark:bg-blue-500 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <MessageSquarePlus className="w-3.5 h-3.5" />
+                  Start chat with prompt
+                </button>
+              </div>
+
+              <div className="p-4 space-y-3">
+                {renderedPrompt.description && (
+                  <p className="text-xs text-gray-600 dark:text-gray-400">
+                    {renderedPrompt.description}
+                  </p>
+                )}
+
+                {renderedPrompt.messages.length === 0 ? (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 text-center py-4">
+                    The server returned no messages for this prompt
+                  </p>
+                ) : (
+                  renderedPrompt.messages.map((message, index) => (
+                    <div
+                      key={index}
+                      className="rounded-lg border border-gray-200 dark:border-gray-700"
+                    >
+                      <div className="flex items-center gap-1.5 px-3 py-1.5 border-b border-gray-200 dark:border-gray-700 text-[10px] font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                        {message.role === "user" ? (
+                          <User className="w-3 h-3" />
+                        ) : (
+                          <Bot className="w-3 h-3" />
+                        )}
+                        {message.role}
+                        {message.content.type !== "text" && (
+                          <span className="ml-auto normal-case">
+                            {message.content.type}
+                          </span>
+                        )}
+                      </div>
+                      <pre className="px-3 py-2 text-xs text-gray-900 dark:text-gray-100 whitespace-pre-wrap break-words font-sans">
+                        {promptContentToText(message.content)}
+                      </pre>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
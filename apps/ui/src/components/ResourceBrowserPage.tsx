@@ -0,0 +1,639 @@
+import React, { useState, useMemo, useEffect, useRef } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useStorage } from "../contexts/StorageContext";
+import {
+  Resource,
+  ResourceContents,
+  ResourceTemplate,
+  Tool,
+  ToolExecution,
+} from "@mcpconnect/schemas";
+import { MCPService, normalizeUrl } from "@mcpconnect/adapter-ai-sdk";
+import { ResourceContentViewer } from "@mcpconnect/components";
+import { ChatService } from "../services/chatService";
+import { ToolExecutionForm } from "./ToolExecutionForm";
+import {
+  ResourceChangeHistory,
+  ResourceVersion,
+  resourceContentsToText,
+} from "./ResourceChangeHistory";
+import {
+  expandUriTemplate,
+  getUriTemplateVariables,
+} from "../utils/uriTemplate";
+import {
+  ArrowLeft,
+  AlertCircle,
+  Bell,
+  BellOff,
+  ChevronDown,
+  ChevronRight,
+  Database,
+  FileText,
+  Loader,
+  RefreshCw,
+  Braces,
+} from "lucide-react";
+import { nanoid } from "nanoid";
+
+// Oldest versions are dropped once a subscribed resource exceeds this
+const MAX_HISTORY_VERSIONS = 50;
+
+type Selection =
+  | { kind: "resource"; uri: string }
+  | { kind: "template"; uriTemplate: string };
+
+/**
+ * Derive the URI scheme used to group resources in the tree
+ */
+const getUriScheme = (uri?: string): string => {
+  const match = uri?.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):/);
+  return match ? match[1].toLowerCase() : "other";
+};
+
+export const ResourceBrowserPage: React.FC = () => {
+  const { connectionId } = useParams<{ connectionId: string }>();
+  const navigate = useNavigate();
+  const {
+    connections,
+    resources,
+    resourceTemplates,
+    conversations,
+    refreshAll,
+  } = useStorage();
+
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [collapsedSchemes, setCollapsedSchemes] = useState<Set<string>>(
+    new Set()
+  );
+  const [isReading, setIsReading] = useState(false);
+  const [readUri, setReadUri] = useState<string | null>(null);
+  const [readContents, setReadContents] = useState<ResourceContents[] | null>(
+    null
+  );
+  const [readError, setReadError] = useState<string | null>(null);
+  const [subscribedUris, setSubscribedUris] = useState<Set<string>>(new Set());
+  const [isTogglingSubscription, setIsTogglingSubscription] = useState(false);
+  const [subscriptionError, setSubscriptionError] = useState<string | null>(
+    null
+  );
+  const [versionHistory, setVersionHistory] = useState<
+    Record<string, ResourceVersion[]>
+  >({});
+
+  // Notification handlers outlive renders, so they read these refs
+  const subscribedUrisRef = useRef<Set<string>>(new Set());
+  const readUriRef = useRef<string | null>(null);
+  readUriRef.current = readUri;
+
+  const currentConnection = connections.find(conn => conn.id === connectionId);
+  const connectionResources = useMemo(
+    () => resources[connectionId || ""] || [],
+    [resources, connectionId]
+  );
+  const connectionTemplates = useMemo(
+    () => resourceTemplates[connectionId || ""] || [],
+    [resourceTemplates, connectionId]
+  );
+
+  const resourcesByScheme = useMemo(() => {
+    const groups: Record<string, Resource[]> = {};
+    connectionResources.forEach(resource => {
+      const scheme = getUriScheme(resource.uri);
+      groups[scheme] = [...(groups[scheme] || []), resource];
+    });
+    return Object.entries(groups).sort(([a], [b]) => a.localeCompare(b));
+  }, [connectionResources]);
+
+  const selectedTemplate =
+    selection?.kind === "template"
+      ? connectionTemplates.find(t => t.uriTemplate === selection.uriTemplate)
+      : undefined;
+
+  // Template variables are always strings, so they map directly onto form fields
+  const templateAsTool: Tool | null = useMemo(() => {
+    if (!selectedTemplate) return null;
+
+    return {
+      id: selectedTemplate.uriTemplate,
+      name: selectedTemplate.name,
+      description: selectedTemplate.description || selectedTemplate.uriTemplate,
+      parameters: getUriTemplateVariables(selectedTemplate.uriTemplate).map(
+        variable => ({
+          name: variable,
+          type: "string" as const,
+          required: false,
+        })
+      ),
+      category: "resource-template",
+      deprecated: false,
+    };
+  }, [selectedTemplate]);
+
+  const updateSubscribedUris = (next: Set<string>) => {
+    subscribedUrisRef.current = next;
+    setSubscribedUris(next);
+  };
+
+  const recordVersion = (uri: string, contents: ResourceContents[]) => {
+    setVersionHistory(prev => {
+      const versions = prev[uri] || [];
+      const latest = versions[versions.length - 1];
+
+      if (
+        latest &&
+        resourceContentsToText(latest.contents) ===
+          resourceContentsToText(contents)
+      ) {
+        return prev;
+      }
+
+      return {
+        ...prev,
+        [uri]: [
+          ...versions,
+          { id: nanoid(), receivedAt: new Date().toISOString(), contents },
+        ].slice(-MAX_HISTORY_VERSIONS),
+      };
+    });
+  };
+
+  /**
+   * Read a resource and log it to the inspector. Background reads come from
+   * update notifications and leave the current view alone unless it shows
+   * the same resource.
+   */
+  const readResource = async (
+    uri: string,
+    options: { background?: boolean } = {}
+  ) => {
+    if (!currentConnection || !connectionId) return;
+
+    const isDisplayed = !options.background || readUriRef.current === uri;
+
+    if (!options.background) {
+      setIsReading(true);
+      setReadUri(uri);
+      setReadError(null);
+      setReadContents(null);
+    }
+
+    try {
+      const result = await MCPService.readResource(currentConnection, uri);
+
+      if (result.success) {
+        const contents = (result.contents || []) as ResourceContents[];
+        if (isDisplayed) {
+          setReadError(null);
+          setReadContents(contents);
+        }
+        if (subscribedUrisRef.current.has(uri)) {
+          recordVersion(uri, contents);
+        }
+      } else if (isDisplayed) {
+        setReadError(result.error || "Failed to read resource");
+      }
+
+      await ChatService.storeToolExecution(
+        connectionId,
+        result.execution as ToolExecution
+      );
+      await refreshAll();
+    } catch (error) {
+      console.error("[ResourceBrowser] Resource read failed:", error);
+      if (isDisplayed) {
+        setReadError(error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      if (!options.background) {
+        setIsReading(false);
+      }
+    }
+  };
+
+  const toggleSubscription = async (uri: string) => {
+    if (!currentConnection) return;
+
+    setIsTogglingSubscription(true);
+    setSubscriptionError(null);
+
+    try {
+      if (subscribedUrisRef.current.has(uri)) {
+        await MCPService.unsubscribeResource(currentConnection, uri);
+        const next = new Set(subscribedUrisRef.current);
+        next.delete(uri);
+        updateSubscribedUris(next);
+      } else {
+        await MCPService.subscribeResource(currentConnection, uri);
+        updateSubscribedUris(new Set(subscribedUrisRef.current).add(uri));
+
+        // The contents on screen become the baseline for later diffs
+        if (readUriRef.current === uri && readContents) {
+          recordVersion(uri, readContents);
+        }
+      }
+    } catch (error) {
+      console.error("[ResourceBrowser] Subscription change failed:", error);
+      setSubscriptionError(
+        error instanceof Error ? error.message : String(error)
+      );
+    } finally {
+      setIsTogglingSubscription(false);
+    }
+  };
+
+  // Re-read subscribed resources when the server reports an update
+  useEffect(() => {
+    if (!currentConnection) return;
+
+    const connectionUrl = normalizeUrl(currentConnection.url);
+    return MCPService.onNotification(notification => {
+      if (
+        notification.connectionUrl !== connectionUrl ||
+        notification.method !== "notifications/resources/updated"
+      ) {
+        return;
+      }
+
+      const uri = notification.params?.uri;
+      if (typeof uri === "string" && subscribedUrisRef.current.has(uri)) {
+        readResource(uri, { background: true });
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentConnection?.url, connectionId]);
+
+  // Drop server-side subscriptions when leaving the connection
+  useEffect(() => {
+    const connection = currentConnection;
+
+    return () => {
+      if (connection) {
+        subscribedUrisRef.current.forEach(uri => {
+          MCPService.unsubscribeResource(connection, uri).catch(error =>
+            console.warn("[ResourceBrowser] Unsubscribe failed:", error)
+          );
+        });
+      }
+      updateSubscribedUris(new Set());
+      setVersionHistory({});
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [connectionId]);
+
+  const handleSelectResource = (resource: Resource) => {
+    if (!resource.uri) return;
+
+    setSelection({ kind: "resource", uri: resource.uri });
+    readResource(resource.uri);
+  };
+
+  const handleSelectTemplate = (template: ResourceTemplate) => {
+    setSelection({ kind: "template", uriTemplate: template.uriTemplate });
+    setReadUri(null);
+    setReadContents(null);
+    setReadError(null);
+  };
+
+  // Only offer suggestions when the server declared the completions capability
+  const supportsCompletions = currentConnection
+    ? Boolean(MCPService.getServerCapabilities(currentConnection)?.completions)
+    : false;
+
+  const handleCompleteTemplate = (
+    variableName: string,
+    value: string,
+    otherVariables: Record<string, string>,
+    abortSignal: AbortSignal
+  ) =>
+    MCPService.complete(
+      currentConnection!,
+      { type: "ref/resource", uri: selectedTemplate!.uriTemplate },
+      { name: variableName, value },
+      otherVariables,
+      abortSignal
+    );
+
+  const handleReadTemplate = async (formValues: Record<string, any>) => {
+    if (!selectedTemplate) return;
+
+    const values: Record<string, string> = {};
+    Object.entries(formValues).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") {
+        values[key] = String(value);
+      }
+    });
+
+    await readResource(expandUriTemplate(selectedTemplate.uriTemplate, values));
+  };
+
+  const toggleScheme = (scheme: string) => {
+    setCollapsedSchemes(prev => {
+      const next = new Set(prev);
+      if (next.has(scheme)) {
+        next.delete(scheme);
+      } else {
+        next.add(scheme);
+      }
+      return next;
+    });
+  };
+
+  const handleBack = () => {
+    if (currentConnection) {
+      const connectionConversations = conversations[connectionId!] || [];
+      const firstChatId =
+        connectionConversations.length > 0
+          ? connectionConversations[0].id
+          : "new";
+
+      navigate(`/connections/${connectionId}/chat/${firstChatId}`);
+    } else {
+      navigate("/connections");
+    }
+  };
+
+  if (!currentConnection) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-gray-50 dark:bg-gray-950">
+        <div className="text-center max-w-md">
+          <div className="w-12 h-12 bg-gray-100 dark:bg-gray-800 rounded-lg mx-auto mb-3 flex items-center justify-center">
+            <AlertCircle className="w-6 h-6 text-gray-400 dark:text-gray-600" />
+          </div>
+          <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100 mb-2">
+            Connection Not Found
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            The requested connection could not be found.
+          </p>
+          <button
+            onClick={handleBack}
+            className="w-full px-4 py-2 bg-blue-600 dark:bg-blue-500 text-white rounded-lg hover:bg-blue-700 dark:hover:bg-blue-600 transition-colors text-sm font-medium"
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isEmpty =
+    connectionResources.length === 0 && connectionTemplates.length === 0;
+
+  return (
+    <div className="flex-1 flex flex-col bg-gray-50 dark:bg-gray-950 overflow-hidden">
+      {/* Compact Header */}
+      <div className="flex-shrink-0 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800">
+        <div className="px-4 py-3">
+          <div className="flex items-start gap-3">
+            <button
+              onClick={handleBack}
+              className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors flex-shrink-0"
+              title="Back to chat"
+            >
+              <ArrowLeft className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+            </button>
+
+            <div className="flex items-start gap-2 min-w-0 flex-1">
+              <div className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0 bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400">
+                <Database className="w-4 h-4" />
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <h1 className="text-base font-semibold text-gray-900 dark:text-gray-100">
+                  Resources
+                </h1>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {connectionResources.length} resources,{" "}
+                  {connectionTemplates.length} templates on{" "}
+                  {currentConnection.name}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {isEmpty ? (
+        <div className="flex-1 flex items-center justify-center">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            This connection does not expose any resources
+          </p>
+        </div>
+      ) : (
+        <div className="flex-1 flex min-h-0">
+          {/* Resource Tree */}
+          <div className="w-72 flex-shrink-0 border-r border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 overflow-y-auto p-2 space-y-3">
+            {resourcesByScheme.map(([scheme, schemeResources]) => {
+              const isCollapsed = collapsedSchemes.has(scheme);
+              return (
+                <div key={scheme}>
+                  <button
+                    onClick={() => toggleScheme(scheme)}
+                    className="w-full flex items-center gap-1 px-1.5 py-1 text-[10px] font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                  >
+                    {isCollapsed ? (
+                      <ChevronRight className="w-3 h-3" />
+                    ) : (
+                      <ChevronDown className="w-3 h-3" />
+                    )}
+                    {scheme}://
+                    <span className="ml-auto font-normal">
+                      {schemeResources.length}
+                    </span>
+                  </button>
+
+                  {!isCollapsed && (
+                    <div className="mt-1 space-y-0.5">
+                      {schemeResources.map(resource => {
+                        const isActive =
+                          selection?.kind === "resource" &&
+                          selection.uri === resource.uri;
+                        return (
+                          <button
+                            key={resource.uri || resource.name}
+                            onClick={() => handleSelectResource(resource)}
+                            disabled={!resource.uri}
+                            title={resource.uri}
+                            className={`w-full text-left px-2 py-1.5 rounded-md transition-colors min-w-0 ${
+                              isActive
+                                ? "bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300"
+                                : "hover:bg-gray-50 dark:hover:bg-gray-800 text-gray-900 dark:text-gray-100"
+                            }`}
+                          >
+                            <div className="flex items-center gap-1.5 min-w-0">
+                              <FileText className="w-3 h-3 flex-shrink-0 text-gray-400" />
+                              <span className="text-xs truncate">
+                                {resource.name}
+                              </span>
+                              {resource.uri &&
+                                subscribedUris.has(resource.uri) && (
+                                  <Bell className="w-3 h-3 ml-auto flex-shrink-0 text-green-500" />
+                                )}
+                            </div>
+                            <p className="ml-4 text-[10px] font-mono text-gray-500 dark:text-gray-400 truncate">
+                              {resource.uri}
+                            </p>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {connectionTemplates.length > 0 && (
+              <div>
+                <div className="px-1.5 py-1 text-[10px] font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                  Templates
+                </div>
+                <div className="mt-1 space-y-0.5">
+                  {connectionTemplates.map(template => {
+                    const isActive =
+                      selection?.kind === "template" &&
+                      selection.uriTemplate === template.uriTemplate;
+                    return (
+                      <button
+                        key={template.uriTemplate}
+                        onClick={() => handleSelectTemplate(template)}
+                        title={template.uriTemplate}
+                        className={`w-full text-left px-2 py-1.5 rounded-md transition-colors min-w-0 ${
+                          isActive
+                            ? "bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300"
+                            : "hover:bg-gray-50 dark:hover:bg-gray-800 text-gray-900 dark:text-gray-100"
+                        }`}
+                      >
+                        <div className="flex items-center gap-1.5 min-w-0">
+                          <Braces className="w-3 h-3 flex-shrink-0 text-gray-400" />
+                          <span className="text-xs truncate">
+                            {template.title || template.name}
+                          </span>
+                        </div>
+                        <p className="ml-4 text-[10px] font-mono text-gray-500 dark:text-gray-400 truncate">
+                          {template.uriTemplate}
+                        </p>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Detail Panel */}
+          <div className="flex-1 overflow-y-auto">
+            <div className="max-w-3xl mx-auto px-4 py-4 space-y-4">
+              {!selection && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+                  Select a resource or template to read its contents
+                </p>
+              )}
+
+              {selectedTemplate && templateAsTool && (
+                <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
+                  <div className="px-4 py-2.5 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50">
+                    <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                      {selectedTemplate.title || selectedTemplate.name}
+                    </h2>
+                    <p className="text-[10px] font-mono text-gray-500 dark:text-gray-400 break-all">
+                      {selectedTemplate.uriTemplate}
+                    </p>
+                  </div>
+                  <div className="p-4">
+                    <ToolExecutionForm
+                      key={selectedTemplate.uriTemplate}
+                      tool={templateAsTool}
+                      onExecute={handleReadTemplate}
+                      isExecuting={isReading}
+                      submitLabel="Read Resource"
+                      submitHint="Reads are logged in the Request Inspector"
+                      onComplete={
+                        supportsCompletions ? handleCompleteTemplate : undefined
+                      }
+                    />
+                  </div>
+                </div>
+              )}
+
+              {readUri && (
+                <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
+                  <div className="px-4 py-2.5 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100 font-mono truncate">
+                        {readUri}
+                      </h2>
+                      {subscribedUris.has(readUri) && (
+                        <span className="px-1.5 py-0.5 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 rounded text-[10px] font-medium flex-shrink-0">
+                          Live
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => toggleSubscription(readUri)}
+                        disabled={isTogglingSubscription}
+                        className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-50"
+                        title={
+                          subscribedUris.has(readUri)
+                            ? "Unsubscribe from updates"
+                            : "Subscribe to updates"
+                        }
+                      >
+                        {subscribedUris.has(readUri) ? (
+                          <BellOff className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400" />
+                        ) : (
+                          <Bell className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => readResource(readUri)}
+                        disabled={isReading}
+                        className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-50"
+                        title="Read again"
+                      >
+                        <RefreshCw className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {subscriptionError && (
+                    <div className="px-4 py-2 text-xs text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 border-b border-red-200 dark:border-red-800 break-words">
+                      {subscriptionError}
+                    </div>
+                  )}
+
+                  <div className="p-4">
+                    {isReading ? (
+                      <div className="flex items-center justify-center gap-2 py-6 text-xs text-gray-500 dark:text-gray-400">
+                        <Loader className="w-4 h-4 animate-spin" />
+                        Reading resource...
+                      </div>
+                    ) : readError ? (
+                      <div className="flex items-start gap-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                        <AlertCircle className="w-4 h-4 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+                        <p className="text-xs text-red-700 dark:text-red-300 break-words">
+                          {readError}
+                        </p>
+                      </div>
+                    ) : (
+                      readContents && (
+                        <ResourceContentViewer contents={readContents} />
+                      )
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {readUri && subscribedUris.has(readUri) && (
+                <ResourceChangeHistory
+                  versions={versionHistory[readUri] || []}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from "react";
+import { ResourceContents } from "@mcpconnect/schemas";
+import { ChevronDown, ChevronRight, History } from "lucide-react";
+import { diffLines } from "../utils/textDiff";
+
+export interface ResourceVersion {
+  id: string;
+  receivedAt: string;
+  contents: ResourceContents[];
+}
+
+interface ResourceChangeHistoryProps {
+  versions: ResourceVersion[];
+}
+
+/**
+ * Serialize resource contents into comparable text, pretty-printing JSON
+ */
+export const resourceContentsToText = (contents: ResourceContents[]): string =>
+  contents
+    .map(content => {
+      if (content.text !== undefined) {
+        if (content.mimeType?.includes("json")) {
+          try {
+            return JSON.stringify(JSON.parse(content.text), null, 2);
+          } catch {
+            return content.text;
+          }
+        }
+        return content.text;
+      }
+      if (content.blob !== undefined) {
+        return `[binary ${content.mimeType || "data"}, ${content.blob.length} base64 chars]`;
+      }
+      return "";
+    })
+    .join("\n");
+
+const VersionDiff: React.FC<{ before: string; after: string }> = ({
+  before,
+  after,
+}) => {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+
+  return (
+    <pre className="text-[10px] font-mono max-h-64 overflow-auto border-t border-gray-200 dark:border-gray-700">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={
+            line.type === "added"
+              ? "px-2 bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300"
+              : line.type === "removed"
+                ? "px-2 bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300"
+                : "px-2 text-gray-600 dark:text-gray-400"
+          }
+        >
+          {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+};
+
+export const ResourceChangeHistory: React.FC<ResourceChangeHistoryProps> = ({
+  versions,
+}) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const versionTexts = useMemo(
+    () => versions.map(version => resourceContentsToText(version.contents)),
+    [versions]
+  );
+
+  // The first version is the baseline, so only later versions have a diff
+  const changes = versions
+    .map((version, index) => ({ version, index }))
+    .slice(1)
+    .reverse();
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800 overflow-hidden">
+      <div className="px-4 py-2.5 border-b border-gray-200 dark:border-gray-800 bg-gray-50 dark:bg-gray-800/50 flex items-center gap-2">
+        <History className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400" />
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          Change History ({changes.length})
+        </h2>
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400">
+          Waiting for the server to report an update
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {changes.map(({ version, index }) => {
+            const isExpanded = expandedId === version.id;
+            return (
+              <div key={version.id}>
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : version.id)}
+                  className="w-full flex items-center gap-1.5 px-4 py-2 text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+                >
+                  {isExpanded ? (
+                    <ChevronDown className="w-3 h-3" />
+                  ) : (
+                    <ChevronRight className="w-3 h-3" />
+                  )}
+                  Version {index + 1}
+                  <span className="ml-auto text-[10px] text-gray-500 dark:text-gray-400">
+                    {new Date(version.receivedAt).toLocaleTimeString()}
+                  </span>
+                </button>
+                {isExpanded && (
+                  <VersionDiff
+                    before={versionTexts[index - 1]}
+                    after={versionTexts[index]}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
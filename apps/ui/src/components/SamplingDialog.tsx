@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { Brain, Loader, Send, X } from "lucide-react";
+import {
+  MCPSamplingMessage,
+  MCPSamplingRequest,
+} from "@mcpconnect/base-adapters";
+
+export interface SamplingDialogProps {
+  serverName: string;
+  request: MCPSamplingRequest;
+  pendingCount: number;
+  isSending: boolean;
+  onApprove: (request: MCPSamplingRequest) => void;
+  onReject: () => void;
+}
+
+const PRIORITY_LABELS = {
+  costPriority: "Cost",
+  speedPriority: "Speed",
+  intelligencePriority: "Intelligence",
+} as const;
+
+const SamplingMessageEditor = ({
+  message,
+  disabled,
+  onChange,
+}: {
+  message: MCPSamplingMessage;
+  disabled: boolean;
+  onChange: (text: string) => void;
+}) => {
+  const { content } = message;
+
+  return (
+    <div className="space-y-1">
+      <span
+        className={`inline-block px-1.5 py-0.5 rounded text-[10px] font-medium uppercase ${
+          message.role === "user"
+            ? "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+            : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+        }`}
+      >
+        {message.role}
+      </span>
+      {content.type === "text" && (
+        <textarea
+          value={content.text}
+          onChange={e => onChange(e.target.value)}
+          disabled={disabled}
+          rows={Math.min(8, Math.max(2, content.text.split("\n").length))}
+          className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+        />
+      )}
+      {content.type === "image" && (
+        <img
+          src={`data:${content.mimeType};base64,${content.data}`}
+          alt="Sampling input"
+          className="max-h-48 rounded-md border border-gray-200 dark:border-gray-700"
+        />
+      )}
+      {content.type === "audio" && (
+        <audio
+          controls
+          src={`data:${content.mimeType};base64,${content.data}`}
+          className="w-full"
+        />
+      )}
+    </div>
+  );
+};
+
+export const SamplingDialog = ({
+  serverName,
+  request,
+  pendingCount,
+  isSending,
+  onApprove,
+  onReject,
+}: SamplingDialogProps) => {
+  const [draft, setDraft] = useState<MCPSamplingRequest>(request);
+  const preferences = request.modelPreferences;
+  const hints = preferences?.hints?.filter(hint => hint.name) || [];
+  const priorities = (
+    Object.keys(PRIORITY_LABELS) as Array<keyof typeof PRIORITY_LABELS>
+  ).filter(key => preferences?.[key] !== undefined);
+
+  const updateMessageText = (index: number, text: string) => {
+    setDraft(prev => ({
+      ...prev,
+      messages: prev.messages.map((message, i) =>
+        i === index ? { ...message, content: { type: "text", text } } : message
+      ),
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <Brain className="w-5 h-5" />
+              Sampling Request
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {serverName} wants to generate a message with your configured
+              model
+              {pendingCount > 1 && ` (${pendingCount - 1} more waiting)`}
+            </p>
+          </div>
+          <button
+            onClick={onReject}
+            disabled={isSending}
+            className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {/* Model preferences */}
+          {(hints.length > 0 || priorities.length > 0) && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Model Preferences
+              </h3>
+              {hints.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {hints.map(hint => (
+                    <span
+                      key={hint.name}
+                      className="px-2 py-0.5 text-xs font-mono bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded"
+                    >
+                      {hint.name}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="flex flex-wrap gap-4 text-xs text-gray-600 dark:text-gray-400">
+                {priorities.map(key => (
+                  <span key={key}>
+                    {PRIORITY_LABELS[key]}:{" "}
+                    {Math.round((preferences?.[key] ?? 0) * 100)}%
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* System prompt */}
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              System Prompt
+            </label>
+            <textarea
+              value={draft.systemPrompt || ""}
+              onChange={e =>
+                setDraft(prev => ({
+                  ...prev,
+                  systemPrompt: e.target.value || undefined,
+                }))
+              }
+              disabled={isSending}
+              rows={2}
+              placeholder="None"
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+            />
+          </div>
+
+          {/* Messages */}
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Messages ({draft.messages.length})
+            </h3>
+            {draft.messages.map((message, index) => (
+              <SamplingMessageEditor
+                key={index}
+                message={message}
+                disabled={isSending}
+                onChange={text => updateMessageText(index, text)}
+              />
+            ))}
+          </div>
+
+          {/* Limits */}
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Max Tokens
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={draft.maxTokens}
+                onChange={e =>
+                  setDraft(prev => ({
+                    ...prev,
+                    maxTokens: parseInt(e.target.value) || request.maxTokens,
+                  }))
+                }
+                disabled={isSending}
+                className="w-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+              />
+            </div>
+            {request.temperature !== undefined && (
+              <span className="text-xs text-gray-500 dark:text-gray-400 pb-2">
+                Temperature: {request.temperature}
+              </span>
+            )}
+            {request.includeContext && request.includeContext !== "none" && (
+              <span className="text-xs text-gray-500 dark:text-gray-400 pb-2">
+                Requested context: {request.includeContext} (not shared)
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onReject}
+            disabled={isSending}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors disabled:opacity-50"
+          >
+            Reject
+          </button>
+          <button
+            onClick={() => onApprove(draft)}
+            disabled={isSending}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSending ? (
+              <Loader className="w-4 h-4 animate-spin" />
+            ) : (
+              <Send className="w-4 h-4" />
+            )}
+            {isSending ? "Sending..." : "Approve & Send"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { ToolExecution } from "@mcpconnect/schemas";
+import {
+  AdapterError,
+  MCPSamplingRequest,
+  MCPSamplingRequestSchema,
+  MCPSamplingResult,
+  MCPServerRequest,
+} from "@mcpconnect/base-adapters";
+import {
+  MCPService,
+  generateId,
+  normalizeUrl,
+} from "@mcpconnect/adapter-ai-sdk";
+import { useStorage } from "../contexts/StorageContext";
+import { ChatService } from "../services/chatService";
+import { ModelService } from "../services/modelService";
+import { SamplingDialog } from "./SamplingDialog";
+
+interface PendingSampling {
+  request: MCPServerRequest;
+  params: MCPSamplingRequest;
+  resolve: (result: MCPSamplingResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Answers sampling/createMessage requests from any connected server. Each
+ * request waits in a queue until the user approves or rejects it.
+ */
+export const SamplingRequestHandler = () => {
+  const { connections, refreshAll } = useStorage();
+  const [queue, setQueue] = useState<PendingSampling[]>([]);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    return MCPService.setRequestHandler("sampling/createMessage", request => {
+      const parsed = MCPSamplingRequestSchema.safeParse(request.params);
+      if (!parsed.success) {
+        return Promise.reject(
+          new AdapterError(
+            `Invalid sampling request: ${parsed.error.message}`,
+            "INVALID_PARAMS",
+            { code: -32602 }
+          )
+        );
+      }
+
+      return new Promise<MCPSamplingResult>((resolve, reject) => {
+        setQueue(prev => [
+          ...prev,
+          { request, params: parsed.data, resolve, reject },
+        ]);
+      });
+    });
+  }, []);
+
+  const current = queue[0];
+  const connection = current
+    ? connections.find(
+        c => normalizeUrl(c.url) === current.request.connectionUrl
+      )
+    : undefined;
+
+  const logExchange = async (
+    pending: PendingSampling,
+    params: MCPSamplingRequest,
+    startTime: number,
+    outcome: { result: MCPSamplingResult } | { error: string }
+  ) => {
+    if (!connection) return;
+
+    const now = new Date().toISOString();
+    const execution: ToolExecution = {
+      id: generateId(),
+      tool: "sampling/createMessage",
+      status: "result" in outcome ? "success" : "error",
+      duration: Date.now() - startTime,
+      timestamp: now,
+      request: {
+        tool: "sampling/createMessage",
+        arguments: params,
+        timestamp: pending.request.receivedAt,
+      },
+      response:
+        "result" in outcome
+          ? { success: true, result: outcome.result, timestamp: now }
+          : undefined,
+      error: "error" in outcome ? outcome.error : undefined,
+    };
+
+    try {
+      await ChatService.storeToolExecution(connection.id, execution);
+      await refreshAll();
+    } catch (error) {
+      console.error("[SamplingRequestHandler] Failed to log exchange:", error);
+    }
+  };
+
+  const finish = () => {
+    setIsSending(false);
+    setQueue(prev => prev.slice(1));
+  };
+
+  const handleApprove = async (params: MCPSamplingRequest) => {
+    if (!current) return;
+
+    const startTime = Date.now();
+    setIsSending(true);
+
+    try {
+      const settings = await ModelService.loadSettings();
+      if (!settings) {
+        throw new Error("No AI provider configured");
+      }
+
+      const result = await ChatService.createSamplingMessage(params, settings);
+      current.resolve(result);
+      await logExchange(current, params, startTime, { result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      current.reject(
+        new AdapterError(`Sampling failed: ${message}`, "SAMPLING_FAILED")
+      );
+      await logExchange(current, params, startTime, { error: message });
+    } finally {
+      finish();
+    }
+  };
+
+  const handleReject = async () => {
+    if (!current) return;
+
+    current.reject(
+      new AdapterError("User rejected sampling request", "SAMPLING_REJECTED", {
+        code: -1,
+      })
+    );
+    await logExchange(current, current.params, Date.now(), {
+      error: "Rejected by user",
+    });
+    finish();
+  };
+
+  if (!current) return null;
+
+  return (
+    <SamplingDialog
+      key={String(current.request.id) + current.request.receivedAt}
+      serverName={connection?.name || current.request.connectionUrl}
+      request={current.params}
+      pendingCount={queue.length}
+      isSending={isSending}
+      onApprove={handleApprove}
+      onReject={handleReject}
+    />
+  );
+};
@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { Connection, LoggingLevel } from "@mcpconnect/schemas";
+import { MCPService } from "@mcpconnect/adapter-ai-sdk";
+import { ServerLogPanel } from "@mcpconnect/components";
+import { useServerLogs } from "../contexts/ServerLogProvider";
+
+export const ServerLogView = ({ connection }: { connection: Connection }) => {
+  const { getLogs, clearLogs, getLevel, setLevel } = useServerLogs();
+  const [isSettingLevel, setIsSettingLevel] = useState(false);
+  const [levelError, setLevelError] = useState<string | null>(null);
+
+  const capabilities = MCPService.getServerCapabilities(connection);
+
+  const handleLevelChange = async (level: LoggingLevel) => {
+    setIsSettingLevel(true);
+    setLevelError(null);
+
+    try {
+      await setLevel(connection, level);
+    } catch (error) {
+      console.error("[ServerLogView] logging/setLevel failed:", error);
+      setLevelError(
+        error instanceof Error ? error.message : "Failed to set log level"
+      );
+    } finally {
+      setIsSettingLevel(false);
+    }
+  };
+
+  return (
+    <ServerLogPanel
+      key={connection.id}
+      entries={getLogs(connection.url)}
+      connectionName={connection.name}
+      level={getLevel(connection.url)}
+      onLevelChange={handleLevelChange}
+      isSettingLevel={isSettingLevel}
+      levelError={levelError}
+      loggingSupported={
+        capabilities ? Boolean(capabilities.logging) : undefined
+      }
+      onClear={() => clearLogs(connection.url)}
+    />
+  );
+};
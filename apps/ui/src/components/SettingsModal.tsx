@@ -1,5 +1,5 @@
 /* eslint-disable react-hooks/exhaustive-deps */
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useId } from "react";
 import {
   X,
   Brain,
@@ -15,6 +15,7 @@ import {
   RefreshCw,
   RotateCcw,
   Shield,
+  Activity,
 } from "lucide-react";
 import {
   ModelService,
@@ -25,6 +26,10 @@ import {
 import { useStorage } from "../contexts/StorageContext";
 import { Neo4jConfigSection } from "@mcpconnect/components";
 import { useNeo4jSync } from "../hooks/useNeo4jSync";
+import {
+  DOWN_AFTER_FAILURES,
+  useHealthMonitor,
+} from "../contexts/HealthMonitorProvider";
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -55,12 +60,22 @@ const providerOptions = [
   },
 ];
 
+const HEALTH_CHECK_INTERVALS = [
+  { value: 15000, label: "Every 15 seconds" },
+  { value: 30000, label: "Every 30 seconds" },
+  { value: 60000, label: "Every minute" },
+  { value: 300000, label: "Every 5 minutes" },
+  { value: 0, label: "Off" },
+];
+
 export const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onClose,
   preSelectedConnectionId,
 }) => {
   const { adapter } = useStorage();
+  const { checkInterval, setCheckInterval } = useHealthMonitor();
+  const healthIntervalId = useId();
   const [settings, setSettings] = useState<LLMSettings>(defaultSettings);
   const [availableModels, setAvailableModels] = useState<ModelOption[]>([]);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
@@ -102,6 +117,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     handleResync,
     handleDelete,
     handleReset,
+    setAutoResync,
   } = useNeo4jSync(expandedConnectionId || undefined);
 
   // Count connections with active vector search
@@ -748,6 +764,37 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                                 </p>
                               </div>
                             </label>
+
+                            {(status === "synced" || status === "stale") && (
+                              <label
+                                className={`flex items-start gap-3 mt-3 group ${expandedSyncState?.savedPassword ? "cursor-pointer" : "cursor-not-allowed opacity-60"}`}
+                              >
+                                <input
+                                  type="checkbox"
+                                  checked={
+                                    expandedSyncState?.autoResync ?? false
+                                  }
+                                  onChange={e =>
+                                    setAutoResync(e.target.checked)
+                                  }
+                                  disabled={!expandedSyncState?.savedPassword}
+                                  className="mt-1 w-4 h-4 text-purple-600 bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 rounded focus:ring-purple-500 focus:ring-2"
+                                />
+                                <div className="flex-1">
+                                  <div className="flex items-center gap-2">
+                                    <span className="text-sm font-medium text-gray-700 dark:text-gray-300 group-hover:text-gray-900 dark:group-hover:text-white">
+                                      Resync automatically
+                                    </span>
+                                    <RefreshCw className="w-3.5 h-3.5 text-gray-400" />
+                                  </div>
+                                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                                    {expandedSyncState?.savedPassword
+                                      ? "Update embeddings as soon as the server changes its tools."
+                                      : "Sync with a remembered password to enable."}
+                                  </p>
+                                </div>
+                              </label>
+                            )}
                           </div>
 
                           {/* Reset Confirmation */}
@@ -861,6 +908,38 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               </div>
             )}
 
+          {/* Connection Health Section */}
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+              <Activity className="w-4 h-4" />
+              Connection Health
+            </h3>
+
+            <label
+              htmlFor={healthIntervalId}
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              Ping interval
+            </label>
+            <select
+              id={healthIntervalId}
+              value={checkInterval}
+              onChange={e => setCheckInterval(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {HEALTH_CHECK_INTERVALS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Connected servers are pinged on this interval to track latency and
+              uptime. A server is marked down after {DOWN_AFTER_FAILURES} failed
+              pings in a row.
+            </p>
+          </div>
+
           {/* Data Management Section */}
           <div>
             <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4 flex items-center gap-2">
@@ -1,4 +1,4 @@
-import { Connection, Resource } from "@mcpconnect/schemas";
+import { Connection, Resource, Tool } from "@mcpconnect/schemas";
 import { useNavigate, useLocation, useParams } from "react-router-dom";
 import { RconnectLogo } from "./RconnectLogo";
 import { useStorage } from "../contexts/StorageContext";
@@ -6,11 +6,30 @@ import {
   ConnectionCard,
   ToolCard,
   ToolActionsPanel,
+  ToolAnnotationFilters,
+  ToolListChangeBanner,
   VectorizeSchemaBanner,
+  getToolAnnotationFlags,
+  type ToolAnnotationFlag,
 } from "@mcpconnect/components";
 import { useState, useMemo, useEffect, useCallback } from "react";
-import { Users, Plus, Search, X, Wrench, Zap, AlertCircle } from "lucide-react";
+import {
+  Users,
+  Plus,
+  Search,
+  X,
+  Wrench,
+  Zap,
+  AlertCircle,
+  MessageSquare,
+  Database,
+  Terminal,
+} from "lucide-react";
 import { ModelService, LLMSettings } from "../services/modelService";
+import { formatIntrospectionProgress } from "../utils/introspectionProgress";
+import { useActiveToolCalls } from "../hooks/useActiveToolCalls";
+import { useWebSocketStates } from "../hooks/useWebSocketStates";
+import { useHealthMonitor } from "../contexts/HealthMonitorProvider";
 
 interface SidebarProps {
   connections: Connection[];
@@ -59,13 +78,15 @@ const demoTools = [
   },
 ];
 
-export const Sidebar = ({ connections }: SidebarProps) => {
+export const Sidebar = ({ connections, resources }: SidebarProps) => {
   const navigate = useNavigate();
   const location = useLocation();
   const params = useParams();
   const {
     conversations,
     tools,
+    resourceTemplates,
+    prompts,
     systemTools,
     disabledTools,
     disabledSystemTools,
@@ -77,9 +98,14 @@ export const Sidebar = ({ connections }: SidebarProps) => {
     onSystemToolStateChange,
     checkConnectionConnectivity,
     getNeo4jSyncState,
+    introspectionProgress,
+    toolChanges,
+    dismissToolChanges,
   } = useStorage();
 
   const [toolSearchQuery, setToolSearchQuery] = useState("");
+  const [annotationFilter, setAnnotationFilter] =
+    useState<ToolAnnotationFlag | null>(null);
   const [activeTab, setActiveTab] = useState<"mcp" | "system">("mcp");
   const [llmSettings, setLlmSettings] = useState<LLMSettings | null>(null);
   const [isBannerDismissed, setIsBannerDismissed] = useState(false);
@@ -96,12 +122,22 @@ export const Sidebar = ({ connections }: SidebarProps) => {
 
   // Get current connection ID from URL params - use manual parsing as fallback
   const currentConnectionId = params.connectionId || manualConnectionId;
+  const currentConnection = connections.find(
+    conn => conn.id === currentConnectionId
+  );
+  const currentConnectionUrl = currentConnection?.url;
+  const { findActiveCall, cancelCall } = useActiveToolCalls();
+  const { getSocketState } = useWebSocketStates();
+  const { getHealth } = useHealthMonitor();
 
   // Get sync state for current connection from storage
   const currentSyncState = currentConnectionId
     ? getNeo4jSyncState(currentConnectionId)
     : undefined;
   const isVectorized = currentSyncState?.status === "synced";
+  const currentToolChange = currentConnectionId
+    ? toolChanges[currentConnectionId]
+    : undefined;
 
   // Check if OpenAI is the current provider (required for semantic tool search)
   const isOpenAIProvider = llmSettings?.provider === "openai";
@@ -171,11 +207,34 @@ export const Sidebar = ({ connections }: SidebarProps) => {
     }
   };
 
+  // Prompt navigation handler
+  const handlePromptNavigate = (promptName: string) => {
+    if (currentConnectionId) {
+      navigate(
+        `/connections/${currentConnectionId}/prompts/${encodeURIComponent(promptName)}`
+      );
+    }
+  };
+
+  // Resource browser navigation handler
+  const handleResourcesNavigate = () => {
+    if (currentConnectionId) {
+      navigate(`/connections/${currentConnectionId}/resources`);
+    }
+  };
+
+  // Raw JSON-RPC console navigation handler
+  const handleConsoleNavigate = () => {
+    if (currentConnectionId) {
+      navigate(`/connections/${currentConnectionId}/console`);
+    }
+  };
+
   // Check if this is a first-time user
   const isFirstTime = connections.length === 0;
 
   // Get tools based on active tab - ONLY show when connection is active
-  const mcpToolsToShow = isFirstTime
+  const mcpToolsToShow: Tool[] = isFirstTime
     ? demoTools
     : currentConnectionId
       ? tools[currentConnectionId] || []
@@ -186,18 +245,51 @@ export const Sidebar = ({ connections }: SidebarProps) => {
 
   const toolsToShow = activeTab === "mcp" ? mcpToolsToShow : systemToolsToShow;
 
+  const promptsToShow = currentConnectionId
+    ? prompts[currentConnectionId] || []
+    : [];
+
+  const resourceCount = currentConnectionId
+    ? (resources[currentConnectionId] || []).length +
+      (resourceTemplates[currentConnectionId] || []).length
+    : 0;
+
   // Show tools section only if we have a connection or it's first time
   const showToolsSection = isFirstTime || currentConnectionId;
 
-  // Filter tools based on search query
+  // How many of the listed tools carry each annotation hint
+  const annotationCounts = useMemo(() => {
+    const counts: Partial<Record<ToolAnnotationFlag, number>> = {};
+    for (const tool of toolsToShow) {
+      for (const flag of getToolAnnotationFlags(tool)) {
+        counts[flag] = (counts[flag] || 0) + 1;
+      }
+    }
+    return counts;
+  }, [toolsToShow]);
+
+  // A filter left over from another connection or tab is ignored
+  const activeAnnotationFilter =
+    annotationFilter && annotationCounts[annotationFilter]
+      ? annotationFilter
+      : null;
+
+  // Filter tools based on search query and annotation hint
   const filteredTools = useMemo(() => {
     let filtered = toolsToShow;
 
+    if (activeAnnotationFilter) {
+      filtered = filtered.filter(tool =>
+        getToolAnnotationFlags(tool).includes(activeAnnotationFilter)
+      );
+    }
+
     if (toolSearchQuery.trim()) {
       const query = toolSearchQuery.toLowerCase();
       filtered = filtered.filter(
         tool =>
           tool.name.toLowerCase().includes(query) ||
+          tool.annotations?.title?.toLowerCase().includes(query) ||
           tool.description?.toLowerCase().includes(query) ||
           tool.category?.toLowerCase().includes(query) ||
           tool.tags?.some(tag => tag.toLowerCase().includes(query))
@@ -230,6 +322,7 @@ export const Sidebar = ({ connections }: SidebarProps) => {
     return filtered;
   }, [
     toolsToShow,
+    activeAnnotationFilter,
     toolSearchQuery,
     isFirstTime,
     currentConnectionId,
@@ -453,6 +546,7 @@ export const Sidebar = ({ connections }: SidebarProps) => {
             <div className="space-y-2">
               {connections.map(conn => {
                 const syncState = getNeo4jSyncState(conn.id);
+                const progress = introspectionProgress[conn.id];
                 return (
                   <ConnectionCard
                     key={conn.id}
@@ -464,6 +558,13 @@ export const Sidebar = ({ connections }: SidebarProps) => {
                     onClick={() => handleConnectionClick(conn)}
                     onCheckConnectivity={checkConnectionConnectivity}
                     neo4jSyncStatus={syncState?.status}
+                    socketState={getSocketState(conn.url)}
+                    health={getHealth(conn.id)}
+                    progressLabel={
+                      progress
+                        ? formatIntrospectionProgress(progress)
+                        : undefined
+                    }
                   />
                 );
               })}
@@ -554,6 +655,16 @@ export const Sidebar = ({ connections }: SidebarProps) => {
               </div>
             )}
 
+            {/* Filter by the behaviour hints servers attach to tools */}
+            {toolsToShow.length > 0 && (
+              <ToolAnnotationFilters
+                counts={annotationCounts}
+                active={activeAnnotationFilter}
+                onChange={setAnnotationFilter}
+                disabled={isFirstTime}
+              />
+            )}
+
             {/* Vectorize Schema Banner - Shows status for OpenAI provider */}
             {toolsToShow.length > 0 && !isFirstTime && (
               <>
@@ -591,13 +702,21 @@ export const Sidebar = ({ connections }: SidebarProps) => {
               </>
             )}
 
+            {/* What the last tools/list_changed added, removed or changed */}
+            {activeTab === "mcp" && currentToolChange && !isFirstTime && (
+              <ToolListChangeBanner
+                change={currentToolChange}
+                onDismiss={() => dismissToolChanges(currentConnectionId)}
+              />
+            )}
+
             {/* Tools List - Updated with new ToolCard */}
             <div
               className={`space-y-3 ${isFirstTime ? "opacity-60" : ""} min-w-0 overflow-hidden`}
             >
               {filteredTools.length === 0 ? (
                 <div className="text-center py-4 text-xs text-gray-500 dark:text-gray-400">
-                  {toolSearchQuery.trim()
+                  {toolSearchQuery.trim() || activeAnnotationFilter
                     ? `No ${activeTab} tools match your search`
                     : toolsToShow.length === 0
                       ? currentConnectionId
@@ -628,6 +747,21 @@ export const Sidebar = ({ connections }: SidebarProps) => {
                       onNavigate={handleToolNavigate}
                       connectionId={currentConnectionId}
                       isDemoMode={isFirstTime}
+                      activeCall={
+                        activeTab === "system"
+                          ? undefined
+                          : findActiveCall(currentConnectionUrl, tool.name)
+                      }
+                      onCancelCall={cancelCall}
+                      listChange={
+                        activeTab === "system" || !currentToolChange
+                          ? undefined
+                          : currentToolChange.added.includes(tool.name)
+                            ? "added"
+                            : currentToolChange.changed.includes(tool.name)
+                              ? "changed"
+                              : undefined
+                      }
                     />
                   );
                 })
@@ -635,7 +769,7 @@ export const Sidebar = ({ connections }: SidebarProps) => {
             </div>
 
             {/* Search results summary */}
-            {toolSearchQuery.trim() && (
+            {(toolSearchQuery.trim() || activeAnnotationFilter) && (
               <div className="mt-2 text-xs text-gray-500 dark:text-gray-400 text-center">
                 {filteredTools.length} of {toolsToShow.length} {activeTab} tools
               </div>
@@ -643,6 +777,90 @@ export const Sidebar = ({ connections }: SidebarProps) => {
           </div>
         )}
 
+        {/* Resources Link - Only show when the connection exposes resources */}
+        {!isFirstTime && resourceCount > 0 && (
+          <div className="mt-6 min-w-0 overflow-hidden">
+            <button
+              onClick={handleResourcesNavigate}
+              className={`w-full flex items-center gap-2 p-2.5 rounded-lg border transition-colors min-w-0 ${
+                location.pathname.endsWith("/resources")
+                  ? "border-blue-300 dark:border-blue-600 bg-blue-50 dark:bg-blue-900/20"
+                  : "border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+              }`}
+            >
+              <Database className="w-3.5 h-3.5 text-green-500 flex-shrink-0" />
+              <span className="text-xs font-medium text-gray-900 dark:text-white">
+                Resources ({resourceCount})
+              </span>
+            </button>
+          </div>
+        )}
+
+        {/* Console Link - Only show for MCP connections */}
+        {!isFirstTime &&
+          currentConnection &&
+          currentConnection.connectionType !== "graphql" && (
+            <div className="mt-3 min-w-0 overflow-hidden">
+              <button
+                onClick={handleConsoleNavigate}
+                className={`w-full flex items-center gap-2 p-2.5 rounded-lg border transition-colors min-w-0 ${
+                  location.pathname.endsWith("/console")
+                    ? "border-blue-300 dark:border-blue-600 bg-blue-50 dark:bg-blue-900/20"
+                    : "border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                }`}
+              >
+                <Terminal className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" />
+                <span className="text-xs font-medium text-gray-900 dark:text-white">
+                  Console
+                </span>
+              </button>
+            </div>
+          )}
+
+        {/* Prompts Section - Only show when the connection exposes prompts */}
+        {!isFirstTime && promptsToShow.length > 0 && (
+          <div className="mt-6 min-w-0 overflow-hidden">
+            <h2 className="font-semibold text-base text-gray-900 dark:text-white mb-3">
+              Prompts ({promptsToShow.length})
+            </h2>
+            <div className="space-y-2">
+              {promptsToShow.map(prompt => {
+                const isActive = location.pathname.endsWith(
+                  `/prompts/${encodeURIComponent(prompt.name)}`
+                );
+                return (
+                  <button
+                    key={prompt.name}
+                    onClick={() => handlePromptNavigate(prompt.name)}
+                    className={`w-full text-left p-2.5 rounded-lg border transition-colors min-w-0 ${
+                      isActive
+                        ? "border-blue-300 dark:border-blue-600 bg-blue-50 dark:bg-blue-900/20"
+                        : "border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                    }`}
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      <MessageSquare className="w-3.5 h-3.5 text-purple-500 flex-shrink-0" />
+                      <span className="text-xs font-medium text-gray-900 dark:text-white truncate">
+                        {prompt.title || prompt.name}
+                      </span>
+                      {prompt.arguments && prompt.arguments.length > 0 && (
+                        <span className="ml-auto text-[10px] text-gray-500 dark:text-gray-400 flex-shrink-0">
+                          {prompt.arguments.length} args
+                        </span>
+                      )}
+                    </div>
+                    {prompt.description && (
+                      <p className="mt-1 text-[10px] text-gray-500 dark:text-gray-400 line-clamp-2">
+                        {prompt.description}
+                      </p>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Message when no connection selected and no first time */}
         {!showToolsSection && !isFirstTime && (
           <div className="text-center py-8">
@@ -0,0 +1,25 @@
+import { Connection } from "@mcpconnect/schemas";
+import { StdioProcessPanel } from "@mcpconnect/components";
+import { useStdioProcess } from "../hooks/useStdioProcess";
+
+export const StdioProcessView = ({
+  connection,
+}: {
+  connection: Connection;
+}) => {
+  const { status, stderr, isBusy, error, start, stop, restart, clear } =
+    useStdioProcess(connection);
+
+  return (
+    <StdioProcessPanel
+      status={status}
+      stderr={stderr}
+      onStart={start}
+      onStop={stop}
+      onRestart={restart}
+      onClear={clear}
+      isBusy={isBusy}
+      error={error}
+    />
+  );
+};
@@ -0,0 +1,90 @@
+import { ShieldAlert } from "lucide-react";
+import { ToolApprovalRequest } from "@mcpconnect/adapter-ai-sdk";
+import { JsonCodeBlock } from "@mcpconnect/components";
+
+export interface ToolApprovalDialogProps {
+  request: ToolApprovalRequest;
+  onApprove: () => void;
+  onDeny: () => void;
+}
+
+export const ToolApprovalDialog = ({
+  request,
+  onApprove,
+  onDeny,
+}: ToolApprovalDialogProps) => {
+  const { connection, tool, arguments: toolArgs } = request;
+
+  // Tools the server didn't annotate are destructive by the spec's defaults
+  const reason =
+    tool.annotations?.destructiveHint === true
+      ? `${connection.name} marks as destructive`
+      : tool.annotations
+        ? `${connection.name} doesn't mark as read-only or non-destructive, so it is treated as destructive`
+        : `has no annotations from ${connection.name}, so it is treated as destructive`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-red-500" />
+            Approve Destructive Tool
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Your LLM wants to run a tool that {reason}
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div>
+            <div className="font-mono text-sm font-medium text-gray-900 dark:text-gray-100">
+              {tool.annotations?.title || tool.name}
+            </div>
+            {tool.description && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {tool.description}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              Arguments
+            </h3>
+            <JsonCodeBlock
+              data={toolArgs}
+              onCopy={() =>
+                navigator.clipboard?.writeText(
+                  JSON.stringify(toolArgs, null, 2)
+                )
+              }
+            />
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The conversation is paused until you decide. Denying tells your LLM
+            the tool was not run.
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onDeny}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+          >
+            Deny
+          </button>
+          <button
+            onClick={onApprove}
+            className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+          >
+            Run Tool
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
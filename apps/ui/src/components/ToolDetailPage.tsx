@@ -2,7 +2,10 @@ import React, { useState, useEffect } from "react";
 import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { useStorage } from "../contexts/StorageContext";
 import { useInspector } from "../contexts/InspectorProvider";
+import { useElicitation } from "../contexts/ElicitationProvider";
+import { useActiveToolCalls } from "../hooks/useActiveToolCalls";
 import { Tool } from "@mcpconnect/schemas";
+import { ToolProgressBar } from "@mcpconnect/components";
 import { SystemToolsService } from "@mcpconnect/adapter-ai-sdk";
 import { MCPService } from "@mcpconnect/adapter-ai-sdk";
 import { ToolExecutionForm } from "./ToolExecutionForm";
@@ -15,6 +18,7 @@ import {
   AlertCircle,
   Clock,
   Info,
+  Ban,
 } from "lucide-react";
 import { nanoid } from "nanoid";
 
@@ -28,11 +32,13 @@ export const ToolDetailPage: React.FC = () => {
   const { connections, tools, systemTools, adapter, conversations } =
     useStorage();
   const { refreshManualExecutions } = useInspector();
+  const { isAwaitingInput } = useElicitation();
+  const { findActiveCall, cancelCall } = useActiveToolCalls();
 
   const [tool, setTool] = useState<Tool | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
   const [lastExecutionStatus, setLastExecutionStatus] = useState<{
-    status: "success" | "error" | "pending";
+    status: "success" | "error" | "pending" | "cancelled";
     message?: string;
   } | null>(null);
   const [initialFormValues, setInitialFormValues] = useState<Record<
@@ -41,6 +47,8 @@ export const ToolDetailPage: React.FC = () => {
   > | null>(null);
 
   const currentConnection = connections.find(conn => conn.id === connectionId);
+  const isAwaitingServerInput =
+    isExecuting && isAwaitingInput(currentConnection?.url);
 
   useEffect(() => {
     if (connectionId && toolId) {
@@ -80,6 +88,10 @@ export const ToolDetailPage: React.FC = () => {
 
   const isSystemTool =
     tool && (tool.category === "system" || tool.tags?.includes("system"));
+  const activeCall =
+    isExecuting && !isSystemTool
+      ? findActiveCall(currentConnection?.url, tool?.name)
+      : undefined;
 
   const handleExecute = async (formValues: Record<string, any>) => {
     if (!tool || !currentConnection) return;
@@ -102,7 +114,8 @@ export const ToolDetailPage: React.FC = () => {
         result = await MCPService.executeTool(
           currentConnection,
           tool.name,
-          formValues
+          formValues,
+          tool.outputSchema
         );
       }
 
@@ -111,16 +124,19 @@ export const ToolDetailPage: React.FC = () => {
       const executionId = nanoid();
 
       const isSuccess = result.success !== false;
+      const isCancelled = "cancelled" in result && result.cancelled === true;
       const resultData =
         result.result ||
         (result as any).data ||
         (result as any).response?.result;
       const errorData = result.error || (result as any).response?.error;
+      const outputValidation =
+        "outputValidation" in result ? result.outputValidation : undefined;
 
       const manualExecution = {
         id: executionId,
         tool: tool.name,
-        status: isSuccess ? "success" : "error",
+        status: isCancelled ? "cancelled" : isSuccess ? "success" : "error",
         duration: duration,
         timestamp: now.toISOString(),
         request: {
@@ -133,6 +149,8 @@ export const ToolDetailPage: React.FC = () => {
               response: {
                 success: true,
                 result: resultData,
+                structuredContent: (resultData as any)?.structuredContent,
+                outputValidation,
                 timestamp: new Date(endTime).toISOString(),
               },
             }
@@ -198,10 +216,11 @@ export const ToolDetailPage: React.FC = () => {
       // Trigger inspector refresh immediately
       await refreshManualExecutions();
 
-      setLastExecutionStatus({
-        status: "success",
-        message: "Tool executed successfully",
-      });
+      setLastExecutionStatus(
+        isCancelled
+          ? { status: "cancelled", message: "Tool call cancelled" }
+          : { status: "success", message: "Tool executed successfully" }
+      );
 
       setTimeout(() => {
         setLastExecutionStatus(null);
@@ -390,11 +409,21 @@ export const ToolDetailPage: React.FC = () => {
                           </span>
                         </>
                       )}
+                      {lastExecutionStatus.status === "cancelled" && (
+                        <>
+                          <Ban className="w-3 h-3 text-amber-600 dark:text-amber-400" />
+                          <span className="text-amber-700 dark:text-amber-300">
+                            Cancelled
+                          </span>
+                        </>
+                      )}
                       {lastExecutionStatus.status === "pending" && (
                         <>
                           <Clock className="w-3 h-3 text-blue-600 dark:text-blue-400 animate-pulse" />
                           <span className="text-blue-700 dark:text-blue-300">
-                            Running...
+                            {isAwaitingServerInput
+                              ? "Waiting for input..."
+                              : "Running..."}
                           </span>
                         </>
                       )}
@@ -441,7 +470,21 @@ export const ToolDetailPage: React.FC = () => {
                 isExecuting={isExecuting}
                 disabled={!currentConnection}
                 initialValues={initialFormValues}
+                executingLabel={
+                  isAwaitingServerInput
+                    ? "Waiting for your input..."
+                    : undefined
+                }
               />
+
+              {activeCall && (
+                <div className="mt-3">
+                  <ToolProgressBar
+                    progress={activeCall.progress}
+                    onCancel={() => cancelCall(activeCall.executionId)}
+                  />
+                </div>
+              )}
             </div>
           </div>
         </div>
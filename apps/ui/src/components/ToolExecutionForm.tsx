@@ -1,22 +1,44 @@
 /* eslint-disable react-hooks/exhaustive-deps */
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { Tool } from "@mcpconnect/schemas";
+import { MCPCompletionResult } from "@mcpconnect/base-adapters";
 import { Play, Loader2, Plus, Trash2, Info } from "lucide-react";
 
+// Wait this long after the last keystroke before asking for completions
+const COMPLETION_DEBOUNCE_MS = 250;
+
 interface ToolExecutionFormProps {
   tool: Tool;
   onExecute: (values: Record<string, any>) => Promise<void>;
   isExecuting: boolean;
   disabled?: boolean;
   initialValues?: Record<string, any> | null;
+  submitLabel?: string;
+  submitHint?: string;
+  executingLabel?: string;
+  /** Suggests values for a text argument, given the others entered so far */
+  onComplete?: (
+    argumentName: string,
+    value: string,
+    otherArguments: Record<string, string>,
+    abortSignal: AbortSignal
+  ) => Promise<MCPCompletionResult>;
+}
+
+interface CompletionState {
+  field: string;
+  values: string[];
+  hasMore: boolean;
 }
 
 interface FormField {
   name: string;
   type: "string" | "number" | "boolean" | "object" | "array";
+  title?: string;
   description?: string;
   required: boolean;
   default?: any;
+  options?: Array<{ value: string; label: string }>;
 }
 
 export const ToolExecutionForm: React.FC<ToolExecutionFormProps> = ({
@@ -25,11 +47,26 @@ export const ToolExecutionForm: React.FC<ToolExecutionFormProps> = ({
   isExecuting,
   disabled = false,
   initialValues = null,
+  submitLabel = "Execute Tool",
+  submitHint = "Results appear in Request Inspector",
+  executingLabel = "Executing...",
+  onComplete,
 }) => {
   const [formValues, setFormValues] = useState<Record<string, any>>({});
   const [validationErrors, setValidationErrors] = useState<
     Record<string, string>
   >({});
+  const [completion, setCompletion] = useState<CompletionState | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const completionTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const completionAbortRef = useRef<AbortController>();
+
+  useEffect(() => {
+    return () => {
+      clearTimeout(completionTimerRef.current);
+      completionAbortRef.current?.abort();
+    };
+  }, []);
 
   const formFields: FormField[] = React.useMemo(() => {
     const fields: FormField[] = [];
@@ -53,9 +90,16 @@ export const ToolExecutionForm: React.FC<ToolExecutionFormProps> = ({
         fields.push({
           name,
           type: mapSchemaTypeToFieldType(fieldSchema.type || "string"),
+          title: fieldSchema.title,
           description: fieldSchema.description,
           required: ((required || []) as any).includes(name),
           default: fieldSchema.default,
+          options: Array.isArray(fieldSchema.enum)
+            ? fieldSchema.enum.map((value: unknown, index: number) => ({
+                value: String(value),
+                label: String(fieldSchema.enumNames?.[index] ?? value),
+              }))
+            : undefined,
         });
       }
     }
@@ -197,6 +241,91 @@ export const ToolExecutionForm: React.FC<ToolExecutionFormProps> = ({
     }
   };
 
+  const requestCompletion = (
+    fieldName: string,
+    value: string,
+    values: Record<string, any>
+  ) => {
+    if (!onComplete) return;
+
+    clearTimeout(completionTimerRef.current);
+    completionAbortRef.current?.abort();
+
+    completionTimerRef.current = setTimeout(async () => {
+      const controller = new AbortController();
+      completionAbortRef.current = controller;
+
+      const otherArguments: Record<string, string> = {};
+      Object.entries(values).forEach(([name, otherValue]) => {
+        if (
+          name !== fieldName &&
+          (typeof otherValue === "string" || typeof otherValue === "number") &&
+          otherValue !== ""
+        ) {
+          otherArguments[name] = String(otherValue);
+        }
+      });
+
+      try {
+        const result = await onComplete(
+          fieldName,
+          value,
+          otherArguments,
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+
+        setCompletion({
+          field: fieldName,
+          values: result.values,
+          hasMore:
+            Boolean(result.hasMore) ||
+            (result.total ?? 0) > result.values.length,
+        });
+        setHighlightedIndex(-1);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.warn(`[ToolExecutionForm] Completion failed:`, error);
+        setCompletion(null);
+      }
+    }, COMPLETION_DEBOUNCE_MS);
+  };
+
+  const closeCompletion = () => {
+    clearTimeout(completionTimerRef.current);
+    completionAbortRef.current?.abort();
+    setCompletion(null);
+    setHighlightedIndex(-1);
+  };
+
+  const selectCompletion = (fieldName: string, value: string) => {
+    updateFormValue(fieldName, value);
+    closeCompletion();
+  };
+
+  const handleCompletionKeyDown = (
+    e: React.KeyboardEvent,
+    fieldName: string
+  ) => {
+    if (!completion || completion.field !== fieldName) return;
+    const count = completion.values.length;
+
+    if (e.key === "ArrowDown" && count > 0) {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev + 1) % count);
+    } else if (e.key === "ArrowUp" && count > 0) {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev <= 0 ? count - 1 : prev - 1));
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      closeCompletion();
+    } else if (e.key === "Enter" && highlightedIndex >= 0) {
+      // Stops the keypress that would otherwise submit the form
+      e.preventDefault();
+      selectCompletion(fieldName, completion.values[highlightedIndex]);
+    }
+  };
+
   const handleKeyPress = useCallback(
     (e: React.KeyboardEvent) => {
       if (e.key === "Enter" && !e.shiftKey && !e.ctrlKey && !e.metaKey) {
@@ -266,7 +395,7 @@ export const ToolExecutionForm: React.FC<ToolExecutionFormProps> = ({
       <div key={field.name} className="space-y-2">
         <div className="flex items-center gap-2">
           <label className="block text-sm font-medium text-gray-900 dark:text-gray-100">
-            {field.name}
+            {field.title || field.name}
             {field.required && <span className="text-red-500 ml-1">*</span>}
           </label>
           {field.description && (
@@ -299,6 +428,23 @@ export const ToolExecutionForm: React.FC<ToolExecutionFormProps> = ({
                 )}
               </div>
             </label>
+          ) : field.options ? (
+            <select
+              value={formValues[field.name] ?? ""}
+              onChange={e => updateFormValue(field.name, e.target.value)}
+              className={`w-full px-4 py-2.5 border rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-900 dark:focus:ring-gray-100 focus:border-transparent transition-colors text-sm ${
+                hasError
+                  ? "border-red-300 dark:border-red-600 bg-red-50 dark:bg-red-900/10"
+                  : "border-gray-200 dark:border-gray-700"
+              }`}
+            >
+              <option value="">Select {field.title || field.name}</option>
+              {field.options.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
           ) : field.type === "array" ? (
             renderArrayField(field)
           ) : field.type === "object" ? (
@@ -319,18 +465,75 @@ export const ToolExecutionForm: React.FC<ToolExecutionFormProps> = ({
               rows={4}
             />
           ) : (
-            <input
-              type={field.type === "number" ? "number" : "text"}
-              value={formValues[field.name] || ""}
-              onChange={e => updateFormValue(field.name, e.target.value)}
-              onKeyPress={handleKeyPress}
-              className={`w-full px-4 py-2.5 border rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-900 dark:focus:ring-gray-100 focus:border-transparent transition-colors text-sm ${
-                hasError
-                  ? "border-red-300 dark:border-red-600 bg-red-50 dark:bg-red-900/10"
-                  : "border-gray-200 dark:border-gray-700"
-              }`}
-              placeholder={field.description || `Enter ${field.name}`}
-            />
+            <div className="relative">
+              <input
+                type={field.type === "number" ? "number" : "text"}
+                value={formValues[field.name] || ""}
+                onChange={e => {
+                  updateFormValue(field.name, e.target.value);
+                  if (field.type === "string") {
+                    requestCompletion(field.name, e.target.value, {
+                      ...formValues,
+                      [field.name]: e.target.value,
+                    });
+                  }
+                }}
+                onFocus={() => {
+                  if (field.type === "string") {
+                    requestCompletion(
+                      field.name,
+                      String(formValues[field.name] ?? ""),
+                      formValues
+                    );
+                  }
+                }}
+                onBlur={() => {
+                  if (completion?.field === field.name) closeCompletion();
+                }}
+                onKeyDown={e => handleCompletionKeyDown(e, field.name)}
+                onKeyPress={handleKeyPress}
+                autoComplete={onComplete ? "off" : undefined}
+                className={`w-full px-4 py-2.5 border rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-900 dark:focus:ring-gray-100 focus:border-transparent transition-colors text-sm ${
+                  hasError
+                    ? "border-red-300 dark:border-red-600 bg-red-50 dark:bg-red-900/10"
+                    : "border-gray-200 dark:border-gray-700"
+                }`}
+                placeholder={field.description || `Enter ${field.name}`}
+              />
+
+              {/* Suggestions from completion/complete */}
+              {completion?.field === field.name &&
+                completion.values.length > 0 && (
+                  <div
+                    role="listbox"
+                    className="absolute left-0 right-0 top-full mt-1 z-20 max-h-56 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-1"
+                  >
+                    {completion.values.map((value, index) => (
+                      <button
+                        key={value}
+                        type="button"
+                        role="option"
+                        aria-selected={index === highlightedIndex}
+                        // Keep focus in the input so blur doesn't close the list first
+                        onMouseDown={e => e.preventDefault()}
+                        onClick={() => selectCompletion(field.name, value)}
+                        className={`block w-full text-left px-4 py-1.5 text-sm font-mono truncate ${
+                          index === highlightedIndex
+                            ? "bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                            : "text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                        }`}
+                      >
+                        {value}
+                      </button>
+                    ))}
+                    {completion.hasMore && (
+                      <div className="px-4 py-1 text-xs text-gray-500 dark:text-gray-400 border-t border-gray-100 dark:border-gray-700">
+                        More matches available, keep typing to narrow down
+                      </div>
+                    )}
+                  </div>
+                )}
+            </div>
           )}
 
           {hasError && (
@@ -390,12 +593,12 @@ export const ToolExecutionForm: React.FC<ToolExecutionFormProps> = ({
           {isExecuting ? (
             <>
               <Loader2 className="w-4 h-4 animate-spin" />
-              Executing...
+              {executingLabel}
             </>
           ) : (
             <>
               <Play className="w-4 h-4" />
-              Execute Tool
+              {submitLabel}
             </>
           )}
         </button>
@@ -407,7 +610,7 @@ export const ToolExecutionForm: React.FC<ToolExecutionFormProps> = ({
             <kbd className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-xs font-mono">
               Enter
             </kbd>{" "}
-            to execute • Results appear in Request Inspector
+            to execute • {submitHint}
           </p>
         </div>
       </div>
@@ -0,0 +1,16 @@
+import { Connection } from "@mcpconnect/schemas";
+import { TrafficPanel } from "@mcpconnect/components";
+import { useTraffic } from "../contexts/TrafficProvider";
+
+export const TrafficView = ({ connection }: { connection: Connection }) => {
+  const { getTraffic, clearTraffic } = useTraffic();
+
+  return (
+    <TrafficPanel
+      key={connection.id}
+      entries={getTraffic(connection.url)}
+      connectionName={connection.name}
+      onClear={() => clearTraffic(connection.url)}
+    />
+  );
+};
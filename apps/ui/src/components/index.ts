@@ -6,4 +6,9 @@ export { ConnectionView } from "./ConnectionView";
 export { ConnectionModal } from "./ConnectionModal";
 export { SettingsModal } from "./SettingsModal";
 export { ToolDetailPage } from "./ToolDetailPage";
+export { PromptDetailPage } from "./PromptDetailPage";
+export { ResourceBrowserPage } from "./ResourceBrowserPage";
+export { ConsolePage } from "./ConsolePage";
 export { ToolExecutionForm } from "./ToolExecutionForm";
+export { SamplingDialog } from "./SamplingDialog";
+export { SamplingRequestHandler } from "./SamplingRequestHandler";
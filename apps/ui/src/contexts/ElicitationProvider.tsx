@@ -0,0 +1,111 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import {
+  AdapterError,
+  MCPElicitationRequest,
+  MCPElicitationRequestSchema,
+  MCPElicitationResult,
+  MCPServerRequest,
+} from "@mcpconnect/base-adapters";
+import { MCPService, normalizeUrl } from "@mcpconnect/adapter-ai-sdk";
+import { useStorage } from "./StorageContext";
+import { ElicitationDialog } from "../components/ElicitationDialog";
+
+interface PendingElicitation {
+  request: MCPServerRequest;
+  params: MCPElicitationRequest;
+  resolve: (result: MCPElicitationResult) => void;
+}
+
+interface ElicitationContextType {
+  isAwaitingInput: (connectionUrl?: string) => boolean;
+}
+
+const ElicitationContext = createContext<ElicitationContextType | undefined>(
+  undefined
+);
+
+export function useElicitation() {
+  const context = useContext(ElicitationContext);
+  if (!context) {
+    throw new Error("useElicitation must be used within ElicitationProvider");
+  }
+  return context;
+}
+
+/**
+ * Answers elicitation/create requests from any connected server with a
+ * modal form, and tells tool views which connections are waiting on it.
+ */
+export function ElicitationProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { connections } = useStorage();
+  const [queue, setQueue] = useState<PendingElicitation[]>([]);
+
+  useEffect(() => {
+    return MCPService.setRequestHandler("elicitation/create", request => {
+      const parsed = MCPElicitationRequestSchema.safeParse(request.params);
+      if (!parsed.success) {
+        return Promise.reject(
+          new AdapterError(
+            `Invalid elicitation request: ${parsed.error.message}`,
+            "INVALID_PARAMS",
+            { code: -32602 }
+          )
+        );
+      }
+
+      return new Promise<MCPElicitationResult>(resolve => {
+        setQueue(prev => [...prev, { request, params: parsed.data, resolve }]);
+      });
+    });
+  }, []);
+
+  const isAwaitingInput = useCallback(
+    (connectionUrl?: string) => {
+      if (!connectionUrl) return false;
+      const normalizedUrl = normalizeUrl(connectionUrl);
+      return queue.some(
+        pending => pending.request.connectionUrl === normalizedUrl
+      );
+    },
+    [queue]
+  );
+
+  const current = queue[0];
+  const connection = current
+    ? connections.find(
+        c => normalizeUrl(c.url) === current.request.connectionUrl
+      )
+    : undefined;
+
+  const respond = (result: MCPElicitationResult) => {
+    current?.resolve(result);
+    setQueue(prev => prev.slice(1));
+  };
+
+  return (
+    <ElicitationContext.Provider value={{ isAwaitingInput }}>
+      {children}
+      {current && (
+        <ElicitationDialog
+          key={String(current.request.id) + current.request.receivedAt}
+          serverName={connection?.name || current.request.connectionUrl}
+          request={current.params}
+          pendingCount={queue.length}
+          onAccept={content => respond({ action: "accept", content })}
+          onDecline={() => respond({ action: "decline" })}
+          onCancel={() => respond({ action: "cancel" })}
+        />
+      )}
+    </ElicitationContext.Provider>
+  );
+}
@@ -0,0 +1,227 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { Connection, ConnectionHealth } from "@mcpconnect/schemas";
+import { MCPService, normalizeUrl } from "@mcpconnect/adapter-ai-sdk";
+import { useStorage } from "./StorageContext";
+
+// Pings kept per connection for the sparkline and uptime
+const MAX_SAMPLES = 30;
+// Failed pings in a row before a connection counts as down
+export const DOWN_AFTER_FAILURES = 3;
+
+export const DEFAULT_HEALTH_CHECK_INTERVAL = 30000;
+const INTERVAL_STORAGE_KEY = "health-check-interval";
+
+interface HealthMonitorContextType {
+  health: Record<string, ConnectionHealth>;
+  getHealth: (connectionId: string) => ConnectionHealth | undefined;
+  /** Milliseconds between pings, 0 when monitoring is off */
+  checkInterval: number;
+  setCheckInterval: (interval: number) => Promise<void>;
+}
+
+const HealthMonitorContext = createContext<
+  HealthMonitorContextType | undefined
+>(undefined);
+
+export function useHealthMonitor() {
+  const context = useContext(HealthMonitorContext);
+  if (!context) {
+    throw new Error(
+      "useHealthMonitor must be used within HealthMonitorProvider"
+    );
+  }
+  return context;
+}
+
+const recordSample = (
+  previous: ConnectionHealth | undefined,
+  connectionId: string,
+  result: { latency: number } | { error: string }
+): ConnectionHealth => {
+  const timestamp = Date.now();
+  const samples = [
+    ...(previous?.samples || []),
+    { timestamp, ...result },
+  ].slice(-MAX_SAMPLES);
+
+  if ("latency" in result) {
+    return {
+      connectionId,
+      isConnected: true,
+      lastConnected: new Date(timestamp),
+      latency: result.latency,
+      state: "healthy",
+      samples,
+      consecutiveFailures: 0,
+    };
+  }
+
+  const consecutiveFailures = (previous?.consecutiveFailures || 0) + 1;
+  const isDown = consecutiveFailures >= DOWN_AFTER_FAILURES;
+  return {
+    connectionId,
+    isConnected: !isDown,
+    lastConnected: previous?.lastConnected,
+    latency: previous?.latency,
+    error: result.error,
+    state: isDown ? "down" : "degraded",
+    samples,
+    consecutiveFailures,
+  };
+};
+
+/**
+ * Pings every active connection on an interval and keeps a short history
+ * of round trips, so the connection lists can show latency and uptime and
+ * flag servers that stop answering.
+ */
+export function HealthMonitorProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { adapter, connections } = useStorage();
+  const [health, setHealth] = useState<Record<string, ConnectionHealth>>({});
+  const [checkInterval, setCheckIntervalState] = useState(
+    DEFAULT_HEALTH_CHECK_INTERVAL
+  );
+
+  // The loop reads the latest values without restarting on every change
+  const connectionsRef = useRef<Connection[]>(connections);
+  connectionsRef.current = connections;
+  const healthRef = useRef(health);
+  healthRef.current = health;
+  const inFlight = useRef(new Set<string>());
+
+  useEffect(() => {
+    adapter
+      .get(INTERVAL_STORAGE_KEY)
+      .then(stored => {
+        if (typeof stored?.value === "number") {
+          setCheckIntervalState(stored.value);
+        }
+      })
+      .catch(error => {
+        console.error("Failed to load health check interval:", error);
+      });
+  }, [adapter]);
+
+  const setCheckInterval = useCallback(
+    async (interval: number) => {
+      setCheckIntervalState(interval);
+      await adapter.set(INTERVAL_STORAGE_KEY, interval, {
+        type: "number",
+        tags: ["mcp", "health"],
+        compress: false,
+        encrypt: false,
+      });
+    },
+    [adapter]
+  );
+
+  // Forget connections that were deleted
+  useEffect(() => {
+    const ids = new Set(connections.map(connection => connection.id));
+    setHealth(prev => {
+      const stale = Object.keys(prev).filter(id => !ids.has(id));
+      if (stale.length === 0) return prev;
+
+      const next = { ...prev };
+      stale.forEach(id => delete next[id]);
+      return next;
+    });
+  }, [connections]);
+
+  const pingConnection = useCallback(
+    async (connection: Connection, timeout: number) => {
+      inFlight.current.add(connection.id);
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeout);
+
+      let result: { latency: number } | { error: string };
+      try {
+        result = {
+          latency: await MCPService.ping(connection, controller.signal),
+        };
+      } catch (error) {
+        result = {
+          error: controller.signal.aborted
+            ? `No answer within ${timeout}ms`
+            : error instanceof Error
+              ? error.message
+              : String(error),
+        };
+      } finally {
+        clearTimeout(timer);
+        inFlight.current.delete(connection.id);
+      }
+
+      // The connection may have been deleted while the ping was out
+      if (!connectionsRef.current.some(c => c.id === connection.id)) return;
+
+      setHealth(prev => ({
+        ...prev,
+        [connection.id]: recordSample(
+          prev[connection.id],
+          connection.id,
+          result
+        ),
+      }));
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (checkInterval <= 0) return;
+
+    const runChecks = () => {
+      const socketStates = MCPService.getWebSocketStates();
+
+      connectionsRef.current.forEach(connection => {
+        if (connection.connectionType === "graphql") return;
+        if (inFlight.current.has(connection.id)) return;
+        // Connections that never came up are left to the connectivity
+        // check, but ones being tracked keep being pinged so they recover
+        if (!connection.isConnected && !healthRef.current[connection.id]) {
+          return;
+        }
+        // A ping would start a stdio server the user stopped
+        if (
+          connection.connectionType === "stdio" &&
+          socketStates[normalizeUrl(connection.url)] !== "open"
+        ) {
+          return;
+        }
+
+        pingConnection(
+          connection,
+          Math.min(connection.timeout || checkInterval, checkInterval)
+        );
+      });
+    };
+
+    runChecks();
+    const timer = window.setInterval(runChecks, checkInterval);
+    return () => window.clearInterval(timer);
+  }, [checkInterval, pingConnection]);
+
+  const getHealth = useCallback(
+    (connectionId: string) => health[connectionId],
+    [health]
+  );
+
+  return (
+    <HealthMonitorContext.Provider
+      value={{ health, getHealth, checkInterval, setCheckInterval }}
+    >
+      {children}
+    </HealthMonitorContext.Provider>
+  );
+}
@@ -1,6 +1,20 @@
 import { useParams, useNavigate, useLocation } from "react-router-dom";
 import { NetworkInspector } from "@mcpconnect/components";
+import {
+  Activity,
+  Database,
+  ScrollText,
+  ShieldCheck,
+  Terminal,
+} from "lucide-react";
 import { useStorage } from "./StorageContext";
+import { useServerLogs } from "./ServerLogProvider";
+import { useTraffic } from "./TrafficProvider";
+import { ServerLogView } from "../components/ServerLogView";
+import { TrafficView } from "../components/TrafficView";
+import { StdioProcessView } from "../components/StdioProcessView";
+import { ConformanceView } from "../components/ConformanceView";
+import { useResourceReader } from "../hooks/useResourceReader";
 import {
   createContext,
   useContext,
@@ -315,6 +329,11 @@ export function InspectorUI() {
     syncToolCallState,
     manualExecutions,
   } = useInspector();
+  const { getLogs } = useServerLogs();
+  const { getTraffic } = useTraffic();
+  const [activePanel, setActivePanel] = useState<
+    "requests" | "traffic" | "logs" | "process" | "checks"
+  >("requests");
 
   const urlParts = location.pathname.split("/");
   const connectionsIndex = urlParts.findIndex(part => part === "connections");
@@ -381,6 +400,7 @@ export function InspectorUI() {
     () => connections.find(conn => conn.id === connectionId) || null,
     [connections, connectionId]
   );
+  const readResource = useResourceReader(currentConnection);
 
   const currentConversations = useMemo(
     () => conversations[connectionId] || [],
@@ -600,9 +620,102 @@ export function InspectorUI() {
     );
   }
 
+  const logCount = getLogs(currentConnection?.url).length;
+  const trafficErrors = getTraffic(currentConnection?.url).filter(
+    entry => entry.error
+  ).length;
+  const isStdio = currentConnection?.connectionType === "stdio";
+  const checksFailed = currentConnection?.conformanceReport?.summary.fail ?? 0;
+
   return (
-    <div className="p-4 bg-gray-50 dark:bg-gray-800 transition-colors h-full">
-      <NetworkInspector {...inspectorProps} />
+    <div className="p-4 bg-gray-50 dark:bg-gray-800 transition-colors h-full flex flex-col gap-2">
+      <div className="flex items-center gap-1 flex-shrink-0">
+        <button
+          onClick={() => setActivePanel("requests")}
+          className={`flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md transition-colors ${
+            activePanel === "requests"
+              ? "bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 shadow-sm"
+              : "text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          }`}
+        >
+          <Database className="w-3.5 h-3.5" />
+          Requests
+        </button>
+        <button
+          onClick={() => setActivePanel("traffic")}
+          className={`flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md transition-colors ${
+            activePanel === "traffic"
+              ? "bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 shadow-sm"
+              : "text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          }`}
+        >
+          <Activity className="w-3.5 h-3.5" />
+          Traffic
+          {trafficErrors > 0 && (
+            <span className="px-1.5 py-0.5 text-[10px] bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded-full">
+              {trafficErrors}
+            </span>
+          )}
+        </button>
+        <button
+          onClick={() => setActivePanel("logs")}
+          className={`flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md transition-colors ${
+            activePanel === "logs"
+              ? "bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 shadow-sm"
+              : "text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          }`}
+        >
+          <ScrollText className="w-3.5 h-3.5" />
+          Logs
+          {logCount > 0 && (
+            <span className="px-1.5 py-0.5 text-[10px] bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded-full">
+              {logCount}
+            </span>
+          )}
+        </button>
+        {isStdio && (
+          <button
+            onClick={() => setActivePanel("process")}
+            className={`flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md transition-colors ${
+              activePanel === "process"
+                ? "bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 shadow-sm"
+                : "text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            }`}
+          >
+            <Terminal className="w-3.5 h-3.5" />
+            Process
+          </button>
+        )}
+        <button
+          onClick={() => setActivePanel("checks")}
+          className={`flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md transition-colors ${
+            activePanel === "checks"
+              ? "bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 shadow-sm"
+              : "text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+          }`}
+        >
+          <ShieldCheck className="w-3.5 h-3.5" />
+          Checks
+          {checksFailed > 0 && (
+            <span className="px-1.5 py-0.5 text-[10px] bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded-full">
+              {checksFailed}
+            </span>
+          )}
+        </button>
+      </div>
+      <div className="flex-1 min-h-0">
+        {activePanel === "traffic" && currentConnection ? (
+          <TrafficView connection={currentConnection} />
+        ) : activePanel === "logs" && currentConnection ? (
+          <ServerLogView connection={currentConnection} />
+        ) : activePanel === "process" && isStdio && currentConnection ? (
+          <StdioProcessView connection={currentConnection} />
+        ) : activePanel === "checks" && currentConnection ? (
+          <ConformanceView connection={currentConnection} />
+        ) : (
+          <NetworkInspector {...inspectorProps} onReadResource={readResource} />
+        )}
+      </div>
     </div>
   );
 }
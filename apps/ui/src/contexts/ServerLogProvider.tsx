@@ -0,0 +1,109 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import {
+  Connection,
+  LoggingLevel,
+  LoggingLevelSchema,
+  ServerLogEntry,
+} from "@mcpconnect/schemas";
+import {
+  MCPService,
+  generateId,
+  normalizeUrl,
+} from "@mcpconnect/adapter-ai-sdk";
+
+// Oldest entries are dropped once a connection has this many
+const MAX_LOG_ENTRIES = 1000;
+
+interface ServerLogContextType {
+  getLogs: (connectionUrl?: string) => ServerLogEntry[];
+  clearLogs: (connectionUrl: string) => void;
+  getLevel: (connectionUrl?: string) => LoggingLevel | undefined;
+  setLevel: (connection: Connection, level: LoggingLevel) => Promise<void>;
+}
+
+const ServerLogContext = createContext<ServerLogContextType | undefined>(
+  undefined
+);
+
+export function useServerLogs() {
+  const context = useContext(ServerLogContext);
+  if (!context) {
+    throw new Error("useServerLogs must be used within ServerLogProvider");
+  }
+  return context;
+}
+
+/**
+ * Collects notifications/message entries from every connected server so
+ * the log panel has history even for connections it was not showing.
+ */
+export function ServerLogProvider({ children }: { children: React.ReactNode }) {
+  const [logs, setLogs] = useState<Record<string, ServerLogEntry[]>>({});
+  const [levels, setLevels] = useState<Record<string, LoggingLevel>>({});
+
+  useEffect(() => {
+    return MCPService.onNotification(notification => {
+      if (notification.method !== "notifications/message") return;
+
+      const params = notification.params || {};
+      const level = LoggingLevelSchema.safeParse(params.level);
+      const entry: ServerLogEntry = {
+        id: generateId(),
+        level: level.success ? level.data : "info",
+        logger: typeof params.logger === "string" ? params.logger : undefined,
+        data: params.data,
+        receivedAt: notification.receivedAt,
+      };
+
+      setLogs(prev => ({
+        ...prev,
+        [notification.connectionUrl]: [
+          ...(prev[notification.connectionUrl] || []),
+          entry,
+        ].slice(-MAX_LOG_ENTRIES),
+      }));
+    });
+  }, []);
+
+  const getLogs = useCallback(
+    (connectionUrl?: string) =>
+      (connectionUrl && logs[normalizeUrl(connectionUrl)]) || [],
+    [logs]
+  );
+
+  const clearLogs = useCallback((connectionUrl: string) => {
+    setLogs(prev => {
+      const next = { ...prev };
+      delete next[normalizeUrl(connectionUrl)];
+      return next;
+    });
+  }, []);
+
+  const getLevel = useCallback(
+    (connectionUrl?: string) =>
+      connectionUrl ? levels[normalizeUrl(connectionUrl)] : undefined,
+    [levels]
+  );
+
+  const setLevel = useCallback(
+    async (connection: Connection, level: LoggingLevel) => {
+      await MCPService.setLoggingLevel(connection, level);
+      setLevels(prev => ({ ...prev, [normalizeUrl(connection.url)]: level }));
+    },
+    []
+  );
+
+  return (
+    <ServerLogContext.Provider
+      value={{ getLogs, clearLogs, getLevel, setLevel }}
+    >
+      {children}
+    </ServerLogContext.Provider>
+  );
+}
@@ -11,16 +11,25 @@ import {
   Connection,
   Tool,
   Resource,
+  ResourceTemplate,
+  Prompt,
   ToolExecution,
   ChatConversation,
   Neo4jSyncState,
   Neo4jSyncStatus,
+  ToolListChange,
 } from "@mcpconnect/schemas";
 import { LLMSettings } from "@mcpconnect/adapter-ai-sdk";
+import { MCPIntrospectionProgress } from "@mcpconnect/base-adapters";
 import { ModelService } from "../services/modelService";
 import { ChatService } from "../services/chatService";
-import { SystemToolsService, MCPService } from "@mcpconnect/adapter-ai-sdk";
+import {
+  SystemToolsService,
+  MCPService,
+  normalizeUrl,
+} from "@mcpconnect/adapter-ai-sdk";
 import { computeToolsHash } from "../utils/toolsHash";
+import { diffTools } from "../utils/toolsDiff";
 
 interface StorageContextType {
   adapter: LocalStorageAdapter;
@@ -28,12 +37,16 @@ interface StorageContextType {
   tools: Record<string, Tool[]>;
   systemTools: Tool[];
   resources: Record<string, Resource[]>;
+  resourceTemplates: Record<string, ResourceTemplate[]>;
+  prompts: Record<string, Prompt[]>;
   conversations: Record<string, ChatConversation[]>;
   toolExecutions: Record<string, ToolExecution[]>;
   disabledTools: Record<string, Set<string>>;
   disabledSystemTools: Set<string>;
   hiddenExecutions: Record<string, Set<string>>; // NEW: connectionId -> Set of hidden execution IDs
   neo4jSyncStates: Record<string, Neo4jSyncState>; // connectionId -> sync state
+  introspectionProgress: Record<string, MCPIntrospectionProgress>; // connectionId -> last page read
+  toolChanges: Record<string, ToolListChange>; // connectionId -> last tool list change
   llmSettings: LLMSettings | null;
   isLoading: boolean;
   error: string | null;
@@ -70,6 +83,7 @@ interface StorageContextType {
   isExecutionHidden: (connectionId: string, executionId: string) => boolean; // NEW
   getVisibleExecutions: (connectionId: string) => ToolExecution[]; // NEW
   checkConnectionConnectivity: (connectionId: string) => Promise<boolean>;
+  dismissToolChanges: (connectionId: string) => void;
   // Neo4j sync state management
   getNeo4jSyncState: (connectionId: string) => Neo4jSyncState | undefined;
   updateNeo4jSyncState: (
@@ -108,6 +122,10 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
   const [tools, setTools] = useState<Record<string, Tool[]>>({});
   const [systemTools, setSystemTools] = useState<Tool[]>([]);
   const [resources, setResources] = useState<Record<string, Resource[]>>({});
+  const [resourceTemplates, setResourceTemplates] = useState<
+    Record<string, ResourceTemplate[]>
+  >({});
+  const [prompts, setPrompts] = useState<Record<string, Prompt[]>>({});
   const [conversations, setConversations] = useState<
     Record<string, ChatConversation[]>
   >({});
@@ -126,6 +144,12 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
   const [neo4jSyncStates, setNeo4jSyncStates] = useState<
     Record<string, Neo4jSyncState>
   >({});
+  const [introspectionProgress, setIntrospectionProgress] = useState<
+    Record<string, MCPIntrospectionProgress>
+  >({});
+  const [toolChanges, setToolChanges] = useState<
+    Record<string, ToolListChange>
+  >({});
   const [llmSettings, setLlmSettings] = useState<LLMSettings | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -639,12 +663,16 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
         storedConnections,
         storedTools,
         storedResources,
+        storedResourceTemplates,
+        storedPrompts,
         storedConversations,
         storedExecutions,
       ] = await Promise.all([
         adapter.getConnections(),
         adapter.get("tools"),
         adapter.get("resources"),
+        adapter.get("resourceTemplates"),
+        adapter.get("prompts"),
         adapter.get("conversations"),
         adapter.get("toolExecutions"),
       ]);
@@ -664,6 +692,21 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
       } else {
         setResources({});
       }
+      if (storedResourceTemplates?.value) {
+        const templatesData = storedResourceTemplates.value as Record<
+          string,
+          ResourceTemplate[]
+        >;
+        setResourceTemplates(templatesData);
+      } else {
+        setResourceTemplates({});
+      }
+      if (storedPrompts?.value) {
+        const promptsData = storedPrompts.value as Record<string, Prompt[]>;
+        setPrompts(promptsData);
+      } else {
+        setPrompts({});
+      }
       if (storedConversations?.value) {
         const conversationsData = storedConversations.value as Record<
           string,
@@ -752,6 +795,14 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
   const deleteConnection = useCallback(
     async (connectionId: string) => {
       try {
+        const removedConnection = connections.find(
+          conn => conn.id === connectionId
+        );
+        if (removedConnection) {
+          // End any open server session before forgetting the connection
+          await MCPService.disconnect(removedConnection);
+        }
+
         const newConnections = connections.filter(
           conn => conn.id !== connectionId
         );
@@ -773,6 +824,14 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
         delete newResources[connectionId];
         setResources(newResources);
 
+        const newResourceTemplates = { ...resourceTemplates };
+        delete newResourceTemplates[connectionId];
+        setResourceTemplates(newResourceTemplates);
+
+        const newPrompts = { ...prompts };
+        delete newPrompts[connectionId];
+        setPrompts(newPrompts);
+
         const newToolExecutions = { ...toolExecutions };
         delete newToolExecutions[connectionId];
         setToolExecutions(newToolExecutions);
@@ -788,6 +847,12 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
         const newNeo4jSyncStates = { ...neo4jSyncStates };
         delete newNeo4jSyncStates[connectionId];
         setNeo4jSyncStates(newNeo4jSyncStates);
+
+        setToolChanges(prev => {
+          const next = { ...prev };
+          delete next[connectionId];
+          return next;
+        });
       } catch (err) {
         setError(err instanceof Error ? err.message : String(err));
       }
@@ -797,6 +862,8 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
       conversations,
       tools,
       resources,
+      resourceTemplates,
+      prompts,
       toolExecutions,
       disabledTools,
       hiddenExecutions, // NEW
@@ -881,6 +948,12 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
     connectionsRef.current = connections;
   }, [connections]);
 
+  // Previous tool lists, diffed against each re-introspection
+  const toolsRef = useRef(tools);
+  useEffect(() => {
+    toolsRef.current = tools;
+  }, [tools]);
+
   // Check connectivity by fetching tools from the MCP server
   const checkConnectionConnectivity = useCallback(
     async (connectionId: string): Promise<boolean> => {
@@ -902,12 +975,28 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
       connectivityCheckInFlight.current.add(connectionId);
 
       try {
-        const introspectionResult =
-          await MCPService.connectAndIntrospect(connection);
+        const introspectionResult = await MCPService.connectAndIntrospect(
+          connection,
+          undefined,
+          progress =>
+            setIntrospectionProgress(prev => ({
+              ...prev,
+              [connectionId]: progress,
+            }))
+        );
         const isConnected = introspectionResult.isConnected;
 
         // Update connection status and tools in storage
-        const updatedConnection = { ...connection, isConnected };
+        const updatedConnection = {
+          ...connection,
+          isConnected,
+          incompleteLists: introspectionResult.incompleteLists?.length
+            ? introspectionResult.incompleteLists
+            : undefined,
+          negotiatedProtocolVersion:
+            introspectionResult.protocolVersion ??
+            connection.negotiatedProtocolVersion,
+        };
         setConnections(prev => {
           const updatedConnections = prev.map(c =>
             c.id === connectionId ? updatedConnection : c
@@ -931,6 +1020,17 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
                 default: param.default ?? undefined,
               })) ?? undefined,
           }));
+          const previousTools = toolsRef.current[connectionId];
+          const toolChange = previousTools?.length
+            ? diffTools(previousTools, normalizedTools)
+            : null;
+          if (toolChange) {
+            setToolChanges(prev => ({
+              ...prev,
+              [connectionId]: toolChange,
+            }));
+          }
+
           await adapter.setConnectionTools(connectionId, normalizedTools);
           setTools(prev => ({
             ...prev,
@@ -980,6 +1080,30 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
           }));
         }
 
+        // Update resource templates if the server exposes any
+        if (isConnected && introspectionResult.resourceTemplates) {
+          const connectionTemplates =
+            introspectionResult.resourceTemplates as ResourceTemplate[];
+          await adapter.setConnectionResourceTemplates(
+            connectionId,
+            connectionTemplates
+          );
+          setResourceTemplates(prev => ({
+            ...prev,
+            [connectionId]: connectionTemplates,
+          }));
+        }
+
+        // Update prompts if the server exposes any
+        if (isConnected && introspectionResult.prompts) {
+          const connectionPrompts = introspectionResult.prompts as Prompt[];
+          await adapter.setConnectionPrompts(connectionId, connectionPrompts);
+          setPrompts(prev => ({
+            ...prev,
+            [connectionId]: connectionPrompts,
+          }));
+        }
+
         return isConnected;
       } catch (error) {
         console.error(
@@ -1002,11 +1126,41 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
         return false;
       } finally {
         connectivityCheckInFlight.current.delete(connectionId);
+        setIntrospectionProgress(prev => {
+          const next = { ...prev };
+          delete next[connectionId];
+          return next;
+        });
       }
     },
     [adapter, neo4jSyncStates, notifyNeo4jSyncStateChange]
   );
 
+  const dismissToolChanges = useCallback((connectionId: string) => {
+    setToolChanges(prev => {
+      const next = { ...prev };
+      delete next[connectionId];
+      return next;
+    });
+  }, []);
+
+  // Re-introspect a connection when its server reports a new tool or
+  // resource list
+  useEffect(() => {
+    return MCPService.onNotification(notification => {
+      if (
+        notification.method !== "notifications/tools/list_changed" &&
+        notification.method !== "notifications/resources/list_changed"
+      ) {
+        return;
+      }
+
+      connectionsRef.current
+        .filter(c => normalizeUrl(c.url) === notification.connectionUrl)
+        .forEach(c => checkConnectionConnectivity(c.id));
+    });
+  }, [checkConnectionConnectivity]);
+
   // Initialization effect
   useEffect(() => {
     let mounted = true;
@@ -1042,12 +1196,16 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
           storedConnections,
           storedTools,
           storedResources,
+          storedResourceTemplates,
+          storedPrompts,
           storedConversations,
           storedExecutions,
         ] = await Promise.all([
           adapter.getConnections(),
           adapter.get("tools"),
           adapter.get("resources"),
+          adapter.get("resourceTemplates"),
+          adapter.get("prompts"),
           adapter.get("conversations"),
           adapter.get("toolExecutions"),
         ]);
@@ -1071,6 +1229,23 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
           setResources({});
         }
 
+        if (storedResourceTemplates?.value) {
+          const templatesData = storedResourceTemplates.value as Record<
+            string,
+            ResourceTemplate[]
+          >;
+          setResourceTemplates(templatesData);
+        } else {
+          setResourceTemplates({});
+        }
+
+        if (storedPrompts?.value) {
+          const promptsData = storedPrompts.value as Record<string, Prompt[]>;
+          setPrompts(promptsData);
+        } else {
+          setPrompts({});
+        }
+
         if (storedConversations?.value) {
           const conversationsData = storedConversations.value as Record<
             string,
@@ -1152,12 +1327,16 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
     tools,
     systemTools,
     resources,
+    resourceTemplates,
+    prompts,
     conversations,
     toolExecutions,
     disabledTools,
     disabledSystemTools,
     hiddenExecutions, // NEW
     neo4jSyncStates,
+    introspectionProgress,
+    toolChanges,
     llmSettings,
     isLoading,
     error,
@@ -1186,6 +1365,7 @@ export function StorageProvider({ children }: { children: React.ReactNode }) {
     isExecutionHidden, // NEW
     getVisibleExecutions, // NEW
     checkConnectionConnectivity,
+    dismissToolChanges,
     // Neo4j sync state management
     getNeo4jSyncState,
     updateNeo4jSyncState,
@@ -0,0 +1,67 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+} from "react";
+import { TrafficEntry } from "@mcpconnect/schemas";
+import { MCPService, normalizeUrl } from "@mcpconnect/adapter-ai-sdk";
+
+// Oldest entries are dropped once a connection has this many
+const MAX_TRAFFIC_ENTRIES = 2000;
+
+interface TrafficContextType {
+  getTraffic: (connectionUrl?: string) => TrafficEntry[];
+  clearTraffic: (connectionUrl: string) => void;
+}
+
+const TrafficContext = createContext<TrafficContextType | undefined>(undefined);
+
+export function useTraffic() {
+  const context = useContext(TrafficContext);
+  if (!context) {
+    throw new Error("useTraffic must be used within TrafficProvider");
+  }
+  return context;
+}
+
+/**
+ * Captures every JSON-RPC message and transport event into a log per
+ * connection, from the moment the app starts
+ */
+export function TrafficProvider({ children }: { children: React.ReactNode }) {
+  const [traffic, setTraffic] = useState<Record<string, TrafficEntry[]>>({});
+
+  useEffect(() => {
+    return MCPService.onTraffic(entry => {
+      setTraffic(prev => ({
+        ...prev,
+        [entry.connectionUrl]: [
+          ...(prev[entry.connectionUrl] || []),
+          entry,
+        ].slice(-MAX_TRAFFIC_ENTRIES),
+      }));
+    });
+  }, []);
+
+  const getTraffic = useCallback(
+    (connectionUrl?: string) =>
+      (connectionUrl && traffic[normalizeUrl(connectionUrl)]) || [],
+    [traffic]
+  );
+
+  const clearTraffic = useCallback((connectionUrl: string) => {
+    setTraffic(prev => {
+      const next = { ...prev };
+      delete next[normalizeUrl(connectionUrl)];
+      return next;
+    });
+  }, []);
+
+  return (
+    <TrafficContext.Provider value={{ getTraffic, clearTraffic }}>
+      {children}
+    </TrafficContext.Provider>
+  );
+}
@@ -1,6 +1,12 @@
 export { useChatConversationWarnings } from "./useChatConversationWarnings";
 export { useChatStreaming } from "./useChatStreaming";
 export { useChatConversationManager } from "./useChatConversationManager";
+export { useActiveToolCalls } from "./useActiveToolCalls";
+export { useWebSocketStates } from "./useWebSocketStates";
+export { useSSEStates } from "./useSSEStates";
+export { useResourceReader } from "./useResourceReader";
+export { useOAuthTokens } from "./useOAuthTokens";
+export { useStdioProcess } from "./useStdioProcess";
 
 export type { ConversationWarnings } from "./useChatConversationWarnings";
 export type { StreamingState } from "./useChatStreaming";
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from "react";
+import { ActiveToolCall } from "@mcpconnect/schemas";
+import { MCPService, normalizeUrl } from "@mcpconnect/adapter-ai-sdk";
+
+/**
+ * Tracks tool calls still waiting on their server, with the latest
+ * progress each one has reported
+ */
+export function useActiveToolCalls() {
+  const [activeCalls, setActiveCalls] = useState<ActiveToolCall[]>(() =>
+    MCPService.getActiveToolCalls()
+  );
+
+  useEffect(() => {
+    setActiveCalls(MCPService.getActiveToolCalls());
+    return MCPService.onToolCallsChange(setActiveCalls);
+  }, []);
+
+  // The most recent call of a tool on a connection, if one is running
+  const findActiveCall = useCallback(
+    (connectionUrl: string | undefined, toolName: string | undefined) => {
+      if (!connectionUrl || !toolName) return undefined;
+      const normalizedUrl = normalizeUrl(connectionUrl);
+      return activeCalls
+        .filter(
+          call =>
+            call.connectionUrl === normalizedUrl && call.toolName === toolName
+        )
+        .sort((a, b) => b.startedAt - a.startedAt)[0];
+    },
+    [activeCalls]
+  );
+
+  const cancelCall = useCallback((executionId: string) => {
+    MCPService.cancelToolCall(executionId);
+  }, []);
+
+  return { activeCalls, findActiveCall, cancelCall };
+}
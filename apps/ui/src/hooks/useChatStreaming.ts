@@ -229,12 +229,18 @@ export const useChatStreaming = (
                           toolName,
                           status: toolExecution.status || "success",
                           result: toolExecution.response?.result,
+                          structuredContent:
+                            toolExecution.response?.structuredContent,
+                          outputValidation:
+                            toolExecution.response?.outputValidation,
+                          content: toolExecution.response?.content,
                           error: toolExecution.error,
                         }
                       : {
                           toolName,
                           status: "success" as const,
                         },
+                    toolApproval: event.data!.toolApproval,
                   } as ChatMessageType;
                 }
                 return msg;
@@ -8,7 +8,7 @@ import {
   deleteToolsetByHash,
   closeConnection,
 } from "../services/mcpRagService";
-import { ModelService } from "../services/modelService";
+import { LLMSettings, ModelService } from "../services/modelService";
 import { computeToolsHash } from "../utils/toolsHash";
 
 export interface Neo4jSyncOptions {
@@ -24,6 +24,31 @@ export interface Neo4jSyncResult {
   toolCount: number;
 }
 
+// Connections with an automatic resync running, shared by every hook
+// instance so two mounted views don't both start one
+const autoResyncInFlight = new Set<string>();
+
+/**
+ * The OpenAI key used for embeddings, from the current settings or storage
+ */
+async function resolveOpenAIApiKey(
+  llmSettings: LLMSettings | null
+): Promise<string | undefined> {
+  if (llmSettings?.provider === "openai" && llmSettings?.apiKey) {
+    return llmSettings.apiKey;
+  }
+
+  try {
+    const settings = await ModelService.loadSettings();
+    if (settings?.provider === "openai" && settings?.apiKey) {
+      return settings.apiKey;
+    }
+  } catch (error) {
+    console.error("[useNeo4jSync] Failed to load LLM settings:", error);
+  }
+  return undefined;
+}
+
 /**
  * Shared hook for Neo4j sync functionality
  * Used by both Sidebar and SettingsModal to ensure consistent behavior
@@ -73,22 +98,7 @@ export function useNeo4jSync(connectionId: string | undefined) {
       }
 
       // We need the OpenAI API key
-      let openaiApiKey: string | undefined;
-
-      // First try from context
-      if (llmSettings?.provider === "openai" && llmSettings?.apiKey) {
-        openaiApiKey = llmSettings.apiKey;
-      } else {
-        // Fall back to loading from storage
-        try {
-          const settings = await ModelService.loadSettings();
-          if (settings?.provider === "openai" && settings?.apiKey) {
-            openaiApiKey = settings.apiKey;
-          }
-        } catch (error) {
-          console.error("[useNeo4jSync] Failed to load LLM settings:", error);
-        }
-      }
+      const openaiApiKey = await resolveOpenAIApiKey(llmSettings);
 
       if (!openaiApiKey) {
         console.warn(
@@ -258,6 +268,60 @@ export function useNeo4jSync(connectionId: string | undefined) {
     [handleSync]
   );
 
+  // Resync on its own once the toolset goes stale, if the user opted in
+  useEffect(() => {
+    if (!connectionId || syncState?.status !== "stale") return;
+    if (!syncState.autoResync || autoResyncInFlight.has(connectionId)) return;
+
+    const { neo4jConfig, savedPassword } = syncState;
+    if (!neo4jConfig || !savedPassword) {
+      console.warn(
+        "[useNeo4jSync] Cannot auto-resync: Neo4j password is not saved"
+      );
+      return;
+    }
+
+    autoResyncInFlight.add(connectionId);
+
+    const resync = async () => {
+      try {
+        const openaiApiKey = await resolveOpenAIApiKey(llmSettings);
+        if (!openaiApiKey) {
+          console.warn(
+            "[useNeo4jSync] Cannot auto-resync: OpenAI API key not available"
+          );
+          return;
+        }
+
+        console.log("[useNeo4jSync] Auto-resyncing stale toolset:", {
+          connectionId,
+        });
+        await handleResync({
+          config: { ...neo4jConfig, password: atob(savedPassword) },
+          rememberPassword: true,
+          openaiApiKey,
+        });
+      } catch (error) {
+        console.error("[useNeo4jSync] Auto-resync failed:", error);
+      } finally {
+        autoResyncInFlight.delete(connectionId);
+      }
+    };
+
+    resync();
+  }, [connectionId, syncState, llmSettings, handleResync]);
+
+  // Opt in or out of resyncing automatically when the toolset goes stale
+  const setAutoResync = useCallback(
+    async (autoResync: boolean) => {
+      if (!connectionId) {
+        throw new Error("No connection selected");
+      }
+      await updateNeo4jSyncState(connectionId, { autoResync });
+    },
+    [connectionId, updateNeo4jSyncState]
+  );
+
   // Handle delete toolset
   const handleDelete = useCallback(async () => {
     if (!connectionId) {
@@ -349,5 +413,6 @@ export function useNeo4jSync(connectionId: string | undefined) {
     handleResync,
     handleDelete,
     handleReset,
+    setAutoResync,
   };
 }
@@ -0,0 +1,44 @@
+import { useEffect } from "react";
+import { MCPService } from "@mcpconnect/adapter-ai-sdk";
+import { useStorage } from "../contexts/StorageContext";
+import { OAuthService } from "../services/oauthService";
+
+/**
+ * Keeps OAuth connections' stored tokens current: tokens MCPService
+ * refreshes are saved with their connection, and an authorization that
+ * left the page for the authorization server is completed on return.
+ */
+export function useOAuthTokens() {
+  const { connections, updateConnection, isLoading } = useStorage();
+
+  useEffect(() => {
+    return MCPService.onOAuthTokensRefreshed((connectionId, tokens) => {
+      const connection = connections.find(conn => conn.id === connectionId);
+      if (!connection) return;
+
+      updateConnection({
+        ...connection,
+        oauth: { ...connection.oauth, tokens },
+      });
+    });
+  }, [connections, updateConnection]);
+
+  useEffect(() => {
+    if (isLoading) return;
+
+    OAuthService.completeRedirect()
+      .then(result => {
+        if (!result) return;
+
+        const connection = connections.find(
+          conn => conn.id === result.connectionId
+        );
+        if (connection) {
+          updateConnection({ ...connection, oauth: result.oauth });
+        }
+      })
+      .catch(error => {
+        console.error("[OAuth] Failed to complete authorization:", error);
+      });
+  }, [isLoading, connections, updateConnection]);
+}
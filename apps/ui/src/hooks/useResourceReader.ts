@@ -0,0 +1,41 @@
+import { useCallback } from "react";
+import {
+  Connection,
+  ResourceContents,
+  ToolExecution,
+} from "@mcpconnect/schemas";
+import { MCPService } from "@mcpconnect/adapter-ai-sdk";
+import { useStorage } from "../contexts/StorageContext";
+import { ChatService } from "../services/chatService";
+
+/**
+ * Reads resource links found in tool results. Each read is recorded in the
+ * inspector like reads from the resource browser.
+ */
+export function useResourceReader(connection?: Connection | null) {
+  const { refreshAll } = useStorage();
+
+  const readResource = useCallback(
+    async (uri: string): Promise<ResourceContents[]> => {
+      if (!connection) {
+        throw new Error("No connection to read this resource from");
+      }
+
+      const result = await MCPService.readResource(connection, uri);
+
+      await ChatService.storeToolExecution(
+        connection.id,
+        result.execution as ToolExecution
+      );
+      await refreshAll();
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to read resource");
+      }
+      return (result.contents || []) as ResourceContents[];
+    },
+    [connection, refreshAll]
+  );
+
+  return connection ? readResource : undefined;
+}
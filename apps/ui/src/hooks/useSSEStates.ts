@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from "react";
+import { SSEStreamStatus } from "@mcpconnect/schemas";
+import { MCPService, normalizeUrl } from "@mcpconnect/adapter-ai-sdk";
+
+/**
+ * Tracks each HTTP+SSE connection's event stream and its reconnect attempts
+ */
+export function useSSEStates() {
+  const [states, setStates] = useState<Record<string, SSEStreamStatus>>(() =>
+    MCPService.getSSEStates()
+  );
+
+  useEffect(() => {
+    setStates(MCPService.getSSEStates());
+    return MCPService.onSSEStateChange((connectionUrl, status) => {
+      setStates(prev => ({ ...prev, [connectionUrl]: status }));
+    });
+  }, []);
+
+  const getStreamStatus = useCallback(
+    (connectionUrl: string | undefined) =>
+      connectionUrl ? states[normalizeUrl(connectionUrl)] : undefined,
+    [states]
+  );
+
+  return { getStreamStatus };
+}
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Connection,
+  StdioProcessStatus,
+  StdioStderrLine,
+} from "@mcpconnect/schemas";
+import {
+  StdioProcessAction,
+  controlStdioProcess,
+  getStdioEventsUrl,
+  registerStdioProcess,
+} from "@mcpconnect/adapter-ai-sdk";
+
+// Lines kept in the view, matching what the bridge buffers
+const MAX_STDERR_LINES = 500;
+
+/**
+ * Follows a stdio connection's process in the server's bridge: its status
+ * and stderr, with actions to start, stop and restart it
+ */
+export function useStdioProcess(connection?: Connection | null) {
+  const [status, setStatus] = useState<StdioProcessStatus | null>(null);
+  const [stderr, setStderr] = useState<StdioStderrLine[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Reconnecting replays the bridge's buffer, and lines up to here are
+  // already shown or were cleared
+  const lastSeqRef = useRef(0);
+
+  const isStdio = connection?.connectionType === "stdio";
+  // Connections are reloaded from storage often, so the stream is only
+  // reopened when the process it follows changes
+  const processKey =
+    connection && isStdio
+      ? JSON.stringify([connection.id, connection.url, connection.stdio])
+      : null;
+
+  useEffect(() => {
+    if (!connection || !processKey) return;
+
+    setStatus(null);
+    setStderr([]);
+    setError(null);
+    lastSeqRef.current = 0;
+
+    let events: EventSource | undefined;
+    let cancelled = false;
+
+    // The bridge only streams events for processes it knows about
+    registerStdioProcess(connection)
+      .then(() => {
+        if (cancelled) return;
+
+        events = new EventSource(getStdioEventsUrl(connection));
+        events.addEventListener("status", event => {
+          setStatus(JSON.parse((event as MessageEvent).data));
+        });
+        events.addEventListener("stderr", event => {
+          const entry = JSON.parse(
+            (event as MessageEvent).data
+          ) as StdioStderrLine;
+          if (entry.seq <= lastSeqRef.current) return;
+
+          lastSeqRef.current = entry.seq;
+          setStderr(prev => [...prev, entry].slice(-MAX_STDERR_LINES));
+        });
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : String(error));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      events?.close();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [processKey]);
+
+  const runAction = useCallback(
+    async (action: StdioProcessAction) => {
+      if (!connection) return;
+
+      setIsBusy(true);
+      setError(null);
+      try {
+        setStatus(await controlStdioProcess(connection, action));
+      } catch (error) {
+        console.error(`[useStdioProcess] ${action} failed:`, error);
+        setError(error instanceof Error ? error.message : String(error));
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [connection]
+  );
+
+  return {
+    status,
+    stderr,
+    isBusy,
+    error,
+    start: () => runAction("start"),
+    stop: () => runAction("stop"),
+    restart: () => runAction("restart"),
+    clear: () => setStderr([]),
+  };
+}
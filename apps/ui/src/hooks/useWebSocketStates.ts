@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from "react";
+import { WebSocketState } from "@mcpconnect/schemas";
+import { MCPService, normalizeUrl } from "@mcpconnect/adapter-ai-sdk";
+
+/**
+ * Tracks whether each WebSocket connection's socket is open, closed or
+ * reconnecting
+ */
+export function useWebSocketStates() {
+  const [states, setStates] = useState<Record<string, WebSocketState>>(() =>
+    MCPService.getWebSocketStates()
+  );
+
+  useEffect(() => {
+    setStates(MCPService.getWebSocketStates());
+    return MCPService.onWebSocketStateChange((connectionUrl, state) => {
+      setStates(prev => ({ ...prev, [connectionUrl]: state }));
+    });
+  }, []);
+
+  const getSocketState = useCallback(
+    (connectionUrl: string | undefined) =>
+      connectionUrl ? states[normalizeUrl(connectionUrl)] : undefined,
+    [states]
+  );
+
+  return { getSocketState };
+}
@@ -6,7 +6,11 @@ import {
   LLMSettings,
   StreamingChatResponse,
 } from "@mcpconnect/adapter-ai-sdk";
-import { StorageAdapter } from "@mcpconnect/base-adapters";
+import {
+  MCPSamplingRequest,
+  MCPSamplingResult,
+  StorageAdapter,
+} from "@mcpconnect/base-adapters";
 
 // Re-export types for compatibility
 export type { ChatContext, ChatResponse, LLMSettings };
@@ -37,6 +41,7 @@ export interface SSEEvent {
     toolName?: string;
     toolResult?: any;
     toolExecution?: ToolExecution;
+    toolApproval?: ChatMessage["toolApproval"];
     assistantMessage?: ChatMessage;
     toolExecutionMessages?: ChatMessage[];
     finalAssistantMessage?: ChatMessage; // NEW: Separate final response message
@@ -178,6 +183,26 @@ export class ChatService {
     }
   }
 
+  /**
+   * Answer an MCP server's sampling request with the configured LLM
+   */
+  static async createSamplingMessage(
+    request: MCPSamplingRequest,
+    llmSettings: LLMSettings
+  ): Promise<MCPSamplingResult> {
+    if (!llmSettings.apiKey) {
+      throw new Error("No AI provider API key configured");
+    }
+
+    this.initializeAdapter(llmSettings);
+
+    if (!this.adapter) {
+      throw new Error("Failed to initialize adapter");
+    }
+
+    return this.adapter.createSamplingMessage(request);
+  }
+
   /**
    * Convert AISDKAdapter streaming events to our SSE format
    */
@@ -225,6 +250,7 @@ export class ChatService {
             toolName: streamEvent.toolName,
             toolResult: streamEvent.toolResult,
             toolExecution: streamEvent.toolExecution,
+            toolApproval: streamEvent.toolApproval,
             messageOrder: streamEvent.messageOrder,
           },
         });
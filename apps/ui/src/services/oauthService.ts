@@ -0,0 +1,178 @@
+import { Connection, OAuthConfig } from "@mcpconnect/schemas";
+import {
+  completeOAuthAuthorization,
+  createProxyFetch,
+  startOAuthAuthorization,
+  OAuthAuthorizationRequest,
+  OAuthCallbackParams,
+  OAuthPendingAuthorization,
+} from "@mcpconnect/adapter-ai-sdk";
+
+// Keys shared with the server's /oauth/callback page
+const CALLBACK_KEY = "mcpconnect:oauth-callback";
+const RETURN_KEY = "mcpconnect:oauth-return";
+const PENDING_REDIRECT_KEY = "mcpconnect:oauth-pending";
+
+const POPUP_POLL_INTERVAL = 500;
+const POPUP_TIMEOUT = 5 * 60 * 1000;
+
+interface PendingRedirect {
+  connectionId: string;
+  useProxy?: boolean;
+  pending: OAuthPendingAuthorization;
+}
+
+// Discovery and token requests go where the connection's requests go
+const getFetch = (useProxy?: boolean) =>
+  useProxy ? createProxyFetch() : undefined;
+
+/**
+ * Runs the OAuth authorization code flow for a connection in the browser.
+ * The authorization server redirects to the server's /oauth/callback page,
+ * which passes the result back through localStorage.
+ */
+export class OAuthService {
+  static getRedirectUri(): string {
+    return `${window.location.origin}/oauth/callback`;
+  }
+
+  /**
+   * Authorize a connection in a popup and return its OAuth config with
+   * tokens. When the popup is blocked and redirects are allowed, the page
+   * itself goes to the authorization server and completeRedirect() finishes
+   * the flow when it comes back.
+   */
+  static async authorize(
+    connection: Connection,
+    options: { allowRedirect?: boolean } = {}
+  ): Promise<OAuthConfig> {
+    localStorage.removeItem(CALLBACK_KEY);
+    sessionStorage.removeItem(RETURN_KEY);
+
+    // Opened before discovery so it still counts as a response to the click
+    const popup = window.open(
+      "about:blank",
+      "mcpconnect-oauth",
+      "popup,width=520,height=720"
+    );
+
+    let request: OAuthAuthorizationRequest;
+    try {
+      request = await startOAuthAuthorization(
+        connection,
+        this.getRedirectUri(),
+        getFetch(connection.useProxy)
+      );
+    } catch (error) {
+      popup?.close();
+      throw error;
+    }
+
+    if (!popup) {
+      if (!options.allowRedirect) {
+        throw new Error(
+          "The browser blocked the authorization popup. Allow popups for this site and try again."
+        );
+      }
+
+      const pendingRedirect: PendingRedirect = {
+        connectionId: connection.id,
+        useProxy: connection.useProxy,
+        pending: request.pending,
+      };
+      sessionStorage.setItem(
+        PENDING_REDIRECT_KEY,
+        JSON.stringify(pendingRedirect)
+      );
+      sessionStorage.setItem(
+        RETURN_KEY,
+        window.location.pathname + window.location.search
+      );
+      window.location.assign(request.authorizationUrl);
+      return new Promise<never>(() => {});
+    }
+
+    popup.location.href = request.authorizationUrl;
+    const callback = await this.waitForCallback(popup);
+    return completeOAuthAuthorization(
+      request.pending,
+      callback,
+      getFetch(connection.useProxy)
+    );
+  }
+
+  /**
+   * Finish an authorization that left the page for the authorization
+   * server. Returns null when none was in progress.
+   */
+  static async completeRedirect(): Promise<{
+    connectionId: string;
+    oauth: OAuthConfig;
+  } | null> {
+    const stored = sessionStorage.getItem(PENDING_REDIRECT_KEY);
+    if (!stored) return null;
+
+    const callback = this.takeCallback();
+    if (!callback) return null;
+    sessionStorage.removeItem(PENDING_REDIRECT_KEY);
+
+    const { connectionId, useProxy, pending } = JSON.parse(
+      stored
+    ) as PendingRedirect;
+    const oauth = await completeOAuthAuthorization(
+      pending,
+      callback,
+      getFetch(useProxy)
+    );
+    return { connectionId, oauth };
+  }
+
+  private static takeCallback(): OAuthCallbackParams | null {
+    const stored = localStorage.getItem(CALLBACK_KEY);
+    if (!stored) return null;
+
+    localStorage.removeItem(CALLBACK_KEY);
+    try {
+      return JSON.parse(stored) as OAuthCallbackParams;
+    } catch {
+      return null;
+    }
+  }
+
+  private static waitForCallback(popup: Window): Promise<OAuthCallbackParams> {
+    return new Promise((resolve, reject) => {
+      const startedAt = Date.now();
+
+      const finish = (callback: OAuthCallbackParams | null, error?: Error) => {
+        window.clearInterval(poll);
+        window.removeEventListener("storage", handleStorage);
+        if (callback) {
+          resolve(callback);
+        } else {
+          reject(error);
+        }
+      };
+
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key !== CALLBACK_KEY || !event.newValue) return;
+        const callback = this.takeCallback();
+        if (callback) finish(callback);
+      };
+
+      // Storage events can be missed, so the key is polled as well
+      const poll = window.setInterval(() => {
+        const callback = this.takeCallback();
+        if (callback) {
+          finish(callback);
+        } else if (popup.closed) {
+          finish(null, new Error("The authorization window was closed"));
+        } else if (Date.now() - startedAt > POPUP_TIMEOUT) {
+          popup.close();
+          finish(null, new Error("Authorization timed out"));
+        }
+      }, POPUP_POLL_INTERVAL);
+
+      window.addEventListener("storage", handleStorage);
+    });
+  }
+}
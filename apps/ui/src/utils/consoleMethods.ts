@@ -0,0 +1,68 @@
+import { MCPCapabilities } from "@mcpconnect/base-adapters";
+
+/**
+ * Method suggestions for the JSON-RPC console, drawn from the capabilities
+ * the server declared when it was initialized
+ */
+
+export interface ConsoleMethod {
+  method: string;
+  // Notifications go out without an id and get no response
+  notification?: boolean;
+  // Prefilled into the params editor when the method is picked
+  params?: Record<string, unknown>;
+}
+
+type CapabilityName =
+  | "tools"
+  | "resources"
+  | "prompts"
+  | "logging"
+  | "completions";
+
+const CAPABILITY_METHODS: Record<CapabilityName, ConsoleMethod[]> = {
+  tools: [
+    { method: "tools/list", params: {} },
+    { method: "tools/call", params: { name: "", arguments: {} } },
+  ],
+  resources: [
+    { method: "resources/list", params: {} },
+    { method: "resources/templates/list", params: {} },
+    { method: "resources/read", params: { uri: "" } },
+    { method: "resources/subscribe", params: { uri: "" } },
+    { method: "resources/unsubscribe", params: { uri: "" } },
+  ],
+  prompts: [
+    { method: "prompts/list", params: {} },
+    { method: "prompts/get", params: { name: "", arguments: {} } },
+  ],
+  logging: [{ method: "logging/setLevel", params: { level: "info" } }],
+  completions: [
+    {
+      method: "completion/complete",
+      params: {
+        ref: { type: "ref/prompt", name: "" },
+        argument: { name: "", value: "" },
+      },
+    },
+  ],
+};
+
+const NOTIFICATION_METHODS: ConsoleMethod[] = [
+  {
+    method: "notifications/cancelled",
+    notification: true,
+    params: { requestId: "", reason: "" },
+  },
+  { method: "notifications/roots/list_changed", notification: true },
+];
+
+export const getConsoleMethods = (
+  capabilities?: MCPCapabilities
+): ConsoleMethod[] => [
+  { method: "ping" },
+  ...(Object.keys(CAPABILITY_METHODS) as CapabilityName[]).flatMap(name =>
+    capabilities?.[name] ? CAPABILITY_METHODS[name] : []
+  ),
+  ...NOTIFICATION_METHODS,
+];
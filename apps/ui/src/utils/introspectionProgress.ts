@@ -0,0 +1,17 @@
+import { MCPIntrospectionProgress } from "@mcpconnect/base-adapters";
+
+const LIST_LABELS: Record<MCPIntrospectionProgress["list"], string> = {
+  tools: "tools",
+  resources: "resources",
+  resourceTemplates: "templates",
+  prompts: "prompts",
+};
+
+/**
+ * Short label for the list page introspection is currently reading
+ */
+export function formatIntrospectionProgress(
+  progress: MCPIntrospectionProgress
+): string {
+  return `Loading ${LIST_LABELS[progress.list]} (${progress.itemCount}, page ${progress.page})`;
+}
@@ -0,0 +1,93 @@
+export interface DiffLine {
+  type: "added" | "removed" | "unchanged";
+  text: string;
+}
+
+// Above this many LCS cells the diff degrades to a full replace
+const MAX_DIFF_CELLS = 1000000;
+
+/**
+ * Line-based diff between two texts using a longest common subsequence.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = before.split("\n");
+  const newLines = after.split("\n");
+
+  // Strip the common prefix and suffix so the LCS table stays small
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    oldLines[oldEnd - 1] === newLines[newEnd - 1]
+  ) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const prefix: DiffLine[] = oldLines
+    .slice(0, start)
+    .map(text => ({ type: "unchanged", text }));
+  const suffix: DiffLine[] = oldLines
+    .slice(oldEnd)
+    .map(text => ({ type: "unchanged", text }));
+
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    return [
+      ...prefix,
+      ...oldMiddle.map(text => ({ type: "removed" as const, text })),
+      ...newMiddle.map(text => ({ type: "added" as const, text })),
+      ...suffix,
+    ];
+  }
+
+  const rows = oldMiddle.length + 1;
+  const cols = newMiddle.length + 1;
+  const table = new Uint32Array(rows * cols);
+
+  for (let i = oldMiddle.length - 1; i >= 0; i--) {
+    for (let j = newMiddle.length - 1; j >= 0; j--) {
+      table[i * cols + j] =
+        oldMiddle[i] === newMiddle[j]
+          ? table[(i + 1) * cols + j + 1] + 1
+          : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length && j < newMiddle.length) {
+    if (oldMiddle[i] === newMiddle[j]) {
+      middle.push({ type: "unchanged", text: oldMiddle[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      middle.push({ type: "removed", text: oldMiddle[i] });
+      i++;
+    } else {
+      middle.push({ type: "added", text: newMiddle[j] });
+      j++;
+    }
+  }
+  while (i < oldMiddle.length) {
+    middle.push({ type: "removed", text: oldMiddle[i++] });
+  }
+  while (j < newMiddle.length) {
+    middle.push({ type: "added", text: newMiddle[j++] });
+  }
+
+  return [...prefix, ...middle, ...suffix];
+}
@@ -0,0 +1,37 @@
+import { Tool, ToolListChange } from "@mcpconnect/schemas";
+import { computeToolsHash } from "./toolsHash";
+
+/**
+ * Compare two tool lists by name. A tool counts as changed when any of
+ * the properties that feed the toolset hash differ.
+ * Returns null when the lists are equivalent.
+ */
+export function diffTools(
+  previous: Tool[],
+  next: Tool[]
+): ToolListChange | null {
+  const previousByName = new Map(previous.map(tool => [tool.name, tool]));
+  const nextNames = new Set(next.map(tool => tool.name));
+
+  const added: string[] = [];
+  const changed: string[] = [];
+
+  for (const tool of next) {
+    const before = previousByName.get(tool.name);
+    if (!before) {
+      added.push(tool.name);
+    } else if (computeToolsHash([before]) !== computeToolsHash([tool])) {
+      changed.push(tool.name);
+    }
+  }
+
+  const removed = previous
+    .map(tool => tool.name)
+    .filter(name => !nextNames.has(name));
+
+  if (added.length + removed.length + changed.length === 0) {
+    return null;
+  }
+
+  return { added, removed, changed, detectedAt: Date.now() };
+}
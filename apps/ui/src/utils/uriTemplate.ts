@@ -0,0 +1,217 @@
+/**
+ * RFC 6570 URI Template expansion (levels 1-4) used for MCP resource templates.
+ */
+
+type TemplateValue = string | string[] | Record<string, string> | undefined;
+
+interface OperatorSpec {
+  first: string;
+  separator: string;
+  named: boolean;
+  ifEmpty: string;
+  allowReserved: boolean;
+}
+
+const OPERATORS: Record<string, OperatorSpec> = {
+  "": {
+    first: "",
+    separator: ",",
+    named: false,
+    ifEmpty: "",
+    allowReserved: false,
+  },
+  "+": {
+    first: "",
+    separator: ",",
+    named: false,
+    ifEmpty: "",
+    allowReserved: true,
+  },
+  "#": {
+    first: "#",
+    separator: ",",
+    named: false,
+    ifEmpty: "",
+    allowReserved: true,
+  },
+  ".": {
+    first: ".",
+    separator: ".",
+    named: false,
+    ifEmpty: "",
+    allowReserved: false,
+  },
+  "/": {
+    first: "/",
+    separator: "/",
+    named: false,
+    ifEmpty: "",
+    allowReserved: false,
+  },
+  ";": {
+    first: ";",
+    separator: ";",
+    named: true,
+    ifEmpty: "",
+    allowReserved: false,
+  },
+  "?": {
+    first: "?",
+    separator: "&",
+    named: true,
+    ifEmpty: "=",
+    allowReserved: false,
+  },
+  "&": {
+    first: "&",
+    separator: "&",
+    named: true,
+    ifEmpty: "=",
+    allowReserved: false,
+  },
+};
+
+const EXPRESSION_PATTERN = /\{([^{}]+)\}/g;
+
+interface VariableSpec {
+  name: string;
+  explode: boolean;
+  prefix?: number;
+}
+
+function parseExpression(expression: string): {
+  operator: OperatorSpec;
+  variables: VariableSpec[];
+} {
+  const operatorChar = expression.charAt(0);
+  const hasOperator = operatorChar in OPERATORS && operatorChar !== "";
+  const operator = OPERATORS[hasOperator ? operatorChar : ""];
+  const body = hasOperator ? expression.slice(1) : expression;
+
+  const variables = body
+    .split(",")
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      if (part.endsWith("*")) {
+        return { name: part.slice(0, -1), explode: true };
+      }
+      const [name, prefix] = part.split(":");
+      return {
+        name,
+        explode: false,
+        prefix: prefix ? parseInt(prefix, 10) : undefined,
+      };
+    });
+
+  return { operator, variables };
+}
+
+function encodeValue(value: string, allowReserved: boolean): string {
+  if (allowReserved) {
+    // Keep reserved characters and existing pct-encoded triplets intact
+    return value
+      .split(/(%[0-9A-Fa-f]{2})/g)
+      .map(part =>
+        /^%[0-9A-Fa-f]{2}$/.test(part)
+          ? part
+          : encodeURI(part).replace(/%5B/g, "[").replace(/%5D/g, "]")
+      )
+      .join("");
+  }
+
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function expandVariable(
+  operator: OperatorSpec,
+  variable: VariableSpec,
+  value: TemplateValue
+): string | null {
+  if (value === undefined) return null;
+
+  const encode = (input: string) => encodeValue(input, operator.allowReserved);
+  const named = (name: string, encoded: string) =>
+    operator.named
+      ? encoded === ""
+        ? `${name}${operator.ifEmpty}`
+        : `${name}=${encoded}`
+      : encoded;
+
+  if (typeof value === "string") {
+    const truncated =
+      variable.prefix !== undefined ? value.slice(0, variable.prefix) : value;
+    return named(variable.name, encode(truncated));
+  }
+
+  const entries: [string, string][] = Array.isArray(value)
+    ? value.map(item => ["", item])
+    : Object.entries(value);
+
+  if (entries.length === 0) return null;
+
+  if (variable.explode) {
+    return entries
+      .map(([key, item]) => {
+        if (Array.isArray(value)) {
+          return named(variable.name, encode(item));
+        }
+        return item === "" && operator.named
+          ? `${encode(key)}${operator.ifEmpty}`
+          : `${encode(key)}=${encode(item)}`;
+      })
+      .join(operator.separator);
+  }
+
+  const joined = entries
+    .map(([key, item]) =>
+      Array.isArray(value) ? encode(item) : `${encode(key)},${encode(item)}`
+    )
+    .join(",");
+
+  return operator.named ? `${variable.name}=${joined}` : joined;
+}
+
+/**
+ * Expand an RFC 6570 URI template with the given variable values.
+ * Undefined and empty-list values are skipped, per the spec.
+ */
+export function expandUriTemplate(
+  template: string,
+  values: Record<string, TemplateValue>
+): string {
+  return template.replace(EXPRESSION_PATTERN, (_, expression: string) => {
+    const { operator, variables } = parseExpression(expression);
+
+    const expanded = variables
+      .map(variable =>
+        expandVariable(operator, variable, values[variable.name])
+      )
+      .filter((part): part is string => part !== null);
+
+    if (expanded.length === 0) return "";
+
+    return operator.first + expanded.join(operator.separator);
+  });
+}
+
+/**
+ * List the distinct variable names referenced by a URI template, in order.
+ */
+export function getUriTemplateVariables(template: string): string[] {
+  const names: string[] = [];
+
+  for (const match of template.matchAll(EXPRESSION_PATTERN)) {
+    const { variables } = parseExpression(match[1]);
+    variables.forEach(variable => {
+      if (!names.includes(variable.name)) {
+        names.push(variable.name);
+      }
+    });
+  }
+
+  return names;
+}
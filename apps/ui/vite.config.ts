@@ -1,9 +1,23 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import { resolve } from "path";
 
+// The server writes its access token into the page it serves. In
+// development this dev server serves the page, so it writes in the token the
+// server was started with.
+const localServerToken = (): Plugin => ({
+  name: "mcpconnect-local-server-token",
+  transformIndexHtml: html =>
+    process.env.MCPCONNECT_TOKEN
+      ? html.replace(
+          "</head>",
+          `<meta name="mcpconnect-token" content="${process.env.MCPCONNECT_TOKEN}" />\n</head>`
+        )
+      : html,
+});
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), localServerToken()],
   resolve: {
     alias: {
       "@": resolve(__dirname, "./src"),
@@ -74,6 +88,13 @@ export default defineConfig({
     port: 3000,
     host: true,
     cors: true,
+    // OAuth redirects land on the server's callback page, stdio servers
+    // are run by the server's bridge, and proxied requests go through it
+    proxy: {
+      "/oauth/callback": "http://localhost:3001",
+      "/api/stdio": { target: "http://localhost:3001", ws: true },
+      "/api/proxy": { target: "http://localhost:3001", ws: true },
+    },
   },
   preview: {
     port: 3000,
@@ -5,6 +5,8 @@ import {
   LLMResponse,
   LLMStreamResponse,
   LLMCapabilities,
+  MCPSamplingRequest,
+  MCPSamplingResult,
   AdapterError,
   AdapterStatus,
   StorageAdapter,
@@ -40,6 +42,7 @@ import { getCapabilities } from "./capabilities-handler";
 import { handleCompletion } from "./completion-handler";
 import { handleStream, sendMessageStream } from "./streaming-handler";
 import { sendMessage } from "./message-handler";
+import { handleSampling } from "./sampling-handler";
 
 export class AISDKAdapter extends LLMAdapter {
   public config: AISDKConfig;
@@ -67,6 +70,12 @@ export class AISDKAdapter extends LLMAdapter {
     return getCapabilities(this.config);
   }
 
+  private supportsImages(): boolean {
+    return Boolean(
+      getCapabilities(this.config).supportedModalities?.includes("image")
+    );
+  }
+
   async initialize(): Promise<void> {
     if (!this.aiModel) {
       this.initializeAIModel();
@@ -125,6 +134,7 @@ export class AISDKAdapter extends LLMAdapter {
     try {
       const result = await handleCompletion(this.aiModel, messages, {
         ...options,
+        supportsImages: this.supportsImages(),
         model: this.config.model,
         tools: options?.tools || this.config.tools,
         maxTokens: options?.maxTokens || this.config.maxTokens,
@@ -155,7 +165,9 @@ export class AISDKAdapter extends LLMAdapter {
     this.status = AdapterStatus.PROCESSING;
 
     try {
-      const aiMessages = convertToAIMessages(messages);
+      const aiMessages = convertToAIMessages(messages, {
+        supportsImages: this.supportsImages(),
+      });
       const aiTools = convertToAITools(options?.tools || this.config.tools);
 
       for await (const chunk of handleStream(
@@ -237,6 +249,22 @@ export class AISDKAdapter extends LLMAdapter {
     return sendMessage(this, userMessage, context, conversationHistory);
   }
 
+  /**
+   * Answer an MCP sampling/createMessage request with the configured model
+   */
+  async createSamplingMessage(
+    request: MCPSamplingRequest
+  ): Promise<MCPSamplingResult> {
+    if (!this.aiModel) {
+      throw new AdapterError(
+        "AI model not initialized",
+        "MODEL_NOT_INITIALIZED"
+      );
+    }
+
+    return handleSampling(this.aiModel, request, this.config.model);
+  }
+
   // Static helper methods
   static getDefaultSettings(
     provider?: "anthropic" | "openai"
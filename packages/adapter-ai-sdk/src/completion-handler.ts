@@ -12,13 +12,19 @@ import { convertToAIMessages, convertToAITools } from "./utils";
 export async function handleCompletion(
   aiModel: AIModel,
   messages: LLMMessage[],
-  options: Partial<LLMConfig> & { model: string; tools?: any }
+  options: Partial<LLMConfig> & {
+    model: string;
+    tools?: any;
+    supportsImages?: boolean;
+  }
 ): Promise<LLMResponse> {
   if (!aiModel) {
     throw new AdapterError("AI model not initialized", "MODEL_NOT_INITIALIZED");
   }
 
-  const aiMessages = convertToAIMessages(messages);
+  const aiMessages = convertToAIMessages(messages, {
+    supportsImages: options.supportsImages,
+  });
   const aiTools = convertToAITools(options?.tools || []);
 
   const result = await generateText({
@@ -0,0 +1,897 @@
+import { type FetchFunction } from "@ai-sdk/provider-utils";
+import { AdapterError, MCPNotification } from "@mcpconnect/base-adapters";
+import {
+  ConformanceCategory,
+  ConformanceCheckResult,
+  ConformanceReport,
+  ConformanceStatus,
+  Connection,
+} from "@mcpconnect/schemas";
+import { MCPService } from "./mcp-service";
+import { normalizeUrl } from "./utils";
+
+/**
+ * Protocol conformance checks run against a live server over the
+ * connection's own transport. Failures are for things the spec requires
+ * and warnings for things it recommends.
+ */
+
+export interface ConformanceCheckOptions {
+  fetch?: FetchFunction;
+  abortSignal?: AbortSignal;
+  /** Called as each check finishes */
+  onResult?: (result: ConformanceCheckResult) => void;
+}
+
+interface CheckOutcome {
+  status: ConformanceStatus;
+  message: string;
+  details?: string[];
+}
+
+type Settled =
+  | { ok: true; result: any }
+  | { ok: false; error: unknown; code?: number };
+
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+// Pages read from one list before its cursors are assumed to loop
+const MAX_PAGES = 50;
+
+const LIST_METHODS = [
+  { capability: "tools", method: "tools/list", field: "tools", key: "name" },
+  {
+    capability: "resources",
+    method: "resources/list",
+    field: "resources",
+    key: "uri",
+  },
+  {
+    capability: "resources",
+    method: "resources/templates/list",
+    field: "resourceTemplates",
+    key: "uriTemplate",
+  },
+  {
+    capability: "prompts",
+    method: "prompts/list",
+    field: "prompts",
+    key: "name",
+  },
+] as const;
+
+type ListMethod = (typeof LIST_METHODS)[number];
+
+// Requests that reject params without a name or uri, per capability
+const PARAMS_PROBES = [
+  { capability: "tools", method: "tools/call" },
+  { capability: "resources", method: "resources/read" },
+  { capability: "prompts", method: "prompts/get" },
+] as const;
+
+// Reported in place of the rest of the suite when initialize fails
+const SKIPPED_WITHOUT_SESSION: Array<[string, ConformanceCategory, string]> = [
+  ["initialize.capabilities", "initialize", "Capability declarations"],
+  ["capabilities", "capabilities", "Capability and method consistency"],
+  ["errors", "errors", "JSON-RPC error codes"],
+  ["pagination", "pagination", "Pagination"],
+  ["tools.input-schemas", "tools", "Tool input schemas"],
+  ["ping", "ping", "Ping"],
+  ["notifications", "notifications", "Notification handling"],
+];
+
+const JSON_SCHEMA_TYPES = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "object",
+  "array",
+  "null",
+];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const getJsonRpcErrorCode = (error: unknown): number | undefined =>
+  error instanceof AdapterError &&
+  error.code === "MCP_ERROR" &&
+  typeof error.details?.code === "number"
+    ? error.details.code
+    : undefined;
+
+/**
+ * Structural problems that stop a value from being a JSON Schema, such as
+ * unknown types or keywords holding the wrong kind of value
+ */
+export function getJsonSchemaProblems(
+  schema: unknown,
+  path = "schema"
+): string[] {
+  if (typeof schema === "boolean") return [];
+  if (!isObject(schema)) return [`${path} is not an object or boolean`];
+
+  const problems: string[] = [];
+  const checkSubschema = (value: unknown, subpath: string) =>
+    problems.push(...getJsonSchemaProblems(value, subpath));
+  const checkSchemaMap = (keyword: string) => {
+    if (schema[keyword] === undefined) return;
+    if (!isObject(schema[keyword])) {
+      problems.push(`${path}.${keyword} is not an object`);
+      return;
+    }
+    Object.entries(schema[keyword]).forEach(([name, value]) =>
+      checkSubschema(value, `${path}.${keyword}.${name}`)
+    );
+  };
+  const checkSchemaList = (keyword: string) => {
+    if (schema[keyword] === undefined) return;
+    if (!Array.isArray(schema[keyword]) || schema[keyword].length === 0) {
+      problems.push(`${path}.${keyword} is not a non-empty array`);
+      return;
+    }
+    schema[keyword].forEach((value: unknown, index: number) =>
+      checkSubschema(value, `${path}.${keyword}[${index}]`)
+    );
+  };
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    types
+      .filter(type => !JSON_SCHEMA_TYPES.includes(type))
+      .forEach(type =>
+        problems.push(`${path}.type has unknown type ${JSON.stringify(type)}`)
+      );
+  }
+
+  checkSchemaMap("properties");
+  checkSchemaMap("patternProperties");
+  checkSchemaMap("$defs");
+  checkSchemaMap("definitions");
+  checkSchemaList("anyOf");
+  checkSchemaList("oneOf");
+  checkSchemaList("allOf");
+
+  ["additionalProperties", "not", "contains", "propertyNames"].forEach(
+    keyword => {
+      if (schema[keyword] !== undefined) {
+        checkSubschema(schema[keyword], `${path}.${keyword}`);
+      }
+    }
+  );
+
+  if (Array.isArray(schema.items)) {
+    schema.items.forEach((value: unknown, index: number) =>
+      checkSubschema(value, `${path}.items[${index}]`)
+    );
+  } else if (schema.items !== undefined) {
+    checkSubschema(schema.items, `${path}.items`);
+  }
+
+  if (schema.required !== undefined) {
+    const required = schema.required;
+    if (
+      !Array.isArray(required) ||
+      required.some(name => typeof name !== "string")
+    ) {
+      problems.push(`${path}.required is not an array of strings`);
+    } else if (new Set(required).size !== required.length) {
+      problems.push(`${path}.required lists a property twice`);
+    }
+  }
+
+  if (
+    schema.enum !== undefined &&
+    (!Array.isArray(schema.enum) || schema.enum.length === 0)
+  ) {
+    problems.push(`${path}.enum is not a non-empty array`);
+  }
+
+  [
+    "minLength",
+    "maxLength",
+    "minItems",
+    "maxItems",
+    "minProperties",
+    "maxProperties",
+  ].forEach(keyword => {
+    const value = schema[keyword];
+    if (value !== undefined && !(Number.isInteger(value) && value >= 0)) {
+      problems.push(`${path}.${keyword} is not a non-negative integer`);
+    }
+  });
+
+  [
+    "minimum",
+    "maximum",
+    "exclusiveMinimum",
+    "exclusiveMaximum",
+    "multipleOf",
+  ].forEach(keyword => {
+    if (schema[keyword] !== undefined && typeof schema[keyword] !== "number") {
+      problems.push(`${path}.${keyword} is not a number`);
+    }
+  });
+
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern);
+    } catch {
+      problems.push(`${path}.pattern is not a valid regular expression`);
+    }
+  }
+
+  ["title", "description", "$ref", "$schema", "format"].forEach(keyword => {
+    if (schema[keyword] !== undefined && typeof schema[keyword] !== "string") {
+      problems.push(`${path}.${keyword} is not a string`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Run the conformance suite against a connection. The run starts with a
+ * fresh initialize handshake, so any session the connection had is closed
+ * first and the new one is left open when the run ends.
+ */
+export async function runConformanceChecks(
+  connection: Connection,
+  options: ConformanceCheckOptions = {}
+): Promise<ConformanceReport> {
+  const { fetch, abortSignal, onResult } = options;
+  const startedAt = new Date().toISOString();
+  const results: ConformanceCheckResult[] = [];
+
+  const throwIfAborted = () => {
+    if (abortSignal?.aborted) {
+      throw new AdapterError(
+        "Conformance checks were cancelled",
+        "CONFORMANCE_CANCELLED"
+      );
+    }
+  };
+
+  const check = async (
+    id: string,
+    category: ConformanceCategory,
+    title: string,
+    run: () => Promise<CheckOutcome>
+  ): Promise<ConformanceCheckResult> => {
+    throwIfAborted();
+    const start = Date.now();
+
+    let outcome: CheckOutcome;
+    try {
+      outcome = await run();
+    } catch (error) {
+      throwIfAborted();
+      outcome = { status: "fail", message: describeError(error) };
+    }
+
+    const result: ConformanceCheckResult = {
+      id,
+      category,
+      title,
+      ...outcome,
+      duration: Date.now() - start,
+    };
+    results.push(result);
+    onResult?.(result);
+    return result;
+  };
+
+  const request = (method: string, params?: Record<string, any>) =>
+    MCPService.request(connection, method, params, abortSignal, fetch);
+
+  const settle = async (
+    method: string,
+    params?: Record<string, any>
+  ): Promise<Settled> => {
+    try {
+      return { ok: true, result: await request(method, params) };
+    } catch (error) {
+      throwIfAborted();
+      return { ok: false, error, code: getJsonRpcErrorCode(error) };
+    }
+  };
+
+  // Server notifications are collected for the whole run and checked last
+  const normalizedUrl = normalizeUrl(connection.url);
+  const notifications: MCPNotification[] = [];
+  const unsubscribe = MCPService.onNotification(notification => {
+    if (normalizeUrl(notification.connectionUrl) === normalizedUrl) {
+      notifications.push(notification);
+    }
+  });
+
+  let initResult: any;
+  let capabilities: Record<string, any> = {};
+
+  try {
+    await check(
+      "initialize.handshake",
+      "initialize",
+      "Initialize handshake",
+      async () => {
+        const { params, result } = await MCPService.handshake(
+          connection,
+          abortSignal,
+          fetch
+        );
+        initResult = result;
+
+        if (!isObject(result)) {
+          return {
+            status: "fail",
+            message: "initialize returned something other than an object",
+          };
+        }
+
+        const problems: string[] = [];
+        if (typeof result.protocolVersion !== "string") {
+          problems.push("protocolVersion is missing");
+        }
+        if (!isObject(result.capabilities)) {
+          problems.push("capabilities is missing or not an object");
+        }
+        if (!isObject(result.serverInfo)) {
+          problems.push("serverInfo is missing");
+        } else {
+          if (typeof result.serverInfo.name !== "string") {
+            problems.push("serverInfo.name is missing");
+          }
+          if (typeof result.serverInfo.version !== "string") {
+            problems.push("serverInfo.version is missing");
+          }
+        }
+        if (
+          result.instructions !== undefined &&
+          typeof result.instructions !== "string"
+        ) {
+          problems.push("instructions is not a string");
+        }
+
+        if (problems.length > 0) {
+          return {
+            status: "fail",
+            message: "The initialize result is missing required fields",
+            details: problems,
+          };
+        }
+
+        return {
+          status: "pass",
+          message:
+            result.protocolVersion === params.protocolVersion
+              ? `Negotiated protocol ${result.protocolVersion}`
+              : `Requested ${params.protocolVersion}, server chose ${result.protocolVersion}`,
+        };
+      }
+    );
+
+    // Without an answer to initialize there is no session to check
+    if (!isObject(initResult)) {
+      for (const [id, category, title] of SKIPPED_WITHOUT_SESSION) {
+        await check(id, category, title, async () => ({
+          status: "skip",
+          message: "Skipped because the initialize handshake failed",
+        }));
+      }
+      return buildReport();
+    }
+
+    if (isObject(initResult.capabilities)) {
+      capabilities = initResult.capabilities;
+    }
+
+    await check(
+      "initialize.capabilities",
+      "initialize",
+      "Capability declarations",
+      async () => {
+        const problems: string[] = [];
+        const warnings: string[] = [];
+
+        Object.entries(capabilities).forEach(([name, value]) => {
+          if (!isObject(value)) {
+            problems.push(`${name} is declared as ${JSON.stringify(value)}`);
+            return;
+          }
+          ["listChanged", "subscribe"].forEach(flag => {
+            if (value[flag] !== undefined && typeof value[flag] !== "boolean") {
+              warnings.push(`${name}.${flag} is not a boolean`);
+            }
+          });
+        });
+
+        if (problems.length > 0) {
+          return {
+            status: "fail",
+            message: "Capabilities must be declared as objects",
+            details: [...problems, ...warnings],
+          };
+        }
+        if (warnings.length > 0) {
+          return {
+            status: "warn",
+            message: "Some capability flags have the wrong type",
+            details: warnings,
+          };
+        }
+
+        const declared = Object.keys(capabilities);
+        return {
+          status: "pass",
+          message: declared.length
+            ? `Declares ${declared.join(", ")}`
+            : "Declares no capabilities",
+        };
+      }
+    );
+
+    // First pages are kept for the checks that need something to call
+    const firstPages = new Map<ListMethod["method"], any>();
+
+    for (const list of LIST_METHODS) {
+      const declared = isObject(capabilities[list.capability]);
+      await check(
+        `capabilities.${list.method}`,
+        "capabilities",
+        `${list.method} matches the ${list.capability} capability`,
+        async () => {
+          const response = await settle(list.method);
+          if (response.ok) {
+            firstPages.set(list.method, response.result);
+            return declared
+              ? { status: "pass", message: `${list.method} answers` }
+              : {
+                  status: "warn",
+                  message: `${list.method} answers but ${list.capability} is not declared`,
+                };
+          }
+
+          if (!declared) {
+            return response.code === METHOD_NOT_FOUND
+              ? {
+                  status: "pass",
+                  message: `${list.method} is rejected with ${METHOD_NOT_FOUND} as ${list.capability} is not declared`,
+                }
+              : {
+                  status: "warn",
+                  message: `${list.method} is rejected with ${response.code ?? "a transport error"} rather than ${METHOD_NOT_FOUND}`,
+                  details: [describeError(response.error)],
+                };
+          }
+
+          return {
+            status: "fail",
+            message: `${list.capability} is declared but ${list.method} failed`,
+            details: [describeError(response.error)],
+          };
+        }
+      );
+    }
+
+    await check(
+      "capabilities.logging/setLevel",
+      "capabilities",
+      "logging/setLevel matches the logging capability",
+      async () => {
+        const declared = isObject(capabilities.logging);
+        const response = await settle("logging/setLevel", { level: "info" });
+
+        if (response.ok) {
+          return declared
+            ? { status: "pass", message: "logging/setLevel answers" }
+            : {
+                status: "warn",
+                message: "logging/setLevel answers but logging is not declared",
+              };
+        }
+        if (!declared && response.code === METHOD_NOT_FOUND) {
+          return {
+            status: "pass",
+            message: `logging/setLevel is rejected with ${METHOD_NOT_FOUND} as logging is not declared`,
+          };
+        }
+        return {
+          status: declared ? "fail" : "warn",
+          message: declared
+            ? "logging is declared but logging/setLevel failed"
+            : `logging/setLevel is rejected with ${response.code ?? "a transport error"} rather than ${METHOD_NOT_FOUND}`,
+          details: [describeError(response.error)],
+        };
+      }
+    );
+
+    await check(
+      "errors.unknown-method",
+      "errors",
+      "Unknown methods are rejected with -32601",
+      async () => {
+        const response = await settle("conformance/unknown-method");
+        if (response.ok) {
+          return {
+            status: "fail",
+            message: "An unknown method returned a result",
+          };
+        }
+        return response.code === METHOD_NOT_FOUND
+          ? { status: "pass", message: `Rejected with ${METHOD_NOT_FOUND}` }
+          : {
+              status: "fail",
+              message: `Expected ${METHOD_NOT_FOUND}, got ${response.code ?? "a transport error"}`,
+              details: [describeError(response.error)],
+            };
+      }
+    );
+
+    const paramsProbe = PARAMS_PROBES.find(probe =>
+      isObject(capabilities[probe.capability])
+    );
+    await check(
+      "errors.invalid-params",
+      "errors",
+      "Bad params are rejected with -32602",
+      async () => {
+        if (!paramsProbe) {
+          return {
+            status: "skip",
+            message: "No tools, resources or prompts capability to probe",
+          };
+        }
+
+        const response = await settle(paramsProbe.method, {});
+        if (response.ok) {
+          return {
+            status: "fail",
+            message: `${paramsProbe.method} without required params returned a result`,
+          };
+        }
+        if (response.code === INVALID_PARAMS) {
+          return {
+            status: "pass",
+            message: `${paramsProbe.method} with empty params is rejected with ${INVALID_PARAMS}`,
+          };
+        }
+        return {
+          status: response.code === undefined ? "fail" : "warn",
+          message: `Expected ${INVALID_PARAMS} from ${paramsProbe.method}, got ${response.code ?? "a transport error"}`,
+          details: [describeError(response.error)],
+        };
+      }
+    );
+
+    await check(
+      "errors.unknown-tool",
+      "errors",
+      "Unknown tools are rejected with -32602",
+      async () => {
+        if (!isObject(capabilities.tools)) {
+          return { status: "skip", message: "tools is not declared" };
+        }
+
+        const name = `conformance-unknown-tool-${Date.now()}`;
+        const response = await settle("tools/call", { name, arguments: {} });
+        if (response.ok) {
+          return response.result?.isError
+            ? {
+                status: "warn",
+                message: `The unknown tool is reported as a tool error rather than ${INVALID_PARAMS}`,
+              }
+            : {
+                status: "fail",
+                message: "Calling an unknown tool returned a result",
+              };
+        }
+        if (response.code === INVALID_PARAMS) {
+          return { status: "pass", message: `Rejected with ${INVALID_PARAMS}` };
+        }
+        return {
+          status: response.code === undefined ? "fail" : "warn",
+          message: `Expected ${INVALID_PARAMS}, got ${response.code ?? "a transport error"}`,
+          details: [describeError(response.error)],
+        };
+      }
+    );
+
+    // Whole lists, read while checking pagination
+    const lists = new Map<ListMethod["method"], any[]>();
+
+    for (const list of LIST_METHODS) {
+      await check(
+        `pagination.${list.method}`,
+        "pagination",
+        `${list.method} cursors`,
+        async () => {
+          if (!firstPages.has(list.method)) {
+            return {
+              status: "skip",
+              message: `${list.method} is not available`,
+            };
+          }
+
+          const problems: string[] = [];
+          const warnings: string[] = [];
+          const seenCursors = new Set<string>();
+          const seenKeys = new Set<string>();
+          const items: any[] = [];
+          let page = firstPages.get(list.method);
+          let pages = 1;
+
+          for (;;) {
+            if (!Array.isArray(page?.[list.field])) {
+              problems.push(`Page ${pages} has no ${list.field} array`);
+              break;
+            }
+            page[list.field].forEach((item: any) => {
+              const key = item?.[list.key];
+              if (typeof key === "string" && seenKeys.has(key)) {
+                warnings.push(`${key} is listed more than once`);
+              }
+              seenKeys.add(key);
+              items.push(item);
+            });
+
+            const cursor = page.nextCursor;
+            if (cursor === undefined || cursor === null) break;
+            if (typeof cursor !== "string") {
+              problems.push(
+                `Page ${pages} has a nextCursor that is not a string`
+              );
+              break;
+            }
+            if (seenCursors.has(cursor)) {
+              problems.push(`Page ${pages} repeats an earlier nextCursor`);
+              break;
+            }
+            if (pages >= MAX_PAGES) {
+              problems.push(`Still paging after ${MAX_PAGES} pages`);
+              break;
+            }
+            seenCursors.add(cursor);
+            page = await request(list.method, { cursor });
+            pages += 1;
+          }
+
+          lists.set(list.method, items);
+
+          if (problems.length > 0) {
+            return {
+              status: "fail",
+              message: `${list.method} pagination is broken`,
+              details: [...problems, ...warnings],
+            };
+          }
+          const summary = `${items.length} ${list.field} over ${pages} page${pages === 1 ? "" : "s"}`;
+          return warnings.length > 0
+            ? { status: "warn", message: summary, details: warnings }
+            : { status: "pass", message: summary };
+        }
+      );
+    }
+
+    const cursorProbe = LIST_METHODS.find(list => firstPages.has(list.method));
+    await check(
+      "pagination.invalid-cursor",
+      "pagination",
+      "Invalid cursors are rejected with -32602",
+      async () => {
+        if (!cursorProbe) {
+          return { status: "skip", message: "No list methods are available" };
+        }
+
+        const response = await settle(cursorProbe.method, {
+          cursor: "conformance-invalid-cursor",
+        });
+        if (response.ok) {
+          return {
+            status: "warn",
+            message: `${cursorProbe.method} accepted a cursor it never issued`,
+          };
+        }
+        return response.code === INVALID_PARAMS
+          ? {
+              status: "pass",
+              message: `${cursorProbe.method} rejects it with ${INVALID_PARAMS}`,
+            }
+          : {
+              status: "warn",
+              message: `Expected ${INVALID_PARAMS} from ${cursorProbe.method}, got ${response.code ?? "a transport error"}`,
+              details: [describeError(response.error)],
+            };
+      }
+    );
+
+    await check(
+      "tools.input-schemas",
+      "tools",
+      "Tool input schemas are valid JSON Schema",
+      async () => {
+        const tools = lists.get("tools/list");
+        if (!tools) {
+          return { status: "skip", message: "tools/list is not available" };
+        }
+        if (tools.length === 0) {
+          return { status: "pass", message: "The server lists no tools" };
+        }
+
+        const problems: string[] = [];
+        tools.forEach((tool, index) => {
+          const name =
+            typeof tool?.name === "string" ? tool.name : `tools[${index}]`;
+          if (typeof tool?.name !== "string") {
+            problems.push(`${name} has no name`);
+          }
+          if (!isObject(tool?.inputSchema)) {
+            problems.push(`${name} has no inputSchema object`);
+            return;
+          }
+          if (tool.inputSchema.type !== "object") {
+            problems.push(`${name}: inputSchema.type is not "object"`);
+          }
+          getJsonSchemaProblems(tool.inputSchema, "inputSchema").forEach(
+            problem => problems.push(`${name}: ${problem}`)
+          );
+          if (tool.outputSchema !== undefined) {
+            getJsonSchemaProblems(tool.outputSchema, "outputSchema").forEach(
+              problem => problems.push(`${name}: ${problem}`)
+            );
+          }
+        });
+
+        return problems.length > 0
+          ? {
+              status: "fail",
+              message: "Some tools have invalid schemas",
+              details: problems,
+            }
+          : {
+              status: "pass",
+              message: `All ${tools.length} tool schemas are valid`,
+            };
+      }
+    );
+
+    await check("ping", "ping", "Ping returns an empty result", async () => {
+      const result = await request("ping");
+      if (!isObject(result)) {
+        return { status: "fail", message: "ping returned a non-object result" };
+      }
+      return Object.keys(result).length === 0
+        ? { status: "pass", message: "ping answered with {}" }
+        : {
+            status: "warn",
+            message: "ping answered with a non-empty result",
+            details: [JSON.stringify(result)],
+          };
+    });
+
+    const sendNotification = async (
+      method: string,
+      params?: Record<string, unknown>
+    ): Promise<CheckOutcome> => {
+      let sent: boolean;
+      try {
+        sent = await MCPService.notify(connection, method, params, fetch);
+      } catch (error) {
+        return {
+          status: "warn",
+          message: `The server rejected ${method}`,
+          details: [describeError(error)],
+        };
+      }
+      if (!sent) {
+        return { status: "skip", message: "No open session to notify" };
+      }
+
+      // The session must keep working after the notification
+      const response = await settle("ping");
+      return response.ok
+        ? { status: "pass", message: `${method} was accepted` }
+        : {
+            status: "fail",
+            message: `ping failed after sending ${method}`,
+            details: [describeError(response.error)],
+          };
+    };
+
+    await check(
+      "notifications.unknown",
+      "notifications",
+      "Unknown notifications are ignored",
+      () => sendNotification("notifications/conformance-unknown")
+    );
+
+    await check(
+      "notifications.cancelled",
+      "notifications",
+      "Cancelling an unknown request is ignored",
+      () =>
+        sendNotification("notifications/cancelled", {
+          requestId: "conformance-unknown-request",
+          reason: "Conformance check",
+        })
+    );
+
+    await check(
+      "notifications.server",
+      "notifications",
+      "Server notifications are well formed",
+      async () => {
+        if (notifications.length === 0) {
+          return {
+            status: "skip",
+            message: "The server sent no notifications during the run",
+          };
+        }
+
+        const warnings: string[] = [];
+        notifications.forEach(({ method }) => {
+          if (!method.startsWith("notifications/")) {
+            warnings.push(`${method} is outside notifications/`);
+            return;
+          }
+          const listChanged = method.match(
+            /^notifications\/(tools|resources|prompts)\/list_changed$/
+          );
+          if (listChanged && !capabilities[listChanged[1]]?.listChanged) {
+            warnings.push(
+              `${method} was sent without declaring ${listChanged[1]}.listChanged`
+            );
+          }
+        });
+
+        return warnings.length > 0
+          ? {
+              status: "warn",
+              message:
+                "Some notifications don't match the declared capabilities",
+              details: warnings,
+            }
+          : {
+              status: "pass",
+              message: `${notifications.length} notification${notifications.length === 1 ? "" : "s"} received`,
+            };
+      }
+    );
+
+    return buildReport();
+  } finally {
+    unsubscribe();
+  }
+
+  function buildReport(): ConformanceReport {
+    const summary: Record<ConformanceStatus, number> = {
+      pass: 0,
+      warn: 0,
+      fail: 0,
+      skip: 0,
+    };
+    results.forEach(result => {
+      summary[result.status] += 1;
+    });
+
+    return {
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      serverInfo: isObject(initResult?.serverInfo)
+        ? {
+            name: initResult.serverInfo.name,
+            version: initResult.serverInfo.version,
+          }
+        : undefined,
+      protocolVersion:
+        typeof initResult?.protocolVersion === "string"
+          ? initResult.protocolVersion
+          : undefined,
+      transport: connection.connectionType,
+      results,
+      summary,
+    };
+  }
+}
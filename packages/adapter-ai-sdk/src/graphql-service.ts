@@ -21,6 +21,7 @@ import {
 import { Connection, Tool, ToolExecution } from "@mcpconnect/schemas";
 import { AdapterError } from "@mcpconnect/base-adapters";
 import type { FetchFunction } from "@ai-sdk/provider-utils";
+import { createProxyFetch } from "./proxy";
 
 export class GraphQLService {
   private static fetch?: FetchFunction;
@@ -816,7 +817,9 @@ export class GraphQLService {
     operationName?: string
   ): Promise<any> {
     const endpoint = connection.graphqlConfig?.endpoint || connection.url;
-    const fetchFn = this.fetch || fetch;
+    const fetchFn = connection.useProxy
+      ? createProxyFetch(this.fetch)
+      : this.fetch || fetch;
 
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
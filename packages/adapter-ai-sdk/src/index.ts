@@ -3,18 +3,50 @@ export type {
   AISDKConfig,
   ChatContext,
   ChatResponse,
+  ToolApprovalRequest,
   StreamingChatResponse,
   TokenUsage,
   ToolExecutionResult,
   LLMSettings,
   ModelOption,
   ExtendedLLMMessage,
+  ToolResultImage,
   AIModel,
   AIModelMessage,
 } from "./types";
 
 export { AnthropicProvider } from "./providers/anthropic";
 export { MCPService } from "./mcp-service";
+export {
+  startOAuthAuthorization,
+  completeOAuthAuthorization,
+  type OAuthAuthorizationRequest,
+  type OAuthCallbackParams,
+  type OAuthPendingAuthorization,
+} from "./oauth";
+export {
+  getStdioBridgeUrl,
+  getStdioEventsUrl,
+  getStdioBridgeInfo,
+  registerStdioProcess,
+  controlStdioProcess,
+  deleteStdioProcess,
+  type StdioBridgeInfo,
+  type StdioProcessAction,
+} from "./stdio-bridge";
+export { setLocalServerToken } from "./local-server";
+export {
+  setProxyUrl,
+  getProxiedUrl,
+  createProxyFetch,
+  getProxyInfo,
+  type ProxyInfo,
+} from "./proxy";
+export {
+  runConformanceChecks,
+  getJsonSchemaProblems,
+  type ConformanceCheckOptions,
+} from "./conformance";
 
 // Export system tools
 export { SystemToolsService, type SystemToolResult } from "./system-tools";
@@ -44,6 +76,9 @@ export {
   toolsToLLMFormat,
   normalizeUrl,
   normalizeUrlWithPath,
+  validateJsonSchema,
+  extractToolResultContent,
+  summarizeToolResultContent,
 } from "./utils";
 
 // Re-export base adapter types for compatibility
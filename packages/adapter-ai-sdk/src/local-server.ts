@@ -0,0 +1,37 @@
+/**
+ * Access token for the local server's stdio bridge and proxy. The server
+ * writes it into the page it serves, and expects it back as a query
+ * parameter on every request to those routes.
+ */
+
+let localServerToken: string | undefined;
+
+/**
+ * Use a token other than the one in the page, such as when running
+ * outside the browser
+ */
+export function setLocalServerToken(token: string | undefined): void {
+  localServerToken = token;
+}
+
+function getLocalServerToken(): string | undefined {
+  if (localServerToken) return localServerToken;
+  if (typeof document === "undefined") return undefined;
+
+  return (
+    document.querySelector<HTMLMetaElement>('meta[name="mcpconnect-token"]')
+      ?.content || undefined
+  );
+}
+
+/**
+ * Add the token to a URL on the local server
+ */
+export function withLocalServerToken(url: string): string {
+  const token = getLocalServerToken();
+  if (!token) return url;
+
+  const withToken = new URL(url);
+  withToken.searchParams.set("token", token);
+  return withToken.toString();
+}
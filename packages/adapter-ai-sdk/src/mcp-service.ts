@@ -6,14 +6,43 @@ import {
   MCPAdapter,
   MCPConfig,
   MCPConnectionResult,
+  MCPIntrospectionProgress,
   MCPToolExecutionResult,
   MCPMessage,
+  MCPNotification,
+  MCPServerRequest,
+  MCPServerRequestHandler,
   MCPServerInfo,
   MCPCapabilities,
   MCPToolDefinition,
   MCPResourceDefinition,
+  MCPResourceTemplateDefinition,
+  MCPResourceReadResult,
+  MCPPromptDefinition,
+  MCPCompletionReference,
+  MCPCompletionResult,
 } from "@mcpconnect/base-adapters";
-import { Connection, Tool, Resource, ToolExecution } from "@mcpconnect/schemas";
+import {
+  Connection,
+  IntrospectionList,
+  Tool,
+  Resource,
+  ResourceTemplate,
+  ResourceContents,
+  Prompt,
+  PromptGetResult,
+  ToolExecution,
+  ActiveToolCall,
+  LoggingLevel,
+  OAuthTokens,
+  OutputValidation,
+  ProtocolVersionSchema,
+  SSEStreamState,
+  SSEStreamStatus,
+  TrafficEntry,
+  TrafficTransport,
+  WebSocketState,
+} from "@mcpconnect/schemas";
 import {
   type FetchFunction,
   combineHeaders,
@@ -22,13 +51,119 @@ import {
   isAbortError,
 } from "@ai-sdk/provider-utils";
 import { AdapterError, AdapterStatus } from "@mcpconnect/base-adapters";
-import { normalizeUrl, normalizeUrlWithPath } from "./utils";
+import {
+  normalizeUrl,
+  normalizeUrlWithPath,
+  validateJsonSchema,
+} from "./utils";
 import { GraphQLService } from "./graphql-service";
+import {
+  isOAuthTokenExpired,
+  parseWWWAuthenticate,
+  refreshOAuthTokens,
+} from "./oauth";
+import { registerStdioProcess } from "./stdio-bridge";
+import { withLocalServerToken } from "./local-server";
+import { createProxyFetch, getProxiedUrl } from "./proxy";
 import { AISDKAdapter } from "./ai-sdk-adapter";
 
+type OutgoingMCPMessage = Omit<MCPMessage, "id"> & { id?: MCPMessage["id"] };
+
+// A message or batch sent as written, which need not be valid JSON-RPC
+type RawMCPPayload = Record<string, unknown> | Record<string, unknown>[];
+
+// Sends a message back over the channel a server request arrived on
+type MCPReply = (message: OutgoingMCPMessage) => Promise<void> | void;
+
+interface HTTPSession {
+  connection: Connection;
+  sessionId?: string;
+  protocolVersion?: string;
+  streamController?: AbortController;
+}
+
+interface WebSocketSession {
+  url: string;
+  connection: Connection;
+  ws?: WebSocket;
+  state: WebSocketState;
+  // Settles once the current socket has finished initialize
+  ready?: Promise<void>;
+  initResult?: any;
+  reconnectAttempts: number;
+  reconnectTimer?: ReturnType<typeof setTimeout>;
+  // Requests waiting on the current socket, failed if it drops
+  requestIds: Set<string>;
+}
+
+interface SSESession {
+  url: string;
+  connection: Connection;
+  sessionId?: string;
+  // Aborts the current event stream
+  streamController?: AbortController;
+  state: SSEStreamState;
+  error?: string;
+  // Whether initialize has run, which makes a dropped stream worth
+  // reconnecting
+  initialized: boolean;
+  reconnectAttempts: number;
+  reconnectTimer?: ReturnType<typeof setTimeout>;
+  // The initialize sent by the reconnect attempt in flight
+  reconnectRequestId?: string;
+  // Requests waiting on a response from the stream, failed if it drops
+  requestIds: Set<string>;
+}
+
+// Revisions that changed how the client has to behave
+const PROTOCOL_HEADER_VERSION = "2025-06-18";
+const ELICITATION_VERSION = "2025-06-18";
+
+// Protocol versions are dates, so they order as strings
+const isVersionAtLeast = (version: string, minimum: string) =>
+  version >= minimum;
+
+// Dropped sockets are retried after 1s, 2s, 4s... up to this many times
+const WEBSOCKET_MAX_RECONNECT_ATTEMPTS = 6;
+const WEBSOCKET_RECONNECT_BASE_DELAY = 1000;
+const WEBSOCKET_RECONNECT_MAX_DELAY = 30000;
+
+// Dropped SSE streams back off the same way, with jitter so clients of a
+// restarted server don't all come back at once
+const SSE_MAX_RECONNECT_ATTEMPTS = 6;
+const SSE_RECONNECT_BASE_DELAY = 1000;
+const SSE_RECONNECT_MAX_DELAY = 30000;
+
+const getByteLength = (text: string): number =>
+  new TextEncoder().encode(text).length;
+
+interface ToolCallState {
+  call: ActiveToolCall;
+  requestId?: string;
+  controller?: AbortController;
+  cancelled: boolean;
+}
+
 export class MCPService extends MCPAdapter {
   private static instance: MCPService | null = null;
   private static requestId = 1;
+  private static notificationListeners = new Set<
+    (notification: MCPNotification) => void
+  >();
+  private static requestHandlers = new Map<string, MCPServerRequestHandler>();
+  private static toolCallListeners = new Set<
+    (calls: ActiveToolCall[]) => void
+  >();
+  private static webSocketStateListeners = new Set<
+    (connectionUrl: string, state: WebSocketState) => void
+  >();
+  private static sseStateListeners = new Set<
+    (connectionUrl: string, status: SSEStreamStatus) => void
+  >();
+  private static oauthTokenListeners = new Set<
+    (connectionId: string, tokens: OAuthTokens) => void
+  >();
+  private static trafficListeners = new Set<(entry: TrafficEntry) => void>();
   private fetch?: FetchFunction;
   private sessionCache = new Map<string, string>();
   private connectionCache = new Map<
@@ -45,14 +180,37 @@ export class MCPService extends MCPAdapter {
       resolve: (value: any) => void;
       reject: (reason: any) => void;
       timeout: any;
+      // Resolve with the whole response, errors included, not its result
+      raw?: boolean;
     }
   >();
+  private resourceSubscriptions = new Map<string, Set<string>>();
+  private httpSessions = new Map<string, HTTPSession>();
+  private webSockets = new Map<string, WebSocketSession>();
+  private sseSessions = new Map<string, SSESession>();
+  // Latest config seen per URL, used to answer server requests like roots/list
+  private connectionConfigs = new Map<string, Connection>();
+  // In-flight tools/call requests keyed by execution id, which is also
+  // the progress token sent with the call
+  private activeToolCalls = new Map<string, ToolCallState>();
+  private serverCapabilities = new Map<string, MCPCapabilities>();
+  private negotiatedVersions = new Map<string, string>();
+  // Streamable HTTP connections whose server only speaks HTTP+SSE
+  private legacySSEUrls = new Set<string>();
+  // Tokens refreshed per connection id, until the stored connection catches
+  // up. `replaced` is the stored access token they superseded.
+  private oauthTokens = new Map<
+    string,
+    { replaced?: string; tokens: OAuthTokens }
+  >();
+  private oauthRefreshes = new Map<string, Promise<OAuthTokens>>();
 
   constructor(config?: Partial<MCPConfig>, fetch?: FetchFunction) {
     const defaultConfig: MCPConfig = {
       name: "mcpconnect-mcp-service",
       provider: "mcp",
       protocolVersion: "2025-06-18",
+      maxListPages: 50,
       debug: false,
       timeout: 60000,
       retries: 3,
@@ -77,6 +235,177 @@ export class MCPService extends MCPAdapter {
     return MCPService.instance;
   }
 
+  /**
+   * Fetch for a connection's requests, which goes through the local proxy
+   * when the connection asks for it. Every exchange is recorded as traffic.
+   */
+  private getFetch(connection: Connection): FetchFunction {
+    const fetchFn = connection.useProxy
+      ? createProxyFetch(this.fetch)
+      : this.fetch || fetch;
+    const connectionUrl = normalizeUrl(connection.url);
+
+    return async (input, init) => {
+      const startedAt = Date.now();
+      const method = init?.method || "GET";
+      const url =
+        typeof input === "string"
+          ? input
+          : input instanceof URL
+            ? input.href
+            : input.url;
+
+      try {
+        const response = await fetchFn(input, init);
+        this.recordTraffic(connectionUrl, {
+          kind: "event",
+          direction: "incoming",
+          event: "http.response",
+          summary: `${method} ${url} ${response.status} ${response.statusText}`,
+          status: response.status,
+          duration: Date.now() - startedAt,
+          size: Number(response.headers.get("Content-Length")) || undefined,
+          sessionId: response.headers.get("Mcp-Session-Id") || undefined,
+          error: !response.ok,
+          payload: {
+            method,
+            url,
+            status: response.status,
+            contentType: response.headers.get("Content-Type"),
+          },
+        });
+        return response;
+      } catch (error) {
+        const aborted = isAbortError(error);
+        this.recordTraffic(connectionUrl, {
+          kind: "event",
+          direction: "internal",
+          event: aborted ? "http.aborted" : "http.failed",
+          summary: `${method} ${url} ${aborted ? "aborted" : `failed: ${error instanceof Error ? error.message : String(error)}`}`,
+          duration: Date.now() - startedAt,
+          error: !aborted,
+          payload: { method, url },
+        });
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Pass an entry to the traffic listeners. Transport and session are
+   * filled in from the connection unless the entry names them.
+   */
+  private recordTraffic(
+    connectionUrl: string,
+    entry: Omit<
+      TrafficEntry,
+      "id" | "connectionUrl" | "transport" | "timestamp"
+    > & { transport?: TrafficTransport }
+  ): void {
+    if (MCPService.trafficListeners.size === 0) return;
+
+    const trafficEntry: TrafficEntry = {
+      ...entry,
+      id: this.generateId(),
+      connectionUrl,
+      transport: entry.transport ?? this.getTrafficTransport(connectionUrl),
+      timestamp: new Date().toISOString(),
+      sessionId:
+        entry.sessionId ??
+        this.httpSessions.get(connectionUrl)?.sessionId ??
+        this.sessionCache.get(connectionUrl),
+    };
+
+    MCPService.trafficListeners.forEach(listener => {
+      try {
+        listener(trafficEntry);
+      } catch (error) {
+        console.error("[MCP] Traffic listener error:", error);
+      }
+    });
+  }
+
+  private getTrafficTransport(connectionUrl: string): TrafficTransport {
+    if (this.legacySSEUrls.has(connectionUrl)) return "sse";
+
+    const connectionType =
+      this.connectionConfigs.get(connectionUrl)?.connectionType;
+    if (
+      connectionType === "sse" ||
+      connectionType === "websocket" ||
+      connectionType === "stdio"
+    ) {
+      return connectionType;
+    }
+    return /^wss?:/.test(connectionUrl) ? "websocket" : "http";
+  }
+
+  /**
+   * Record a JSON-RPC message or batch crossing the wire. Batches are
+   * split so each message can be matched with its response.
+   */
+  private recordMessages(
+    connectionUrl: string,
+    direction: "outgoing" | "incoming",
+    message: any,
+    text: string
+  ): void {
+    if (MCPService.trafficListeners.size === 0) return;
+
+    const messages: any[] = Array.isArray(message) ? message : [message];
+    messages.forEach(item => {
+      const id = item?.id;
+      this.recordTraffic(connectionUrl, {
+        direction,
+        kind:
+          item?.method === undefined
+            ? "response"
+            : id === undefined || id === null
+              ? "notification"
+              : "request",
+        method: typeof item?.method === "string" ? item.method : undefined,
+        messageId:
+          typeof id === "string" || typeof id === "number" ? id : undefined,
+        summary: Array.isArray(message)
+          ? `In a batch of ${messages.length}`
+          : undefined,
+        size: getByteLength(
+          Array.isArray(message) ? JSON.stringify(item) : text
+        ),
+        error: item?.error !== undefined ? true : undefined,
+        payload: item,
+      });
+    });
+  }
+
+  private encodeMessage(connectionUrl: string, message: unknown): string {
+    const text = JSON.stringify(message);
+    this.recordMessages(connectionUrl, "outgoing", message, text);
+    return text;
+  }
+
+  private decodeMessage(connectionUrl: string, text: string): any {
+    const message = JSON.parse(text);
+    this.recordMessages(connectionUrl, "incoming", message, text);
+    return message;
+  }
+
+  private recordRetry(
+    connectionUrl: string,
+    operation: string,
+    attempt: number,
+    maxAttempts: number,
+    delayMs: number
+  ): void {
+    this.recordTraffic(connectionUrl, {
+      kind: "event",
+      direction: "internal",
+      event: "retry",
+      summary: `Retrying ${operation} in ${delayMs}ms (attempt ${attempt}/${maxAttempts})`,
+      payload: { operation, attempt, maxAttempts, delayMs },
+    });
+  }
+
   private getNextRequestId(): string {
     return `req_${MCPService.requestId++}_${this.generateId()}`;
   }
@@ -107,6 +436,11 @@ export class MCPService extends MCPAdapter {
         `${connection.credentials.username}:${connection.credentials.password}`
       );
       authHeaders["Authorization"] = `Basic ${auth}`;
+    } else if (connection.authType === "oauth") {
+      const tokens = this.getOAuthTokens(connection);
+      if (tokens) {
+        authHeaders["Authorization"] = `Bearer ${tokens.accessToken}`;
+      }
     }
 
     return withUserAgentSuffix(
@@ -125,33 +459,182 @@ export class MCPService extends MCPAdapter {
     };
   }
 
+  private getOAuthTokens(connection: Connection): OAuthTokens | undefined {
+    const stored = connection.oauth?.tokens;
+    const refreshed = this.oauthTokens.get(connection.id);
+    return refreshed && refreshed.replaced === stored?.accessToken
+      ? refreshed.tokens
+      : stored;
+  }
+
+  /**
+   * Refresh a connection's OAuth tokens once, however many requests find
+   * them expired at the same time
+   */
+  private refreshConnectionTokens(
+    connection: Connection
+  ): Promise<OAuthTokens> {
+    const inFlight = this.oauthRefreshes.get(connection.id);
+    if (inFlight) return inFlight;
+
+    const current = this.getOAuthTokens(connection);
+    const refresh = refreshOAuthTokens(
+      { ...connection.oauth, tokens: current },
+      this.getFetch(connection)
+    )
+      .then(tokens => {
+        this.oauthTokens.set(connection.id, {
+          replaced: connection.oauth?.tokens?.accessToken,
+          tokens,
+        });
+        MCPService.oauthTokenListeners.forEach(listener =>
+          listener(connection.id, tokens)
+        );
+        return tokens;
+      })
+      .catch(error => {
+        throw new AdapterError(
+          `OAuth token refresh failed, authorize the connection again: ${error instanceof Error ? error.message : error}`,
+          "OAUTH_REQUIRED",
+          undefined,
+          error instanceof Error ? error : undefined
+        );
+      })
+      .finally(() => this.oauthRefreshes.delete(connection.id));
+
+    this.oauthRefreshes.set(connection.id, refresh);
+    return refresh;
+  }
+
+  /**
+   * Make sure an OAuth connection has a token worth sending
+   */
+  private async ensureOAuthToken(connection: Connection): Promise<void> {
+    if (connection.authType !== "oauth") return;
+
+    const tokens = this.getOAuthTokens(connection);
+    if (!tokens) {
+      throw new AdapterError(
+        "This connection uses OAuth and has not been authorized yet",
+        "OAUTH_REQUIRED"
+      );
+    }
+    if (isOAuthTokenExpired(tokens)) {
+      await this.refreshConnectionTokens(connection);
+    }
+  }
+
+  private isUnauthorized(error: unknown): error is AdapterError {
+    return error instanceof AdapterError && error.details?.status === 401;
+  }
+
+  /**
+   * Answer a 401: OAuth connections with a refresh token refresh it and are
+   * retried, everything else fails with what the server's challenge says.
+   */
+  private async handleUnauthorized(
+    connection: Connection,
+    error: AdapterError
+  ): Promise<void> {
+    if (
+      connection.authType === "oauth" &&
+      this.getOAuthTokens(connection)?.refreshToken
+    ) {
+      await this.refreshConnectionTokens(connection);
+      return;
+    }
+
+    const challenge = parseWWWAuthenticate(
+      String(error.details?.wwwAuthenticate || "")
+    );
+    const message =
+      connection.authType === "oauth"
+        ? "The server rejected the OAuth token. Authorize the connection again."
+        : challenge.resource_metadata
+          ? "The server requires OAuth authorization. Set the authentication type to OAuth 2.1."
+          : error.message;
+
+    throw new AdapterError(
+      message,
+      challenge.resource_metadata || connection.authType === "oauth"
+        ? "OAUTH_REQUIRED"
+        : error.code,
+      { ...error.details, ...challenge },
+      error
+    );
+  }
+
   private async sendSSERequest(
     connection: Connection,
     request: MCPMessage,
     abortSignal?: AbortSignal
   ): Promise<any> {
     return new Promise(async (resolve, reject) => {
+      const requestId = request.id as string;
+      const normalizedUrl = normalizeUrl(connection.url);
+      const settle = () =>
+        this.sseSessions.get(normalizedUrl)?.requestIds.delete(requestId);
+
       const timeoutMs = connection.timeout || 60000;
       const timeout = setTimeout(() => {
-        this.cleanupPendingRequest(request.id as string);
+        this.cleanupPendingRequest(requestId);
+        settle();
         reject(new AdapterError("SSE request timeout", "REQUEST_TIMEOUT"));
       }, timeoutMs);
 
-      this.pendingRequests.set(request.id as string, {
-        resolve,
-        reject,
+      this.pendingRequests.set(requestId, {
+        resolve: value => {
+          settle();
+          resolve(value);
+        },
+        reject: reason => {
+          settle();
+          reject(reason);
+        },
         timeout,
       });
 
+      // The response arrives on the shared stream, so aborting the POST
+      // alone would leave the request pending
+      abortSignal?.addEventListener(
+        "abort",
+        () => {
+          this.cleanupPendingRequest(requestId);
+          settle();
+          reject(abortSignal.reason);
+        },
+        { once: true }
+      );
+
       try {
-        // Normalize URL and get or establish session
-        const normalizedUrl = normalizeUrl(connection.url);
+        // Opening another stream would replace the one being reconnected
+        const sseSession = this.sseSessions.get(normalizedUrl);
+        if (
+          sseSession?.state === "reconnecting" &&
+          sseSession.reconnectRequestId !== requestId
+        ) {
+          throw new AdapterError(
+            "The SSE stream dropped and is reconnecting",
+            "SSE_RECONNECTING",
+            { attempt: sseSession.reconnectAttempts }
+          );
+        }
+
+        // Get or establish session
         let sessionId = this.sessionCache.get(normalizedUrl);
 
         if (!sessionId) {
           sessionId = await this.establishSSESession(connection, abortSignal);
           this.sessionCache.set(normalizedUrl, sessionId);
+          this.recordTraffic(normalizedUrl, {
+            kind: "event",
+            direction: "incoming",
+            event: "session.started",
+            summary: `Session ${sessionId}`,
+            sessionId,
+          });
         }
+        this.sseSessions.get(normalizedUrl)?.requestIds.add(requestId);
 
         // Build message URL with normalized base URL
         const messageUrl = normalizeUrlWithPath(
@@ -159,21 +642,27 @@ export class MCPService extends MCPAdapter {
           `/message?sessionId=${sessionId}`
         );
 
-        const fetchFn = this.fetch || fetch;
+        const fetchFn = this.getFetch(connection);
         const response = await fetchFn(messageUrl, {
           method: "POST",
           headers: this.prepareHeaders(connection),
-          body: JSON.stringify(request),
+          body: this.encodeMessage(normalizedUrl, request),
           signal: abortSignal,
         });
 
         if (!response.ok) {
-          this.cleanupPendingRequest(request.id as string);
-
           // Handle session expiry
           if (response.status === 400 || response.status === 404) {
             this.sessionCache.delete(normalizedUrl);
             this.connectionCache.delete(normalizedUrl);
+            this.recordTraffic(normalizedUrl, {
+              kind: "event",
+              direction: "internal",
+              event: "session.expired",
+              summary: `Session expired, retrying ${request.method} on a new one`,
+              sessionId,
+              messageId: request.id,
+            });
 
             // Retry with fresh session
             try {
@@ -191,7 +680,7 @@ export class MCPService extends MCPAdapter {
               const retryResponse = await fetchFn(retryUrl, {
                 method: "POST",
                 headers: this.prepareHeaders(connection),
-                body: JSON.stringify(request),
+                body: this.encodeMessage(normalizedUrl, request),
                 signal: abortSignal,
               });
 
@@ -211,43 +700,103 @@ export class MCPService extends MCPAdapter {
             throw new AdapterError(
               `SSE message request failed: ${response.status} ${response.statusText}`,
               "SSE_REQUEST_FAILED",
-              { status: response.status, statusText: response.statusText }
+              {
+                status: response.status,
+                statusText: response.statusText,
+                wwwAuthenticate: response.headers.get("WWW-Authenticate"),
+              }
             );
           }
         }
       } catch (error) {
-        this.cleanupPendingRequest(request.id as string);
+        this.cleanupPendingRequest(requestId);
+        settle();
         console.error("[MCP SSE] Request error:", error);
         reject(error);
       }
     });
   }
 
+  /**
+   * Post a message without awaiting a response, e.g. the answer to a
+   * server request, to the current SSE session's message endpoint.
+   */
+  private async postSSEMessage(
+    connection: Connection,
+    message: OutgoingMCPMessage | RawMCPPayload
+  ): Promise<void> {
+    const normalizedUrl = normalizeUrl(connection.url);
+    const sessionId = this.sessionCache.get(normalizedUrl);
+    if (!sessionId) {
+      throw new AdapterError("No SSE session to post to", "SSE_NO_SESSION_ID");
+    }
+
+    const messageUrl = normalizeUrlWithPath(
+      normalizedUrl.replace(/\/sse\/?$/, ""),
+      `/message?sessionId=${sessionId}`
+    );
+
+    const fetchFn = this.getFetch(connection);
+    const response = await fetchFn(messageUrl, {
+      method: "POST",
+      headers: this.prepareHeaders(connection),
+      body: this.encodeMessage(normalizedUrl, message),
+    });
+
+    if (!response.ok) {
+      throw new AdapterError(
+        `SSE message request failed: ${response.status} ${response.statusText}`,
+        "SSE_REQUEST_FAILED",
+        { status: response.status, statusText: response.statusText }
+      );
+    }
+  }
+
+  /**
+   * Open a new event stream for a connection and wait for the endpoint
+   * event that names its session. Any stream open before is closed, and the
+   * new one is watched so it can be reconnected if it drops.
+   */
   private async establishSSESession(
     connection: Connection,
     abortSignal?: AbortSignal
   ): Promise<string> {
-    return new Promise(async (resolve, reject) => {
+    const session = this.getSSESession(connection);
+    this.detachSSEStream(session);
+
+    // The stream outlives the request that opened it, so it only follows
+    // that request's signal until the session is established
+    const streamController = new AbortController();
+    session.streamController = streamController;
+    const onAbort = () => streamController.abort();
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+
+    return new Promise<string>(async (resolve, reject) => {
       const timeout = setTimeout(() => {
         reject(
           new AdapterError("Session establishment timeout", "SESSION_TIMEOUT")
         );
+        streamController.abort();
       }, connection.timeout || 30000);
 
       try {
         const normalizedUrl = normalizeUrl(connection.url);
-        const fetchFn = this.fetch || fetch;
+        const fetchFn = this.getFetch(connection);
         const response = await fetchFn(normalizedUrl, {
           method: "GET",
           headers: this.prepareSSEHeaders(connection),
-          signal: abortSignal,
+          signal: streamController.signal,
         });
 
         if (!response.ok) {
           clearTimeout(timeout);
           throw new AdapterError(
             `SSE session failed: ${response.status} ${response.statusText}`,
-            "SSE_SESSION_FAILED"
+            "SSE_SESSION_FAILED",
+            {
+              status: response.status,
+              wwwAuthenticate: response.headers.get("WWW-Authenticate"),
+            }
           );
         }
 
@@ -299,7 +848,16 @@ export class MCPService extends MCPAdapter {
                     sessionEstablished = true;
                     resolve(sessionId);
 
-                    this.startSSEListener(reader, decoder, buffer);
+                    session.sessionId = sessionId;
+                    this.startSSEListener(
+                      reader,
+                      decoder,
+                      buffer,
+                      normalizedUrl,
+                      message => this.postSSEMessage(connection, message)
+                    ).then(() =>
+                      this.handleSSEStreamClose(session, streamController)
+                    );
                     return;
                   }
                 }
@@ -314,7 +872,16 @@ export class MCPService extends MCPAdapter {
                     sessionEstablished = true;
                     resolve(sessionId);
 
-                    this.startSSEListener(reader, decoder, buffer);
+                    session.sessionId = sessionId;
+                    this.startSSEListener(
+                      reader,
+                      decoder,
+                      buffer,
+                      normalizedUrl,
+                      message => this.postSSEMessage(connection, message)
+                    ).then(() =>
+                      this.handleSSEStreamClose(session, streamController)
+                    );
                     return;
                   }
                 }
@@ -337,16 +904,261 @@ export class MCPService extends MCPAdapter {
         }
       } catch (error) {
         clearTimeout(timeout);
+        if (session.streamController === streamController) {
+          session.streamController = undefined;
+        }
         console.error("[MCP SSE] Session establishment error:", error);
         reject(error);
       }
+    }).finally(() => abortSignal?.removeEventListener("abort", onAbort));
+  }
+
+  private getSSESession(connection: Connection): SSESession {
+    const normalizedUrl = normalizeUrl(connection.url);
+    let session = this.sseSessions.get(normalizedUrl);
+
+    if (!session) {
+      session = {
+        url: normalizedUrl,
+        connection,
+        state: "closed",
+        initialized: false,
+        reconnectAttempts: 0,
+        requestIds: new Set(),
+      };
+      this.sseSessions.set(normalizedUrl, session);
+    }
+
+    session.connection = connection;
+    return session;
+  }
+
+  /**
+   * Close a session's stream without treating it as dropped
+   */
+  private detachSSEStream(session: SSESession): void {
+    const streamController = session.streamController;
+    session.streamController = undefined;
+    streamController?.abort();
+
+    if (
+      session.sessionId &&
+      this.sessionCache.get(session.url) === session.sessionId
+    ) {
+      this.sessionCache.delete(session.url);
+    }
+    session.sessionId = undefined;
+  }
+
+  /**
+   * Fail the requests waiting on a dropped stream, then reconnect with
+   * backoff if the connection had been initialized.
+   */
+  private handleSSEStreamClose(
+    session: SSESession,
+    streamController: AbortController
+  ): void {
+    // Streams closed on purpose are detached before they close
+    if (session.streamController !== streamController) return;
+
+    console.warn(`[MCP SSE] Event stream for ${session.url} closed`);
+    this.detachSSEStream(session);
+    this.connectionCache.delete(session.url);
+    this.rejectSSERequests(session);
+
+    // A reconnect attempt that loses its stream fails and schedules the next
+    if (session.reconnectRequestId) return;
+
+    if (!session.initialized) {
+      this.setSSEState(session, "closed");
+      return;
+    }
+    this.scheduleSSEReconnect(session);
+  }
+
+  private scheduleSSEReconnect(session: SSESession): void {
+    if (session.reconnectAttempts >= SSE_MAX_RECONNECT_ATTEMPTS) {
+      session.initialized = false;
+      this.setSSEState(session, "failed");
+      return;
+    }
+
+    session.reconnectAttempts++;
+    const backoff = Math.min(
+      SSE_RECONNECT_BASE_DELAY * 2 ** (session.reconnectAttempts - 1),
+      SSE_RECONNECT_MAX_DELAY
+    );
+    // Half the backoff plus a random share of the other half
+    const delayMs = Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+    console.log(
+      `[MCP SSE] Reconnecting to ${session.url} in ${delayMs}ms (attempt ${session.reconnectAttempts}/${SSE_MAX_RECONNECT_ATTEMPTS})`
+    );
+    this.setSSEState(session, "reconnecting");
+
+    clearTimeout(session.reconnectTimer);
+    session.reconnectTimer = setTimeout(() => {
+      session.reconnectTimer = undefined;
+      this.reconnectSSESession(session);
+    }, delayMs);
+  }
+
+  /**
+   * Open a new stream and run initialize on it, since the server forgets
+   * a session along with its stream
+   */
+  private async reconnectSSESession(session: SSESession): Promise<void> {
+    const requestId = this.getNextRequestId();
+    session.reconnectRequestId = requestId;
+    try {
+      await this.sendMCPRequest(
+        session.connection,
+        "initialize",
+        this.getInitializeParams(session.connection),
+        undefined,
+        requestId
+      );
+      this.restoreSSESubscriptions(session);
+    } catch (error) {
+      console.warn("[MCP SSE] Reconnect attempt failed:", error);
+      session.error = error instanceof Error ? error.message : String(error);
+      this.detachSSEStream(session);
+      this.scheduleSSEReconnect(session);
+    } finally {
+      session.reconnectRequestId = undefined;
+    }
+  }
+
+  /**
+   * Called once initialize succeeds on a session's stream
+   */
+  private markSSESessionOpen(connection: Connection): void {
+    const session = this.sseSessions.get(normalizeUrl(connection.url));
+    if (!session) return;
+
+    clearTimeout(session.reconnectTimer);
+    session.reconnectTimer = undefined;
+    session.initialized = true;
+    session.reconnectAttempts = 0;
+    session.error = undefined;
+    this.setSSEState(session, "open");
+  }
+
+  private rejectSSERequests(session: SSESession): void {
+    Array.from(session.requestIds).forEach(requestId => {
+      const pendingRequest = this.pendingRequests.get(requestId);
+      if (!pendingRequest) return;
+
+      this.cleanupPendingRequest(requestId);
+      pendingRequest.reject(
+        new AdapterError(
+          "SSE stream closed before the response arrived",
+          "SSE_STREAM_CLOSED"
+        )
+      );
+    });
+    session.requestIds.clear();
+  }
+
+  /**
+   * Subscriptions belong to the server's session, so a reconnected stream
+   * has to subscribe to them again
+   */
+  private restoreSSESubscriptions(session: SSESession): void {
+    const subscriptions = this.resourceSubscriptions.get(session.url);
+    if (!subscriptions) return;
+
+    subscriptions.forEach(uri => {
+      this.sendMCPRequest(session.connection, "resources/subscribe", {
+        uri,
+      }).catch(error => {
+        console.warn(`[MCP SSE] Failed to resubscribe to ${uri}:`, error);
+      });
+    });
+  }
+
+  /**
+   * Close a connection's stream without reconnecting it
+   */
+  private closeSSESession(normalizedUrl: string): void {
+    const session = this.sseSessions.get(normalizedUrl);
+    if (!session) return;
+
+    this.sseSessions.delete(normalizedUrl);
+    clearTimeout(session.reconnectTimer);
+    this.detachSSEStream(session);
+    this.rejectSSERequests(session);
+    session.initialized = false;
+    this.setSSEState(session, "closed");
+  }
+
+  private setSSEState(session: SSESession, state: SSEStreamState): void {
+    session.state = state;
+    const status = this.getSSEStatus(session);
+    this.recordTraffic(session.url, {
+      kind: "event",
+      direction: "internal",
+      event: `sse.${state}`,
+      summary:
+        state === "reconnecting"
+          ? `Event stream reconnecting (attempt ${status.attempt}/${status.maxAttempts})`
+          : `Event stream ${state}`,
+      error: state === "failed",
+      payload: status,
+    });
+    MCPService.sseStateListeners.forEach(listener => {
+      try {
+        listener(session.url, status);
+      } catch (error) {
+        console.error("[MCP] SSE state listener error:", error);
+      }
+    });
+  }
+
+  private getSSEStatus(session: SSESession): SSEStreamStatus {
+    return {
+      state: session.state,
+      attempt: session.reconnectAttempts,
+      maxAttempts: SSE_MAX_RECONNECT_ATTEMPTS,
+      error: session.error,
+    };
+  }
+
+  /**
+   * State of each HTTP+SSE connection's event stream, keyed by normalized URL
+   */
+  getSSEStates(): Record<string, SSEStreamStatus> {
+    const states: Record<string, SSEStreamStatus> = {};
+    this.sseSessions.forEach((session, url) => {
+      states[url] = this.getSSEStatus(session);
+    });
+    return states;
+  }
+
+  /**
+   * Reconnect a connection's event stream now, starting its backoff over
+   */
+  async reconnectSSE(connection: Connection): Promise<void> {
+    const session = this.getSSESession({
+      ...connection,
+      url: normalizeUrl(connection.url),
     });
+    if (session.reconnectRequestId) return;
+
+    clearTimeout(session.reconnectTimer);
+    session.reconnectTimer = undefined;
+    session.reconnectAttempts = 0;
+    this.detachSSEStream(session);
+    this.rejectSSERequests(session);
+    this.setSSEState(session, "reconnecting");
+    await this.reconnectSSESession(session);
   }
 
   private async startSSEListener(
     reader: ReadableStreamDefaultReader<Uint8Array>,
     decoder: TextDecoder,
-    initialBuffer: string
+    initialBuffer: string,
+    connectionUrl: string,
+    reply?: MCPReply
   ): Promise<void> {
     let buffer = initialBuffer;
     let currentMessage = "";
@@ -401,12 +1213,16 @@ export class MCPService extends MCPAdapter {
               }
 
               if (braceCount === 0 && currentMessage.includes('"jsonrpc"')) {
-                this.handleCompleteSSEMessage(currentMessage);
+                this.handleCompleteSSEMessage(
+                  currentMessage,
+                  connectionUrl,
+                  reply
+                );
                 currentMessage = "";
                 isInJsonMessage = false;
               }
             } else {
-              this.tryParseAndHandleMessage(data);
+              this.tryParseAndHandleMessage(data, connectionUrl, reply);
             }
           }
         }
@@ -418,34 +1234,14 @@ export class MCPService extends MCPAdapter {
     }
   }
 
-  private handleCompleteSSEMessage(messageData: string): void {
+  private handleCompleteSSEMessage(
+    messageData: string,
+    connectionUrl: string,
+    reply?: MCPReply
+  ): void {
     try {
-      const parsedData = JSON.parse(messageData);
-
-      if (parsedData.jsonrpc === "2.0" && parsedData.id) {
-        const requestId = String(parsedData.id);
-        const pendingRequest = this.pendingRequests.get(requestId);
-
-        if (pendingRequest) {
-          this.cleanupPendingRequest(requestId);
-
-          if (parsedData.error) {
-            pendingRequest.reject(
-              new AdapterError(
-                `MCP Error ${parsedData.error.code}: ${parsedData.error.message}`,
-                "MCP_ERROR",
-                parsedData.error
-              )
-            );
-          } else {
-            pendingRequest.resolve(parsedData.result);
-          }
-        } else {
-          console.log(
-            `[MCP SSE] No pending request found for ID: ${requestId}`
-          );
-        }
-      }
+      const parsedData = this.decodeMessage(connectionUrl, messageData);
+      this.handleIncomingMessage(parsedData, connectionUrl, reply);
     } catch (parseError) {
       console.error(`[MCP SSE] Failed to parse complete message:`, parseError);
       console.log(
@@ -455,7 +1251,64 @@ export class MCPService extends MCPAdapter {
     }
   }
 
-  private tryParseAndHandleMessage(data: string): void {
+  /**
+   * Route a parsed JSON-RPC message from any server-to-client channel:
+   * notifications go to listeners, server requests to their handler and
+   * responses settle their pending request.
+   */
+  private handleIncomingMessage(
+    message: any,
+    connectionUrl: string,
+    reply?: MCPReply
+  ): void {
+    if (Array.isArray(message)) {
+      message.forEach(item =>
+        this.handleIncomingMessage(item, connectionUrl, reply)
+      );
+      return;
+    }
+
+    if (this.isServerRequest(message)) {
+      this.handleServerRequest(message, connectionUrl, reply);
+      return;
+    }
+
+    if (this.isNotification(message)) {
+      this.dispatchNotification(connectionUrl, message);
+      return;
+    }
+
+    if (message?.jsonrpc === "2.0" && message.id) {
+      const requestId = String(message.id);
+      const pendingRequest = this.pendingRequests.get(requestId);
+
+      if (pendingRequest) {
+        this.cleanupPendingRequest(requestId);
+
+        if (pendingRequest.raw) {
+          pendingRequest.resolve(message);
+        } else if (message.error) {
+          pendingRequest.reject(
+            new AdapterError(
+              `MCP Error ${message.error.code}: ${message.error.message}`,
+              "MCP_ERROR",
+              message.error
+            )
+          );
+        } else {
+          pendingRequest.resolve(message.result);
+        }
+      } else {
+        console.log(`[MCP] No pending request found for ID: ${requestId}`);
+      }
+    }
+  }
+
+  private tryParseAndHandleMessage(
+    data: string,
+    connectionUrl: string,
+    reply?: MCPReply
+  ): void {
     if (!data.trim().startsWith("{") && !data.trim().startsWith("[")) {
       console.log(
         `[MCP SSE] Ignoring non-JSON message: ${data.substring(0, 100)}...`
@@ -465,8 +1318,11 @@ export class MCPService extends MCPAdapter {
 
     try {
       const parsedData = JSON.parse(data);
-      if (parsedData.jsonrpc === "2.0" && parsedData.id) {
-        this.handleCompleteSSEMessage(data);
+      if (
+        parsedData.jsonrpc === "2.0" &&
+        (parsedData.id || this.isNotification(parsedData))
+      ) {
+        this.handleCompleteSSEMessage(data, connectionUrl, reply);
       }
     } catch (parseError) {
       console.log(
@@ -475,96 +1331,393 @@ export class MCPService extends MCPAdapter {
     }
   }
 
-  private cleanupPendingRequest(requestId: string): void {
-    const pendingRequest = this.pendingRequests.get(requestId);
-    if (pendingRequest) {
-      clearTimeout(pendingRequest.timeout);
-      this.pendingRequests.delete(requestId);
-    }
+  private isNotification(message: any): boolean {
+    return (
+      message?.jsonrpc === "2.0" &&
+      typeof message.method === "string" &&
+      message.id === undefined
+    );
   }
 
-  private async sendMCPRequest(
-    connection: Connection,
-    method: string,
-    params?: Record<string, any>,
-    abortSignal?: AbortSignal
-  ): Promise<any> {
-    const request: MCPMessage = {
-      jsonrpc: "2.0",
-      id: this.getNextRequestId(),
-      method,
-      params: params || {},
+  private isServerRequest(message: any): boolean {
+    return (
+      message?.jsonrpc === "2.0" &&
+      typeof message.method === "string" &&
+      message.id !== undefined &&
+      message.id !== null
+    );
+  }
+
+  /**
+   * Answer a server-to-client request with the registered handler's result,
+   * or with a JSON-RPC error when no handler exists or it throws.
+   */
+  private async handleServerRequest(
+    message: any,
+    connectionUrl: string,
+    reply?: MCPReply
+  ): Promise<void> {
+    if (!reply) {
+      console.warn(`[MCP] No channel to answer ${message.method} on`);
+      return;
+    }
+
+    const request: MCPServerRequest = {
+      connectionUrl,
+      id: message.id,
+      method: message.method,
+      params: message.params,
+      receivedAt: new Date().toISOString(),
     };
 
+    let response: OutgoingMCPMessage;
     try {
-      // Normalize URL before processing
-      const normalizedConnection = {
-        ...connection,
-        url: normalizeUrl(connection.url),
-      };
-
-      if (normalizedConnection.connectionType) {
-        switch (normalizedConnection.connectionType) {
-          case "sse":
-            return this.sendSSERequest(
-              normalizedConnection,
-              request,
-              abortSignal
+      let result: unknown;
+      switch (request.method) {
+        case "ping":
+          result = {};
+          break;
+        case "roots/list":
+          result = {
+            roots: this.connectionConfigs.get(connectionUrl)?.roots || [],
+          };
+          break;
+        default: {
+          const handler = MCPService.requestHandlers.get(request.method);
+          if (!handler) {
+            throw new AdapterError(
+              `Method not found: ${request.method}`,
+              "METHOD_NOT_FOUND",
+              { code: -32601 }
             );
-          case "http":
-            return this.sendHTTPRequest(
-              normalizedConnection,
-              request,
-              abortSignal
-            );
-          case "websocket":
-            return this.sendWebSocketRequest(normalizedConnection, request);
+          }
+          result = await handler(request);
         }
       }
+      response = { jsonrpc: "2.0", id: request.id, result };
+    } catch (error) {
+      const code =
+        error instanceof AdapterError && typeof error.details?.code === "number"
+          ? error.details.code
+          : -32603;
+      response = {
+        jsonrpc: "2.0",
+        id: request.id,
+        error: {
+          code,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
 
-      const url = new URL(normalizedConnection.url);
+    try {
+      await reply(response);
+    } catch (error) {
+      console.error(`[MCP] Failed to answer ${request.method}:`, error);
+    }
+  }
 
-      if (url.protocol === "http:" || url.protocol === "https:") {
-        try {
-          return await this.sendHTTPRequest(
+  private replyOverWebSocket(ws: WebSocket, connectionUrl: string): MCPReply {
+    return message => {
+      if (ws.readyState !== WebSocket.OPEN) {
+        throw new AdapterError(
+          "WebSocket closed before the reply was sent",
+          "WEBSOCKET_CLOSED"
+        );
+      }
+      ws.send(this.encodeMessage(connectionUrl, message));
+    };
+  }
+
+  private dispatchNotification(connectionUrl: string, message: any): void {
+    if (message.method === "notifications/progress") {
+      this.updateToolCallProgress(message.params);
+    }
+
+    const notification: MCPNotification = {
+      connectionUrl,
+      method: message.method,
+      params: message.params,
+      receivedAt: new Date().toISOString(),
+    };
+
+    MCPService.notificationListeners.forEach(listener => {
+      try {
+        listener(notification);
+      } catch (error) {
+        console.error("[MCP] Notification listener error:", error);
+      }
+    });
+  }
+
+  private updateToolCallProgress(params: any): void {
+    const state = this.activeToolCalls.get(String(params?.progressToken));
+    if (!state || typeof params.progress !== "number") return;
+
+    state.call = {
+      ...state.call,
+      progress: {
+        progress: params.progress,
+        total: typeof params.total === "number" ? params.total : undefined,
+        message:
+          typeof params.message === "string" ? params.message : undefined,
+      },
+    };
+    this.emitToolCalls();
+  }
+
+  private emitToolCalls(): void {
+    const calls = this.getActiveToolCalls();
+    MCPService.toolCallListeners.forEach(listener => {
+      try {
+        listener(calls);
+      } catch (error) {
+        console.error("[MCP] Tool call listener error:", error);
+      }
+    });
+  }
+
+  private cleanupPendingRequest(requestId: string): void {
+    const pendingRequest = this.pendingRequests.get(requestId);
+    if (pendingRequest) {
+      clearTimeout(pendingRequest.timeout);
+      this.pendingRequests.delete(requestId);
+    }
+  }
+
+  private async sendMCPRequest(
+    connection: Connection,
+    method: string,
+    params?: Record<string, any>,
+    abortSignal?: AbortSignal,
+    requestId: string = this.getNextRequestId()
+  ): Promise<any> {
+    const request: MCPMessage = {
+      jsonrpc: "2.0",
+      id: requestId,
+      method,
+      params: params || {},
+    };
+
+    try {
+      // Normalize URL before processing
+      const normalizedConnection = {
+        ...connection,
+        url: normalizeUrl(connection.url),
+      };
+      this.connectionConfigs.set(
+        normalizedConnection.url,
+        normalizedConnection
+      );
+
+      await this.ensureOAuthToken(normalizedConnection);
+
+      try {
+        return await this.dispatchMCPRequest(
+          normalizedConnection,
+          request,
+          abortSignal
+        );
+      } catch (error) {
+        if (!this.isUnauthorized(error)) throw error;
+
+        await this.handleUnauthorized(normalizedConnection, error);
+        this.recordTraffic(normalizedConnection.url, {
+          kind: "event",
+          direction: "internal",
+          event: "auth.retry",
+          summary: `Retrying ${method} with a refreshed token`,
+          method,
+          messageId: requestId,
+        });
+        return await this.dispatchMCPRequest(
+          normalizedConnection,
+          request,
+          abortSignal
+        );
+      }
+    } catch (error) {
+      console.error(`[MCP] Request failed for ${method}:`, error);
+      const aborted = isAbortError(error);
+      this.recordTraffic(normalizeUrl(connection.url), {
+        kind: "event",
+        direction: "internal",
+        event: aborted ? "request.aborted" : "request.failed",
+        summary: `${method} ${aborted ? "aborted" : `failed: ${error instanceof Error ? error.message : String(error)}`}`,
+        method,
+        messageId: requestId,
+        error: !aborted,
+        payload:
+          error instanceof AdapterError
+            ? { code: error.code, details: error.details }
+            : undefined,
+      });
+      throw error;
+    }
+  }
+
+  private async dispatchMCPRequest(
+    normalizedConnection: Connection,
+    request: MCPMessage,
+    abortSignal?: AbortSignal
+  ): Promise<any> {
+    if (normalizedConnection.connectionType) {
+      switch (normalizedConnection.connectionType) {
+        case "sse":
+          return this.sendLegacySSERequest(
             normalizedConnection,
             request,
             abortSignal
           );
-        } catch (error) {
-          console.log(
-            "[MCP] HTTP request failed, trying other methods:",
-            error
+        case "http":
+          return this.sendStreamableHTTPRequest(
+            normalizedConnection,
+            request,
+            abortSignal
+          );
+        case "websocket":
+          return this.sendWebSocketRequest(
+            normalizedConnection,
+            request,
+            abortSignal
+          );
+        case "stdio":
+          return this.sendStdioRequest(
+            normalizedConnection,
+            request,
+            abortSignal
           );
+      }
+    }
 
-          if (
-            url.pathname.includes("/sse") ||
-            normalizedConnection.url.includes("/sse")
-          ) {
-            console.log("[MCP] Trying SSE mode based on URL pattern");
-            return this.sendSSERequest(
-              normalizedConnection,
-              request,
-              abortSignal
-            );
-          }
+    const url = new URL(normalizedConnection.url);
 
-          throw error;
+    if (url.protocol === "http:" || url.protocol === "https:") {
+      try {
+        return await this.sendHTTPRequest(
+          normalizedConnection,
+          request,
+          abortSignal
+        );
+      } catch (error) {
+        console.log("[MCP] HTTP request failed, trying other methods:", error);
+
+        if (
+          url.pathname.includes("/sse") ||
+          normalizedConnection.url.includes("/sse")
+        ) {
+          console.log("[MCP] Trying SSE mode based on URL pattern");
+          return this.sendSSERequest(
+            normalizedConnection,
+            request,
+            abortSignal
+          );
         }
-      }
 
-      if (url.protocol === "ws:" || url.protocol === "wss:") {
-        return this.sendWebSocketRequest(normalizedConnection, request);
+        throw error;
       }
+    }
+
+    if (url.protocol === "ws:" || url.protocol === "wss:") {
+      return this.sendWebSocketRequest(
+        normalizedConnection,
+        request,
+        abortSignal
+      );
+    }
+
+    return this.sendHTTPRequest(normalizedConnection, request, abortSignal);
+  }
+
+  /**
+   * HTTP+SSE transport from 2024-11-05. Initialize is completed with the
+   * initialized notification, as on the other transports.
+   */
+  private async sendLegacySSERequest(
+    connection: Connection,
+    request: MCPMessage,
+    abortSignal?: AbortSignal
+  ): Promise<any> {
+    const result = await this.sendSSERequest(connection, request, abortSignal);
+
+    if (request.method === "initialize") {
+      this.negotiateProtocolVersion(connection, result);
+      await this.postSSEMessage(connection, {
+        jsonrpc: "2.0",
+        method: "notifications/initialized",
+      });
+      this.markSSESessionOpen(connection);
+    }
+
+    return result;
+  }
+
+  /**
+   * Streamable HTTP, falling back to HTTP+SSE for servers that predate it.
+   * As the spec suggests, a 4xx answer to initialize means the server may
+   * only speak the 2024-11-05 transport.
+   */
+  private async sendStreamableHTTPRequest(
+    connection: Connection,
+    request: MCPMessage,
+    abortSignal?: AbortSignal
+  ): Promise<any> {
+    const normalizedUrl = normalizeUrl(connection.url);
 
-      return this.sendHTTPRequest(normalizedConnection, request, abortSignal);
+    if (this.legacySSEUrls.has(normalizedUrl)) {
+      return this.sendLegacySSERequest(connection, request, abortSignal);
+    }
+
+    try {
+      return await this.sendHTTPRequest(connection, request, abortSignal);
     } catch (error) {
-      console.error(`[MCP] Request failed for ${method}:`, error);
-      throw error;
+      const status =
+        error instanceof AdapterError && error.code === "HTTP_ERROR"
+          ? error.details?.status
+          : undefined;
+      const initializeRejected =
+        (status === 400 || status === 404 || status === 405) &&
+        !this.httpSessions.has(normalizedUrl);
+
+      if (!initializeRejected) {
+        throw error;
+      }
+
+      console.log(
+        `[MCP] Streamable HTTP initialize returned ${status}, falling back to HTTP+SSE`
+      );
+      this.legacySSEUrls.add(normalizedUrl);
+
+      const initializeRequest: MCPMessage =
+        request.method === "initialize"
+          ? request
+          : {
+              jsonrpc: "2.0",
+              id: this.getNextRequestId(),
+              method: "initialize",
+              params: this.getInitializeParams(connection),
+            };
+      let initResult: any;
+      try {
+        initResult = await this.sendLegacySSERequest(
+          connection,
+          initializeRequest,
+          abortSignal
+        );
+      } catch (fallbackError) {
+        // Not an HTTP+SSE server either, so the original error says more
+        console.log("[MCP] HTTP+SSE fallback failed:", fallbackError);
+        this.legacySSEUrls.delete(normalizedUrl);
+        throw error;
+      }
+
+      return request.method === "initialize"
+        ? initResult
+        : this.sendSSERequest(connection, request, abortSignal);
     }
   }
 
-  private parseSSEResponse(sseText: string): any {
+  private parseSSEResponse(sseText: string, connectionUrl: string): any {
     const lines = sseText.split("\n");
     let jsonData = "";
     let inDataSection = false;
@@ -597,7 +1750,7 @@ export class MCPService extends MCPAdapter {
     }
 
     try {
-      const parsedData = JSON.parse(jsonData);
+      const parsedData = this.decodeMessage(connectionUrl, jsonData);
 
       if (parsedData.error) {
         throw new AdapterError(
@@ -618,531 +1771,2159 @@ export class MCPService extends MCPAdapter {
     }
   }
 
+  private getRequestedProtocolVersion(connection: Connection): string {
+    return connection.protocolVersion || this.config.protocolVersion;
+  }
+
+  private getInitializeParams(connection: Connection): Record<string, any> {
+    const protocolVersion = this.getRequestedProtocolVersion(connection);
+
+    return {
+      protocolVersion,
+      capabilities: {
+        sampling: {},
+        ...(isVersionAtLeast(protocolVersion, ELICITATION_VERSION)
+          ? { elicitation: {} }
+          : {}),
+        roots: { listChanged: true },
+      },
+      clientInfo: this.config.clientInfo,
+    };
+  }
+
+  /**
+   * Check the version a server answered initialize with and remember it for
+   * the connection. Servers may answer with an older version than requested,
+   * but not with one this client cannot speak.
+   */
+  private negotiateProtocolVersion(
+    connection: Connection,
+    initResult: any
+  ): string {
+    const requested = this.getRequestedProtocolVersion(connection);
+    const negotiated: string = initResult?.protocolVersion || requested;
+
+    if (!ProtocolVersionSchema.safeParse(negotiated).success) {
+      throw new AdapterError(
+        `Server answered with unsupported protocol version ${negotiated}`,
+        "UNSUPPORTED_PROTOCOL_VERSION",
+        {
+          requested,
+          negotiated,
+          supported: ProtocolVersionSchema.options,
+        }
+      );
+    }
+
+    if (negotiated !== requested) {
+      console.log(
+        `[MCP] Requested protocol ${requested}, server negotiated ${negotiated}`
+      );
+    }
+
+    this.negotiatedVersions.set(normalizeUrl(connection.url), negotiated);
+    return negotiated;
+  }
+
+  /**
+   * Headers for a Streamable HTTP request. The session defaults to the open
+   * one for the connection, and is passed in for one already closed.
+   */
+  private prepareHTTPHeaders(
+    connection: Connection,
+    session = this.httpSessions.get(normalizeUrl(connection.url))
+  ): Record<string, string> {
+    const headers = this.prepareHeaders(connection);
+
+    if (session?.sessionId) {
+      headers["Mcp-Session-Id"] = session.sessionId;
+    }
+    // Only sessions on 2025-06-18 or later carry the version header
+    if (
+      session?.protocolVersion &&
+      isVersionAtLeast(session.protocolVersion, PROTOCOL_HEADER_VERSION)
+    ) {
+      headers["MCP-Protocol-Version"] = session.protocolVersion;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Streamable HTTP transport. Keeps one session per URL, initializing it on
+   * first use and again when the server reports the session as gone (404).
+   */
   private async sendHTTPRequest(
     connection: Connection,
     request: MCPMessage,
     abortSignal?: AbortSignal
   ): Promise<any> {
-    try {
-      const normalizedUrl = normalizeUrl(connection.url);
-      const fetchFn = this.fetch || fetch;
-      const response = await fetchFn(normalizedUrl, {
-        method: "POST",
-        headers: this.prepareHeaders(connection),
-        body: JSON.stringify(request),
-        signal: abortSignal,
-      });
-
-      if (!response.ok) {
-        throw new AdapterError(
-          `HTTP ${response.status}: ${response.statusText}`,
-          "HTTP_ERROR"
-        );
-      }
+    const normalizedUrl = normalizeUrl(connection.url);
 
-      const responseText = await response.text();
-
-      if (!responseText || responseText.trim().length === 0) {
-        console.error("[MCP] Empty response from server");
-        throw new AdapterError(
-          "Server returned empty response",
-          "EMPTY_RESPONSE"
+    try {
+      if (request.method === "initialize") {
+        await this.terminateHTTPSession(normalizedUrl);
+        const result = await this.postHTTPMessage(
+          connection,
+          request,
+          abortSignal
         );
+        await this.completeHTTPInitialization(connection, result, abortSignal);
+        return result;
       }
 
-      if (responseText.includes("event:") && responseText.includes("data:")) {
-        return this.parseSSEResponse(responseText);
+      if (!this.httpSessions.has(normalizedUrl)) {
+        await this.initializeHTTPSession(connection, abortSignal);
       }
 
-      if (
-        responseText.trim().startsWith("{") ||
-        responseText.trim().startsWith("[")
-      ) {
-        try {
-          const parsedResponse = JSON.parse(responseText);
-          console.log("[MCP] Parsed JSON response:", parsedResponse);
-
-          if (parsedResponse.error) {
-            throw new AdapterError(
-              `MCP Error ${parsedResponse.error.code}: ${parsedResponse.error.message}`,
-              "MCP_ERROR",
-              parsedResponse.error
-            );
-          }
-
-          return parsedResponse.result;
-        } catch (parseError) {
-          console.error("[MCP] Failed to parse JSON:", parseError);
-          throw new AdapterError(
-            `Invalid JSON response: ${(parseError as Error).message}`,
-            "JSON_PARSE_ERROR"
-          );
+      try {
+        return await this.postHTTPMessage(connection, request, abortSignal);
+      } catch (error) {
+        if (
+          error instanceof AdapterError &&
+          error.code === "HTTP_SESSION_EXPIRED"
+        ) {
+          console.log("[MCP HTTP] Session expired, reinitializing");
+          this.recordTraffic(normalizedUrl, {
+            kind: "event",
+            direction: "internal",
+            event: "session.expired",
+            summary: `Session expired, retrying ${request.method} on a new one`,
+            messageId: request.id,
+          });
+          await this.terminateHTTPSession(normalizedUrl, false);
+          await this.initializeHTTPSession(connection, abortSignal);
+          return await this.postHTTPMessage(connection, request, abortSignal);
         }
+        throw error;
       }
-
-      if (responseText.includes("ping") || responseText.includes("pong")) {
-        return {
-          protocolVersion: "2025-06-18",
-          serverInfo: {
-            name: "MCP Server",
-            version: "1.0.0",
-          },
-          capabilities: {},
-        };
-      }
-
-      throw new AdapterError(
-        `Server returned unrecognized response format: ${responseText.substring(0, 100)}`,
-        "UNRECOGNIZED_RESPONSE"
-      );
     } catch (error) {
       console.error("[MCP] HTTP request failed:", error);
       throw error;
     }
   }
 
-  private async sendWebSocketRequest(
+  private async initializeHTTPSession(
     connection: Connection,
-    request: MCPMessage
-  ): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const normalizedUrl = normalizeUrl(connection.url);
-      const ws = new WebSocket(normalizedUrl);
-      const timeout = setTimeout(() => {
-        ws.close();
-        reject(
-          new AdapterError("WebSocket request timeout", "REQUEST_TIMEOUT")
-        );
-      }, connection.timeout || 30000);
+    abortSignal?: AbortSignal
+  ): Promise<void> {
+    const request: MCPMessage = {
+      jsonrpc: "2.0",
+      id: this.getNextRequestId(),
+      method: "initialize",
+      params: this.getInitializeParams(connection),
+    };
 
-      ws.onopen = () => {
-        ws.send(JSON.stringify(request));
-      };
+    const result = await this.postHTTPMessage(connection, request, abortSignal);
+    await this.completeHTTPInitialization(connection, result, abortSignal);
+  }
 
-      ws.onmessage = event => {
-        try {
-          const response = JSON.parse(event.data);
+  private async completeHTTPInitialization(
+    connection: Connection,
+    initResult: any,
+    abortSignal?: AbortSignal
+  ): Promise<void> {
+    const normalizedUrl = normalizeUrl(connection.url);
+    const session = this.httpSessions.get(normalizedUrl);
+    if (!session) return;
 
-          clearTimeout(timeout);
-          ws.close();
+    session.protocolVersion = this.negotiateProtocolVersion(
+      connection,
+      initResult
+    );
 
-          if (response.error) {
-            reject(
-              new AdapterError(
-                `MCP Error ${response.error.code}: ${response.error.message}`,
-                "MCP_ERROR",
-                response.error
-              )
-            );
-          } else {
-            resolve(response.result);
-          }
-        } catch (error) {
-          clearTimeout(timeout);
-          ws.close();
-          reject(error);
-        }
-      };
+    await this.postHTTPMessage(
+      connection,
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      abortSignal
+    );
 
-      ws.onerror = error => {
-        clearTimeout(timeout);
-        reject(
-          new AdapterError(`WebSocket error: ${error}`, "WEBSOCKET_ERROR")
-        );
-      };
+    this.openHTTPStream(normalizedUrl);
+  }
 
-      ws.onclose = event => {
-        clearTimeout(timeout);
-        if (event.code !== 1000) {
-          reject(
-            new AdapterError(
-              `WebSocket closed unexpectedly: ${event.code} ${event.reason}`,
-              "WEBSOCKET_CLOSED"
-            )
-          );
-        }
-      };
-    });
-  }
-
-  async initialize(): Promise<void> {
-    this.status = AdapterStatus.IDLE;
-  }
-
-  async cleanup(): Promise<void> {
-    this.sessionCache.forEach((_, connectionId) => {
-      GraphQLService.clearSchemaCache(connectionId);
+  private async postHTTPMessage(
+    connection: Connection,
+    message: OutgoingMCPMessage,
+    abortSignal?: AbortSignal
+  ): Promise<any> {
+    const normalizedUrl = normalizeUrl(connection.url);
+    const fetchFn = this.getFetch(connection);
+    const response = await fetchFn(normalizedUrl, {
+      method: "POST",
+      headers: this.prepareHTTPHeaders(connection),
+      body: this.encodeMessage(normalizedUrl, message),
+      signal: abortSignal,
     });
 
-    for (const [, pendingRequest] of this.pendingRequests) {
-      clearTimeout(pendingRequest.timeout);
-      pendingRequest.reject(new AdapterError("Service cleanup", "CLEANUP"));
+    if (message.method === "initialize" && response.ok) {
+      const sessionId = response.headers.get("Mcp-Session-Id") || undefined;
+      this.httpSessions.set(normalizedUrl, { connection, sessionId });
+      this.recordTraffic(normalizedUrl, {
+        kind: "event",
+        direction: "incoming",
+        event: "session.started",
+        summary: sessionId ? `Session ${sessionId}` : "Stateless session",
+        sessionId,
+      });
     }
-    this.pendingRequests.clear();
 
-    this.sessionCache.clear();
-    this.connectionCache.clear();
-    this.status = AdapterStatus.DISCONNECTED;
-  }
+    if (
+      response.status === 404 &&
+      this.httpSessions.get(normalizedUrl)?.sessionId
+    ) {
+      throw new AdapterError("HTTP session expired", "HTTP_SESSION_EXPIRED", {
+        status: response.status,
+      });
+    }
 
-  async testConnection(connection: Connection): Promise<boolean> {
-    const maxRetries = 3;
-    const retryDelay = 1000;
-    const normalizedConnection = {
-      ...connection,
-      url: normalizeUrl(connection.url),
-    };
+    if (!response.ok) {
+      throw new AdapterError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        "HTTP_ERROR",
+        {
+          status: response.status,
+          wwwAuthenticate: response.headers.get("WWW-Authenticate"),
+        }
+      );
+    }
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        this.sessionCache.delete(normalizedConnection.url);
-        this.connectionCache.delete(normalizedConnection.url);
+    // Notifications and responses are acknowledged with 202 and carry no body
+    if (message.id === undefined || message.method === undefined) {
+      return undefined;
+    }
 
-        const abortController = new AbortController();
-        const timeout = setTimeout(() => {
-          abortController.abort();
-        }, connection.timeout || 30000);
+    const contentType = response.headers.get("Content-Type") || "";
+    if (contentType.includes("text/event-stream") && response.body) {
+      return this.readHTTPResponseStream(
+        response.body,
+        String(message.id),
+        normalizedUrl,
+        reply => this.postHTTPMessage(connection, reply)
+      );
+    }
 
-        try {
-          const result = await this.sendMCPRequest(
-            normalizedConnection,
-            "initialize",
-            {
-              protocolVersion: "2025-06-18",
-              capabilities: {
-                sampling: {},
-                elicitation: {},
-                roots: { listChanged: true },
-              },
-              clientInfo: this.config.clientInfo,
-            },
-            abortController.signal
-          );
+    const responseText = await response.text();
 
-          clearTimeout(timeout);
+    if (!responseText || responseText.trim().length === 0) {
+      console.error("[MCP] Empty response from server");
+      throw new AdapterError(
+        "Server returned empty response",
+        "EMPTY_RESPONSE"
+      );
+    }
 
-          if (result && result.protocolVersion && result.serverInfo) {
-            this.connectionCache.set(normalizedConnection.url, {
-              isConnected: true,
-              lastUsed: Date.now(),
-            });
-            return true;
-          }
-        } catch (error) {
-          clearTimeout(timeout);
+    if (responseText.includes("event:") && responseText.includes("data:")) {
+      return this.parseSSEResponse(responseText, normalizedUrl);
+    }
 
-          if (isAbortError(error)) {
-            console.log(`[MCP] Test attempt ${attempt} aborted: timeout`);
-          } else {
-            console.log(`[MCP] Test attempt ${attempt} failed:`, error);
-          }
+    if (
+      responseText.trim().startsWith("{") ||
+      responseText.trim().startsWith("[")
+    ) {
+      try {
+        const parsedResponse = this.decodeMessage(normalizedUrl, responseText);
+        console.log("[MCP] Parsed JSON response:", parsedResponse);
 
-          if (attempt < maxRetries) {
-            console.log(
-              `[MCP] Retrying in ${retryDelay}ms... (${attempt}/${maxRetries})`
-            );
-            await new Promise(resolve => setTimeout(resolve, retryDelay));
-          }
+        if (parsedResponse.error) {
+          throw new AdapterError(
+            `MCP Error ${parsedResponse.error.code}: ${parsedResponse.error.message}`,
+            "MCP_ERROR",
+            parsedResponse.error
+          );
         }
-      } catch (error) {
-        console.log(`[MCP] Test error on attempt ${attempt}:`, error);
 
-        if (attempt < maxRetries) {
-          await new Promise(resolve => setTimeout(resolve, retryDelay));
+        return parsedResponse.result;
+      } catch (parseError) {
+        if (parseError instanceof AdapterError) {
+          throw parseError;
         }
+        console.error("[MCP] Failed to parse JSON:", parseError);
+        throw new AdapterError(
+          `Invalid JSON response: ${(parseError as Error).message}`,
+          "JSON_PARSE_ERROR"
+        );
       }
     }
 
-    console.log(`[MCP] All ${maxRetries} test attempts failed`);
-    return false;
+    if (responseText.includes("ping") || responseText.includes("pong")) {
+      return {
+        protocolVersion: this.getRequestedProtocolVersion(connection),
+        serverInfo: {
+          name: "MCP Server",
+          version: "1.0.0",
+        },
+        capabilities: {},
+      };
+    }
+
+    throw new AdapterError(
+      `Server returned unrecognized response format: ${responseText.substring(0, 100)}`,
+      "UNRECOGNIZED_RESPONSE"
+    );
   }
 
-  async connectAndIntrospect(
-    connection: Connection
-  ): Promise<MCPConnectionResult> {
-    if (connection.connectionType === "graphql") {
-      return this.connectGraphQL(connection);
-    }
+  /**
+   * Read SSE events from a stream, handing each parsed JSON-RPC message to
+   * the callback. Stops early when the callback returns true.
+   */
+  private async consumeSSEStream(
+    body: ReadableStream<Uint8Array>,
+    connectionUrl: string,
+    onMessage: (message: any) => boolean | void
+  ): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let dataLines: string[] = [];
 
-    const maxRetries = connection.retryAttempts || 2;
-    let lastError: Error | undefined;
-    const normalizedConnection = {
-      ...connection,
-      url: normalizeUrl(connection.url),
-    };
+    const flushEvent = (): boolean => {
+      if (dataLines.length === 0) return false;
+      const data = dataLines.join("\n");
+      dataLines = [];
 
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        const abortController = new AbortController();
-        const timeout = setTimeout(() => {
-          abortController.abort();
-        }, connection.timeout || 60000);
+        return onMessage(this.decodeMessage(connectionUrl, data)) === true;
+      } catch (parseError) {
+        console.log(
+          `[MCP HTTP] Ignoring non-JSON event: ${data.substring(0, 100)}...`
+        );
+        return false;
+      }
+    };
 
-        try {
-          const initResult = await this.sendMCPRequest(
-            normalizedConnection,
-            "initialize",
-            {
-              protocolVersion: "2025-06-18",
-              capabilities: {
-                sampling: {},
-                elicitation: {},
-                roots: { listChanged: true },
-              },
-              clientInfo: this.config.clientInfo,
-            },
-            abortController.signal
-          );
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
 
-          if (!initResult) {
-            return {
-              isConnected: false,
-              tools: [],
-              resources: [],
-              error: "Initialize returned empty response",
-            };
-          }
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
 
-          const serverInfo: MCPServerInfo = initResult.serverInfo;
-          const capabilities: MCPCapabilities = initResult.capabilities;
+        for (const rawLine of lines) {
+          const line = rawLine.replace(/\r$/, "");
 
-          let mcpTools: MCPToolDefinition[] = [];
-          if (capabilities.tools) {
-            try {
-              console.log("[MCP] Requesting tools list...");
-              const toolsResult = await this.sendMCPRequest(
-                normalizedConnection,
-                "tools/list",
-                { _meta: { progressToken: 2 } },
-                abortController.signal
-              );
-              mcpTools = toolsResult.tools || [];
-              console.log(`[MCP] Successfully loaded ${mcpTools.length} tools`);
-            } catch (error) {
-              console.warn("[MCP] Tools listing failed:", error);
-            }
+          if (line === "") {
+            if (flushEvent()) return;
+            continue;
           }
 
-          let mcpResources: MCPResourceDefinition[] = [];
-          if (capabilities.resources) {
-            try {
-              const resourcesResult = await this.sendMCPRequest(
-                normalizedConnection,
-                "resources/list",
-                {},
-                abortController.signal
-              );
-              mcpResources = resourcesResult.resources || [];
-            } catch (error) {
-              console.warn("[MCP] Resources listing failed:", error);
-            }
+          if (line.startsWith("data:")) {
+            dataLines.push(line.substring(5).replace(/^ /, ""));
           }
+        }
+      }
 
-          clearTimeout(timeout);
-
-          const tools: Tool[] = mcpTools.map(mcpTool =>
-            this.convertMCPToolToTool(mcpTool)
-          );
-          const resources: Resource[] = mcpResources.map(mcpResource =>
-            this.convertMCPResourceToResource(mcpResource)
-          );
+      flushEvent();
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  }
 
-          this.connectionCache.set(normalizedConnection.url, {
-            isConnected: true,
-            lastUsed: Date.now(),
-          });
+  /**
+   * A POST answered with an SSE stream may carry notifications and other
+   * messages before the response to the request itself.
+   */
+  private async readHTTPResponseStream(
+    body: ReadableStream<Uint8Array>,
+    requestId: string,
+    connectionUrl: string,
+    reply: MCPReply
+  ): Promise<any> {
+    let response: any;
 
-          return {
-            isConnected: true,
-            serverInfo,
-            capabilities,
-            tools,
-            resources,
-          };
-        } catch (error) {
-          clearTimeout(timeout);
-          throw error;
-        }
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
+    await this.consumeSSEStream(body, connectionUrl, message => {
+      if (message?.id !== undefined && String(message.id) === requestId) {
+        response = message;
+        return true;
+      }
+      this.handleIncomingMessage(message, connectionUrl, reply);
+      return false;
+    });
 
-        this.sessionCache.delete(normalizedConnection.url);
-        this.connectionCache.delete(normalizedConnection.url);
+    if (!response) {
+      throw new AdapterError(
+        "SSE stream ended before a response was received",
+        "SSE_NO_DATA"
+      );
+    }
 
-        if (attempt < maxRetries) {
-          const backoffMs = Math.min(1000 * Math.pow(2, attempt), 5000);
-          await delay(backoffMs);
-        }
-      }
+    if (response.error) {
+      throw new AdapterError(
+        `MCP Error ${response.error.code}: ${response.error.message}`,
+        "MCP_ERROR",
+        response.error
+      );
     }
 
-    console.error(`[MCP] All attempts failed:`, lastError);
-    return {
-      isConnected: false,
-      tools: [],
-      resources: [],
-      error: lastError?.message || "Connection failed after all retries",
-    };
+    return response.result;
   }
 
-  private async connectGraphQL(
-    connection: Connection
-  ): Promise<MCPConnectionResult> {
-    try {
-      const { tools, schema } =
-        await GraphQLService.introspectSchema(connection);
+  /**
+   * Open the optional GET stream that carries server-initiated messages.
+   * Servers without one answer 405, which is not an error.
+   */
+  private openHTTPStream(normalizedUrl: string): void {
+    const session = this.httpSessions.get(normalizedUrl);
+    if (!session || session.streamController) return;
 
-      const queryType = schema.getQueryType();
-      const mutationType = schema.getMutationType();
-      const subscriptionType = schema.getSubscriptionType();
+    const controller = new AbortController();
+    session.streamController = controller;
 
-      return {
-        isConnected: true,
-        serverInfo: {
-          name: "GraphQL Server",
-          version: "1.0.0",
-          description: `GraphQL endpoint with ${tools.length} operations`,
-        },
-        capabilities: {
-          tools: true,
-          resources: false,
-          prompts: false,
-          experimental: {
-            graphql: true,
-            queries: !!queryType,
-            mutations: !!mutationType,
-            subscriptions: !!subscriptionType,
+    (async () => {
+      try {
+        const fetchFn = this.getFetch(session.connection);
+        const response = await fetchFn(normalizedUrl, {
+          method: "GET",
+          headers: {
+            ...this.prepareHTTPHeaders(session.connection),
+            Accept: "text/event-stream",
           },
-        },
-        tools,
-        resources: [],
-      };
-    } catch (error) {
-      console.error("[GraphQL] Connection failed:", error);
+          signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          if (response.status !== 405) {
+            console.warn(
+              `[MCP HTTP] GET stream unavailable: ${response.status} ${response.statusText}`
+            );
+          }
+          return;
+        }
+
+        await this.consumeSSEStream(response.body, normalizedUrl, message => {
+          this.handleIncomingMessage(message, normalizedUrl, reply =>
+            this.postHTTPMessage(session.connection, reply)
+          );
+        });
+      } catch (error) {
+        if (!isAbortError(error)) {
+          console.warn("[MCP HTTP] GET stream closed:", error);
+        }
+      } finally {
+        if (session.streamController === controller) {
+          session.streamController = undefined;
+        }
+      }
+    })();
+  }
+
+  /**
+   * End a Streamable HTTP session: stop its GET stream and, when asked,
+   * send the DELETE that lets the server release it.
+   */
+  private async terminateHTTPSession(
+    normalizedUrl: string,
+    sendDelete = true
+  ): Promise<void> {
+    const session = this.httpSessions.get(normalizedUrl);
+    if (!session) return;
+
+    this.httpSessions.delete(normalizedUrl);
+    session.streamController?.abort();
+
+    if (!sendDelete || !session.sessionId) return;
+
+    try {
+      const fetchFn = this.getFetch(session.connection);
+      const response = await fetchFn(normalizedUrl, {
+        method: "DELETE",
+        headers: this.prepareHTTPHeaders(session.connection, session),
+      });
+
+      // 405 means the server does not allow clients to end sessions
+      if (!response.ok && response.status !== 405) {
+        console.warn(
+          `[MCP HTTP] Session DELETE failed: ${response.status} ${response.statusText}`
+        );
+      }
+    } catch (error) {
+      console.warn("[MCP HTTP] Session DELETE failed:", error);
+    }
+  }
+
+  /**
+   * WebSocket transport. Requests share one socket per URL that stays open
+   * between calls, so notifications and server requests arrive on it too.
+   * An explicit initialize starts a fresh socket, like the HTTP transport.
+   */
+  private async sendWebSocketRequest(
+    connection: Connection,
+    request: MCPMessage,
+    abortSignal?: AbortSignal
+  ): Promise<any> {
+    const normalizedUrl = normalizeUrl(connection.url);
+
+    if (request.method === "initialize") {
+      this.closeWebSocket(normalizedUrl);
+      const session = await this.getWebSocketSession(connection);
+      abortSignal?.throwIfAborted();
+      return session.initResult;
+    }
+
+    const session = await this.getWebSocketSession(connection);
+    abortSignal?.throwIfAborted();
+
+    if (!session.ws) {
+      throw new AdapterError(
+        "WebSocket closed before the request was sent",
+        "WEBSOCKET_CLOSED"
+      );
+    }
+
+    return this.writeWebSocketRequest(
+      session,
+      session.ws,
+      request,
+      abortSignal
+    );
+  }
+
+  /**
+   * Stdio servers run in the local server's bridge, which carries their
+   * stdin and stdout over a WebSocket. The command is sent to the bridge
+   * before each socket is opened so edits to it take effect.
+   */
+  private async sendStdioRequest(
+    connection: Connection,
+    request: MCPMessage,
+    abortSignal?: AbortSignal
+  ): Promise<any> {
+    const session = this.webSockets.get(normalizeUrl(connection.url));
+    if (request.method === "initialize" || !session?.ready) {
+      await registerStdioProcess(connection, this.fetch);
+    }
+
+    return this.sendWebSocketRequest(connection, request, abortSignal);
+  }
+
+  private async getWebSocketSession(
+    connection: Connection
+  ): Promise<WebSocketSession> {
+    const normalizedUrl = normalizeUrl(connection.url);
+    let session = this.webSockets.get(normalizedUrl);
+
+    if (!session) {
+      session = {
+        url: normalizedUrl,
+        connection,
+        state: "closed",
+        reconnectAttempts: 0,
+        requestIds: new Set(),
+      };
+      this.webSockets.set(normalizedUrl, session);
+    }
+
+    session.connection = connection;
+    if (!session.ready) {
+      session.ready = this.openWebSocket(session);
+    }
+
+    await session.ready;
+    return session;
+  }
+
+  /**
+   * Open the session's socket and run the initialize handshake on it.
+   * Resolves once the server has answered initialize.
+   */
+  private openWebSocket(session: WebSocketSession): Promise<void> {
+    clearTimeout(session.reconnectTimer);
+    session.reconnectTimer = undefined;
+
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(
+        session.connection.useProxy
+          ? getProxiedUrl(session.url)
+          : session.connection.connectionType === "stdio"
+            ? withLocalServerToken(session.url)
+            : session.url
+      );
+      let initialized = false;
+      session.ws = ws;
+
+      const timeout = setTimeout(() => {
+        reject(
+          new AdapterError("WebSocket connection timeout", "REQUEST_TIMEOUT")
+        );
+        ws.close();
+      }, session.connection.timeout || 30000);
+
+      ws.onopen = async () => {
+        try {
+          session.initResult = await this.writeWebSocketRequest(session, ws, {
+            jsonrpc: "2.0",
+            id: this.getNextRequestId(),
+            method: "initialize",
+            params: this.getInitializeParams(session.connection),
+          });
+          this.negotiateProtocolVersion(session.connection, session.initResult);
+          ws.send(
+            this.encodeMessage(session.url, {
+              jsonrpc: "2.0",
+              method: "notifications/initialized",
+            })
+          );
+
+          clearTimeout(timeout);
+          initialized = true;
+          session.reconnectAttempts = 0;
+          this.setWebSocketState(session, "open");
+          resolve();
+          this.restoreResourceSubscriptions(session, ws);
+        } catch (error) {
+          clearTimeout(timeout);
+          reject(error);
+          ws.close();
+        }
+      };
+
+      ws.onmessage = event => {
+        this.handleCompleteSSEMessage(
+          String(event.data),
+          session.url,
+          this.replyOverWebSocket(ws, session.url)
+        );
+      };
+
+      // Errors are always followed by a close event, which does the cleanup
+      ws.onerror = error => {
+        console.error("[MCP WebSocket] Socket error:", error);
+      };
+
+      ws.onclose = event => {
+        clearTimeout(timeout);
+        this.recordTraffic(session.url, {
+          kind: "event",
+          direction: "incoming",
+          event: "websocket.close",
+          summary: `Socket closed: ${event.code} ${event.reason}`.trim(),
+          error: event.code !== 1000,
+          payload: { code: event.code, reason: event.reason },
+        });
+        reject(
+          new AdapterError(
+            `WebSocket closed: ${event.code} ${event.reason}`.trim(),
+            "WEBSOCKET_CLOSED"
+          )
+        );
+        this.handleWebSocketClose(session, ws, initialized);
+      };
+    });
+  }
+
+  private writeWebSocketRequest(
+    session: WebSocketSession,
+    ws: WebSocket,
+    request: MCPMessage,
+    abortSignal?: AbortSignal
+  ): Promise<any> {
+    if (ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(
+        new AdapterError(
+          "WebSocket closed before the request was sent",
+          "WEBSOCKET_CLOSED"
+        )
+      );
+    }
+    if (abortSignal?.aborted) {
+      return Promise.reject(abortSignal.reason);
+    }
+
+    const requestId = String(request.id);
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        session.requestIds.delete(requestId);
+        abortSignal?.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        this.cleanupPendingRequest(requestId);
+        settle();
+        reject(abortSignal?.reason);
+      };
+
+      const timeout = setTimeout(() => {
+        this.cleanupPendingRequest(requestId);
+        settle();
+        reject(
+          new AdapterError("WebSocket request timeout", "REQUEST_TIMEOUT")
+        );
+      }, session.connection.timeout || 30000);
+
+      this.pendingRequests.set(requestId, {
+        resolve: value => {
+          settle();
+          resolve(value);
+        },
+        reject: reason => {
+          settle();
+          reject(reason);
+        },
+        timeout,
+      });
+      session.requestIds.add(requestId);
+      abortSignal?.addEventListener("abort", onAbort, { once: true });
+
+      ws.send(this.encodeMessage(session.url, request));
+    });
+  }
+
+  /**
+   * Fail the requests still waiting on a dropped socket, then reconnect
+   * with backoff if the socket had been up or was already reconnecting.
+   */
+  private handleWebSocketClose(
+    session: WebSocketSession,
+    ws: WebSocket,
+    initialized: boolean
+  ): void {
+    // Sockets closed on purpose are detached before they close
+    if (session.ws !== ws) return;
+
+    session.ws = undefined;
+    session.ready = undefined;
+    this.rejectWebSocketRequests(session);
+
+    // Stdio processes are started and stopped from the UI, so reconnecting
+    // would undo a stop. The next request starts them again instead.
+    const shouldReconnect =
+      session.connection.connectionType !== "stdio" &&
+      (initialized || session.state === "reconnecting") &&
+      session.reconnectAttempts < WEBSOCKET_MAX_RECONNECT_ATTEMPTS;
+
+    if (!shouldReconnect) {
+      session.reconnectAttempts = 0;
+      this.resourceSubscriptions.delete(session.url);
+      this.setWebSocketState(session, "closed");
+      return;
+    }
+
+    session.reconnectAttempts++;
+    const delayMs = Math.min(
+      WEBSOCKET_RECONNECT_BASE_DELAY * 2 ** (session.reconnectAttempts - 1),
+      WEBSOCKET_RECONNECT_MAX_DELAY
+    );
+    console.log(
+      `[MCP WebSocket] Reconnecting to ${session.url} in ${delayMs}ms (attempt ${session.reconnectAttempts}/${WEBSOCKET_MAX_RECONNECT_ATTEMPTS})`
+    );
+    this.setWebSocketState(session, "reconnecting");
+
+    session.reconnectTimer = setTimeout(() => {
+      session.reconnectTimer = undefined;
+      // A request may already have reopened the socket
+      if (session.ready) return;
+
+      session.ready = this.openWebSocket(session);
+      session.ready.catch(error => {
+        console.warn("[MCP WebSocket] Reconnect attempt failed:", error);
+      });
+    }, delayMs);
+  }
+
+  private rejectWebSocketRequests(session: WebSocketSession): void {
+    Array.from(session.requestIds).forEach(requestId => {
+      const pendingRequest = this.pendingRequests.get(requestId);
+      if (!pendingRequest) return;
+
+      this.cleanupPendingRequest(requestId);
+      pendingRequest.reject(
+        new AdapterError(
+          "WebSocket closed before the response arrived",
+          "WEBSOCKET_CLOSED"
+        )
+      );
+    });
+    session.requestIds.clear();
+  }
+
+  /**
+   * Subscriptions are bound to the socket that created them, so a
+   * reconnected socket has to subscribe to them again.
+   */
+  private restoreResourceSubscriptions(
+    session: WebSocketSession,
+    ws: WebSocket
+  ): void {
+    const subscriptions = this.resourceSubscriptions.get(session.url);
+    if (!subscriptions) return;
+
+    subscriptions.forEach(uri => {
+      this.writeWebSocketRequest(session, ws, {
+        jsonrpc: "2.0",
+        id: this.getNextRequestId(),
+        method: "resources/subscribe",
+        params: { uri },
+      }).catch(error => {
+        console.warn(`[MCP WebSocket] Failed to resubscribe to ${uri}:`, error);
+      });
+    });
+  }
+
+  /**
+   * Close a connection's socket without reconnecting it.
+   */
+  private closeWebSocket(normalizedUrl: string): void {
+    const session = this.webSockets.get(normalizedUrl);
+    if (!session) return;
+
+    this.webSockets.delete(normalizedUrl);
+    clearTimeout(session.reconnectTimer);
+
+    const ws = session.ws;
+    session.ws = undefined;
+    session.ready = undefined;
+    this.rejectWebSocketRequests(session);
+    this.resourceSubscriptions.delete(normalizedUrl);
+    ws?.close(1000);
+
+    this.setWebSocketState(session, "closed");
+  }
+
+  private setWebSocketState(
+    session: WebSocketSession,
+    state: WebSocketState
+  ): void {
+    session.state = state;
+    this.recordTraffic(session.url, {
+      kind: "event",
+      direction: "internal",
+      event: `websocket.${state}`,
+      summary:
+        state === "reconnecting"
+          ? `Socket reconnecting (attempt ${session.reconnectAttempts}/${WEBSOCKET_MAX_RECONNECT_ATTEMPTS})`
+          : `Socket ${state}`,
+    });
+    MCPService.webSocketStateListeners.forEach(listener => {
+      try {
+        listener(session.url, state);
+      } catch (error) {
+        console.error("[MCP] WebSocket state listener error:", error);
+      }
+    });
+  }
+
+  /**
+   * State of each connection's long-lived WebSocket, keyed by normalized URL
+   */
+  getWebSocketStates(): Record<string, WebSocketState> {
+    const states: Record<string, WebSocketState> = {};
+    this.webSockets.forEach((session, url) => {
+      states[url] = session.state;
+    });
+    return states;
+  }
+
+  async initialize(): Promise<void> {
+    this.status = AdapterStatus.IDLE;
+  }
+
+  async cleanup(): Promise<void> {
+    this.sessionCache.forEach((_, connectionId) => {
+      GraphQLService.clearSchemaCache(connectionId);
+    });
+
+    for (const [, pendingRequest] of this.pendingRequests) {
+      clearTimeout(pendingRequest.timeout);
+      pendingRequest.reject(new AdapterError("Service cleanup", "CLEANUP"));
+    }
+    this.pendingRequests.clear();
+
+    await Promise.all(
+      Array.from(this.httpSessions.keys()).map(url =>
+        this.terminateHTTPSession(url)
+      )
+    );
+
+    Array.from(this.webSockets.keys()).forEach(url => this.closeWebSocket(url));
+    Array.from(this.sseSessions.keys()).forEach(url =>
+      this.closeSSESession(url)
+    );
+    this.resourceSubscriptions.clear();
+
+    this.sessionCache.clear();
+    this.connectionCache.clear();
+    this.connectionConfigs.clear();
+    this.serverCapabilities.clear();
+    this.negotiatedVersions.clear();
+    this.legacySSEUrls.clear();
+    this.oauthTokens.clear();
+    this.status = AdapterStatus.DISCONNECTED;
+  }
+
+  /**
+   * Release everything held open for a connection: its Streamable HTTP
+   * session, SSE session and WebSocket.
+   */
+  async disconnect(connection: Connection): Promise<void> {
+    if (connection.connectionType === "graphql") {
+      return;
+    }
+
+    const normalizedUrl = normalizeUrl(connection.url);
+    await this.terminateHTTPSession(normalizedUrl);
+
+    this.closeWebSocket(normalizedUrl);
+    this.closeSSESession(normalizedUrl);
+    this.resourceSubscriptions.delete(normalizedUrl);
+    this.sessionCache.delete(normalizedUrl);
+    this.connectionCache.delete(normalizedUrl);
+    this.connectionConfigs.delete(normalizedUrl);
+    this.serverCapabilities.delete(normalizedUrl);
+    this.negotiatedVersions.delete(normalizedUrl);
+    this.legacySSEUrls.delete(normalizedUrl);
+  }
+
+  /**
+   * Send a notification over the session already open for a connection.
+   * Returns false when no session is open to carry it.
+   */
+  private async sendNotification(
+    connection: Connection,
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<boolean> {
+    const normalizedUrl = normalizeUrl(connection.url);
+    const message: OutgoingMCPMessage = {
+      jsonrpc: "2.0",
+      method,
+      ...(params ? { params } : {}),
+    };
+
+    if (this.httpSessions.has(normalizedUrl)) {
+      await this.postHTTPMessage(connection, message);
+      return true;
+    }
+
+    if (this.sessionCache.has(normalizedUrl)) {
+      await this.postSSEMessage(connection, message);
+      return true;
+    }
+
+    const ws = this.webSockets.get(normalizedUrl)?.ws;
+    if (ws?.readyState === WebSocket.OPEN) {
+      ws.send(this.encodeMessage(normalizedUrl, message));
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Serve a connection's updated roots and tell its server the list changed.
+   * Servers without an open session pick the roots up when they next connect.
+   */
+  async notifyRootsChanged(connection: Connection): Promise<boolean> {
+    const normalizedUrl = normalizeUrl(connection.url);
+    this.connectionConfigs.set(normalizedUrl, {
+      ...connection,
+      url: normalizedUrl,
+    });
+
+    return this.sendNotification(
+      connection,
+      "notifications/roots/list_changed"
+    );
+  }
+
+  async testConnection(connection: Connection): Promise<boolean> {
+    const maxRetries = 3;
+    const retryDelay = 1000;
+    const normalizedConnection = {
+      ...connection,
+      url: normalizeUrl(connection.url),
+    };
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      try {
+        this.sessionCache.delete(normalizedConnection.url);
+        this.connectionCache.delete(normalizedConnection.url);
+
+        const abortController = new AbortController();
+        const timeout = setTimeout(() => {
+          abortController.abort();
+        }, connection.timeout || 30000);
+
+        try {
+          const result = await this.sendMCPRequest(
+            normalizedConnection,
+            "initialize",
+            this.getInitializeParams(normalizedConnection),
+            abortController.signal
+          );
+
+          clearTimeout(timeout);
+
+          if (result && result.protocolVersion && result.serverInfo) {
+            this.connectionCache.set(normalizedConnection.url, {
+              isConnected: true,
+              lastUsed: Date.now(),
+            });
+            return true;
+          }
+        } catch (error) {
+          clearTimeout(timeout);
+
+          if (isAbortError(error)) {
+            console.log(`[MCP] Test attempt ${attempt} aborted: timeout`);
+          } else {
+            console.log(`[MCP] Test attempt ${attempt} failed:`, error);
+          }
+
+          if (attempt < maxRetries) {
+            console.log(
+              `[MCP] Retrying in ${retryDelay}ms... (${attempt}/${maxRetries})`
+            );
+            this.recordRetry(
+              normalizedConnection.url,
+              "connection test",
+              attempt + 1,
+              maxRetries,
+              retryDelay
+            );
+            await new Promise(resolve => setTimeout(resolve, retryDelay));
+          }
+        }
+      } catch (error) {
+        console.log(`[MCP] Test error on attempt ${attempt}:`, error);
+
+        if (attempt < maxRetries) {
+          await new Promise(resolve => setTimeout(resolve, retryDelay));
+        }
+      }
+    }
+
+    console.log(`[MCP] All ${maxRetries} test attempts failed`);
+    return false;
+  }
+
+  /**
+   * Follow nextCursor through a paginated list method. Stops at the
+   * configured page cap and reports whether the list was read to the end.
+   */
+  private async listAllPages<T>(
+    connection: Connection,
+    method: string,
+    list: IntrospectionList,
+    abortSignal?: AbortSignal,
+    onProgress?: (progress: MCPIntrospectionProgress) => void
+  ): Promise<{ items: T[]; complete: boolean }> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 1; page <= this.config.maxListPages; page++) {
+      const result = await this.sendMCPRequest(
+        connection,
+        method,
+        cursor ? { cursor } : {},
+        abortSignal
+      );
+
+      items.push(...((result?.[list] as T[]) || []));
+      onProgress?.({ list, page, itemCount: items.length });
+
+      cursor = result?.nextCursor;
+      if (!cursor) {
+        return { items, complete: true };
+      }
+    }
+
+    console.warn(
+      `[MCP] ${method} stopped after ${this.config.maxListPages} pages`
+    );
+    return { items, complete: false };
+  }
+
+  async connectAndIntrospect(
+    connection: Connection,
+    onProgress?: (progress: MCPIntrospectionProgress) => void
+  ): Promise<MCPConnectionResult> {
+    if (connection.connectionType === "graphql") {
+      return this.connectGraphQL(connection);
+    }
+
+    const maxRetries = connection.retryAttempts || 2;
+    let lastError: Error | undefined;
+    const normalizedConnection = {
+      ...connection,
+      url: normalizeUrl(connection.url),
+    };
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        const abortController = new AbortController();
+        const timeout = setTimeout(() => {
+          abortController.abort();
+        }, connection.timeout || 60000);
+
+        try {
+          const initResult = await this.sendMCPRequest(
+            normalizedConnection,
+            "initialize",
+            this.getInitializeParams(normalizedConnection),
+            abortController.signal
+          );
+
+          if (!initResult) {
+            return {
+              isConnected: false,
+              tools: [],
+              resources: [],
+              error: "Initialize returned empty response",
+            };
+          }
+
+          const serverInfo: MCPServerInfo = initResult.serverInfo;
+          const capabilities: MCPCapabilities = initResult.capabilities;
+          this.serverCapabilities.set(normalizedConnection.url, capabilities);
+          const incompleteLists: IntrospectionList[] = [];
+
+          let mcpTools: MCPToolDefinition[] = [];
+          if (capabilities.tools) {
+            try {
+              console.log("[MCP] Requesting tools list...");
+              const toolsResult = await this.listAllPages<MCPToolDefinition>(
+                normalizedConnection,
+                "tools/list",
+                "tools",
+                abortController.signal,
+                onProgress
+              );
+              mcpTools = toolsResult.items;
+              if (!toolsResult.complete) incompleteLists.push("tools");
+              console.log(`[MCP] Successfully loaded ${mcpTools.length} tools`);
+            } catch (error) {
+              console.warn("[MCP] Tools listing failed:", error);
+            }
+          }
+
+          let mcpResources: MCPResourceDefinition[] = [];
+          let mcpResourceTemplates: MCPResourceTemplateDefinition[] = [];
+          if (capabilities.resources) {
+            try {
+              const resourcesResult =
+                await this.listAllPages<MCPResourceDefinition>(
+                  normalizedConnection,
+                  "resources/list",
+                  "resources",
+                  abortController.signal,
+                  onProgress
+                );
+              mcpResources = resourcesResult.items;
+              if (!resourcesResult.complete) incompleteLists.push("resources");
+            } catch (error) {
+              console.warn("[MCP] Resources listing failed:", error);
+            }
+
+            try {
+              const templatesResult =
+                await this.listAllPages<MCPResourceTemplateDefinition>(
+                  normalizedConnection,
+                  "resources/templates/list",
+                  "resourceTemplates",
+                  abortController.signal,
+                  onProgress
+                );
+              mcpResourceTemplates = templatesResult.items;
+              if (!templatesResult.complete) {
+                incompleteLists.push("resourceTemplates");
+              }
+            } catch (error) {
+              console.warn("[MCP] Resource templates listing failed:", error);
+            }
+          }
+
+          let mcpPrompts: MCPPromptDefinition[] = [];
+          if (capabilities.prompts) {
+            try {
+              const promptsResult =
+                await this.listAllPages<MCPPromptDefinition>(
+                  normalizedConnection,
+                  "prompts/list",
+                  "prompts",
+                  abortController.signal,
+                  onProgress
+                );
+              mcpPrompts = promptsResult.items;
+              if (!promptsResult.complete) incompleteLists.push("prompts");
+            } catch (error) {
+              console.warn("[MCP] Prompts listing failed:", error);
+            }
+          }
+
+          clearTimeout(timeout);
+
+          const tools: Tool[] = mcpTools.map(mcpTool =>
+            this.convertMCPToolToTool(mcpTool)
+          );
+          const resources: Resource[] = mcpResources.map(mcpResource =>
+            this.convertMCPResourceToResource(mcpResource)
+          );
+          const resourceTemplates: ResourceTemplate[] =
+            mcpResourceTemplates.map(mcpTemplate =>
+              this.convertMCPResourceTemplateToResourceTemplate(mcpTemplate)
+            );
+          const prompts: Prompt[] = mcpPrompts.map(mcpPrompt =>
+            this.convertMCPPromptToPrompt(mcpPrompt)
+          );
+
+          this.connectionCache.set(normalizedConnection.url, {
+            isConnected: true,
+            lastUsed: Date.now(),
+          });
+
+          return {
+            isConnected: true,
+            serverInfo,
+            capabilities,
+            tools,
+            resources,
+            resourceTemplates,
+            prompts,
+            incompleteLists,
+            protocolVersion: this.negotiatedVersions.get(
+              normalizedConnection.url
+            ),
+          };
+        } catch (error) {
+          clearTimeout(timeout);
+          throw error;
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        this.sessionCache.delete(normalizedConnection.url);
+        this.connectionCache.delete(normalizedConnection.url);
+
+        // Retrying cannot help until the user authorizes
+        if (error instanceof AdapterError && error.code === "OAUTH_REQUIRED") {
+          return {
+            isConnected: false,
+            tools: [],
+            resources: [],
+            error: error.message,
+            authorizationRequired: true,
+          };
+        }
+
+        if (attempt < maxRetries) {
+          const backoffMs = Math.min(1000 * Math.pow(2, attempt), 5000);
+          this.recordRetry(
+            normalizedConnection.url,
+            "connect",
+            attempt + 2,
+            maxRetries + 1,
+            backoffMs
+          );
+          await delay(backoffMs);
+        }
+      }
+    }
+
+    console.error(`[MCP] All attempts failed:`, lastError);
+    return {
+      isConnected: false,
+      tools: [],
+      resources: [],
+      error: lastError?.message || "Connection failed after all retries",
+    };
+  }
+
+  private async connectGraphQL(
+    connection: Connection
+  ): Promise<MCPConnectionResult> {
+    try {
+      const { tools, schema } =
+        await GraphQLService.introspectSchema(connection);
+
+      const queryType = schema.getQueryType();
+      const mutationType = schema.getMutationType();
+      const subscriptionType = schema.getSubscriptionType();
+
+      return {
+        isConnected: true,
+        serverInfo: {
+          name: "GraphQL Server",
+          version: "1.0.0",
+          description: `GraphQL endpoint with ${tools.length} operations`,
+        },
+        capabilities: {
+          tools: true,
+          resources: false,
+          prompts: false,
+          experimental: {
+            graphql: true,
+            queries: !!queryType,
+            mutations: !!mutationType,
+            subscriptions: !!subscriptionType,
+          },
+        },
+        tools,
+        resources: [],
+        resourceTemplates: [],
+        prompts: [],
+      };
+    } catch (error) {
+      console.error("[GraphQL] Connection failed:", error);
+      return {
+        isConnected: false,
+        tools: [],
+        resources: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  async executeTool(
+    connection: Connection,
+    toolName: string,
+    arguments_: Record<string, any> = {},
+    outputSchema?: Record<string, unknown>
+  ): Promise<MCPToolExecutionResult> {
+    if (connection.connectionType === "graphql") {
+      return this.executeGraphQLTool(connection, toolName, arguments_);
+    }
+
+    const executionId = this.generateId();
+    const startTime = Date.now();
+    const normalizedConnection = {
+      ...connection,
+      url: normalizeUrl(connection.url),
+    };
+
+    const baseExecution: ToolExecution = {
+      id: executionId,
+      tool: toolName,
+      status: "pending",
+      duration: 0,
+      timestamp: new Date().toLocaleTimeString(),
+      request: {
+        tool: toolName,
+        arguments: arguments_,
+        timestamp: new Date().toISOString(),
+      },
+    };
+
+    const state: ToolCallState = {
+      call: {
+        executionId,
+        connectionUrl: normalizedConnection.url,
+        toolName,
+        startedAt: startTime,
+      },
+      cancelled: false,
+    };
+    this.activeToolCalls.set(executionId, state);
+    this.emitToolCalls();
+
+    try {
+      return await this.callToolWithRetries(
+        normalizedConnection,
+        toolName,
+        arguments_,
+        baseExecution,
+        state,
+        outputSchema
+      );
+    } finally {
+      this.activeToolCalls.delete(executionId);
+      this.emitToolCalls();
+    }
+  }
+
+  private async callToolWithRetries(
+    normalizedConnection: Connection,
+    toolName: string,
+    arguments_: Record<string, any>,
+    baseExecution: ToolExecution,
+    state: ToolCallState,
+    outputSchema?: Record<string, unknown>
+  ): Promise<MCPToolExecutionResult> {
+    const startTime = state.call.startedAt;
+    const maxRetries = Math.min(normalizedConnection.retryAttempts || 2, 3);
+    let lastError: Error | undefined;
+
+    for (
+      let attempt = 0;
+      attempt <= maxRetries && !state.cancelled;
+      attempt++
+    ) {
+      try {
+        const abortController = new AbortController();
+        const timeout = setTimeout(() => {
+          abortController.abort();
+        }, normalizedConnection.timeout || 30000);
+
+        state.requestId = this.getNextRequestId();
+        state.controller = abortController;
+
+        try {
+          const result = await this.sendMCPRequest(
+            normalizedConnection,
+            "tools/call",
+            {
+              name: toolName,
+              arguments: arguments_,
+              _meta: { progressToken: state.call.executionId },
+            },
+            abortController.signal,
+            state.requestId
+          );
+
+          clearTimeout(timeout);
+          const endTime = Date.now();
+          const duration = endTime - startTime;
+          const structuredContent = (result as any)?.structuredContent;
+          const outputValidation = outputSchema
+            ? this.validateStructuredContent(toolName, result, outputSchema)
+            : undefined;
+
+          const successExecution: ToolExecution = {
+            ...baseExecution,
+            status: "success",
+            duration,
+            response: {
+              success: true,
+              result,
+              structuredContent,
+              outputValidation,
+              timestamp: new Date().toISOString(),
+            },
+          };
+
+          return {
+            success: true,
+            result,
+            outputValidation,
+            execution: successExecution,
+          };
+        } catch (error) {
+          clearTimeout(timeout);
+          throw error;
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (isAbortError(error)) {
+          this.sendCancellation(
+            normalizedConnection,
+            state.requestId,
+            state.cancelled ? "Cancelled by user" : "Request timed out"
+          );
+          break;
+        }
+
+        if (
+          lastError.message.includes("session") ||
+          lastError.message.includes("404")
+        ) {
+          this.sessionCache.delete(normalizedConnection.url);
+          this.connectionCache.delete(normalizedConnection.url);
+        }
+
+        if (attempt < maxRetries) {
+          const backoffMs = Math.min(500 * Math.pow(2, attempt), 2000);
+          this.recordRetry(
+            normalizedConnection.url,
+            `tools/call ${toolName}`,
+            attempt + 2,
+            maxRetries + 1,
+            backoffMs
+          );
+          await delay(backoffMs);
+        }
+      }
+    }
+
+    const endTime = Date.now();
+    const duration = endTime - startTime;
+
+    if (state.cancelled) {
+      const cancelledExecution: ToolExecution = {
+        ...baseExecution,
+        status: "cancelled",
+        duration,
+        error: "Cancelled by user",
+      };
+
       return {
-        isConnected: false,
-        tools: [],
-        resources: [],
-        error: error instanceof Error ? error.message : String(error),
+        success: false,
+        cancelled: true,
+        error: "Cancelled by user",
+        execution: cancelledExecution,
+      };
+    }
+
+    const errorMessage =
+      lastError?.message || "Tool execution failed after all retries";
+
+    console.error(`[MCP] Tool execution failed:`, errorMessage);
+
+    const errorExecution: ToolExecution = {
+      ...baseExecution,
+      status: "error",
+      duration,
+      error: errorMessage,
+    };
+
+    return {
+      success: false,
+      error: errorMessage,
+      execution: errorExecution,
+    };
+  }
+
+  /**
+   * Check a tools/call result against the outputSchema its tool declared.
+   * Error results are exempt, and a missing structuredContent is a violation.
+   */
+  private validateStructuredContent(
+    toolName: string,
+    result: unknown,
+    outputSchema: Record<string, unknown>
+  ): OutputValidation | undefined {
+    const callResult = result as
+      | { isError?: boolean; structuredContent?: unknown }
+      | undefined;
+    if (callResult?.isError) return undefined;
+
+    const errors =
+      callResult?.structuredContent === undefined
+        ? ["Tool declares an outputSchema but returned no structuredContent"]
+        : validateJsonSchema(callResult.structuredContent, outputSchema);
+
+    if (errors.length > 0) {
+      console.warn(
+        `[MCP] ${toolName} returned output that does not match its outputSchema:`,
+        errors
+      );
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Cancel an in-flight tool call. The server is sent notifications/cancelled
+   * and the call resolves with a cancelled execution.
+   */
+  cancelToolCall(executionId: string): boolean {
+    const state = this.activeToolCalls.get(executionId);
+    if (!state || state.cancelled) return false;
+
+    state.cancelled = true;
+    state.controller?.abort();
+    return true;
+  }
+
+  getActiveToolCalls(): ActiveToolCall[] {
+    return Array.from(this.activeToolCalls.values(), state => state.call);
+  }
+
+  private sendCancellation(
+    connection: Connection,
+    requestId: string | undefined,
+    reason: string
+  ): void {
+    if (!requestId) return;
+
+    this.sendNotification(connection, "notifications/cancelled", {
+      requestId,
+      reason,
+    }).catch(error => {
+      console.warn("[MCP] Failed to send cancellation:", error);
+    });
+  }
+
+  /**
+   * Capabilities the server declared the last time it was introspected
+   */
+  getServerCapabilities(connection: Connection): MCPCapabilities | undefined {
+    return this.serverCapabilities.get(normalizeUrl(connection.url));
+  }
+
+  /**
+   * Ask a server to send log messages at or above the given level
+   */
+  async setLoggingLevel(
+    connection: Connection,
+    level: LoggingLevel
+  ): Promise<void> {
+    await this.sendMCPRequest(connection, "logging/setLevel", { level });
+  }
+
+  /**
+   * Close any session the connection has and run a fresh initialize
+   * handshake. Returns what was sent and the server's raw answer.
+   */
+  async handshake(
+    connection: Connection,
+    abortSignal?: AbortSignal
+  ): Promise<{ params: Record<string, any>; result: any }> {
+    await this.disconnect(connection);
+
+    const params = this.getInitializeParams(connection);
+    const result = await this.sendMCPRequest(
+      connection,
+      "initialize",
+      params,
+      abortSignal
+    );
+    return { params, result };
+  }
+
+  /**
+   * Send any JSON-RPC request over the connection's transport. Error
+   * responses are thrown as MCP_ERROR with the error object as details.
+   */
+  async request(
+    connection: Connection,
+    method: string,
+    params?: Record<string, any>,
+    abortSignal?: AbortSignal
+  ): Promise<any> {
+    return this.sendMCPRequest(connection, method, params, abortSignal);
+  }
+
+  /**
+   * Send a notification over the connection's open session. Returns false
+   * when no session is open to carry it.
+   */
+  async notify(
+    connection: Connection,
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<boolean> {
+    return this.sendNotification(connection, method, params);
+  }
+
+  /**
+   * Send a JSON-RPC message or batch as written over the connection's
+   * transport and return the raw response: an object, an array for a batch,
+   * or undefined when only notifications were sent. Requests are matched to
+   * their responses by id, so every request needs one. A session is opened
+   * first when the connection has none.
+   */
+  async sendRawMessage(
+    connection: Connection,
+    payload: RawMCPPayload,
+    abortSignal?: AbortSignal
+  ): Promise<unknown> {
+    if (connection.connectionType === "graphql") {
+      throw new AdapterError(
+        "GraphQL connections do not take JSON-RPC messages",
+        "RAW_MESSAGE_NOT_SUPPORTED"
+      );
+    }
+
+    const normalizedConnection = {
+      ...connection,
+      url: normalizeUrl(connection.url),
+    };
+    const normalizedUrl = normalizedConnection.url;
+    this.connectionConfigs.set(normalizedUrl, normalizedConnection);
+    await this.ensureOAuthToken(normalizedConnection);
+
+    if (!this.hasOpenSession(normalizedUrl)) {
+      await this.sendMCPRequest(
+        normalizedConnection,
+        "initialize",
+        this.getInitializeParams(normalizedConnection),
+        abortSignal
+      );
+    }
+
+    const requestIds = (Array.isArray(payload) ? payload : [payload])
+      .filter(
+        message =>
+          message?.method !== undefined &&
+          message.id !== undefined &&
+          message.id !== null
+      )
+      .map(message => String(message.id));
+
+    if (
+      normalizedConnection.connectionType === "http" &&
+      !this.legacySSEUrls.has(normalizedUrl)
+    ) {
+      return this.postRawHTTPMessage(
+        normalizedConnection,
+        payload,
+        requestIds,
+        abortSignal
+      );
+    }
+
+    // The other transports answer on their stream
+    const isSocket =
+      normalizedConnection.connectionType === "websocket" ||
+      normalizedConnection.connectionType === "stdio";
+    const responses = this.awaitRawResponses(
+      normalizedConnection,
+      requestIds,
+      isSocket
+        ? this.webSockets.get(normalizedUrl)?.requestIds
+        : this.sseSessions.get(normalizedUrl)?.requestIds,
+      abortSignal
+    );
+
+    try {
+      if (isSocket) {
+        const ws = this.webSockets.get(normalizedUrl)?.ws;
+        if (ws?.readyState !== WebSocket.OPEN) {
+          throw new AdapterError(
+            "WebSocket closed before the message was sent",
+            "WEBSOCKET_CLOSED"
+          );
+        }
+        ws.send(this.encodeMessage(normalizedUrl, payload));
+      } else {
+        await this.postSSEMessage(normalizedConnection, payload);
+      }
+    } catch (error) {
+      responses.catch(() => {});
+      requestIds.forEach(requestId => {
+        const pendingRequest = this.pendingRequests.get(requestId);
+        this.cleanupPendingRequest(requestId);
+        pendingRequest?.reject(error);
+      });
+      throw error;
+    }
+
+    const received = await responses;
+    if (Array.isArray(payload)) {
+      return received.length > 0 ? received : undefined;
+    }
+    return received[0];
+  }
+
+  private hasOpenSession(normalizedUrl: string): boolean {
+    return (
+      this.httpSessions.has(normalizedUrl) ||
+      this.sessionCache.has(normalizedUrl) ||
+      this.webSockets.get(normalizedUrl)?.state === "open"
+    );
+  }
+
+  /**
+   * Register raw requests so their responses resolve with the whole
+   * message. Ids are added to the session's set so a dropped stream fails
+   * them.
+   */
+  private awaitRawResponses(
+    connection: Connection,
+    requestIds: string[],
+    sessionRequestIds: Set<string> | undefined,
+    abortSignal?: AbortSignal
+  ): Promise<unknown[]> {
+    return Promise.all(
+      requestIds.map(
+        requestId =>
+          new Promise((resolve, reject) => {
+            const settle = () => {
+              sessionRequestIds?.delete(requestId);
+              abortSignal?.removeEventListener("abort", onAbort);
+            };
+            const onAbort = () => {
+              this.cleanupPendingRequest(requestId);
+              settle();
+              reject(abortSignal?.reason);
+            };
+
+            const timeout = setTimeout(() => {
+              this.cleanupPendingRequest(requestId);
+              settle();
+              reject(
+                new AdapterError(
+                  `No response to ${requestId}`,
+                  "REQUEST_TIMEOUT"
+                )
+              );
+            }, connection.timeout || 30000);
+
+            this.pendingRequests.set(requestId, {
+              resolve: value => {
+                settle();
+                resolve(value);
+              },
+              reject: reason => {
+                settle();
+                reject(reason);
+              },
+              timeout,
+              raw: true,
+            });
+            sessionRequestIds?.add(requestId);
+            abortSignal?.addEventListener("abort", onAbort, { once: true });
+          })
+      )
+    );
+  }
+
+  /**
+   * Streamable HTTP answers in the POST itself, as JSON or as an SSE stream
+   * that may carry other messages before the responses
+   */
+  private async postRawHTTPMessage(
+    connection: Connection,
+    payload: RawMCPPayload,
+    requestIds: string[],
+    abortSignal?: AbortSignal
+  ): Promise<unknown> {
+    const normalizedUrl = normalizeUrl(connection.url);
+    const fetchFn = this.getFetch(connection);
+    const response = await fetchFn(normalizedUrl, {
+      method: "POST",
+      headers: this.prepareHTTPHeaders(connection),
+      body: this.encodeMessage(normalizedUrl, payload),
+      signal: abortSignal,
+    });
+
+    const contentType = response.headers.get("Content-Type") || "";
+    if (
+      response.ok &&
+      contentType.includes("text/event-stream") &&
+      response.body
+    ) {
+      const responses = new Map<string, unknown>();
+      await this.consumeSSEStream(response.body, normalizedUrl, message => {
+        (Array.isArray(message) ? message : [message]).forEach(item => {
+          const id = item?.id;
+          if (
+            item?.method === undefined &&
+            id !== undefined &&
+            requestIds.includes(String(id))
+          ) {
+            responses.set(String(id), item);
+          } else {
+            this.handleIncomingMessage(item, normalizedUrl, reply =>
+              this.postHTTPMessage(connection, reply)
+            );
+          }
+        });
+        return responses.size >= requestIds.length;
+      });
+
+      const received = requestIds.flatMap(id =>
+        responses.has(id) ? [responses.get(id)] : []
+      );
+      return Array.isArray(payload) ? received : received[0];
+    }
+
+    // Malformed messages may be answered with a JSON-RPC error and a 4xx
+    // status, which is shown as it is
+    const responseText = await response.text();
+    if (responseText.trim()) {
+      try {
+        return this.decodeMessage(normalizedUrl, responseText);
+      } catch {
+        throw new AdapterError(
+          `Server returned a response that is not JSON: ${responseText.substring(0, 100)}`,
+          "JSON_PARSE_ERROR",
+          { status: response.status }
+        );
+      }
+    }
+
+    if (!response.ok) {
+      throw new AdapterError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        "HTTP_ERROR",
+        { status: response.status }
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Send a ping and return the round trip in milliseconds
+   */
+  async ping(
+    connection: Connection,
+    abortSignal?: AbortSignal
+  ): Promise<number> {
+    if (connection.connectionType === "graphql") {
+      throw new AdapterError(
+        "GraphQL connections do not support ping",
+        "PING_NOT_SUPPORTED"
+      );
+    }
+
+    const startedAt = Date.now();
+    await this.sendMCPRequest(connection, "ping", {}, abortSignal);
+    return Date.now() - startedAt;
+  }
+
+  /**
+   * Ask a server for completions of a prompt or resource template argument.
+   * Values already entered for other arguments go in context.arguments.
+   */
+  async complete(
+    connection: Connection,
+    ref: MCPCompletionReference,
+    argument: { name: string; value: string },
+    contextArguments?: Record<string, string>,
+    abortSignal?: AbortSignal
+  ): Promise<MCPCompletionResult> {
+    if (connection.connectionType === "graphql") {
+      throw new AdapterError(
+        "GraphQL connections do not support completions",
+        "COMPLETIONS_NOT_SUPPORTED"
+      );
+    }
+
+    const result = await this.sendMCPRequest(
+      connection,
+      "completion/complete",
+      {
+        ref,
+        argument,
+        ...(contextArguments && Object.keys(contextArguments).length > 0
+          ? { context: { arguments: contextArguments } }
+          : {}),
+      },
+      abortSignal
+    );
+
+    const completion = result?.completion;
+    return {
+      values: Array.isArray(completion?.values)
+        ? completion.values.map(String)
+        : [],
+      total:
+        typeof completion?.total === "number" ? completion.total : undefined,
+      hasMore:
+        typeof completion?.hasMore === "boolean"
+          ? completion.hasMore
+          : undefined,
+    };
+  }
+
+  async readResource(
+    connection: Connection,
+    uri: string
+  ): Promise<MCPResourceReadResult> {
+    const executionId = this.generateId();
+    const startTime = Date.now();
+
+    const baseExecution: ToolExecution = {
+      id: executionId,
+      tool: "resources/read",
+      status: "pending",
+      duration: 0,
+      timestamp: new Date().toISOString(),
+      request: {
+        tool: "resources/read",
+        arguments: { uri },
+        timestamp: new Date().toISOString(),
+      },
+    };
+
+    if (connection.connectionType === "graphql") {
+      const errorMessage = "GraphQL connections do not expose resources";
+      return {
+        success: false,
+        error: errorMessage,
+        execution: { ...baseExecution, status: "error", error: errorMessage },
+      };
+    }
+
+    const normalizedConnection = {
+      ...connection,
+      url: normalizeUrl(connection.url),
+    };
+
+    const abortController = new AbortController();
+    const timeout = setTimeout(() => {
+      abortController.abort();
+    }, connection.timeout || 30000);
+
+    try {
+      const result = await this.sendMCPRequest(
+        normalizedConnection,
+        "resources/read",
+        { uri },
+        abortController.signal
+      );
+
+      const contents: ResourceContents[] = result?.contents || [];
+      const successExecution: ToolExecution = {
+        ...baseExecution,
+        status: "success",
+        duration: Date.now() - startTime,
+        response: {
+          success: true,
+          result: { contents },
+          timestamp: new Date().toISOString(),
+        },
+      };
+
+      return {
+        success: true,
+        contents,
+        execution: successExecution,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      if (errorMessage.includes("session") || errorMessage.includes("404")) {
+        this.sessionCache.delete(normalizedConnection.url);
+        this.connectionCache.delete(normalizedConnection.url);
+      }
+
+      console.error(`[MCP] Resource read failed:`, errorMessage);
+
+      return {
+        success: false,
+        error: errorMessage,
+        execution: {
+          ...baseExecution,
+          status: "error",
+          duration: Date.now() - startTime,
+          error: errorMessage,
+        },
       };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  async subscribeResource(connection: Connection, uri: string): Promise<void> {
+    if (connection.connectionType === "graphql") {
+      throw new AdapterError(
+        "GraphQL connections do not expose resources",
+        "SUBSCRIPTIONS_NOT_SUPPORTED"
+      );
+    }
+
+    const normalizedConnection = {
+      ...connection,
+      url: normalizeUrl(connection.url),
+    };
+
+    const abortController = new AbortController();
+    const timeout = setTimeout(() => {
+      abortController.abort();
+    }, connection.timeout || 30000);
+
+    try {
+      await this.sendMCPRequest(
+        normalizedConnection,
+        "resources/subscribe",
+        { uri },
+        abortController.signal
+      );
+
+      const subscriptions =
+        this.resourceSubscriptions.get(normalizedConnection.url) ||
+        new Set<string>();
+      subscriptions.add(uri);
+      this.resourceSubscriptions.set(normalizedConnection.url, subscriptions);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      if (errorMessage.includes("session") || errorMessage.includes("404")) {
+        this.sessionCache.delete(normalizedConnection.url);
+        this.connectionCache.delete(normalizedConnection.url);
+      }
+
+      console.error(`[MCP] Resource subscribe failed:`, errorMessage);
+      throw error;
+    } finally {
+      clearTimeout(timeout);
     }
   }
 
-  async executeTool(
+  async unsubscribeResource(
     connection: Connection,
-    toolName: string,
-    arguments_: Record<string, any> = {}
-  ): Promise<MCPToolExecutionResult> {
+    uri: string
+  ): Promise<void> {
     if (connection.connectionType === "graphql") {
-      return this.executeGraphQLTool(connection, toolName, arguments_);
+      return;
     }
 
-    const executionId = this.generateId();
-    const startTime = Date.now();
     const normalizedConnection = {
       ...connection,
       url: normalizeUrl(connection.url),
     };
+    const subscriptions = this.resourceSubscriptions.get(
+      normalizedConnection.url
+    );
+    subscriptions?.delete(uri);
 
-    const baseExecution: ToolExecution = {
-      id: executionId,
-      tool: toolName,
-      status: "pending",
-      duration: 0,
-      timestamp: new Date().toLocaleTimeString(),
-      request: {
-        tool: toolName,
-        arguments: arguments_,
-        timestamp: new Date().toISOString(),
-      },
-    };
-
-    const maxRetries = Math.min(connection.retryAttempts || 2, 3);
-    let lastError: Error | undefined;
-
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        const abortController = new AbortController();
-        const timeout = setTimeout(() => {
-          abortController.abort();
-        }, connection.timeout || 30000);
+    const abortController = new AbortController();
+    const timeout = setTimeout(() => {
+      abortController.abort();
+    }, connection.timeout || 30000);
 
-        try {
-          const result = await this.sendMCPRequest(
-            normalizedConnection,
-            "tools/call",
-            {
-              name: toolName,
-              arguments: arguments_,
-            },
-            abortController.signal
-          );
+    try {
+      await this.sendMCPRequest(
+        normalizedConnection,
+        "resources/unsubscribe",
+        { uri },
+        abortController.signal
+      );
+    } catch (error) {
+      console.warn(`[MCP] Resource unsubscribe failed:`, error);
+    } finally {
+      clearTimeout(timeout);
 
-          clearTimeout(timeout);
-          const endTime = Date.now();
-          const duration = endTime - startTime;
+      if (!subscriptions || subscriptions.size === 0) {
+        this.resourceSubscriptions.delete(normalizedConnection.url);
+      }
+    }
+  }
 
-          const successExecution: ToolExecution = {
-            ...baseExecution,
-            status: "success",
-            duration,
-            response: {
-              success: true,
-              result,
-              timestamp: new Date().toISOString(),
-            },
-          };
+  async getPrompt(
+    connection: Connection,
+    promptName: string,
+    arguments_: Record<string, string> = {}
+  ): Promise<PromptGetResult> {
+    if (connection.connectionType === "graphql") {
+      throw new AdapterError(
+        "GraphQL connections do not expose prompts",
+        "PROMPTS_NOT_SUPPORTED"
+      );
+    }
 
-          return {
-            success: true,
-            result,
-            execution: successExecution,
-          };
-        } catch (error) {
-          clearTimeout(timeout);
-          throw error;
-        }
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
+    const normalizedConnection = {
+      ...connection,
+      url: normalizeUrl(connection.url),
+    };
 
-        if (isAbortError(error)) {
-          break;
-        }
+    const abortController = new AbortController();
+    const timeout = setTimeout(() => {
+      abortController.abort();
+    }, connection.timeout || 30000);
 
-        if (
-          lastError.message.includes("session") ||
-          lastError.message.includes("404")
-        ) {
-          this.sessionCache.delete(normalizedConnection.url);
-          this.connectionCache.delete(normalizedConnection.url);
-        }
+    try {
+      const result = await this.sendMCPRequest(
+        normalizedConnection,
+        "prompts/get",
+        {
+          name: promptName,
+          arguments: arguments_,
+        },
+        abortController.signal
+      );
 
-        if (attempt < maxRetries) {
-          const backoffMs = Math.min(500 * Math.pow(2, attempt), 2000);
-          await delay(backoffMs);
-        }
+      return {
+        description: result?.description,
+        messages: result?.messages || [],
+      };
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        (error.message.includes("session") || error.message.includes("404"))
+      ) {
+        this.sessionCache.delete(normalizedConnection.url);
+        this.connectionCache.delete(normalizedConnection.url);
       }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
     }
-
-    const endTime = Date.now();
-    const duration = endTime - startTime;
-    const errorMessage =
-      lastError?.message || "Tool execution failed after all retries";
-
-    console.error(`[MCP] Tool execution failed:`, errorMessage);
-
-    const errorExecution: ToolExecution = {
-      ...baseExecution,
-      status: "error",
-      duration,
-      error: errorMessage,
-    };
-
-    return {
-      success: false,
-      error: errorMessage,
-      execution: errorExecution,
-    };
   }
 
   private async executeGraphQLTool(
@@ -1212,22 +3993,271 @@ export class MCPService extends MCPAdapter {
     return service.testConnection(connection);
   }
 
-  static async connectAndIntrospect(
+  static async disconnect(connection: Connection, fetch?: FetchFunction) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.disconnect(connection);
+  }
+
+  static async notifyRootsChanged(
     connection: Connection,
     fetch?: FetchFunction
   ) {
     const service = MCPService.getInstance(undefined, fetch);
-    return service.connectAndIntrospect(connection);
+    return service.notifyRootsChanged(connection);
+  }
+
+  static async connectAndIntrospect(
+    connection: Connection,
+    fetch?: FetchFunction,
+    onProgress?: (progress: MCPIntrospectionProgress) => void
+  ) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.connectAndIntrospect(connection, onProgress);
   }
 
   static async executeTool(
     connection: Connection,
     toolName: string,
     arguments_: Record<string, any> = {},
+    outputSchema?: Record<string, unknown>,
+    fetch?: FetchFunction
+  ) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.executeTool(connection, toolName, arguments_, outputSchema);
+  }
+
+  static getServerCapabilities(connection: Connection, fetch?: FetchFunction) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.getServerCapabilities(connection);
+  }
+
+  static async setLoggingLevel(
+    connection: Connection,
+    level: LoggingLevel,
+    fetch?: FetchFunction
+  ) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.setLoggingLevel(connection, level);
+  }
+
+  static async handshake(
+    connection: Connection,
+    abortSignal?: AbortSignal,
+    fetch?: FetchFunction
+  ) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.handshake(connection, abortSignal);
+  }
+
+  static async request(
+    connection: Connection,
+    method: string,
+    params?: Record<string, any>,
+    abortSignal?: AbortSignal,
+    fetch?: FetchFunction
+  ) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.request(connection, method, params, abortSignal);
+  }
+
+  static async notify(
+    connection: Connection,
+    method: string,
+    params?: Record<string, unknown>,
+    fetch?: FetchFunction
+  ) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.notify(connection, method, params);
+  }
+
+  static async sendRawMessage(
+    connection: Connection,
+    payload: RawMCPPayload,
+    abortSignal?: AbortSignal,
+    fetch?: FetchFunction
+  ) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.sendRawMessage(connection, payload, abortSignal);
+  }
+
+  static async ping(
+    connection: Connection,
+    abortSignal?: AbortSignal,
+    fetch?: FetchFunction
+  ) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.ping(connection, abortSignal);
+  }
+
+  static async complete(
+    connection: Connection,
+    ref: MCPCompletionReference,
+    argument: { name: string; value: string },
+    contextArguments?: Record<string, string>,
+    abortSignal?: AbortSignal,
+    fetch?: FetchFunction
+  ) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.complete(
+      connection,
+      ref,
+      argument,
+      contextArguments,
+      abortSignal
+    );
+  }
+
+  static cancelToolCall(executionId: string, fetch?: FetchFunction) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.cancelToolCall(executionId);
+  }
+
+  static getActiveToolCalls(fetch?: FetchFunction) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.getActiveToolCalls();
+  }
+
+  static getWebSocketStates(fetch?: FetchFunction) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.getWebSocketStates();
+  }
+
+  static getSSEStates(fetch?: FetchFunction) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.getSSEStates();
+  }
+
+  static async reconnectSSE(connection: Connection, fetch?: FetchFunction) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.reconnectSSE(connection);
+  }
+
+  static async readResource(
+    connection: Connection,
+    uri: string,
+    fetch?: FetchFunction
+  ) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.readResource(connection, uri);
+  }
+
+  static async subscribeResource(
+    connection: Connection,
+    uri: string,
+    fetch?: FetchFunction
+  ) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.subscribeResource(connection, uri);
+  }
+
+  static async unsubscribeResource(
+    connection: Connection,
+    uri: string,
+    fetch?: FetchFunction
+  ) {
+    const service = MCPService.getInstance(undefined, fetch);
+    return service.unsubscribeResource(connection, uri);
+  }
+
+  /**
+   * Register a listener for server notifications from any connection.
+   * Returns a function that removes the listener.
+   */
+  /**
+   * Listen to every JSON-RPC message and transport event on any connection
+   */
+  static onTraffic(listener: (entry: TrafficEntry) => void): () => void {
+    MCPService.trafficListeners.add(listener);
+    return () => {
+      MCPService.trafficListeners.delete(listener);
+    };
+  }
+
+  static onNotification(
+    listener: (notification: MCPNotification) => void
+  ): () => void {
+    MCPService.notificationListeners.add(listener);
+    return () => {
+      MCPService.notificationListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a listener for changes to the set of in-flight tool calls and
+   * their progress. Returns a function that removes the listener.
+   */
+  static onToolCallsChange(
+    listener: (calls: ActiveToolCall[]) => void
+  ): () => void {
+    MCPService.toolCallListeners.add(listener);
+    return () => {
+      MCPService.toolCallListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a listener for WebSocket connections opening, closing and
+   * reconnecting. Returns a function that removes the listener.
+   */
+  static onWebSocketStateChange(
+    listener: (connectionUrl: string, state: WebSocketState) => void
+  ): () => void {
+    MCPService.webSocketStateListeners.add(listener);
+    return () => {
+      MCPService.webSocketStateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a listener for HTTP+SSE event streams opening, dropping and
+   * reconnecting. Returns a function that removes the listener.
+   */
+  static onSSEStateChange(
+    listener: (connectionUrl: string, status: SSEStreamStatus) => void
+  ): () => void {
+    MCPService.sseStateListeners.add(listener);
+    return () => {
+      MCPService.sseStateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to OAuth tokens refreshed for a connection, so they can be
+   * stored with it. Returns a function that unsubscribes.
+   */
+  static onOAuthTokensRefreshed(
+    listener: (connectionId: string, tokens: OAuthTokens) => void
+  ): () => void {
+    MCPService.oauthTokenListeners.add(listener);
+    return () => {
+      MCPService.oauthTokenListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register the handler that answers a server-to-client request method.
+   * Returns a function that removes the handler.
+   */
+  static setRequestHandler(
+    method: string,
+    handler: MCPServerRequestHandler
+  ): () => void {
+    MCPService.requestHandlers.set(method, handler);
+    return () => {
+      if (MCPService.requestHandlers.get(method) === handler) {
+        MCPService.requestHandlers.delete(method);
+      }
+    };
+  }
+
+  static async getPrompt(
+    connection: Connection,
+    promptName: string,
+    arguments_: Record<string, string> = {},
     fetch?: FetchFunction
   ) {
     const service = MCPService.getInstance(undefined, fetch);
-    return service.executeTool(connection, toolName, arguments_);
+    return service.getPrompt(connection, promptName, arguments_);
   }
 
   static validateConnectionUrl(url: string): boolean {
@@ -6,14 +6,19 @@ import {
   ToolSelectionResult,
   Tool,
 } from "@mcpconnect/schemas";
-import { ChatContext, ChatResponse, ExtendedLLMMessage } from "./types";
+import {
+  ChatContext,
+  ChatResponse,
+  ExtendedLLMMessage,
+  ToolResultImage,
+} from "./types";
 import {
   conversationToLLMMessages,
   toolsToLLMFormat,
   formatToolResultForLLM,
   generateId,
 } from "./utils";
-import { executeToolWithMCP } from "./tool-executor";
+import { executeToolWithApproval } from "./tool-executor";
 import { AISDKAdapter } from "./ai-sdk-adapter";
 import { needsReinit, updateConfigWithSettings } from "./model-manager";
 
@@ -150,12 +155,16 @@ export async function sendMessage(
 
   const response = await adapter.complete(llmMessages);
   const toolExecutionMessages: ChatMessage[] = [];
-  const toolResults: Array<{ toolCallId: string; result: any }> = [];
+  const toolResults: Array<{
+    toolCallId: string;
+    result: any;
+    images?: ToolResultImage[];
+  }> = [];
 
   if (response.toolCalls && response.toolCalls.length > 0) {
     for (const toolCall of response.toolCalls) {
-      const toolResult = await executeToolWithMCP(
-        context.connection,
+      const toolResult = await executeToolWithApproval(
+        context,
         toolCall.function.name,
         JSON.parse(toolCall.function.arguments)
       );
@@ -164,6 +173,7 @@ export async function sendMessage(
       toolResults.push({
         toolCallId: toolCall.id,
         result: toolResult.result || { status: "executed" },
+        images: toolResult.images,
       });
 
       if (AISDKAdapter.storageAdapter) {
@@ -192,7 +202,12 @@ export async function sendMessage(
       // Include tool results so LLM can summarize
       ...response.toolCalls.map((tc, index) => {
         const result = toolResults[index];
-        return formatToolResultForLLM(tc.id, result.result, tc.function.name);
+        return formatToolResultForLLM(
+          tc.id,
+          result.result,
+          tc.function.name,
+          result.images
+        );
       }),
     ];
 
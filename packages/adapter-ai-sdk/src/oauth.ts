@@ -0,0 +1,480 @@
+import { type FetchFunction } from "@ai-sdk/provider-utils";
+import { AdapterError } from "@mcpconnect/base-adapters";
+import { Connection, OAuthConfig, OAuthTokens } from "@mcpconnect/schemas";
+import { normalizeUrl } from "./utils";
+
+/**
+ * OAuth 2.1 authorization for remote MCP servers as the MCP authorization
+ * spec describes it: Protected Resource Metadata (RFC 9728), authorization
+ * server metadata (RFC 8414), dynamic client registration (RFC 7591) and
+ * the authorization code grant with PKCE.
+ */
+
+export interface ProtectedResourceMetadata {
+  resource: string;
+  authorization_servers?: string[];
+  scopes_supported?: string[];
+}
+
+export interface AuthorizationServerMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  registration_endpoint?: string;
+  scopes_supported?: string[];
+  code_challenge_methods_supported?: string[];
+}
+
+/**
+ * What has to survive between sending the user to the authorization server
+ * and handling its redirect back
+ */
+export interface OAuthPendingAuthorization {
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  config: OAuthConfig;
+}
+
+export interface OAuthAuthorizationRequest {
+  authorizationUrl: string;
+  pending: OAuthPendingAuthorization;
+}
+
+export interface OAuthCallbackParams {
+  code?: string;
+  state?: string;
+  error?: string;
+  errorDescription?: string;
+}
+
+// Tokens this close to expiry are refreshed before they are sent
+const TOKEN_EXPIRY_SKEW = 30000;
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const randomString = (byteLength: number) =>
+  base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+export async function createPKCEChallenge(): Promise<{
+  codeVerifier: string;
+  codeChallenge: string;
+}> {
+  const codeVerifier = randomString(32);
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(codeVerifier)
+  );
+  return {
+    codeVerifier,
+    codeChallenge: base64UrlEncode(new Uint8Array(digest)),
+  };
+}
+
+/**
+ * Read the auth-params of a WWW-Authenticate challenge, e.g.
+ * `Bearer resource_metadata="https://…", scope="files:read"`.
+ */
+export function parseWWWAuthenticate(header: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const pattern = /([a-zA-Z_][\w-]*)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]+))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(header)) !== null) {
+    params[match[1].toLowerCase()] =
+      match[2] !== undefined ? match[2].replace(/\\(.)/g, "$1") : match[3];
+  }
+  return params;
+}
+
+export function isOAuthTokenExpired(tokens: OAuthTokens): boolean {
+  return (
+    tokens.expiresAt !== undefined &&
+    tokens.expiresAt - TOKEN_EXPIRY_SKEW <= Date.now()
+  );
+}
+
+async function fetchMetadata<T>(
+  url: string,
+  fetchFn: FetchFunction
+): Promise<T | undefined> {
+  try {
+    const response = await fetchFn(url, {
+      headers: { Accept: "application/json" },
+    });
+    return response.ok ? ((await response.json()) as T) : undefined;
+  } catch (error) {
+    console.log(`[OAuth] No metadata at ${url}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Send the server an unauthenticated request and return the challenge from
+ * its 401. Browsers only see the header when the server exposes it to CORS.
+ */
+async function probeAuthorizationChallenge(
+  connection: Connection,
+  fetchFn: FetchFunction
+): Promise<string | undefined> {
+  const headers = connection.headers || {};
+
+  try {
+    const response =
+      connection.connectionType === "sse"
+        ? await fetchFn(connection.url, {
+            method: "GET",
+            headers: { ...headers, Accept: "text/event-stream" },
+          })
+        : await fetchFn(connection.url, {
+            method: "POST",
+            headers: {
+              ...headers,
+              "Content-Type": "application/json",
+              Accept: "application/json, text/event-stream",
+            },
+            body: JSON.stringify({
+              jsonrpc: "2.0",
+              id: "oauth-probe",
+              method: "ping",
+            }),
+          });
+    response.body?.cancel().catch(() => {});
+
+    return response.status === 401
+      ? response.headers.get("WWW-Authenticate") || undefined
+      : undefined;
+  } catch (error) {
+    console.log("[OAuth] Probe request failed:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Protected Resource Metadata, from the URL in the 401 challenge when there
+ * is one and otherwise from the well-known locations for the server URL.
+ */
+export async function discoverProtectedResourceMetadata(
+  serverUrl: string,
+  resourceMetadataUrl?: string,
+  fetch?: FetchFunction
+): Promise<ProtectedResourceMetadata | undefined> {
+  const fetchFn = fetch || globalThis.fetch;
+  const url = new URL(serverUrl);
+  const path = normalizeUrl(url.pathname);
+
+  const candidates = resourceMetadataUrl
+    ? [resourceMetadataUrl]
+    : [
+        ...(path
+          ? [`${url.origin}/.well-known/oauth-protected-resource${path}`]
+          : []),
+        `${url.origin}/.well-known/oauth-protected-resource`,
+      ];
+
+  for (const candidate of candidates) {
+    const metadata = await fetchMetadata<ProtectedResourceMetadata>(
+      candidate,
+      fetchFn
+    );
+    if (metadata?.resource) return metadata;
+  }
+  return undefined;
+}
+
+/**
+ * Authorization server metadata via RFC 8414, then OpenID Connect discovery.
+ * Servers that publish neither get the default endpoints the 2025-03-26
+ * spec assigned.
+ */
+export async function discoverAuthorizationServerMetadata(
+  issuer: string,
+  fetch?: FetchFunction
+): Promise<AuthorizationServerMetadata> {
+  const fetchFn = fetch || globalThis.fetch;
+  const url = new URL(issuer);
+  const path = normalizeUrl(url.pathname);
+
+  const candidates = path
+    ? [
+        `${url.origin}/.well-known/oauth-authorization-server${path}`,
+        `${url.origin}/.well-known/openid-configuration${path}`,
+        `${url.origin}${path}/.well-known/openid-configuration`,
+      ]
+    : [
+        `${url.origin}/.well-known/oauth-authorization-server`,
+        `${url.origin}/.well-known/openid-configuration`,
+      ];
+
+  for (const candidate of candidates) {
+    const metadata = await fetchMetadata<AuthorizationServerMetadata>(
+      candidate,
+      fetchFn
+    );
+    if (metadata?.authorization_endpoint && metadata.token_endpoint) {
+      return metadata;
+    }
+  }
+
+  return {
+    issuer: url.origin,
+    authorization_endpoint: `${url.origin}/authorize`,
+    token_endpoint: `${url.origin}/token`,
+    registration_endpoint: `${url.origin}/register`,
+  };
+}
+
+export async function registerOAuthClient(
+  metadata: AuthorizationServerMetadata,
+  redirectUri: string,
+  scope?: string,
+  fetch?: FetchFunction
+): Promise<{ clientId: string; clientSecret?: string }> {
+  if (!metadata.registration_endpoint) {
+    throw new AdapterError(
+      `${metadata.issuer} does not support dynamic client registration. Enter a client ID registered for ${redirectUri}.`,
+      "OAUTH_CLIENT_REQUIRED"
+    );
+  }
+
+  const fetchFn = fetch || globalThis.fetch;
+  const response = await fetchFn(metadata.registration_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({
+      client_name: "MCPConnect",
+      redirect_uris: [redirectUri],
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      token_endpoint_auth_method: "none",
+      ...(scope ? { scope } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new AdapterError(
+      `Client registration failed: ${response.status} ${await response.text()}`,
+      "OAUTH_REGISTRATION_FAILED",
+      { status: response.status }
+    );
+  }
+
+  const client = await response.json();
+  return { clientId: client.client_id, clientSecret: client.client_secret };
+}
+
+/**
+ * Discover the connection's authorization server, register a client if it
+ * has none for this redirect URI, and build the authorization URL to send
+ * the user to.
+ */
+export async function startOAuthAuthorization(
+  connection: Connection,
+  redirectUri: string,
+  fetch?: FetchFunction
+): Promise<OAuthAuthorizationRequest> {
+  const fetchFn = fetch || globalThis.fetch;
+  const config: OAuthConfig = connection.oauth || {};
+
+  const wwwAuthenticate = await probeAuthorizationChallenge(
+    connection,
+    fetchFn
+  );
+  const challenge = wwwAuthenticate
+    ? parseWWWAuthenticate(wwwAuthenticate)
+    : {};
+
+  const resourceMetadata = await discoverProtectedResourceMetadata(
+    connection.url,
+    challenge.resource_metadata,
+    fetchFn
+  );
+  const issuer =
+    resourceMetadata?.authorization_servers?.[0] ||
+    new URL(connection.url).origin;
+  const metadata = await discoverAuthorizationServerMetadata(issuer, fetchFn);
+
+  if (
+    metadata.code_challenge_methods_supported &&
+    !metadata.code_challenge_methods_supported.includes("S256")
+  ) {
+    throw new AdapterError(
+      `${metadata.issuer} does not support PKCE with S256`,
+      "OAUTH_PKCE_UNSUPPORTED"
+    );
+  }
+
+  const scope =
+    config.scope ||
+    challenge.scope ||
+    resourceMetadata?.scopes_supported?.join(" ");
+
+  // Dynamically registered clients only work with the redirect URI and
+  // authorization server they were registered with
+  let { clientId, clientSecret, registeredRedirectUri } = config;
+  const needsRegistration =
+    !clientId ||
+    (registeredRedirectUri !== undefined &&
+      (registeredRedirectUri !== redirectUri ||
+        config.authorizationServer !== metadata.issuer));
+
+  if (needsRegistration) {
+    ({ clientId, clientSecret } = await registerOAuthClient(
+      metadata,
+      redirectUri,
+      scope,
+      fetchFn
+    ));
+    registeredRedirectUri = redirectUri;
+  }
+
+  const resource =
+    resourceMetadata?.resource || normalizeUrl(connection.url.split("#")[0]);
+  const { codeVerifier, codeChallenge } = await createPKCEChallenge();
+  const state = randomString(16);
+
+  const authorizationUrl = new URL(metadata.authorization_endpoint);
+  authorizationUrl.searchParams.set("response_type", "code");
+  authorizationUrl.searchParams.set("client_id", clientId as string);
+  authorizationUrl.searchParams.set("redirect_uri", redirectUri);
+  authorizationUrl.searchParams.set("code_challenge", codeChallenge);
+  authorizationUrl.searchParams.set("code_challenge_method", "S256");
+  authorizationUrl.searchParams.set("state", state);
+  authorizationUrl.searchParams.set("resource", resource);
+  if (scope) {
+    authorizationUrl.searchParams.set("scope", scope);
+  }
+
+  return {
+    authorizationUrl: authorizationUrl.toString(),
+    pending: {
+      state,
+      codeVerifier,
+      redirectUri,
+      config: {
+        ...config,
+        clientId,
+        clientSecret,
+        registeredRedirectUri,
+        authorizationServer: metadata.issuer,
+        tokenEndpoint: metadata.token_endpoint,
+        resource,
+      },
+    },
+  };
+}
+
+async function requestTokens(
+  config: OAuthConfig,
+  params: Record<string, string>,
+  fetchFn: FetchFunction
+): Promise<OAuthTokens> {
+  if (!config.tokenEndpoint || !config.clientId) {
+    throw new AdapterError(
+      "The connection has not been authorized yet",
+      "OAUTH_REQUIRED"
+    );
+  }
+
+  const body = new URLSearchParams({ ...params, client_id: config.clientId });
+  if (config.clientSecret) {
+    body.set("client_secret", config.clientSecret);
+  }
+  if (config.resource) {
+    body.set("resource", config.resource);
+  }
+
+  const response = await fetchFn(config.tokenEndpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Accept: "application/json",
+    },
+    body: body.toString(),
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.access_token) {
+    throw new AdapterError(
+      `Token request failed: ${data.error_description || data.error || `${response.status} ${response.statusText}`}`,
+      "OAUTH_TOKEN_FAILED",
+      { status: response.status, error: data.error }
+    );
+  }
+
+  return {
+    accessToken: data.access_token,
+    tokenType: data.token_type || "Bearer",
+    refreshToken: data.refresh_token,
+    expiresAt:
+      typeof data.expires_in === "number"
+        ? Date.now() + data.expires_in * 1000
+        : undefined,
+    scope: data.scope,
+  };
+}
+
+/**
+ * Exchange the code from the authorization server's redirect for tokens.
+ * Returns the connection's OAuth config with the tokens in place.
+ */
+export async function completeOAuthAuthorization(
+  pending: OAuthPendingAuthorization,
+  callback: OAuthCallbackParams,
+  fetch?: FetchFunction
+): Promise<OAuthConfig> {
+  if (callback.error) {
+    throw new AdapterError(
+      `Authorization failed: ${callback.errorDescription || callback.error}`,
+      "OAUTH_AUTHORIZATION_FAILED",
+      { error: callback.error }
+    );
+  }
+  if (!callback.code || callback.state !== pending.state) {
+    throw new AdapterError(
+      "Authorization response did not match the request",
+      "OAUTH_STATE_MISMATCH"
+    );
+  }
+
+  const tokens = await requestTokens(
+    pending.config,
+    {
+      grant_type: "authorization_code",
+      code: callback.code,
+      redirect_uri: pending.redirectUri,
+      code_verifier: pending.codeVerifier,
+    },
+    fetch || globalThis.fetch
+  );
+
+  return { ...pending.config, tokens };
+}
+
+/**
+ * Trade the refresh token for new tokens, keeping the old refresh token when
+ * the server does not rotate it
+ */
+export async function refreshOAuthTokens(
+  config: OAuthConfig,
+  fetch?: FetchFunction
+): Promise<OAuthTokens> {
+  const refreshToken = config.tokens?.refreshToken;
+  if (!refreshToken) {
+    throw new AdapterError(
+      "The OAuth token expired and cannot be refreshed. Authorize the connection again.",
+      "OAUTH_REQUIRED"
+    );
+  }
+
+  const tokens = await requestTokens(
+    config,
+    { grant_type: "refresh_token", refresh_token: refreshToken },
+    fetch || globalThis.fetch
+  );
+  return { ...tokens, refreshToken: tokens.refreshToken || refreshToken };
+}
@@ -0,0 +1,82 @@
+import { type FetchFunction } from "@ai-sdk/provider-utils";
+import { withLocalServerToken } from "./local-server";
+
+/**
+ * Client for the local server's /api/proxy route, which forwards requests
+ * to servers the browser can't reach directly. Connections opt in with
+ * useProxy.
+ */
+
+export interface ProxyInfo {
+  enabled: boolean;
+  allowedHosts: string[];
+}
+
+let proxyUrl: string | undefined;
+
+/**
+ * Use a proxy other than /api/proxy on the page's own origin, such as
+ * when running outside the browser
+ */
+export function setProxyUrl(url: string | undefined): void {
+  proxyUrl = url;
+}
+
+function getProxyUrl(): string {
+  if (proxyUrl) return proxyUrl;
+  if (typeof window !== "undefined") {
+    return `${window.location.origin}/api/proxy`;
+  }
+  throw new Error("No proxy URL set. Call setProxyUrl() first.");
+}
+
+/**
+ * URL that reaches target through the proxy. WebSocket targets get a
+ * WebSocket URL for the proxy.
+ */
+export function getProxiedUrl(target: string): string {
+  const url = new URL(withLocalServerToken(getProxyUrl()));
+  url.searchParams.set("url", target);
+
+  if (/^wss?:/i.test(target)) {
+    url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  }
+  return url.toString();
+}
+
+/**
+ * Wrap a fetch function so every request goes through the proxy
+ */
+export function createProxyFetch(fetch?: FetchFunction): FetchFunction {
+  const baseFetch = fetch || globalThis.fetch;
+
+  return (input, init) => {
+    // A Request carries its own method, headers and body, so it is copied
+    // to the proxied URL rather than only its URL being used
+    if (typeof input !== "string" && !(input instanceof URL)) {
+      return baseFetch(new Request(getProxiedUrl(input.url), input), init);
+    }
+    return baseFetch(getProxiedUrl(input.toString()), init);
+  };
+}
+
+/**
+ * Whether the server at origin runs the proxy. Resolves to null when the
+ * UI is not served by a server with the proxy turned on.
+ */
+export async function getProxyInfo(
+  origin: string,
+  fetch?: FetchFunction
+): Promise<ProxyInfo | null> {
+  try {
+    const response = await (fetch || globalThis.fetch)(
+      withLocalServerToken(new URL("/api/proxy", origin).toString())
+    );
+    if (!response.ok) return null;
+
+    const info = await response.json();
+    return info?.enabled ? info : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,82 @@
+import { generateText } from "ai";
+import {
+  AdapterError,
+  MCPSamplingMessage,
+  MCPSamplingRequest,
+  MCPSamplingResult,
+} from "@mcpconnect/base-adapters";
+import { AIModel, AIModelMessage } from "./types";
+
+/**
+ * Convert MCP sampling messages to AI SDK messages. Images become image
+ * parts on user turns; anything else non-textual is passed as a file part.
+ */
+function convertSamplingMessages(
+  messages: MCPSamplingMessage[]
+): AIModelMessage[] {
+  return messages.map(({ role, content }) => {
+    if (content.type === "text") {
+      return { role, content: content.text };
+    }
+
+    const filePart = {
+      type: "file" as const,
+      data: content.data,
+      mediaType: content.mimeType,
+    };
+
+    if (role === "user") {
+      return {
+        role,
+        content: [
+          content.type === "image"
+            ? {
+                type: "image" as const,
+                image: content.data,
+                mediaType: content.mimeType,
+              }
+            : filePart,
+        ],
+      };
+    }
+
+    return { role, content: [filePart] };
+  });
+}
+
+function getStopReason(finishReason: string): string {
+  switch (finishReason) {
+    case "stop":
+      return "endTurn";
+    case "length":
+      return "maxTokens";
+    default:
+      return finishReason;
+  }
+}
+
+export async function handleSampling(
+  aiModel: AIModel,
+  request: MCPSamplingRequest,
+  model: string
+): Promise<MCPSamplingResult> {
+  if (!aiModel) {
+    throw new AdapterError("AI model not initialized", "MODEL_NOT_INITIALIZED");
+  }
+
+  const result = await generateText({
+    model: aiModel,
+    system: request.systemPrompt,
+    messages: convertSamplingMessages(request.messages),
+    maxOutputTokens: request.maxTokens,
+    temperature: request.temperature,
+    stopSequences: request.stopSequences,
+  });
+
+  return {
+    role: "assistant",
+    content: { type: "text", text: result.text },
+    model,
+    stopReason: getStopReason(result.finishReason),
+  };
+}
@@ -0,0 +1,147 @@
+import { type FetchFunction } from "@ai-sdk/provider-utils";
+import { AdapterError } from "@mcpconnect/base-adapters";
+import { Connection, StdioProcessStatus } from "@mcpconnect/schemas";
+import { withLocalServerToken } from "./local-server";
+
+/**
+ * Client for the local server's stdio bridge. A stdio connection's url is
+ * the bridge's WebSocket for it, /api/stdio/<id>/ws, and the process is
+ * configured and controlled through the HTTP routes next to it.
+ */
+
+export type StdioProcessAction = "start" | "stop" | "restart";
+
+export interface StdioBridgeInfo {
+  enabled: boolean;
+  platform: string;
+}
+
+/**
+ * WebSocket URL of the bridge for a stdio server, served from origin
+ */
+export function getStdioBridgeUrl(origin: string, key: string): string {
+  const url = new URL(`/api/stdio/${encodeURIComponent(key)}/ws`, origin);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  return url.toString();
+}
+
+/**
+ * HTTP base of the bridge routes for a stdio connection
+ */
+function getStdioProcessUrl(connection: Connection): string {
+  const url = new URL(connection.url);
+  url.protocol = url.protocol === "wss:" ? "https:" : "http:";
+  url.pathname = url.pathname.replace(/\/ws\/?$/, "");
+  return url.toString();
+}
+
+/**
+ * URL of the bridge's event stream, which sends the process's status and
+ * stderr as "status" and "stderr" events
+ */
+export function getStdioEventsUrl(connection: Connection): string {
+  return withLocalServerToken(`${getStdioProcessUrl(connection)}/events`);
+}
+
+async function requestBridge(
+  url: string,
+  init: Parameters<FetchFunction>[1],
+  fetchFn: FetchFunction
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetchFn(withLocalServerToken(url), init);
+  } catch (error) {
+    throw new AdapterError(
+      "Could not reach the stdio bridge. Stdio servers need the UI to be served by the mcpconnect CLI with --stdio.",
+      "STDIO_BRIDGE_UNAVAILABLE",
+      { error }
+    );
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new AdapterError(
+      body?.error || `Stdio bridge request failed: ${response.status}`,
+      "STDIO_BRIDGE_FAILED",
+      { status: response.status }
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Send a connection's command to the bridge. The process starts when the
+ * bridge's WebSocket is opened, and a changed command restarts it.
+ */
+export async function registerStdioProcess(
+  connection: Connection,
+  fetch?: FetchFunction
+): Promise<StdioProcessStatus> {
+  if (!connection.stdio) {
+    throw new AdapterError(
+      "Stdio connections need a command to run",
+      "STDIO_CONFIG_MISSING"
+    );
+  }
+
+  const response = await requestBridge(
+    getStdioProcessUrl(connection),
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(connection.stdio),
+    },
+    fetch || globalThis.fetch
+  );
+  return response.json();
+}
+
+export async function controlStdioProcess(
+  connection: Connection,
+  action: StdioProcessAction,
+  fetch?: FetchFunction
+): Promise<StdioProcessStatus> {
+  const response = await requestBridge(
+    `${getStdioProcessUrl(connection)}/${action}`,
+    { method: "POST" },
+    fetch || globalThis.fetch
+  );
+  return response.json();
+}
+
+/**
+ * Stop a connection's process and forget it
+ */
+export async function deleteStdioProcess(
+  connection: Connection,
+  fetch?: FetchFunction
+): Promise<void> {
+  await requestBridge(
+    getStdioProcessUrl(connection),
+    { method: "DELETE" },
+    fetch || globalThis.fetch
+  );
+}
+
+/**
+ * Whether the server at origin runs stdio servers. Resolves to null when
+ * the UI is not served by a server with the bridge.
+ */
+export async function getStdioBridgeInfo(
+  origin: string,
+  fetch?: FetchFunction
+): Promise<StdioBridgeInfo | null> {
+  try {
+    const response = await (fetch || globalThis.fetch)(
+      withLocalServerToken(new URL("/api/stdio", origin).toString())
+    );
+    if (!response.ok) return null;
+
+    const info = await response.json();
+    return info?.enabled ? info : null;
+  } catch {
+    return null;
+  }
+}
@@ -12,13 +12,18 @@ import {
   ToolSelectionProvider,
   ToolSelectionResult,
 } from "@mcpconnect/schemas";
-import { AIModel, StreamingChatResponse, ChatContext } from "./types";
+import {
+  AIModel,
+  StreamingChatResponse,
+  ChatContext,
+  ExtendedLLMMessage,
+} from "./types";
 import {
   generateId,
   conversationToLLMMessages,
   toolsToLLMFormat,
 } from "./utils";
-import { executeToolWithMCP } from "./tool-executor";
+import { executeToolWithApproval } from "./tool-executor";
 import { AISDKAdapter } from "./ai-sdk-adapter";
 
 /**
@@ -275,7 +280,7 @@ export async function* sendMessageStream(
     toolSelectionCallbacks
   );
 
-  const llmMessages = [
+  const llmMessages: ExtendedLLMMessage[] = [
     ...conversationToLLMMessages(conversationHistory),
     { role: "user" as const, content: userMessage },
   ];
@@ -395,8 +400,9 @@ export async function* sendMessageStream(
             messageOrder: ++messageOrderCounter,
           };
 
-          const toolResult = await executeToolWithMCP(
-            connection,
+          // Waits here for the user when the tool needs approval
+          const toolResult = await executeToolWithApproval(
+            context,
             toolCall.function.name,
             JSON.parse(toolCall.function.arguments)
           );
@@ -411,6 +417,7 @@ export async function* sendMessageStream(
             ),
             toolCallId: toolCall.id,
             name: toolCall.function.name,
+            images: toolResult.images,
           });
 
           yield {
@@ -418,6 +425,7 @@ export async function* sendMessageStream(
             toolName: toolCall.function.name,
             toolResult: toolResult.result,
             toolExecution: toolResult.toolExecution,
+            toolApproval: toolResult.chatMessage.toolApproval,
             messageOrder: messageOrderCounter,
           };
         }
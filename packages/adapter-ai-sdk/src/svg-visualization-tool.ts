@@ -963,5 +963,6 @@ export function createVisualizationTool(): Tool {
     category: "visualization",
     tags: ["system", "visualization", "svg", "graph", "diagram"],
     deprecated: false,
+    annotations: { readOnlyHint: true },
   };
 }
@@ -64,6 +64,7 @@ export class SystemToolsService {
         category: "system",
         tags: ["date", "time", "utility", "system"],
         deprecated: false,
+        annotations: { readOnlyHint: true },
       },
       // Add the visualization tool
       createVisualizationTool(),
@@ -1,13 +1,23 @@
-import { Connection, ChatMessage, ToolExecution } from "@mcpconnect/schemas";
-import { ToolExecutionResult } from "./types";
-import { generateId } from "./utils";
+import {
+  Connection,
+  ChatMessage,
+  ToolExecution,
+  isDestructiveTool,
+} from "@mcpconnect/schemas";
+import { ChatContext, ToolExecutionResult } from "./types";
+import {
+  extractToolResultContent,
+  generateId,
+  summarizeToolResultContent,
+} from "./utils";
 import { MCPService } from "./mcp-service";
 import { SystemToolsService } from "./system-tools";
 
 export async function executeToolWithMCP(
   connection: Connection,
   toolName: string,
-  toolArgs: Record<string, any>
+  toolArgs: Record<string, any>,
+  outputSchema?: Record<string, unknown>
 ): Promise<ToolExecutionResult> {
   const executionId = generateId();
   const startTime = Date.now();
@@ -63,14 +73,28 @@ export async function executeToolWithMCP(
     const mcpResult = await MCPService.executeTool(
       connection,
       toolName,
-      toolArgs
+      toolArgs,
+      outputSchema
     );
 
     const endTime = Date.now();
     const duration = endTime - startTime;
+    const status = mcpResult.cancelled
+      ? "cancelled"
+      : mcpResult.success
+        ? "success"
+        : "error";
 
     // Extract the actual data from MCP response structure
     let cleanResult = mcpResult.result;
+    const structuredContent = (cleanResult as any)?.structuredContent;
+    const { outputValidation } = mcpResult;
+    const content = extractToolResultContent(mcpResult.result);
+    const images = content.flatMap(item =>
+      item.type === "image"
+        ? [{ data: item.data, mimeType: item.mimeType }]
+        : []
+    );
 
     if (
       cleanResult &&
@@ -91,9 +115,13 @@ export async function executeToolWithMCP(
         } catch {
           cleanResult = textContent;
         }
+      } else if (content.length > 0) {
+        cleanResult = summarizeToolResultContent(content);
       }
     }
 
+    const richContent = content.length > 0 ? content : undefined;
+
     const chatMessage: ChatMessage = {
       id: executionId,
       isUser: false,
@@ -101,8 +129,11 @@ export async function executeToolWithMCP(
       timestamp: new Date(),
       toolExecution: {
         toolName,
-        status: mcpResult.success ? "success" : "error",
+        status,
         result: cleanResult,
+        structuredContent,
+        outputValidation,
+        content: richContent,
         error: mcpResult.error,
         timestamp: new Date(),
         startTime,
@@ -125,7 +156,7 @@ export async function executeToolWithMCP(
     const toolExecution: ToolExecution = {
       id: executionId,
       tool: toolName,
-      status: mcpResult.success ? "success" : "error",
+      status,
       duration,
       timestamp: new Date().toISOString(),
       request: {
@@ -137,6 +168,9 @@ export async function executeToolWithMCP(
         ? {
             success: true,
             result: cleanResult,
+            structuredContent,
+            outputValidation,
+            content: richContent,
             timestamp: new Date(endTime).toISOString(),
           }
         : undefined,
@@ -149,6 +183,7 @@ export async function executeToolWithMCP(
       error: mcpResult.error,
       toolExecution,
       chatMessage,
+      images: images.length > 0 ? images : undefined,
     };
   } catch (error) {
     const endTime = Date.now();
@@ -207,3 +242,133 @@ export async function executeToolWithMCP(
     };
   }
 }
+
+/**
+ * Ask the user before the LLM runs a destructive tool. Resolves to undefined
+ * when the context has no approval policy or the tool needs no approval.
+ * Built-in system tools and GraphQL operations don't come from an MCP server,
+ * so they never need it.
+ */
+export async function requestToolApproval(
+  context: ChatContext,
+  toolName: string,
+  toolArgs: Record<string, any>
+): Promise<ChatMessage["toolApproval"]> {
+  const tool = context.tools.find(t => t.name === toolName);
+  if (
+    !context.confirmToolCall ||
+    !tool ||
+    SystemToolsService.isSystemTool(toolName) ||
+    context.connection.connectionType === "graphql" ||
+    !isDestructiveTool(tool)
+  ) {
+    return undefined;
+  }
+
+  let approved = false;
+  try {
+    approved = await context.confirmToolCall({
+      connection: context.connection,
+      tool,
+      arguments: toolArgs,
+    });
+  } catch (error) {
+    console.warn(`[Tool Execution] Approval request failed:`, error);
+  }
+
+  return { decision: approved ? "approved" : "denied", decidedAt: Date.now() };
+}
+
+/**
+ * Result for a tool call the user refused. The LLM is told the tool did not
+ * run so it can carry on without it.
+ */
+export function createDeniedToolResult(
+  connection: Connection,
+  toolName: string,
+  toolArgs: Record<string, any>
+): ToolExecutionResult {
+  const executionId = generateId();
+  const now = Date.now();
+  const error = "Denied by user";
+
+  const chatMessage: ChatMessage = {
+    id: executionId,
+    isUser: false,
+    executingTool: toolName,
+    timestamp: new Date(now),
+    toolExecution: {
+      toolName,
+      status: "cancelled",
+      error,
+      timestamp: new Date(now),
+      startTime: now,
+      endTime: now,
+      duration: 0,
+    },
+    isExecuting: false,
+    metadata: {
+      arguments: toolArgs,
+      executionId,
+      toolType: "mcp",
+      connectionId: connection.id,
+      startTime: now,
+      endTime: now,
+      duration: 0,
+    },
+    isPartial: false,
+  };
+
+  const toolExecution: ToolExecution = {
+    id: executionId,
+    tool: toolName,
+    status: "cancelled",
+    duration: 0,
+    timestamp: new Date(now).toISOString(),
+    request: {
+      tool: toolName,
+      arguments: toolArgs,
+      timestamp: new Date(now).toISOString(),
+    },
+    error,
+  };
+
+  return {
+    success: false,
+    result: {
+      status: "denied",
+      message: "The user declined to run this tool",
+    },
+    error,
+    toolExecution,
+    chatMessage,
+  };
+}
+
+/**
+ * Run a tool the LLM called, stopping for approval first when the context's
+ * policy requires it. The decision is kept on the tool's chat message.
+ */
+export async function executeToolWithApproval(
+  context: ChatContext,
+  toolName: string,
+  toolArgs: Record<string, any>
+): Promise<ToolExecutionResult> {
+  const toolApproval = await requestToolApproval(context, toolName, toolArgs);
+
+  const toolResult =
+    toolApproval?.decision === "denied"
+      ? createDeniedToolResult(context.connection, toolName, toolArgs)
+      : await executeToolWithMCP(
+          context.connection,
+          toolName,
+          toolArgs,
+          context.tools.find(t => t.name === toolName)?.outputSchema
+        );
+
+  if (toolApproval) {
+    toolResult.chatMessage.toolApproval = toolApproval;
+  }
+
+  return toolResult;
+}
@@ -24,6 +24,12 @@ export interface ExtendedLLMMessage extends LLMMessage {
   name?: string; // Tool name for tool messages
   toolCallId?: string; // Tool call ID for tool messages
   toolCalls?: LLMToolCall[]; // Tool calls for assistant messages
+  images?: ToolResultImage[]; // Images returned by the tool for tool messages
+}
+
+export interface ToolResultImage {
+  data: string; // Base64-encoded image data
+  mimeType: string;
 }
 
 export const AISDKConfigSchema = LLMConfigSchema.extend({
@@ -36,6 +42,12 @@ export const AISDKConfigSchema = LLMConfigSchema.extend({
 
 export type AISDKConfig = z.infer<typeof AISDKConfigSchema>;
 
+export interface ToolApprovalRequest {
+  connection: Connection;
+  tool: Tool;
+  arguments: Record<string, any>;
+}
+
 export interface ChatContext {
   connection: Connection;
   tools: Tool[];
@@ -47,6 +59,8 @@ export interface ChatContext {
     fallbackToAll?: boolean;
   };
   toolSelectionCallbacks?: ToolSelectionCallbacks;
+  // When set, tools marked destructive only run once this resolves true
+  confirmToolCall?: (request: ToolApprovalRequest) => Promise<boolean>;
 }
 
 export interface ChatResponse {
@@ -73,6 +87,7 @@ export interface StreamingChatResponse {
   toolName?: string;
   toolResult?: any;
   toolExecution?: ToolExecution;
+  toolApproval?: ChatMessage["toolApproval"];
   assistantMessage?: ChatMessage;
   toolExecutionMessages?: ChatMessage[];
   finalAssistantMessage?: ChatMessage; // NEW: Separate final response message
@@ -89,6 +104,7 @@ export interface ToolExecutionResult {
   error?: string;
   toolExecution: ToolExecution;
   chatMessage: ChatMessage;
+  images?: ToolResultImage[];
 }
 
 export interface LLMSettings {
@@ -5,7 +5,12 @@ import {
   LLMTool,
   MCPToolDefinition,
 } from "@mcpconnect/base-adapters";
-import { Tool, ChatMessage } from "@mcpconnect/schemas";
+import {
+  Tool,
+  ChatMessage,
+  ToolResultContent,
+  ToolResultContentSchema,
+} from "@mcpconnect/schemas";
 import { ExtendedLLMMessage, AIModelMessage } from "./types";
 
 export function generateId(): string {
@@ -64,15 +69,18 @@ export function convertMCPToolToTool(mcpTool: MCPToolDefinition): Tool {
     name: mcpTool.name,
     description: mcpTool.description,
     inputSchema,
+    outputSchema: mcpTool.outputSchema,
     parameters,
     category: "mcp",
     tags: ["mcp", "introspected"],
     deprecated: false,
+    annotations: mcpTool.annotations,
   };
 }
 
 export function convertToAIMessages(
-  messages: (LLMMessage | ExtendedLLMMessage)[]
+  messages: (LLMMessage | ExtendedLLMMessage)[],
+  options: { supportsImages?: boolean } = {}
 ): AIModelMessage[] {
   return messages.map(msg => {
     const content = String(msg.content || "");
@@ -95,6 +103,37 @@ export function convertToAIMessages(
           resultData = content;
         }
 
+        const value =
+          typeof resultData === "string"
+            ? resultData
+            : JSON.stringify(resultData);
+        const images = (msg as ExtendedLLMMessage).images;
+
+        // Models that accept images get them as media parts next to the text
+        if (options.supportsImages && images?.length) {
+          return {
+            role: "tool" as const,
+            content: [
+              {
+                type: "tool-result" as const,
+                toolCallId: toolCallId,
+                toolName: toolName,
+                output: {
+                  type: "content" as const,
+                  value: [
+                    { type: "text" as const, text: value },
+                    ...images.map(image => ({
+                      type: "media" as const,
+                      data: image.data,
+                      mediaType: image.mimeType,
+                    })),
+                  ],
+                },
+              },
+            ],
+          };
+        }
+
         // AI SDK v5 expects tool messages with this exact structure
         return {
           role: "tool" as const,
@@ -105,10 +144,7 @@ export function convertToAIMessages(
               toolName: toolName,
               output: {
                 type: "text" as const,
-                value:
-                  typeof resultData === "string"
-                    ? resultData
-                    : JSON.stringify(resultData),
+                value,
               },
             },
           ],
@@ -336,6 +372,227 @@ export function jsonSchemaPropertyToZod(propSchema: any): z.ZodTypeAny {
   }
 }
 
+const describeJsonType = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+const matchesJsonType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+const isSameJsonValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Check a value against a JSON Schema and describe every violation by its
+ * path. Covers the keywords servers use in tool output schemas; anything
+ * else (such as $ref) is not checked.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: any,
+  path = "$"
+): string[] {
+  if (!schema || typeof schema !== "object") {
+    return [];
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+    if (!types.some(type => matchesJsonType(value, type))) {
+      return [
+        `${path}: expected ${types.join(" or ")}, got ${describeJsonType(value)}`,
+      ];
+    }
+  }
+
+  const errors: string[] = [];
+
+  if (schema.const !== undefined && !isSameJsonValue(value, schema.const)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((option: unknown) => isSameJsonValue(option, value))
+  ) {
+    errors.push(
+      `${path}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(", ")}`
+    );
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) {
+          errors.push(`${path}: must match pattern ${schema.pattern}`);
+        }
+      } catch {
+        // An invalid pattern is the schema's problem, not the value's
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+    if (
+      typeof schema.exclusiveMinimum === "number" &&
+      value <= schema.exclusiveMinimum
+    ) {
+      errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (
+      typeof schema.exclusiveMaximum === "number" &&
+      value >= schema.exclusiveMaximum
+    ) {
+      errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === "object") {
+      value.forEach((item, index) => {
+        errors.push(
+          ...validateJsonSchema(item, schema.items, `${path}[${index}]`)
+        );
+      });
+    }
+  }
+
+  if (matchesJsonType(value, "object")) {
+    const record = value as Record<string, unknown>;
+    const properties: Record<string, unknown> = schema.properties || {};
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (!(key in record)) {
+          errors.push(`${path}: missing required property "${key}"`);
+        }
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      if (key in properties) {
+        errors.push(
+          ...validateJsonSchema(
+            propertyValue,
+            properties[key],
+            `${path}.${key}`
+          )
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateJsonSchema(
+            propertyValue,
+            schema.additionalProperties,
+            `${path}.${key}`
+          )
+        );
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      errors.push(...validateJsonSchema(value, subschema, path));
+    }
+  }
+
+  if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+    const branches: unknown[] = schema.anyOf || schema.oneOf;
+    const matching = branches.filter(
+      subschema => validateJsonSchema(value, subschema, path).length === 0
+    ).length;
+
+    if (matching === 0) {
+      errors.push(`${path}: does not match any of the allowed schemas`);
+    } else if (schema.oneOf && matching > 1) {
+      errors.push(`${path}: matches more than one schema in oneOf`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Non-text items from an MCP tool result's content array. Items that do not
+ * match a known content type are dropped.
+ */
+export function extractToolResultContent(result: unknown): ToolResultContent[] {
+  const content = (result as { content?: unknown } | undefined)?.content;
+  if (!Array.isArray(content)) return [];
+
+  return content.flatMap(item => {
+    const parsed = ToolResultContentSchema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+/**
+ * Describe rich content for an LLM without the base64 payloads, which would
+ * only burn context as text
+ */
+export function summarizeToolResultContent(
+  content: ToolResultContent[]
+): Record<string, unknown>[] {
+  return content.map(item => {
+    switch (item.type) {
+      case "image":
+      case "audio":
+        return { type: item.type, mimeType: item.mimeType };
+      case "resource": {
+        const { blob, ...resource } = item.resource;
+        return {
+          type: item.type,
+          resource:
+            blob === undefined
+              ? resource
+              : { ...resource, blob: "(binary omitted)" },
+        };
+      }
+      case "resource_link":
+        return item;
+    }
+  });
+}
+
 export function createThinkingMessage(): ChatMessage {
   return {
     id: Math.random().toString(36).substring(2, 15),
@@ -374,8 +631,9 @@ export function validateChatContext(context: any): boolean {
 export function formatToolResultForLLM(
   toolCallId: string,
   result: any,
-  toolName: string
-): LLMMessage {
+  toolName: string,
+  images?: ExtendedLLMMessage["images"]
+): ExtendedLLMMessage {
   let formattedResult = result || { status: "completed" };
 
   if (formattedResult.content && Array.isArray(formattedResult.content)) {
@@ -398,6 +656,7 @@ export function formatToolResultForLLM(
     content: JSON.stringify(formattedResult),
     toolCallId,
     name: toolName,
+    ...(images?.length ? { images } : {}),
   };
 }
 
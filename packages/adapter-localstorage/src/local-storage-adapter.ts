@@ -12,6 +12,8 @@ import {
   ChatConversation,
   Tool,
   Resource,
+  ResourceTemplate,
+  Prompt,
   ToolExecution,
 } from "@mcpconnect/schemas";
 import { z } from "zod";
@@ -269,6 +271,64 @@ export class LocalStorageAdapter extends StorageAdapter {
     });
   }
 
+  /**
+   * Get resource templates for a connection with proper typing
+   */
+  async getConnectionResourceTemplates(
+    connectionId: string
+  ): Promise<ResourceTemplate[]> {
+    const allTemplates = await this.get("resourceTemplates");
+    const templatesData =
+      (allTemplates?.value as Record<string, ResourceTemplate[]>) || {};
+    return templatesData[connectionId] || [];
+  }
+
+  /**
+   * Store resource templates for a connection with proper typing
+   */
+  async setConnectionResourceTemplates(
+    connectionId: string,
+    resourceTemplates: ResourceTemplate[]
+  ): Promise<void> {
+    const allTemplates = await this.get("resourceTemplates");
+    const templatesData =
+      (allTemplates?.value as Record<string, ResourceTemplate[]>) || {};
+    templatesData[connectionId] = resourceTemplates;
+    await this.set("resourceTemplates", templatesData, {
+      type: "object",
+      tags: ["mcp", "resource-templates"],
+      compress: true,
+      encrypt: false,
+    });
+  }
+
+  /**
+   * Get prompts for a connection with proper typing
+   */
+  async getConnectionPrompts(connectionId: string): Promise<Prompt[]> {
+    const allPrompts = await this.get("prompts");
+    const promptsData = (allPrompts?.value as Record<string, Prompt[]>) || {};
+    return promptsData[connectionId] || [];
+  }
+
+  /**
+   * Store prompts for a connection with proper typing
+   */
+  async setConnectionPrompts(
+    connectionId: string,
+    prompts: Prompt[]
+  ): Promise<void> {
+    const allPrompts = await this.get("prompts");
+    const promptsData = (allPrompts?.value as Record<string, Prompt[]>) || {};
+    promptsData[connectionId] = prompts;
+    await this.set("prompts", promptsData, {
+      type: "object",
+      tags: ["mcp", "prompts"],
+      compress: true,
+      encrypt: false,
+    });
+  }
+
   /**
    * Get conversations for a connection with proper typing
    */
@@ -381,6 +441,25 @@ export class LocalStorageAdapter extends StorageAdapter {
       updates.push(this.set("resources", resourcesData));
     }
 
+    // Remove from resource templates
+    const allTemplates = await this.get("resourceTemplates");
+    if (allTemplates?.value) {
+      const templatesData = allTemplates.value as Record<
+        string,
+        ResourceTemplate[]
+      >;
+      delete templatesData[connectionId];
+      updates.push(this.set("resourceTemplates", templatesData));
+    }
+
+    // Remove from prompts
+    const allPrompts = await this.get("prompts");
+    if (allPrompts?.value) {
+      const promptsData = allPrompts.value as Record<string, Prompt[]>;
+      delete promptsData[connectionId];
+      updates.push(this.set("prompts", promptsData));
+    }
+
     // Remove from conversations
     const allConversations = await this.get("conversations");
     if (allConversations?.value) {
@@ -38,16 +38,45 @@ export {
   type MCPServerInfo,
   type MCPToolDefinition,
   type MCPResourceDefinition,
+  type MCPResourceTemplateDefinition,
+  type MCPPromptDefinition,
   type MCPMessage,
+  type MCPNotification,
+  type MCPServerRequest,
+  type MCPServerRequestHandler,
+  type MCPSamplingContent,
+  type MCPSamplingMessage,
+  type MCPSamplingRequest,
+  type MCPSamplingResult,
+  type MCPElicitationRequest,
+  type MCPElicitationResult,
+  type MCPCompletionReference,
+  type MCPCompletionResult,
   type MCPConnectionResult,
+  type MCPIntrospectionProgress,
   type MCPToolExecutionResult,
+  type MCPResourceReadResult,
   MCPCapabilitiesSchema,
   MCPServerInfoSchema,
   MCPToolDefinitionSchema,
   MCPResourceDefinitionSchema,
+  MCPResourceTemplateDefinitionSchema,
+  MCPPromptDefinitionSchema,
   MCPMessageSchema,
+  MCPNotificationSchema,
+  MCPServerRequestSchema,
+  MCPSamplingContentSchema,
+  MCPSamplingMessageSchema,
+  MCPSamplingRequestSchema,
+  MCPSamplingResultSchema,
+  MCPElicitationRequestSchema,
+  MCPElicitationResultSchema,
+  MCPCompletionReferenceSchema,
+  MCPCompletionResultSchema,
   MCPConnectionResultSchema,
+  MCPIntrospectionProgressSchema,
   MCPToolExecutionResultSchema,
+  MCPResourceReadResultSchema,
   MCPConfigSchema,
 } from "./mcp-adapter";
 
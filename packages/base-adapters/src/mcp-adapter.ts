@@ -1,6 +1,16 @@
 import { z } from "zod";
 import { BaseConfigSchema, AdapterError, AdapterStatus } from "./types";
-import { Connection, Tool, Resource } from "@mcpconnect/schemas";
+import {
+  Connection,
+  IntrospectionListSchema,
+  ProtocolVersionSchema,
+  Tool,
+  Resource,
+  ResourceTemplate,
+  Prompt,
+  OutputValidationSchema,
+  ToolAnnotationsSchema,
+} from "@mcpconnect/schemas";
 
 /**
  * MCP capabilities schema
@@ -10,6 +20,7 @@ export const MCPCapabilitiesSchema = z.object({
   resources: z.boolean().optional(),
   prompts: z.boolean().optional(),
   logging: z.boolean().optional(),
+  completions: z.boolean().optional(),
   experimental: z.record(z.string(), z.boolean()).optional(),
 });
 
@@ -38,6 +49,8 @@ export const MCPToolDefinitionSchema = z.object({
     properties: z.record(z.string(), z.unknown()),
     required: z.array(z.string()).optional(),
   }),
+  outputSchema: z.record(z.string(), z.unknown()).optional(),
+  annotations: ToolAnnotationsSchema.optional(),
 });
 
 export type MCPToolDefinition = z.infer<typeof MCPToolDefinitionSchema>;
@@ -60,6 +73,41 @@ export const MCPResourceDefinitionSchema = z.object({
 
 export type MCPResourceDefinition = z.infer<typeof MCPResourceDefinitionSchema>;
 
+/**
+ * MCP resource template definition schema
+ */
+export const MCPResourceTemplateDefinitionSchema = z.object({
+  uriTemplate: z.string(),
+  name: z.string(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  mimeType: z.string().optional(),
+});
+
+export type MCPResourceTemplateDefinition = z.infer<
+  typeof MCPResourceTemplateDefinitionSchema
+>;
+
+/**
+ * MCP prompt definition schema
+ */
+export const MCPPromptDefinitionSchema = z.object({
+  name: z.string(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  arguments: z
+    .array(
+      z.object({
+        name: z.string(),
+        description: z.string().optional(),
+        required: z.boolean().optional(),
+      })
+    )
+    .optional(),
+});
+
+export type MCPPromptDefinition = z.infer<typeof MCPPromptDefinitionSchema>;
+
 /**
  * MCP message schema
  */
@@ -80,6 +128,148 @@ export const MCPMessageSchema = z.object({
 
 export type MCPMessage = z.infer<typeof MCPMessageSchema>;
 
+/**
+ * MCP server notification schema, tagged with the connection URL it arrived on
+ */
+export const MCPNotificationSchema = z.object({
+  connectionUrl: z.string(),
+  method: z.string(),
+  params: z.record(z.string(), z.unknown()).optional(),
+  receivedAt: z.string(),
+});
+
+export type MCPNotification = z.infer<typeof MCPNotificationSchema>;
+
+/**
+ * MCP server-to-client request schema, tagged with the connection URL it
+ * arrived on
+ */
+export const MCPServerRequestSchema = MCPNotificationSchema.extend({
+  id: z.union([z.string(), z.number()]),
+});
+
+export type MCPServerRequest = z.infer<typeof MCPServerRequestSchema>;
+
+/**
+ * Answers a server-to-client request. The resolved value becomes the
+ * JSON-RPC result; a thrown AdapterError whose details carry a numeric
+ * `code` becomes a JSON-RPC error with that code.
+ */
+export type MCPServerRequestHandler = (
+  request: MCPServerRequest
+) => Promise<unknown>;
+
+/**
+ * MCP sampling message content schema
+ */
+export const MCPSamplingContentSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), text: z.string() }),
+  z.object({
+    type: z.literal("image"),
+    data: z.string(),
+    mimeType: z.string(),
+  }),
+  z.object({
+    type: z.literal("audio"),
+    data: z.string(),
+    mimeType: z.string(),
+  }),
+]);
+
+export type MCPSamplingContent = z.infer<typeof MCPSamplingContentSchema>;
+
+/**
+ * MCP sampling message schema
+ */
+export const MCPSamplingMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: MCPSamplingContentSchema,
+});
+
+export type MCPSamplingMessage = z.infer<typeof MCPSamplingMessageSchema>;
+
+/**
+ * MCP sampling/createMessage request params schema
+ */
+export const MCPSamplingRequestSchema = z.object({
+  messages: z.array(MCPSamplingMessageSchema),
+  modelPreferences: z
+    .object({
+      hints: z.array(z.object({ name: z.string().optional() })).optional(),
+      costPriority: z.number().min(0).max(1).optional(),
+      speedPriority: z.number().min(0).max(1).optional(),
+      intelligencePriority: z.number().min(0).max(1).optional(),
+    })
+    .optional(),
+  systemPrompt: z.string().optional(),
+  includeContext: z.enum(["none", "thisServer", "allServers"]).optional(),
+  temperature: z.number().optional(),
+  maxTokens: z.number().int().positive(),
+  stopSequences: z.array(z.string()).optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+export type MCPSamplingRequest = z.infer<typeof MCPSamplingRequestSchema>;
+
+/**
+ * MCP sampling/createMessage result schema
+ */
+export const MCPSamplingResultSchema = z.object({
+  role: z.literal("assistant"),
+  content: MCPSamplingContentSchema,
+  model: z.string(),
+  stopReason: z.string().optional(),
+});
+
+export type MCPSamplingResult = z.infer<typeof MCPSamplingResultSchema>;
+
+/**
+ * MCP elicitation/create request params schema
+ */
+export const MCPElicitationRequestSchema = z.object({
+  message: z.string(),
+  requestedSchema: z.object({
+    type: z.literal("object"),
+    properties: z.record(z.string(), z.record(z.string(), z.unknown())),
+    required: z.array(z.string()).optional(),
+  }),
+});
+
+export type MCPElicitationRequest = z.infer<typeof MCPElicitationRequestSchema>;
+
+/**
+ * MCP elicitation/create result schema
+ */
+export const MCPElicitationResultSchema = z.object({
+  action: z.enum(["accept", "decline", "cancel"]),
+  content: z.record(z.string(), z.unknown()).optional(),
+});
+
+export type MCPElicitationResult = z.infer<typeof MCPElicitationResultSchema>;
+
+/**
+ * MCP completion/complete reference schema
+ */
+export const MCPCompletionReferenceSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("ref/prompt"), name: z.string() }),
+  z.object({ type: z.literal("ref/resource"), uri: z.string() }),
+]);
+
+export type MCPCompletionReference = z.infer<
+  typeof MCPCompletionReferenceSchema
+>;
+
+/**
+ * MCP completion/complete result schema
+ */
+export const MCPCompletionResultSchema = z.object({
+  values: z.array(z.string()),
+  total: z.number().optional(),
+  hasMore: z.boolean().optional(),
+});
+
+export type MCPCompletionResult = z.infer<typeof MCPCompletionResultSchema>;
+
 /**
  * MCP connection result schema
  */
@@ -89,11 +279,30 @@ export const MCPConnectionResultSchema = z.object({
   capabilities: MCPCapabilitiesSchema.optional(),
   tools: z.array(z.unknown()),
   resources: z.array(z.unknown()),
+  resourceTemplates: z.array(z.unknown()).optional(),
+  prompts: z.array(z.unknown()).optional(),
+  incompleteLists: z.array(IntrospectionListSchema).optional(),
+  protocolVersion: z.string().optional(),
   error: z.string().optional(),
+  // The server wants an OAuth token the connection does not have
+  authorizationRequired: z.boolean().optional(),
 });
 
 export type MCPConnectionResult = z.infer<typeof MCPConnectionResultSchema>;
 
+/**
+ * MCP introspection progress schema, reported after each page of a list
+ */
+export const MCPIntrospectionProgressSchema = z.object({
+  list: IntrospectionListSchema,
+  page: z.number(),
+  itemCount: z.number(),
+});
+
+export type MCPIntrospectionProgress = z.infer<
+  typeof MCPIntrospectionProgressSchema
+>;
+
 /**
  * MCP tool execution result schema
  */
@@ -101,6 +310,8 @@ export const MCPToolExecutionResultSchema = z.object({
   success: z.boolean(),
   result: z.unknown().optional(),
   error: z.string().optional(),
+  cancelled: z.boolean().optional(),
+  outputValidation: OutputValidationSchema.optional(),
   execution: z.unknown(),
 });
 
@@ -108,12 +319,26 @@ export type MCPToolExecutionResult = z.infer<
   typeof MCPToolExecutionResultSchema
 >;
 
+/**
+ * MCP resource read result schema
+ */
+export const MCPResourceReadResultSchema = z.object({
+  success: z.boolean(),
+  contents: z.array(z.unknown()).optional(),
+  error: z.string().optional(),
+  execution: z.unknown(),
+});
+
+export type MCPResourceReadResult = z.infer<typeof MCPResourceReadResultSchema>;
+
 /**
  * MCP configuration schema
  */
 export const MCPConfigSchema = BaseConfigSchema.extend({
   provider: z.literal("mcp"),
-  protocolVersion: z.string().default("2024-11-05"),
+  // Requested for connections that do not pick a version
+  protocolVersion: ProtocolVersionSchema.default("2025-06-18"),
+  maxListPages: z.number().int().positive().default(50),
   clientInfo: z.object({
     name: z.string(),
     version: z.string(),
@@ -212,10 +437,12 @@ export abstract class MCPAdapter {
       name: mcpTool.name,
       description: mcpTool.description,
       inputSchema: mcpTool.inputSchema,
+      outputSchema: mcpTool.outputSchema,
       parameters,
       category: "mcp",
       tags: ["mcp", "introspected"],
       deprecated: false,
+      annotations: mcpTool.annotations,
     };
   }
 
@@ -246,6 +473,39 @@ export abstract class MCPAdapter {
     };
   }
 
+  /**
+   * Convert MCP resource template definition to internal ResourceTemplate format utility
+   */
+  protected convertMCPResourceTemplateToResourceTemplate(
+    mcpTemplate: MCPResourceTemplateDefinition
+  ): ResourceTemplate {
+    return {
+      uriTemplate: mcpTemplate.uriTemplate,
+      name: mcpTemplate.name,
+      title: mcpTemplate.title,
+      description: mcpTemplate.description,
+      mimeType: mcpTemplate.mimeType,
+      tags: ["mcp", "introspected"],
+    };
+  }
+
+  /**
+   * Convert MCP prompt definition to internal Prompt format utility
+   */
+  protected convertMCPPromptToPrompt(mcpPrompt: MCPPromptDefinition): Prompt {
+    return {
+      name: mcpPrompt.name,
+      title: mcpPrompt.title,
+      description: mcpPrompt.description,
+      arguments: mcpPrompt.arguments?.map(arg => ({
+        name: arg.name,
+        description: arg.description,
+        required: arg.required ?? false,
+      })),
+      tags: ["mcp", "introspected"],
+    };
+  }
+
   /**
    * Handle errors consistently utility
    */
@@ -316,18 +576,16 @@ export abstract class MCPAdapter {
       Math.random().toString(36).substring(2, 15) +
       Math.random().toString(36).substring(2, 15);
 
+    // Optional settings like roots and OAuth are carried over as given
     return {
+      ...connectionData,
       id: generateId(),
-      name: connectionData.name,
-      url: connectionData.url,
       connectionType: connectionData.connectionType || "sse",
       isActive: false,
       isConnected: false,
-      headers: connectionData.headers,
       timeout: connectionData.timeout || 30000,
       retryAttempts: connectionData.retryAttempts || 3,
       authType: connectionData.authType || "none",
-      credentials: connectionData.credentials,
     };
   }
 
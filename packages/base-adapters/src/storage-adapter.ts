@@ -242,6 +242,50 @@ export abstract class StorageAdapter {
     return resourcesData[connectionId] || [];
   }
 
+  /**
+   * Store resource templates for a connection
+   */
+  async setConnectionResourceTemplates(
+    connectionId: string,
+    resourceTemplates: any[]
+  ): Promise<void> {
+    const allTemplates = await this.get("resourceTemplates");
+    const templatesData = (allTemplates?.value as Record<string, any[]>) || {};
+    templatesData[connectionId] = resourceTemplates;
+    await this.set("resourceTemplates", templatesData);
+  }
+
+  /**
+   * Get resource templates for a connection
+   */
+  async getConnectionResourceTemplates(connectionId: string): Promise<any[]> {
+    const item = await this.get("resourceTemplates");
+    const templatesData = (item?.value as Record<string, any[]>) || {};
+    return templatesData[connectionId] || [];
+  }
+
+  /**
+   * Store prompts for a connection
+   */
+  async setConnectionPrompts(
+    connectionId: string,
+    prompts: any[]
+  ): Promise<void> {
+    const allPrompts = await this.get("prompts");
+    const promptsData = (allPrompts?.value as Record<string, any[]>) || {};
+    promptsData[connectionId] = prompts;
+    await this.set("prompts", promptsData);
+  }
+
+  /**
+   * Get prompts for a connection
+   */
+  async getConnectionPrompts(connectionId: string): Promise<any[]> {
+    const item = await this.get("prompts");
+    const promptsData = (item?.value as Record<string, any[]>) || {};
+    return promptsData[connectionId] || [];
+  }
+
   /**
    * Store conversations for a connection
    */
@@ -332,6 +376,22 @@ export abstract class StorageAdapter {
       await this.set("resources", resourcesData);
     }
 
+    // Remove from resource templates
+    const allTemplates = await this.get("resourceTemplates");
+    if (allTemplates?.value) {
+      const templatesData = allTemplates.value as Record<string, any[]>;
+      delete templatesData[connectionId];
+      await this.set("resourceTemplates", templatesData);
+    }
+
+    // Remove from prompts
+    const allPrompts = await this.get("prompts");
+    if (allPrompts?.value) {
+      const promptsData = allPrompts.value as Record<string, any[]>;
+      delete promptsData[connectionId];
+      await this.set("prompts", promptsData);
+    }
+
     // Remove from conversations
     const allConversations = await this.get("conversations");
     if (allConversations?.value) {
@@ -1,10 +1,48 @@
 #!/usr/bin/env node
 
-import { program } from "commander";
-import { startServer } from "@mcpconnect/server";
+import { Option, program } from "commander";
+import {
+  startMockOAuthServer,
+  startReferenceServer,
+  startServer,
+} from "@mcpconnect/server";
+import { MCPService, runConformanceChecks } from "@mcpconnect/adapter-ai-sdk";
+import { ConformanceStatus, ProtocolVersionSchema } from "@mcpconnect/schemas";
 import chalk from "chalk";
 import ora from "ora";
 import open from "open";
+import { WebSocket as NodeWebSocket } from "ws";
+
+const parseHostList = (hosts?: string): string[] =>
+  hosts
+    ? hosts
+        .split(",")
+        .map(host => host.trim())
+        .filter(Boolean)
+    : [];
+
+const parseHeaders = (headers: string[] = []): Record<string, string> =>
+  Object.fromEntries(
+    headers.map(header => {
+      const separator = header.indexOf(":");
+      if (separator < 1) {
+        throw new Error(
+          `Headers must look like "Name: value", got "${header}"`
+        );
+      }
+      return [
+        header.slice(0, separator).trim(),
+        header.slice(separator + 1).trim(),
+      ];
+    })
+  );
+
+const STATUS_LABELS: Record<ConformanceStatus, string> = {
+  pass: chalk.green("PASS"),
+  warn: chalk.yellow("WARN"),
+  fail: chalk.red("FAIL"),
+  skip: chalk.gray("SKIP"),
+};
 
 program.name("mcpconnect").description("MCPConnect CLI tool").version("0.0.0");
 
@@ -16,6 +54,11 @@ program
   .option("--no-open", "Don't automatically open browser")
   .option("--no-cors", "Disable CORS")
   .option("--no-helmet", "Disable security headers")
+  .option("--stdio", "Let the UI run stdio MCP servers on this machine")
+  .option(
+    "--proxy <hosts>",
+    "Let the UI reach these comma-separated hosts through /api/proxy (* for any)"
+  )
   .action(async options => {
     const spinner = ora("Starting MCPConnect server...").start();
 
@@ -25,6 +68,8 @@ program
         host: options.host,
         cors: options.cors,
         helmet: options.helmet,
+        stdio: options.stdio,
+        proxyAllowlist: parseHostList(options.proxy),
       });
 
       spinner.succeed(chalk.green(`MCPConnect server started successfully!`));
@@ -52,6 +97,208 @@ program
     }
   });
 
+program
+  .command("mock-oauth")
+  .description(
+    "Start a mock OAuth authorization server and the MCP server it protects"
+  )
+  .option("-p, --port <port>", "Port to run the mock server on", "3002")
+  .option("-h, --host <host>", "Host to bind the mock server to", "localhost")
+  .option(
+    "--token-lifetime <seconds>",
+    "Access token lifetime, short to exercise refreshing",
+    "300"
+  )
+  .action(async options => {
+    const spinner = ora("Starting mock OAuth server...").start();
+
+    try {
+      const { url, mcpUrl } = await startMockOAuthServer({
+        port: parseInt(options.port),
+        host: options.host,
+        tokenLifetime: parseInt(options.tokenLifetime),
+      });
+
+      spinner.succeed(chalk.green(`Mock OAuth server started!`));
+      console.log(
+        `\n${chalk.blue("🔐 Authorization server:")} ${chalk.cyan(url)}`
+      );
+      console.log(`${chalk.blue("🧰 MCP endpoint:")} ${chalk.cyan(mcpUrl)}`);
+      console.log(
+        chalk.gray(
+          "Add it as a Streamable HTTP connection with OAuth 2.1 authentication.\n"
+        )
+      );
+
+      process.on("SIGINT", () => {
+        console.log(chalk.yellow("\n🛑 Shutting down mock OAuth server..."));
+        process.exit(0);
+      });
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to start mock OAuth server"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error))
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("reference-server")
+  .description(
+    "Start a reference MCP server to run the conformance checks against"
+  )
+  .option("-p, --port <port>", "Port to run the reference server on", "3003")
+  .option(
+    "-h, --host <host>",
+    "Host to bind the reference server to",
+    "localhost"
+  )
+  .option(
+    "--broken",
+    "Get things deliberately wrong, so every check has something to catch"
+  )
+  .action(async options => {
+    const spinner = ora("Starting reference server...").start();
+
+    try {
+      const { mcpUrl } = await startReferenceServer({
+        port: parseInt(options.port),
+        host: options.host,
+        broken: options.broken,
+      });
+
+      spinner.succeed(
+        chalk.green(
+          `Reference server started${options.broken ? " in broken mode" : ""}!`
+        )
+      );
+      console.log(`\n${chalk.blue("🧰 MCP endpoint:")} ${chalk.cyan(mcpUrl)}`);
+      console.log(chalk.gray(`Check it with: mcpconnect check ${mcpUrl}\n`));
+
+      process.on("SIGINT", () => {
+        console.log(chalk.yellow("\n🛑 Shutting down reference server..."));
+        process.exit(0);
+      });
+    } catch (error) {
+      spinner.fail(chalk.red("Failed to start reference server"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error))
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("check")
+  .description("Run the protocol conformance checks against an MCP server")
+  .argument("<url>", "URL of the MCP server")
+  .addOption(
+    new Option("-t, --type <type>", "Transport to connect with")
+      .choices(["http", "sse", "websocket"])
+      .default("http")
+  )
+  .option("-H, --header <header...>", 'Extra request headers, as "Name: value"')
+  .addOption(
+    new Option(
+      "--protocol-version <version>",
+      "Protocol version to request, the latest when unset"
+    ).choices(ProtocolVersionSchema.options)
+  )
+  .option("--timeout <ms>", "Request timeout in milliseconds", "30000")
+  .option("--json", "Print the report as JSON")
+  .option("--verbose", "Show the client's request logging")
+  .action(async (url, options) => {
+    const spinner = options.json
+      ? undefined
+      : ora("Running conformance checks...").start();
+
+    // The client logs every request and every error the checks provoke on
+    // purpose, which would bury the report
+    const { log, warn, error: logError } = console;
+    if (!options.verbose) {
+      console.log = console.warn = console.error = () => {};
+    }
+    const restoreConsole = () => {
+      Object.assign(console, { log, warn, error: logError });
+    };
+
+    // The client connects with the global WebSocket, which Node only has
+    // from version 22
+    if (typeof globalThis.WebSocket === "undefined") {
+      globalThis.WebSocket = NodeWebSocket as unknown as typeof WebSocket;
+    }
+
+    try {
+      const connection = MCPService.createConnection({
+        name: url,
+        url,
+        connectionType: options.type,
+        isActive: true,
+        isConnected: false,
+        headers: parseHeaders(options.header),
+        timeout: parseInt(options.timeout),
+        retryAttempts: 0,
+        authType: "none",
+        credentials: {},
+        protocolVersion: options.protocolVersion,
+      });
+
+      const report = await runConformanceChecks(connection, {
+        onResult: result => {
+          if (spinner) spinner.text = `Checked: ${result.title}`;
+        },
+      });
+      await MCPService.disconnect(connection).catch(() => {});
+      restoreConsole();
+
+      const { summary } = report;
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        process.exit(summary.fail > 0 ? 1 : 0);
+      }
+
+      const counts = `${summary.pass} passed, ${summary.warn} warnings, ${summary.fail} failed, ${summary.skip} skipped`;
+      if (summary.fail > 0) {
+        spinner?.fail(chalk.red(counts));
+      } else {
+        spinner?.succeed(chalk.green(counts));
+      }
+
+      const server = report.serverInfo
+        ? [report.serverInfo.name, report.serverInfo.version]
+            .filter(Boolean)
+            .join(" ")
+        : url;
+      console.log(
+        `\n${chalk.blue("🧪 Server:")} ${chalk.cyan(server)} ${chalk.gray(
+          `over ${report.transport}${report.protocolVersion ? `, protocol ${report.protocolVersion}` : ""}`
+        )}\n`
+      );
+
+      report.results.forEach(result => {
+        console.log(
+          `  ${STATUS_LABELS[result.status]}  ${result.title} ${chalk.gray(
+            `- ${result.message}`
+          )}`
+        );
+        result.details?.forEach(detail => {
+          console.log(chalk.gray(`          ${detail}`));
+        });
+      });
+      console.log();
+
+      process.exit(summary.fail > 0 ? 1 : 0);
+    } catch (error) {
+      restoreConsole();
+      spinner?.fail(chalk.red("Failed to run conformance checks"));
+      console.error(
+        chalk.red(error instanceof Error ? error.message : String(error))
+      );
+      process.exit(1);
+    }
+  });
+
 // Default command - start server
 program
   .argument("[port]", "Port to run server on (default: 3001)")
@@ -59,6 +306,11 @@ program
   .option("--no-open", "Don't automatically open browser")
   .option("--no-cors", "Disable CORS")
   .option("--no-helmet", "Disable security headers")
+  .option("--stdio", "Let the UI run stdio MCP servers on this machine")
+  .option(
+    "--proxy <hosts>",
+    "Let the UI reach these comma-separated hosts through /api/proxy (* for any)"
+  )
   .action(async (port, options) => {
     const spinner = ora("Starting MCPConnect server...").start();
 
@@ -69,6 +321,8 @@ program
         host: options.host,
         cors: options.cors,
         helmet: options.helmet,
+        stdio: options.stdio,
+        proxyAllowlist: parseHostList(options.proxy),
       });
 
       spinner.succeed(chalk.green(`MCPConnect server started successfully!`));
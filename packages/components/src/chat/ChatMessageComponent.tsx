@@ -5,9 +5,23 @@ export {
   extractSvgTitle,
 } from "../common/SvgDisplay";
 import React from "react";
-import { Loader, ExternalLink, Sparkles } from "lucide-react";
-import { ChatMessage } from "@mcpconnect/schemas";
+import {
+  Loader,
+  ExternalLink,
+  Sparkles,
+  Braces,
+  AlertTriangle,
+  ShieldAlert,
+} from "lucide-react";
+import {
+  ActiveToolCall,
+  ChatMessage,
+  ResourceContents,
+} from "@mcpconnect/schemas";
 import { JsonCodeBlock } from "../common/JsonCodeBlock";
+import { ToolProgressBar } from "../common/ToolProgressBar";
+import { OutputValidationNotice } from "../common/OutputValidationNotice";
+import { ToolResultContentView } from "../common/ToolResultContentView";
 import {
   SvgDisplay,
   isSvgContent,
@@ -22,6 +36,9 @@ export interface ChatMessageComponentProps {
   onToolCallExpand: (messageId: string, toolName?: string) => void;
   isToolEnabled: (toolName: string) => boolean;
   onToolNavigate?: (toolId: string, args?: Record<string, any>) => void;
+  activeToolCall?: ActiveToolCall;
+  onCancelTool?: (executionId: string) => void;
+  onReadResource?: (uri: string) => Promise<ResourceContents[]>;
 }
 
 // Helper function to format execution duration
@@ -56,6 +73,9 @@ export const ChatMessageComponent: React.FC<ChatMessageComponentProps> = ({
   onToolCallExpand,
   isToolEnabled,
   onToolNavigate,
+  activeToolCall,
+  onCancelTool,
+  onReadResource,
 }) => {
   const messageId = message.id || `msg-${index}`;
   const hasToolExecution =
@@ -154,9 +174,40 @@ export const ChatMessageComponent: React.FC<ChatMessageComponentProps> = ({
               <div className="space-y-2">
                 {message.isExecuting ||
                 message.toolExecution?.status === "pending" ? (
-                  <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
-                    <div className="w-3 h-3 border border-gray-400 border-t-transparent rounded-full animate-spin" />
-                    <span>Executing {toolName}...</span>
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                      <div className="w-3 h-3 border border-gray-400 border-t-transparent rounded-full animate-spin" />
+                      <span>Executing {toolName}...</span>
+                    </div>
+                    {activeToolCall && (
+                      <div className="max-w-sm">
+                        <ToolProgressBar
+                          progress={activeToolCall.progress}
+                          onCancel={
+                            onCancelTool
+                              ? () => onCancelTool(activeToolCall.executionId)
+                              : undefined
+                          }
+                        />
+                      </div>
+                    )}
+                  </div>
+                ) : message.toolApproval?.decision === "denied" ? (
+                  <div className="text-gray-600 dark:text-gray-400">
+                    <div className="font-medium flex items-center gap-1.5">
+                      <ShieldAlert className="w-3.5 h-3.5 text-red-500" />
+                      Tool call denied
+                    </div>
+                    <div className="text-xs mt-1 text-gray-500">
+                      {toolName} is marked destructive and was not run
+                    </div>
+                  </div>
+                ) : message.toolExecution?.status === "cancelled" ? (
+                  <div className="text-gray-600 dark:text-gray-400">
+                    <div className="font-medium">Tool execution cancelled</div>
+                    <div className="text-xs mt-1 text-gray-500">
+                      {toolName} was cancelled before it finished
+                    </div>
                   </div>
                 ) : message.toolExecution?.status === "error" ? (
                   <div className="text-gray-600 dark:text-gray-400">
@@ -182,7 +233,27 @@ export const ChatMessageComponent: React.FC<ChatMessageComponentProps> = ({
                           • {formatExecutionDuration(message.toolExecution)}
                         </span>
                       )}
+                      {message.toolApproval?.decision === "approved" && (
+                        <span className="ml-2 text-gray-400">
+                          • approved by you
+                        </span>
+                      )}
                     </div>
+                    {message.toolExecution.outputValidation?.valid ===
+                      false && (
+                      <div className="text-xs mt-1 flex items-center gap-1 text-amber-600 dark:text-amber-400">
+                        <AlertTriangle className="w-3 h-3" />
+                        Output does not match the declared outputSchema
+                      </div>
+                    )}
+                    {message.toolExecution.content &&
+                      message.toolExecution.content.length > 0 && (
+                        <ToolResultContentView
+                          content={message.toolExecution.content}
+                          onReadResource={onReadResource}
+                          className="mt-3"
+                        />
+                      )}
                   </div>
                 ) : (
                   <div>{message.message}</div>
@@ -298,7 +369,9 @@ export const ChatMessageComponent: React.FC<ChatMessageComponentProps> = ({
                           ? "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300"
                           : message.toolExecution?.status === "error"
                             ? "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
-                            : "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+                            : message.toolExecution?.status === "cancelled"
+                              ? "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300"
+                              : "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
                       }`}
                     >
                       <div
@@ -307,7 +380,9 @@ export const ChatMessageComponent: React.FC<ChatMessageComponentProps> = ({
                             ? "bg-green-500"
                             : message.toolExecution?.status === "error"
                               ? "bg-red-500"
-                              : "bg-blue-500"
+                              : message.toolExecution?.status === "cancelled"
+                                ? "bg-amber-500"
+                                : "bg-blue-500"
                         }`}
                       />
                       {message.toolExecution?.status || "pending"}
@@ -467,6 +542,33 @@ export const ChatMessageComponent: React.FC<ChatMessageComponentProps> = ({
                       </div>
                     )}
 
+                    {message.toolExecution?.structuredContent !== undefined && (
+                      <div>
+                        <h5 className="font-medium text-gray-900 dark:text-gray-100 mb-1.5 text-[11px] flex items-center gap-1.5">
+                          <Braces className="w-3 h-3 text-purple-500" />
+                          Structured Content
+                        </h5>
+                        <JsonCodeBlock
+                          data={message.toolExecution.structuredContent}
+                          onCopy={() =>
+                            copyToClipboard(
+                              JSON.stringify(
+                                message.toolExecution?.structuredContent,
+                                null,
+                                2
+                              )
+                            )
+                          }
+                        />
+                      </div>
+                    )}
+
+                    {message.toolExecution?.outputValidation && (
+                      <OutputValidationNotice
+                        validation={message.toolExecution.outputValidation}
+                      />
+                    )}
+
                     {/* Error section - Smaller */}
                     {message.toolExecution?.error && (
                       <div>
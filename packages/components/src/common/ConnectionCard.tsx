@@ -1,9 +1,16 @@
 /* eslint-disable jsx-a11y/no-static-element-interactions */
 /* eslint-disable jsx-a11y/click-events-have-key-events */
 import React, { useEffect, useState, useCallback } from "react";
-import { Connection, ConnectionType } from "@mcpconnect/schemas";
-import { MessageSquare, Loader2, Database } from "lucide-react";
+import {
+  Connection,
+  ConnectionHealth,
+  ConnectionType,
+  WebSocketState,
+} from "@mcpconnect/schemas";
+import { MessageSquare, Loader2, Database, AlertTriangle } from "lucide-react";
 import { TruncatedText } from "./TruncatedText";
+import { getIncompleteListsWarning } from "../connections/ConnectionStatus";
+import { ConnectionHealthIndicator } from "../connections/ConnectionHealthIndicator";
 
 export type Neo4jSyncStatusType =
   | "idle"
@@ -21,6 +28,12 @@ export interface ConnectionCardProps {
   onCheckConnectivity?: (connectionId: string) => Promise<boolean>;
   /** Neo4j sync status for this connection */
   neo4jSyncStatus?: Neo4jSyncStatusType;
+  /** Replaces "Checking..." while introspection is reading list pages */
+  progressLabel?: string;
+  /** State of the connection's long-lived WebSocket, if it has one */
+  socketState?: WebSocketState;
+  /** Ping results from the health monitor */
+  health?: ConnectionHealth;
 }
 
 export const ConnectionCard: React.FC<ConnectionCardProps> = ({
@@ -31,6 +44,9 @@ export const ConnectionCard: React.FC<ConnectionCardProps> = ({
   isDemoMode = false,
   onCheckConnectivity,
   neo4jSyncStatus,
+  progressLabel,
+  socketState,
+  health,
 }) => {
   const [isChecking, setIsChecking] = useState(false);
   // Start with undefined to show checking state until first check completes
@@ -118,7 +134,14 @@ export const ConnectionCard: React.FC<ConnectionCardProps> = ({
 
   // Determine display status - show checking if we haven't completed first check
   const showChecking = isChecking || localIsConnected === undefined;
-  const displayConnected = localIsConnected ?? false;
+  // Pings replace the one-off check once the monitor has results
+  const hasHealth = !!health && health.samples.length > 0;
+  const displayConnected =
+    health && hasHealth ? health.isConnected : (localIsConnected ?? false);
+  const isDegraded = hasHealth && health.state === "degraded";
+  const incompleteWarning = getIncompleteListsWarning(
+    connection.incompleteLists
+  );
   const getConnectionTypeColor = (type: ConnectionType) => {
     switch (type) {
       case "sse":
@@ -127,6 +150,8 @@ export const ConnectionCard: React.FC<ConnectionCardProps> = ({
         return "text-green-600 dark:text-green-400 bg-green-100 dark:bg-green-900/30";
       case "websocket":
         return "text-purple-600 dark:text-purple-400 bg-purple-100 dark:bg-purple-900/30";
+      case "stdio":
+        return "text-orange-600 dark:text-orange-400 bg-orange-100 dark:bg-orange-900/30";
       default:
         return "text-gray-600 dark:text-gray-400 bg-gray-100 dark:bg-gray-900/30";
     }
@@ -159,7 +184,14 @@ export const ConnectionCard: React.FC<ConnectionCardProps> = ({
         </div>
 
         <div className="text-[10px] text-gray-500 dark:text-gray-400 font-mono bg-gray-50 dark:bg-gray-900 px-1.5 py-0.5 rounded">
-          <TruncatedText text={connection.url} maxLength={35} />
+          <TruncatedText
+            text={
+              connection.stdio
+                ? [connection.stdio.command, ...connection.stdio.args].join(" ")
+                : connection.url
+            }
+            maxLength={35}
+          />
         </div>
 
         <div className="flex items-center justify-between">
@@ -168,21 +200,42 @@ export const ConnectionCard: React.FC<ConnectionCardProps> = ({
               <>
                 <Loader2 className="w-2.5 h-2.5 text-gray-400 animate-spin" />
                 <span className="text-[10px] text-gray-500 dark:text-gray-400">
-                  Checking...
+                  {progressLabel || "Checking..."}
                 </span>
               </>
             ) : (
               <>
                 <div
-                  className={`w-1.5 h-1.5 rounded-full ${displayConnected ? "bg-green-500" : "bg-red-500"}`}
+                  className={`w-1.5 h-1.5 rounded-full ${isDegraded ? "bg-amber-500" : displayConnected ? "bg-green-500" : "bg-red-500"}`}
                 />
                 <span className="text-[10px] text-gray-600 dark:text-gray-400">
-                  {displayConnected ? "Connected" : "Offline"}
+                  {isDegraded
+                    ? "Degraded"
+                    : displayConnected
+                      ? "Connected"
+                      : "Offline"}
                 </span>
+                {socketState === "reconnecting" && (
+                  <span
+                    className="flex items-center gap-0.5 text-[10px] text-amber-600 dark:text-amber-400"
+                    title="WebSocket dropped, reconnecting with backoff"
+                  >
+                    <Loader2 className="w-2.5 h-2.5 animate-spin" />
+                    Reconnecting
+                  </span>
+                )}
+                {displayConnected && incompleteWarning && (
+                  <span title={incompleteWarning}>
+                    <AlertTriangle className="w-2.5 h-2.5 text-amber-500" />
+                  </span>
+                )}
               </>
             )}
           </div>
           <div className="flex items-center gap-2">
+            {health && hasHealth && (
+              <ConnectionHealthIndicator health={health} width={40} />
+            )}
             {/* Neo4j Sync Status Indicator */}
             {neo4jSyncStatus && neo4jSyncStatus !== "idle" && (
               <div
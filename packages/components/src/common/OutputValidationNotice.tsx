@@ -0,0 +1,36 @@
+import React from "react";
+import { AlertTriangle, ShieldCheck } from "lucide-react";
+import { OutputValidation } from "@mcpconnect/schemas";
+
+export interface OutputValidationNoticeProps {
+  validation: OutputValidation;
+}
+
+export const OutputValidationNotice: React.FC<OutputValidationNoticeProps> = ({
+  validation,
+}) => {
+  if (validation.valid) {
+    return (
+      <div className="flex items-center gap-1.5 text-[11px] text-green-700 dark:text-green-400">
+        <ShieldCheck className="w-3 h-3" />
+        Structured output matches the declared outputSchema
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-md">
+      <div className="flex items-center gap-1.5 text-[11px] font-medium text-amber-800 dark:text-amber-200">
+        <AlertTriangle className="w-3 h-3" />
+        Structured output does not match the declared outputSchema
+      </div>
+      <ul className="mt-1.5 space-y-0.5 text-[11px] font-mono text-amber-800 dark:text-amber-200">
+        {validation.errors.map((error, index) => (
+          <li key={index} className="break-words">
+            {error}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState } from "react";
+import { ResourceContents } from "@mcpconnect/schemas";
+import { Download, FileText } from "lucide-react";
+import { JsonCodeBlock } from "./JsonCodeBlock";
+import { SvgDisplay } from "./SvgDisplay";
+
+export interface ResourceContentViewerProps {
+  contents: ResourceContents[];
+  className?: string;
+}
+
+const isJsonMimeType = (mimeType?: string) =>
+  !!mimeType && (mimeType === "application/json" || mimeType.endsWith("+json"));
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+const getFileName = (uri: string) => {
+  const lastSegment = uri.split(/[/\\]/).filter(Boolean).pop();
+  return lastSegment || "resource";
+};
+
+const downloadBlob = (content: ResourceContents) => {
+  const binary = atob(content.blob || "");
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  const blob = new Blob([bytes], {
+    type: content.mimeType || "application/octet-stream",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = getFileName(content.uri);
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const ResourceContentItem: React.FC<{ content: ResourceContents }> = ({
+  content,
+}) => {
+  const [isCopied, setIsCopied] = useState(false);
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy resource content:", error);
+    }
+  };
+
+  const renderBody = () => {
+    if (content.text !== undefined) {
+      if (content.mimeType === "image/svg+xml") {
+        return (
+          <SvgDisplay
+            svgContent={content.text}
+            title={getFileName(content.uri)}
+            untrusted
+          />
+        );
+      }
+
+      const json = isJsonMimeType(content.mimeType)
+        ? parseJson(content.text)
+        : undefined;
+      if (json !== undefined) {
+        return (
+          <JsonCodeBlock data={json} onCopy={() => handleCopy(content.text!)} />
+        );
+      }
+
+      return (
+        <pre className="p-2 text-xs text-gray-900 dark:text-gray-100 bg-gray-50 dark:bg-gray-950 border border-gray-200 dark:border-gray-700 rounded-md whitespace-pre-wrap break-words font-mono max-h-96 overflow-auto">
+          {content.text}
+        </pre>
+      );
+    }
+
+    if (content.blob !== undefined) {
+      if (content.mimeType?.startsWith("image/")) {
+        return (
+          <img
+            src={`data:${content.mimeType};base64,${content.blob}`}
+            alt={content.uri}
+            className="max-w-full max-h-96 rounded-md border border-gray-200 dark:border-gray-700"
+          />
+        );
+      }
+
+      return (
+        <button
+          type="button"
+          onClick={() => downloadBlob(content)}
+          className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+        >
+          <Download className="w-3.5 h-3.5" />
+          Download {getFileName(content.uri)}
+        </button>
+      );
+    }
+
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        The server returned no content for this resource
+      </p>
+    );
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-1.5 text-[10px] text-gray-500 dark:text-gray-400">
+        <FileText className="w-3 h-3 flex-shrink-0" />
+        <span className="font-mono truncate">{content.uri}</span>
+        {content.mimeType && (
+          <span className="ml-auto px-1 py-0.5 bg-gray-100 dark:bg-gray-800 rounded flex-shrink-0">
+            {content.mimeType}
+          </span>
+        )}
+        {isCopied && (
+          <span className="text-green-600 dark:text-green-400 flex-shrink-0">
+            Copied
+          </span>
+        )}
+      </div>
+      {renderBody()}
+    </div>
+  );
+};
+
+export const ResourceContentViewer: React.FC<ResourceContentViewerProps> = ({
+  contents,
+  className = "",
+}) => {
+  if (contents.length === 0) {
+    return (
+      <div className="p-4 text-center text-xs text-gray-500 dark:text-gray-400">
+        No contents returned
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {contents.map((content, index) => (
+        <ResourceContentItem
+          key={`${content.uri}-${index}`}
+          content={content}
+        />
+      ))}
+    </div>
+  );
+};
@@ -12,13 +12,21 @@ export interface SvgDisplayProps {
   title?: string;
   className?: string;
   showControls?: boolean;
+  // Content from an MCP server is drawn as an image rather than inserted
+  // into the page, so scripts in it never run
+  untrusted?: boolean;
 }
 
+// Images never run scripts, whatever the SVG contains
+export const toSvgDataUri = (svgContent: string) =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgContent)}`;
+
 export const SvgDisplay: React.FC<SvgDisplayProps> = ({
   svgContent,
   title,
   className = "",
   showControls = true,
+  untrusted = false,
 }) => {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isCopied, setIsCopied] = useState(false);
@@ -111,10 +119,18 @@ export const SvgDisplay: React.FC<SvgDisplayProps> = ({
       {/* SVG Content */}
       <div className={`flex-1 overflow-auto ${isFullscreen ? "p-4" : "p-6"}`}>
         <div className="flex items-center justify-center min-h-full">
-          <div
-            className="max-w-full"
-            dangerouslySetInnerHTML={{ __html: svgContent }}
-          />
+          {untrusted ? (
+            <img
+              src={toSvgDataUri(svgContent)}
+              alt={title || "SVG"}
+              className="max-w-full"
+            />
+          ) : (
+            <div
+              className="max-w-full"
+              dangerouslySetInnerHTML={{ __html: svgContent }}
+            />
+          )}
         </div>
       </div>
 
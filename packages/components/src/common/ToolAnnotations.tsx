@@ -0,0 +1,132 @@
+import React from "react";
+import { Tool, isDestructiveTool } from "@mcpconnect/schemas";
+
+export type ToolAnnotationFlag =
+  | "readOnly"
+  | "destructive"
+  | "idempotent"
+  | "openWorld";
+
+const FLAG_DISPLAY: Record<
+  ToolAnnotationFlag,
+  { label: string; title: string; className: string }
+> = {
+  readOnly: {
+    label: "READ-ONLY",
+    title: "The server says this tool does not modify its environment",
+    className:
+      "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300",
+  },
+  destructive: {
+    label: "DESTRUCTIVE",
+    title:
+      "This tool may delete or overwrite data, as the server doesn't mark it read-only or non-destructive",
+    className: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300",
+  },
+  idempotent: {
+    label: "IDEMPOTENT",
+    title: "The server says repeating a call with the same arguments is safe",
+    className:
+      "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300",
+  },
+  openWorld: {
+    label: "OPEN WORLD",
+    title: "The server says this tool reaches systems outside its own",
+    className:
+      "bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300",
+  },
+};
+
+const FLAG_ORDER: ToolAnnotationFlag[] = [
+  "readOnly",
+  "destructive",
+  "idempotent",
+  "openWorld",
+];
+
+/**
+ * Flags for a tool's annotations. Destructive follows the same spec defaults
+ * as the approval check, so tools without annotations count as destructive;
+ * the other flags need the hint set explicitly.
+ */
+export const getToolAnnotationFlags = (
+  tool: Pick<Tool, "annotations" | "metadata">
+): ToolAnnotationFlag[] => {
+  const annotations = tool.annotations;
+
+  return FLAG_ORDER.filter(flag => {
+    switch (flag) {
+      case "readOnly":
+        return annotations?.readOnlyHint === true;
+      case "destructive":
+        return isDestructiveTool(tool);
+      case "idempotent":
+        return annotations?.idempotentHint === true;
+      case "openWorld":
+        return annotations?.openWorldHint === true;
+    }
+  });
+};
+
+export interface ToolAnnotationBadgesProps {
+  tool: Pick<Tool, "annotations" | "metadata">;
+}
+
+export const ToolAnnotationBadges: React.FC<ToolAnnotationBadgesProps> = ({
+  tool,
+}) => {
+  const flags = getToolAnnotationFlags(tool);
+  if (flags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {flags.map(flag => (
+        <span
+          key={flag}
+          className={`text-[10px] px-1 py-0.5 rounded font-medium ${FLAG_DISPLAY[flag].className}`}
+          title={FLAG_DISPLAY[flag].title}
+        >
+          {FLAG_DISPLAY[flag].label}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export interface ToolAnnotationFiltersProps {
+  counts: Partial<Record<ToolAnnotationFlag, number>>;
+  active: ToolAnnotationFlag | null;
+  onChange: (flag: ToolAnnotationFlag | null) => void;
+  disabled?: boolean;
+}
+
+export const ToolAnnotationFilters: React.FC<ToolAnnotationFiltersProps> = ({
+  counts,
+  active,
+  onChange,
+  disabled = false,
+}) => {
+  const available = FLAG_ORDER.filter(flag => (counts[flag] || 0) > 0);
+  if (available.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mb-3">
+      {available.map(flag => (
+        <button
+          key={flag}
+          type="button"
+          onClick={() => onChange(active === flag ? null : flag)}
+          disabled={disabled}
+          className={`text-[10px] px-1.5 py-0.5 rounded font-medium border transition-colors disabled:cursor-not-allowed ${
+            active === flag
+              ? `${FLAG_DISPLAY[flag].className} border-current`
+              : "bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+          }`}
+          title={FLAG_DISPLAY[flag].title}
+        >
+          {FLAG_DISPLAY[flag].label} ({counts[flag]})
+        </button>
+      ))}
+    </div>
+  );
+};
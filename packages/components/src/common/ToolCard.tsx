@@ -1,6 +1,6 @@
 /* eslint-disable jsx-a11y/no-static-element-interactions */
 import React from "react";
-import { Tool } from "@mcpconnect/schemas";
+import { ActiveToolCall, Tool } from "@mcpconnect/schemas";
 import {
   Globe,
   FileText,
@@ -16,6 +16,11 @@ import {
   PowerOff,
 } from "lucide-react";
 import { TruncatedText } from "./TruncatedText";
+import { ToolProgressBar } from "./ToolProgressBar";
+import {
+  ToolAnnotationBadges,
+  getToolAnnotationFlags,
+} from "./ToolAnnotations";
 
 export interface ToolCardProps {
   tool: Tool;
@@ -24,6 +29,10 @@ export interface ToolCardProps {
   onNavigate?: (toolId: string) => void;
   connectionId?: string;
   isDemoMode?: boolean;
+  activeCall?: ActiveToolCall;
+  onCancelCall?: (executionId: string) => void;
+  /** Set when the last tools/list_changed added or changed this tool */
+  listChange?: "added" | "changed";
 }
 
 export const ToolCard: React.FC<ToolCardProps> = ({
@@ -33,6 +42,9 @@ export const ToolCard: React.FC<ToolCardProps> = ({
   onNavigate,
   connectionId,
   isDemoMode = false,
+  activeCall,
+  onCancelCall,
+  listChange,
 }) => {
   // Check if this is a system tool
   const isSystemTool =
@@ -150,8 +162,12 @@ export const ToolCard: React.FC<ToolCardProps> = ({
                       ? "text-gray-900 dark:text-white"
                       : "text-gray-500 dark:text-gray-400"
                   }`}
+                  title={tool.annotations?.title ? tool.name : undefined}
                 >
-                  <TruncatedText text={tool.name} maxLength={20} />
+                  <TruncatedText
+                    text={tool.annotations?.title || tool.name}
+                    maxLength={20}
+                  />
                 </h3>
                 {/* System tool indicator */}
                 {isSystemTool && (
@@ -162,6 +178,18 @@ export const ToolCard: React.FC<ToolCardProps> = ({
                     </span>
                   </div>
                 )}
+                {listChange && (
+                  <span
+                    className={`text-[10px] px-1 py-0.5 rounded font-medium ${
+                      listChange === "added"
+                        ? "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300"
+                        : "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300"
+                    }`}
+                    title={`This tool was ${listChange} by the server`}
+                  >
+                    {listChange === "added" ? "NEW" : "CHANGED"}
+                  </span>
+                )}
               </div>
 
               <p
@@ -177,6 +205,13 @@ export const ToolCard: React.FC<ToolCardProps> = ({
                 />
               </p>
 
+              {/* Behaviour hints declared by the server */}
+              {getToolAnnotationFlags(tool).length > 0 && (
+                <div className="mt-1">
+                  <ToolAnnotationBadges tool={tool} />
+                </div>
+              )}
+
               {/* Category badge - smaller */}
               {tool.category && !isSystemTool && (
                 <div className="mt-1">
@@ -195,6 +230,21 @@ export const ToolCard: React.FC<ToolCardProps> = ({
             </div>
           </div>
 
+          {/* Progress of a call still running on the server */}
+          {activeCall && (
+            <div className="mt-1.5">
+              <ToolProgressBar
+                progress={activeCall.progress}
+                onCancel={
+                  onCancelCall
+                    ? () => onCancelCall(activeCall.executionId)
+                    : undefined
+                }
+                compact
+              />
+            </div>
+          )}
+
           {/* Action Buttons - Smaller and more compact */}
           <div className="flex items-center gap-1.5 mt-2">
             {/* Enable/Disable Button */}
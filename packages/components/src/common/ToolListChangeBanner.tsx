@@ -0,0 +1,99 @@
+import React, { useState } from "react";
+import { ChevronDown, ChevronRight, RefreshCw, X } from "lucide-react";
+import { ToolListChange } from "@mcpconnect/schemas";
+
+export interface ToolListChangeBannerProps {
+  change: ToolListChange;
+  onDismiss?: () => void;
+}
+
+const CHANGE_GROUPS: {
+  key: "added" | "removed" | "changed";
+  label: string;
+  symbol: string;
+  className: string;
+}[] = [
+  {
+    key: "added",
+    label: "added",
+    symbol: "+",
+    className:
+      "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300",
+  },
+  {
+    key: "removed",
+    label: "removed",
+    symbol: "-",
+    className: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300",
+  },
+  {
+    key: "changed",
+    label: "changed",
+    symbol: "~",
+    className:
+      "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300",
+  },
+];
+
+export const ToolListChangeBanner: React.FC<ToolListChangeBannerProps> = ({
+  change,
+  onDismiss,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const groups = CHANGE_GROUPS.filter(group => change[group.key].length > 0);
+
+  return (
+    <div className="mb-3 p-2 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
+      <div className="flex items-start justify-between gap-2">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-start gap-1.5 min-w-0 text-left"
+          title={isExpanded ? "Hide tool names" : "Show tool names"}
+        >
+          <RefreshCw className="w-3.5 h-3.5 text-blue-500 flex-shrink-0 mt-0.5" />
+          <div className="min-w-0">
+            <div className="text-xs font-medium text-blue-800 dark:text-blue-200">
+              Tool list updated at{" "}
+              {new Date(change.detectedAt).toLocaleTimeString()}
+            </div>
+            <div className="text-[10px] text-blue-700 dark:text-blue-300">
+              {groups
+                .map(group => `${change[group.key].length} ${group.label}`)
+                .join(", ")}
+            </div>
+          </div>
+          {isExpanded ? (
+            <ChevronDown className="w-3 h-3 text-blue-500 flex-shrink-0 mt-0.5" />
+          ) : (
+            <ChevronRight className="w-3 h-3 text-blue-500 flex-shrink-0 mt-0.5" />
+          )}
+        </button>
+        {onDismiss && (
+          <button
+            onClick={onDismiss}
+            className="p-0.5 text-blue-400 hover:text-blue-600 dark:hover:text-blue-300 flex-shrink-0"
+            title="Dismiss"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {groups.flatMap(group =>
+            change[group.key].map(name => (
+              <span
+                key={`${group.key}-${name}`}
+                className={`text-[10px] px-1.5 py-0.5 rounded font-mono ${group.className}`}
+                title={`Tool ${group.label}`}
+              >
+                {group.symbol} {name}
+              </span>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from "react";
+import { X } from "lucide-react";
+import { ToolCallProgress } from "@mcpconnect/schemas";
+
+export interface ToolProgressBarProps {
+  progress?: ToolCallProgress;
+  onCancel?: () => void;
+  compact?: boolean;
+}
+
+export const ToolProgressBar: React.FC<ToolProgressBarProps> = ({
+  progress,
+  onCancel,
+  compact = false,
+}) => {
+  // Without a total the server only tells us work is happening
+  const percent =
+    progress?.total && progress.total > 0
+      ? Math.min(100, Math.round((progress.progress / progress.total) * 100))
+      : undefined;
+
+  const handleCancelClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onCancel?.();
+  };
+
+  return (
+    <div className={compact ? "space-y-0.5" : "space-y-1"}>
+      <div className="flex items-center gap-2">
+        <div
+          className={`flex-1 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden ${
+            compact ? "h-1" : "h-1.5"
+          }`}
+        >
+          <div
+            className={`h-full bg-blue-500 rounded-full transition-all duration-300 ${
+              percent === undefined ? "w-full animate-pulse opacity-60" : ""
+            }`}
+            style={percent !== undefined ? { width: `${percent}%` } : undefined}
+          />
+        </div>
+        {percent !== undefined && (
+          <span
+            className={`font-mono text-gray-500 dark:text-gray-400 ${
+              compact ? "text-[10px]" : "text-xs"
+            }`}
+          >
+            {percent}%
+          </span>
+        )}
+        {onCancel && (
+          <button
+            onClick={handleCancelClick}
+            className={`flex items-center gap-0.5 font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors ${
+              compact ? "px-1 py-0.5 text-[10px]" : "px-1.5 py-0.5 text-xs"
+            }`}
+            title="Cancel tool call"
+          >
+            <X className={compact ? "w-2.5 h-2.5" : "w-3 h-3"} />
+            Cancel
+          </button>
+        )}
+      </div>
+      {progress?.message && (
+        <div
+          className={`text-gray-500 dark:text-gray-400 truncate ${
+            compact ? "text-[10px]" : "text-xs"
+          }`}
+          title={progress.message}
+        >
+          {progress.message}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from "react";
+import { ExternalLink, Image, Link2, Loader2, Music, X } from "lucide-react";
+import {
+  ResourceContents,
+  ToolExecution,
+  ToolResultContent,
+  ToolResultContentSchema,
+} from "@mcpconnect/schemas";
+import { ResourceContentViewer } from "./ResourceContentViewer";
+import { toSvgDataUri } from "./SvgDisplay";
+
+export interface ToolResultContentViewProps {
+  content: ToolResultContent[];
+  onReadResource?: (uri: string) => Promise<ResourceContents[]>;
+  className?: string;
+}
+
+/**
+ * Rich content of an execution. Executions stored before content was kept
+ * separately still carry it in the raw MCP result.
+ */
+export const getToolResultContent = (
+  execution?: ToolExecution
+): ToolResultContent[] => {
+  if (execution?.response?.content) return execution.response.content;
+
+  const rawContent = (execution?.response?.result as { content?: unknown })
+    ?.content;
+  if (!Array.isArray(rawContent)) return [];
+
+  return rawContent.flatMap(item => {
+    const parsed = ToolResultContentSchema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+};
+
+const toDataUri = (mimeType: string, data: string) =>
+  `data:${mimeType};base64,${data}`;
+
+const ImageLightbox: React.FC<{ src: string; onClose: () => void }> = ({
+  src,
+  onClose,
+}) => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <button
+      type="button"
+      onClick={onClose}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-6 cursor-zoom-out"
+      aria-label="Close image"
+    >
+      <X className="absolute top-4 right-4 w-5 h-5 text-white" />
+      <img
+        src={src}
+        alt="Tool result"
+        className="max-w-full max-h-full rounded-md shadow-xl"
+      />
+    </button>
+  );
+};
+
+const ImageItem: React.FC<{ src: string; mimeType: string }> = ({
+  src,
+  mimeType,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1.5 text-[10px] text-gray-500 dark:text-gray-400">
+        <Image className="w-3 h-3" />
+        {mimeType}
+      </div>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="block cursor-zoom-in"
+        title="Open full size"
+      >
+        <img
+          src={src}
+          alt="Tool result"
+          className="max-w-full max-h-64 rounded-md border border-gray-200 dark:border-gray-700"
+        />
+      </button>
+      {isOpen && <ImageLightbox src={src} onClose={() => setIsOpen(false)} />}
+    </div>
+  );
+};
+
+const AudioItem: React.FC<{ data: string; mimeType: string }> = ({
+  data,
+  mimeType,
+}) => (
+  <div className="space-y-1">
+    <div className="flex items-center gap-1.5 text-[10px] text-gray-500 dark:text-gray-400">
+      <Music className="w-3 h-3" />
+      {mimeType}
+    </div>
+    <audio controls src={toDataUri(mimeType, data)} className="w-full max-w-md">
+      <track kind="captions" />
+    </audio>
+  </div>
+);
+
+const ResourceLinkItem: React.FC<{
+  link: Extract<ToolResultContent, { type: "resource_link" }>;
+  onReadResource?: (uri: string) => Promise<ResourceContents[]>;
+}> = ({ link, onReadResource }) => {
+  const [contents, setContents] = useState<ResourceContents[] | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRead = async () => {
+    if (!onReadResource || isReading) return;
+
+    if (contents) {
+      setContents(null);
+      return;
+    }
+
+    setIsReading(true);
+    setError(null);
+    try {
+      setContents(await onReadResource(link.uri));
+    } catch (readError) {
+      setError(
+        readError instanceof Error ? readError.message : String(readError)
+      );
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <button
+        type="button"
+        onClick={handleRead}
+        disabled={!onReadResource}
+        className="w-full flex items-start gap-2 p-2 text-left border border-gray-200 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:cursor-default disabled:hover:bg-transparent"
+        title={
+          onReadResource
+            ? "Read this resource with resources/read"
+            : "Connect to the server to read this resource"
+        }
+      >
+        <Link2 className="w-3.5 h-3.5 mt-0.5 text-blue-500 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-1.5 text-xs font-medium text-gray-900 dark:text-gray-100">
+            <span className="truncate">{link.title || link.name}</span>
+            {link.mimeType && (
+              <span className="ml-auto text-[10px] font-normal px-1 py-0.5 bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400 rounded flex-shrink-0">
+                {link.mimeType}
+              </span>
+            )}
+          </div>
+          <div className="text-[10px] font-mono text-gray-500 dark:text-gray-400 truncate">
+            {link.uri}
+          </div>
+          {link.description && (
+            <div className="text-[11px] text-gray-600 dark:text-gray-400 mt-0.5">
+              {link.description}
+            </div>
+          )}
+        </div>
+        {isReading ? (
+          <Loader2 className="w-3.5 h-3.5 mt-0.5 animate-spin text-gray-400 flex-shrink-0" />
+        ) : (
+          onReadResource && (
+            <ExternalLink className="w-3.5 h-3.5 mt-0.5 text-gray-400 flex-shrink-0" />
+          )
+        )}
+      </button>
+      {error && (
+        <div className="text-[11px] text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+      {contents && (
+        <div className="pl-3 border-l-2 border-blue-200 dark:border-blue-800">
+          <ResourceContentViewer contents={contents} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ToolResultContentView: React.FC<ToolResultContentViewProps> = ({
+  content,
+  onReadResource,
+  className = "",
+}) => {
+  if (content.length === 0) return null;
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {content.map((item, index) => {
+        switch (item.type) {
+          case "image":
+            return (
+              <ImageItem
+                key={index}
+                src={toDataUri(item.mimeType, item.data)}
+                mimeType={item.mimeType}
+              />
+            );
+          case "audio":
+            return (
+              <AudioItem
+                key={index}
+                data={item.data}
+                mimeType={item.mimeType}
+              />
+            );
+          case "resource":
+            // Embedded SVG is shown like other images, never as markup
+            if (
+              item.resource.mimeType === "image/svg+xml" &&
+              item.resource.text !== undefined
+            ) {
+              return (
+                <ImageItem
+                  key={index}
+                  src={toSvgDataUri(item.resource.text)}
+                  mimeType={item.resource.mimeType}
+                />
+              );
+            }
+            return (
+              <ResourceContentViewer key={index} contents={[item.resource]} />
+            );
+          case "resource_link":
+            return (
+              <ResourceLinkItem
+                key={index}
+                link={item}
+                onReadResource={onReadResource}
+              />
+            );
+        }
+      })}
+    </div>
+  );
+};
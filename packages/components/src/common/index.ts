@@ -14,6 +14,23 @@ export {
   type Neo4jSyncStatusType,
 } from "./ConnectionCard";
 export { ToolCard, type ToolCardProps } from "./ToolCard";
+export {
+  ToolAnnotationBadges,
+  ToolAnnotationFilters,
+  getToolAnnotationFlags,
+  type ToolAnnotationBadgesProps,
+  type ToolAnnotationFiltersProps,
+  type ToolAnnotationFlag,
+} from "./ToolAnnotations";
+export { ToolProgressBar, type ToolProgressBarProps } from "./ToolProgressBar";
+export {
+  OutputValidationNotice,
+  type OutputValidationNoticeProps,
+} from "./OutputValidationNotice";
+export {
+  ToolListChangeBanner,
+  type ToolListChangeBannerProps,
+} from "./ToolListChangeBanner";
 export {
   ToolActionsPanel,
   type ToolActionsPanelProps,
@@ -25,6 +42,15 @@ export {
   extractSvgTitle,
 } from "./SvgDisplay";
 export { JsonCodeBlock } from "./JsonCodeBlock";
+export {
+  ResourceContentViewer,
+  type ResourceContentViewerProps,
+} from "./ResourceContentViewer";
+export {
+  ToolResultContentView,
+  getToolResultContent,
+  type ToolResultContentViewProps,
+} from "./ToolResultContentView";
 export {
   VectorizeSchemaBanner,
   type VectorizeSchemaBannerProps,
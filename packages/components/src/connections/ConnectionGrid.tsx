@@ -1,5 +1,9 @@
 import React from "react";
-import { Connection } from "@mcpconnect/schemas";
+import {
+  Connection,
+  ConnectionHealth,
+  WebSocketState,
+} from "@mcpconnect/schemas";
 import { ConnectionItem } from "./ConnectionItem";
 import { Settings, Trash2, MessageSquare } from "lucide-react";
 
@@ -10,6 +14,10 @@ export interface ConnectionGridProps {
   onDeleteConnection: (connectionId: string, event: React.MouseEvent) => void;
   conversations?: Record<string, any[]>;
   onCheckConnectivity?: (connectionId: string) => Promise<boolean>;
+  /** WebSocket state per connection id */
+  socketStates?: Record<string, WebSocketState>;
+  /** Ping results per connection id */
+  healthStates?: Record<string, ConnectionHealth>;
 }
 
 export const ConnectionGrid: React.FC<ConnectionGridProps> = ({
@@ -18,6 +26,8 @@ export const ConnectionGrid: React.FC<ConnectionGridProps> = ({
   onEditConnection,
   onDeleteConnection,
   onCheckConnectivity,
+  socketStates,
+  healthStates,
 }) => {
   return (
     <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -27,6 +37,8 @@ export const ConnectionGrid: React.FC<ConnectionGridProps> = ({
             {...connection}
             onClick={() => onConnectionClick(connection)}
             onCheckConnectivity={onCheckConnectivity}
+            socketState={socketStates?.[connection.id]}
+            health={healthStates?.[connection.id]}
           />
 
           {/* Compact action buttons positioned at bottom-right */}
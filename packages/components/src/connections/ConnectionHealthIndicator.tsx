@@ -0,0 +1,135 @@
+import React from "react";
+import {
+  ConnectionHealth,
+  ConnectionHealthState,
+  HealthCheckSample,
+} from "@mcpconnect/schemas";
+
+export interface ConnectionHealthIndicatorProps {
+  health: ConnectionHealth;
+  width?: number;
+  height?: number;
+}
+
+const STATE_DISPLAY: Record<
+  ConnectionHealthState,
+  { label: string; className: string; stroke: string }
+> = {
+  unknown: {
+    label: "Unknown",
+    className: "text-gray-500 dark:text-gray-400",
+    stroke: "#9ca3af",
+  },
+  healthy: {
+    label: "Healthy",
+    className: "text-green-600 dark:text-green-400",
+    stroke: "#22c55e",
+  },
+  degraded: {
+    label: "Degraded",
+    className: "text-amber-600 dark:text-amber-400",
+    stroke: "#f59e0b",
+  },
+  down: {
+    label: "Down",
+    className: "text-red-600 dark:text-red-400",
+    stroke: "#ef4444",
+  },
+};
+
+/**
+ * Share of pings that got an answer, as a whole percentage
+ */
+export const getHealthUptime = (
+  samples: HealthCheckSample[]
+): number | undefined => {
+  if (samples.length === 0) return undefined;
+
+  const answered = samples.filter(sample => sample.error === undefined);
+  return Math.round((answered.length / samples.length) * 100);
+};
+
+/**
+ * Latency sparkline with the connection's uptime over its recent pings.
+ * Failed pings are drawn as red marks along the bottom.
+ */
+export const ConnectionHealthIndicator: React.FC<
+  ConnectionHealthIndicatorProps
+> = ({ health, width = 56, height = 14 }) => {
+  const { samples } = health;
+  const display = STATE_DISPLAY[health.state];
+  const uptime = getHealthUptime(samples);
+
+  const latencies = samples
+    .map(sample => sample.latency)
+    .filter((latency): latency is number => latency !== undefined);
+  const maxLatency = Math.max(1, ...latencies);
+  const step = samples.length > 1 ? width / (samples.length - 1) : 0;
+
+  const points: string[] = [];
+  const failures: number[] = [];
+  samples.forEach((sample, index) => {
+    const x = samples.length > 1 ? index * step : width / 2;
+    if (sample.latency === undefined) {
+      failures.push(x);
+    } else {
+      const y = height - 1 - (sample.latency / maxLatency) * (height - 2);
+      points.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+    }
+  });
+
+  const lastLatency = latencies[latencies.length - 1];
+  const title = [
+    `${display.label}${health.error ? `: ${health.error}` : ""}`,
+    uptime !== undefined &&
+      `${uptime}% of the last ${samples.length} pings answered`,
+    lastLatency !== undefined && `Last round trip ${lastLatency}ms`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return (
+    <div
+      className={`flex items-center gap-1 text-[10px] flex-shrink-0 ${display.className}`}
+      title={title}
+    >
+      <svg
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        className="overflow-visible"
+        aria-hidden="true"
+      >
+        {points.length > 1 && (
+          <polyline
+            points={points.join(" ")}
+            fill="none"
+            stroke={display.stroke}
+            strokeWidth={1.25}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+          />
+        )}
+        {points.length === 1 && (
+          <circle
+            cx={points[0].split(",")[0]}
+            cy={points[0].split(",")[1]}
+            r={1.5}
+            fill={display.stroke}
+          />
+        )}
+        {failures.map((x, index) => (
+          <rect
+            key={index}
+            x={x - 1}
+            y={height - 2}
+            width={2}
+            height={2}
+            fill="#ef4444"
+          />
+        ))}
+      </svg>
+      {uptime !== undefined && <span>{uptime}%</span>}
+    </div>
+  );
+};
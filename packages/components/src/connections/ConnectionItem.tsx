@@ -1,9 +1,19 @@
 /* eslint-disable jsx-a11y/no-static-element-interactions */
 /* eslint-disable jsx-a11y/click-events-have-key-events */
 import React, { useEffect, useState } from "react";
-import { Connection, ConnectionType } from "@mcpconnect/schemas";
-import { ConnectionStatus } from "./ConnectionStatus";
-import { Zap, Globe, Radio } from "lucide-react";
+import {
+  Connection,
+  ConnectionHealth,
+  ConnectionType,
+  WebSocketState,
+} from "@mcpconnect/schemas";
+import {
+  ConnectionStatus,
+  getIncompleteListsWarning,
+} from "./ConnectionStatus";
+import { ProtocolVersionBadge } from "./ProtocolVersionBadge";
+import { ConnectionHealthIndicator } from "./ConnectionHealthIndicator";
+import { Zap, Globe, Radio, Terminal } from "lucide-react";
 
 export interface ConnectionItemProps
   extends Omit<
@@ -12,6 +22,8 @@ export interface ConnectionItemProps
   > {
   onClick?: () => void;
   onCheckConnectivity?: (connectionId: string) => Promise<boolean>;
+  socketState?: WebSocketState;
+  health?: ConnectionHealth;
 }
 
 export const ConnectionItem: React.FC<ConnectionItemProps> = ({
@@ -19,10 +31,16 @@ export const ConnectionItem: React.FC<ConnectionItemProps> = ({
   name,
   url,
   connectionType = "sse",
+  stdio,
   isActive = false,
   isConnected = true,
+  incompleteLists,
+  protocolVersion,
+  negotiatedProtocolVersion,
   onClick,
   onCheckConnectivity,
+  socketState,
+  health,
 }) => {
   const [isChecking, setIsChecking] = useState(false);
   const [localIsConnected, setLocalIsConnected] = useState(isConnected);
@@ -82,6 +100,13 @@ export const ConnectionItem: React.FC<ConnectionItemProps> = ({
       setLocalIsConnected(isConnected);
     }
   }, [isConnected, isChecking]);
+
+  // Pings replace the one-off check once the monitor has results
+  const hasHealth = !!health && health.samples.length > 0;
+
+  // Stdio servers are reached through the bridge, so show what they run
+  const address = stdio ? [stdio.command, ...stdio.args].join(" ") : url;
+
   const getConnectionTypeIcon = (type: ConnectionType) => {
     switch (type) {
       case "sse":
@@ -90,6 +115,8 @@ export const ConnectionItem: React.FC<ConnectionItemProps> = ({
         return <Globe className="w-3 h-3" />;
       case "websocket":
         return <Radio className="w-3 h-3" />;
+      case "stdio":
+        return <Terminal className="w-3 h-3" />;
       default:
         return <Globe className="w-3 h-3" />;
     }
@@ -103,6 +130,8 @@ export const ConnectionItem: React.FC<ConnectionItemProps> = ({
         return "text-green-600 dark:text-green-400 bg-green-100 dark:bg-green-900/30";
       case "websocket":
         return "text-purple-600 dark:text-purple-400 bg-purple-100 dark:bg-purple-900/30";
+      case "stdio":
+        return "text-orange-600 dark:text-orange-400 bg-orange-100 dark:bg-orange-900/30";
       case "graphql":
         return "text-pink-600 dark:text-pink-400 bg-pink-100 dark:bg-pink-900/30";
       default:
@@ -138,12 +167,21 @@ export const ConnectionItem: React.FC<ConnectionItemProps> = ({
         </div>
 
         {/* URL - takes remaining space */}
-        <div className="flex-1 min-h-0 mb-2">
+        <div className="flex-1 min-h-0 mb-2 space-y-1">
           <div
             className="text-xs text-gray-500 dark:text-gray-400 truncate"
-            title={url}
+            title={address}
           >
-            {url}
+            {address}
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <ProtocolVersionBadge
+              requested={protocolVersion}
+              negotiated={negotiatedProtocolVersion}
+            />
+            {health && hasHealth && (
+              <ConnectionHealthIndicator health={health} />
+            )}
           </div>
         </div>
 
@@ -152,6 +190,9 @@ export const ConnectionItem: React.FC<ConnectionItemProps> = ({
           <ConnectionStatus
             isConnected={localIsConnected}
             isChecking={isChecking}
+            status={hasHealth ? health : undefined}
+            warning={getIncompleteListsWarning(incompleteLists)}
+            socketState={socketState}
           />
         </div>
       </div>
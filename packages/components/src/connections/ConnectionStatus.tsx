@@ -1,19 +1,70 @@
 import React from "react";
-import { ConnectionStatus as ConnectionStatusType } from "@mcpconnect/schemas";
-import { Loader2 } from "lucide-react";
+import {
+  ConnectionStatus as ConnectionStatusType,
+  IntrospectionList,
+  WebSocketState,
+} from "@mcpconnect/schemas";
+import { AlertTriangle, Loader2, Radio } from "lucide-react";
 
 export interface ConnectionStatusProps {
   isConnected?: boolean;
   isChecking?: boolean;
+  checkingLabel?: string;
   label?: string;
   status?: ConnectionStatusType;
+  warning?: string;
+  /** State of the connection's long-lived WebSocket, if it has one */
+  socketState?: WebSocketState;
 }
 
+const INTROSPECTION_LIST_LABELS: Record<IntrospectionList, string> = {
+  tools: "tools",
+  resources: "resources",
+  resourceTemplates: "resource templates",
+  prompts: "prompts",
+};
+
+const SOCKET_STATE_DISPLAY: Record<
+  WebSocketState,
+  { label: string; title: string; className: string }
+> = {
+  open: {
+    label: "Socket open",
+    title: "WebSocket is open",
+    className: "text-green-600 dark:text-green-400",
+  },
+  reconnecting: {
+    label: "Reconnecting",
+    title: "WebSocket dropped, reconnecting with backoff",
+    className: "text-amber-600 dark:text-amber-400",
+  },
+  closed: {
+    label: "Socket closed",
+    title: "WebSocket is closed",
+    className: "text-gray-500 dark:text-gray-400",
+  },
+};
+
+/**
+ * Build the warning shown when introspection hit the page cap
+ */
+export const getIncompleteListsWarning = (
+  incompleteLists?: IntrospectionList[]
+): string | undefined => {
+  if (!incompleteLists || incompleteLists.length === 0) return undefined;
+
+  const lists = incompleteLists.map(list => INTROSPECTION_LIST_LABELS[list]);
+  return `Page limit reached: ${lists.join(", ")} may be incomplete`;
+};
+
 export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
   isConnected = true,
   isChecking = false,
+  checkingLabel = "Checking...",
   label,
   status,
+  warning,
+  socketState,
 }) => {
   const connected = status?.isConnected ?? isConnected;
 
@@ -22,7 +73,7 @@ export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
       <div className="flex items-center gap-2">
         <Loader2 className="w-3 h-3 text-gray-400 animate-spin" />
         <span className="text-sm font-medium text-gray-500 dark:text-gray-400">
-          Checking...
+          {checkingLabel}
         </span>
       </div>
     );
@@ -31,7 +82,7 @@ export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
   const displayLabel = label || (connected ? "Connected" : "Disconnected");
 
   return (
-    <div className="flex items-center gap-2">
+    <div className="flex items-center gap-2 min-w-0">
       <div
         className={`w-2 h-2 rounded-full ${connected ? "bg-green-500" : "bg-red-500"}`}
       />
@@ -43,6 +94,28 @@ export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
           ({status.latency}ms)
         </span>
       )}
+      {socketState && (
+        <span
+          className={`flex items-center gap-1 text-xs flex-shrink-0 ${SOCKET_STATE_DISPLAY[socketState].className}`}
+          title={SOCKET_STATE_DISPLAY[socketState].title}
+        >
+          {socketState === "reconnecting" ? (
+            <Loader2 className="w-3 h-3 animate-spin" />
+          ) : (
+            <Radio className="w-3 h-3" />
+          )}
+          <span>{SOCKET_STATE_DISPLAY[socketState].label}</span>
+        </span>
+      )}
+      {warning && (
+        <span
+          className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400 min-w-0"
+          title={warning}
+        >
+          <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">Incomplete</span>
+        </span>
+      )}
     </div>
   );
 };
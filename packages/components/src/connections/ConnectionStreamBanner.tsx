@@ -0,0 +1,73 @@
+import React from "react";
+import { Connection, SSEStreamStatus } from "@mcpconnect/schemas";
+import { AlertTriangle, Loader2, RefreshCw } from "lucide-react";
+
+export interface ConnectionStreamBannerProps {
+  /** Connections whose event stream is not open, with its status */
+  streams: Array<{ connection: Connection; status: SSEStreamStatus }>;
+  onReconnect: (connection: Connection) => void;
+}
+
+/**
+ * Lists connections whose SSE stream dropped, while they reconnect or
+ * after reconnecting has given up
+ */
+export const ConnectionStreamBanner: React.FC<ConnectionStreamBannerProps> = ({
+  streams,
+  onReconnect,
+}) => {
+  if (streams.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-2">
+      {streams.map(({ connection, status }) => {
+        const failed = status.state === "failed";
+
+        return (
+          <div
+            key={connection.id}
+            role="status"
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg border text-sm ${
+              failed
+                ? "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-300"
+                : "bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300"
+            }`}
+          >
+            {failed ? (
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            ) : (
+              <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" />
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="font-medium truncate">
+                {failed
+                  ? `Lost the connection to ${connection.name}`
+                  : `Reconnecting to ${connection.name}`}
+                {!failed && status.attempt > 0 && (
+                  <span className="font-normal">
+                    {" "}
+                    (attempt {status.attempt} of {status.maxAttempts})
+                  </span>
+                )}
+              </div>
+              <div className="text-xs opacity-80 truncate" title={status.error}>
+                {failed
+                  ? `Gave up after ${status.maxAttempts} attempts${status.error ? `: ${status.error}` : ""}`
+                  : status.error
+                    ? `Last attempt failed: ${status.error}`
+                    : "The event stream closed, so requests fail until it is back."}
+              </div>
+            </div>
+            <button
+              onClick={() => onReconnect(connection)}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md bg-white/70 dark:bg-gray-800/70 border border-gray-200 dark:border-gray-600 hover:bg-white dark:hover:bg-gray-800 transition-colors flex-shrink-0"
+            >
+              <RefreshCw className="w-3 h-3" />
+              Retry now
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from "react";
+import { ProtocolVersion } from "@mcpconnect/schemas";
+
+export interface ProtocolVersionBadgeProps {
+  /** Version the connection asks for, the latest when unset */
+  requested?: ProtocolVersion;
+  /** Version the server answered initialize with */
+  negotiated?: string;
+}
+
+export const ProtocolVersionBadge: React.FC<ProtocolVersionBadgeProps> = ({
+  requested,
+  negotiated,
+}) => {
+  if (!negotiated) return null;
+
+  const differs = requested !== undefined && requested !== negotiated;
+
+  return (
+    <span
+      className={`inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-mono flex-shrink-0 ${
+        differs
+          ? "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300"
+          : "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+      }`}
+      title={
+        differs
+          ? `Requested protocol ${requested}, the server negotiated ${negotiated}`
+          : `Negotiated MCP protocol version ${negotiated}`
+      }
+    >
+      MCP {negotiated}
+    </span>
+  );
+};
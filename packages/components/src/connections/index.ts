@@ -1,8 +1,22 @@
 export { ConnectionItem, type ConnectionItemProps } from "./ConnectionItem";
 export {
   ConnectionStatus,
+  getIncompleteListsWarning,
   type ConnectionStatusProps,
 } from "./ConnectionStatus";
+export {
+  ProtocolVersionBadge,
+  type ProtocolVersionBadgeProps,
+} from "./ProtocolVersionBadge";
+export {
+  ConnectionHealthIndicator,
+  getHealthUptime,
+  type ConnectionHealthIndicatorProps,
+} from "./ConnectionHealthIndicator";
+export {
+  ConnectionStreamBanner,
+  type ConnectionStreamBannerProps,
+} from "./ConnectionStreamBanner";
 export { ConnectionGrid, type ConnectionGridProps } from "./ConnectionGrid";
 export {
   ConnectionEmptyState,
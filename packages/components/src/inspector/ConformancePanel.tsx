@@ -0,0 +1,232 @@
+import React from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Loader2,
+  MinusCircle,
+  Play,
+  ShieldCheck,
+  Square,
+  XCircle,
+} from "lucide-react";
+import {
+  ConformanceCategory,
+  ConformanceCheckResult,
+  ConformanceReport,
+  ConformanceStatus,
+} from "@mcpconnect/schemas";
+
+export interface ConformancePanelProps {
+  /** The last finished run, saved with the connection */
+  report?: ConformanceReport | null;
+  /** Results so far while a run is going */
+  progress?: ConformanceCheckResult[];
+  isRunning?: boolean;
+  error?: string | null;
+  onRun?: () => void;
+  onCancel?: () => void;
+  /** False for connections the checks can't run against */
+  supported?: boolean;
+}
+
+const CATEGORY_LABELS: Record<ConformanceCategory, string> = {
+  initialize: "Initialize",
+  capabilities: "Capabilities",
+  errors: "Error codes",
+  tools: "Tools",
+  pagination: "Pagination",
+  ping: "Ping",
+  notifications: "Notifications",
+};
+
+const STATUS_DISPLAY: Record<
+  ConformanceStatus,
+  { label: string; icon: typeof CheckCircle2; className: string }
+> = {
+  pass: {
+    label: "passed",
+    icon: CheckCircle2,
+    className: "text-green-600 dark:text-green-400",
+  },
+  warn: {
+    label: "warnings",
+    icon: AlertTriangle,
+    className: "text-amber-600 dark:text-amber-400",
+  },
+  fail: {
+    label: "failed",
+    icon: XCircle,
+    className: "text-red-600 dark:text-red-400",
+  },
+  skip: {
+    label: "skipped",
+    icon: MinusCircle,
+    className: "text-gray-400 dark:text-gray-500",
+  },
+};
+
+const groupByCategory = (results: ConformanceCheckResult[]) =>
+  results.reduce<Array<[ConformanceCategory, ConformanceCheckResult[]]>>(
+    (groups, result) => {
+      const group = groups.find(([category]) => category === result.category);
+      if (group) {
+        group[1].push(result);
+      } else {
+        groups.push([result.category, [result]]);
+      }
+      return groups;
+    },
+    []
+  );
+
+export const ConformancePanel: React.FC<ConformancePanelProps> = ({
+  report,
+  progress = [],
+  isRunning = false,
+  error,
+  onRun,
+  onCancel,
+  supported = true,
+}) => {
+  const results = isRunning ? progress : report?.results || [];
+  const server = report?.serverInfo
+    ? [report.serverInfo.name, report.serverInfo.version]
+        .filter(Boolean)
+        .join(" ")
+    : undefined;
+
+  return (
+    <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 flex flex-col h-full">
+      {/* Header */}
+      <div className="border-b border-gray-200 dark:border-gray-700 px-4 py-3 flex items-center justify-between bg-white dark:bg-gray-900">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          <h3 className="font-semibold text-sm text-gray-900 dark:text-gray-100">
+            Conformance
+          </h3>
+        </div>
+        {report && !isRunning && (
+          <div className="flex items-center gap-2 text-[10px]">
+            {(["pass", "warn", "fail"] as const).map(status => (
+              <span
+                key={status}
+                className={`font-medium ${STATUS_DISPLAY[status].className}`}
+              >
+                {report.summary[status] ?? 0} {STATUS_DISPLAY[status].label}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Run controls */}
+      <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 space-y-2">
+        <div className="flex items-center gap-1.5">
+          {isRunning ? (
+            <button
+              onClick={onCancel}
+              disabled={!onCancel}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors disabled:opacity-40"
+            >
+              <Square className="w-3.5 h-3.5" />
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={onRun}
+              disabled={!onRun || !supported}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors disabled:opacity-40"
+            >
+              <Play className="w-3.5 h-3.5" />
+              Run conformance checks
+            </button>
+          )}
+          {isRunning && (
+            <span className="flex items-center gap-1 text-[10px] text-gray-500 dark:text-gray-400">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              {progress.length} checks run
+            </span>
+          )}
+        </div>
+
+        <div className="text-[10px] text-gray-500 dark:text-gray-400">
+          {!supported
+            ? "Conformance checks only apply to MCP servers"
+            : report && !isRunning
+              ? [
+                  `Last run ${new Date(report.finishedAt).toLocaleString()}`,
+                  server,
+                  report.protocolVersion &&
+                    `protocol ${report.protocolVersion}`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")
+              : "Opens a fresh session and sends requests that are meant to fail, to see how the server answers them"}
+        </div>
+
+        {error && (
+          <div className="text-[10px] text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto bg-gray-50 dark:bg-gray-950">
+        {results.length === 0 ? (
+          <div className="h-full flex items-center justify-center p-4 text-xs text-gray-500 dark:text-gray-400 text-center">
+            {isRunning
+              ? "Starting the initialize handshake..."
+              : "Run the checks to see how closely the server follows the protocol"}
+          </div>
+        ) : (
+          groupByCategory(results).map(([category, checks]) => (
+            <div key={category}>
+              <div className="px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-800">
+                {CATEGORY_LABELS[category]}
+              </div>
+              {checks.map(check => {
+                const display = STATUS_DISPLAY[check.status];
+                const Icon = display.icon;
+
+                return (
+                  <div
+                    key={check.id}
+                    className="px-3 py-1.5 flex gap-2 items-start border-b border-gray-100 dark:border-gray-800"
+                  >
+                    <Icon
+                      className={`w-3.5 h-3.5 mt-0.5 flex-shrink-0 ${display.className}`}
+                      aria-label={check.status}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <span className="text-xs font-medium text-gray-900 dark:text-gray-100">
+                          {check.title}
+                        </span>
+                        <span className="text-[10px] text-gray-400 dark:text-gray-500 flex-shrink-0">
+                          {check.duration}ms
+                        </span>
+                      </div>
+                      <div className="text-[11px] text-gray-600 dark:text-gray-400 break-words">
+                        {check.message}
+                      </div>
+                      {check.details && check.details.length > 0 && (
+                        <ul className="mt-1 space-y-0.5 font-mono text-[10px] text-gray-500 dark:text-gray-400">
+                          {check.details.map((detail, index) => (
+                            <li key={index} className="break-words">
+                              {detail}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
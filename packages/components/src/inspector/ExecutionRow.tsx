@@ -7,6 +7,7 @@ import {
   Clock,
   Trash2,
   Sparkles,
+  Ban,
 } from "lucide-react";
 import { ToolExecution } from "@mcpconnect/schemas";
 import { formatTimestamp } from "../common/JsonCodeBlock";
@@ -76,6 +77,8 @@ export const ExecutionRow: React.FC<ExecutionRowProps> = ({
         return <AlertCircle className="w-3.5 h-3.5 text-red-500" />;
       case "pending":
         return <Clock className="w-3.5 h-3.5 text-blue-500 animate-pulse" />;
+      case "cancelled":
+        return <Ban className="w-3.5 h-3.5 text-amber-500" />;
       default:
         return null;
     }
@@ -93,6 +96,8 @@ export const ExecutionRow: React.FC<ExecutionRowProps> = ({
         return "text-red-600 dark:text-red-400";
       case "pending":
         return "text-blue-600 dark:text-blue-400";
+      case "cancelled":
+        return "text-amber-600 dark:text-amber-400";
       default:
         return "text-gray-600 dark:text-gray-400";
     }
@@ -106,6 +111,8 @@ export const ExecutionRow: React.FC<ExecutionRowProps> = ({
         return "500";
       case "pending":
         return "...";
+      case "cancelled":
+        return "499";
       default:
         return "—";
     }
@@ -1,7 +1,8 @@
 /* eslint-disable jsx-a11y/click-events-have-key-events */
 /* eslint-disable jsx-a11y/no-static-element-interactions */
 import React, { useState, useEffect, useRef, useMemo } from "react";
-import { ToolExecution } from "@mcpconnect/schemas";
+import { Braces } from "lucide-react";
+import { ResourceContents, ToolExecution } from "@mcpconnect/schemas";
 import { JsonCodeBlock, parseTimestampToNumber } from "../common/JsonCodeBlock";
 import { ExecutionSearchBar } from "./ExecutionSearchBar";
 import { ExecutionTableHeader } from "./ExecutionTableHeader";
@@ -26,6 +27,7 @@ export interface NetworkInspectorProps {
   isManualContext?: boolean;
   onDeleteExecution?: (executionId: string) => void;
   hiddenExecutions?: Set<string>;
+  onReadResource?: (uri: string) => Promise<ResourceContents[]>;
 }
 
 export const NetworkInspector: React.FC<NetworkInspectorProps> = ({
@@ -40,6 +42,7 @@ export const NetworkInspector: React.FC<NetworkInspectorProps> = ({
   isManualContext = false,
   onDeleteExecution,
   hiddenExecutions = new Set(),
+  onReadResource,
 }) => {
   const [internalSelectedExecution, setInternalSelectedExecution] = useState<
     string | null
@@ -421,6 +424,7 @@ export const NetworkInspector: React.FC<NetworkInspectorProps> = ({
                   showDemoData={showDemoData}
                   emptyStateTitle={emptyState.title}
                   emptyStateSubtitle={emptyState.subtitle}
+                  onReadResource={onReadResource}
                 />
               </div>
 
@@ -503,6 +507,30 @@ export const NetworkInspector: React.FC<NetworkInspectorProps> = ({
                     )}
                   </ExpandableSection>
                 )}
+
+                {selected.response?.structuredContent !== undefined && (
+                  <ExpandableSection
+                    id={`${selected.id}-structured`}
+                    title="Structured Content"
+                    icon={<Braces className="w-4 h-4 text-purple-500" />}
+                    isExpanded={expandedItems.has(`${selected.id}-structured`)}
+                    onToggle={toggleExpanded}
+                  >
+                    <JsonCodeBlock
+                      data={selected.response.structuredContent}
+                      onCopy={() =>
+                        copyToClipboard(
+                          JSON.stringify(
+                            selected.response?.structuredContent,
+                            null,
+                            2
+                          )
+                        )
+                      }
+                      showDemo={showDemoData}
+                    />
+                  </ExpandableSection>
+                )}
               </div>
             </div>
           ) : (
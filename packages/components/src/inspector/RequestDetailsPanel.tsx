@@ -1,15 +1,21 @@
 // Replace the RequestDetailsPanel component with this more compact version:
 
 import React from "react";
-import { Database, CheckCircle, AlertCircle, Clock } from "lucide-react";
-import { ToolExecution } from "@mcpconnect/schemas";
+import { Database, CheckCircle, AlertCircle, Clock, Ban } from "lucide-react";
+import { ResourceContents, ToolExecution } from "@mcpconnect/schemas";
 import { formatTimestamp } from "../common/JsonCodeBlock";
+import { OutputValidationNotice } from "../common/OutputValidationNotice";
+import {
+  ToolResultContentView,
+  getToolResultContent,
+} from "../common/ToolResultContentView";
 
 export interface RequestDetailsPanelProps {
   selected: ToolExecution | undefined;
   showDemoData: boolean;
   emptyStateTitle: string;
   emptyStateSubtitle: string;
+  onReadResource?: (uri: string) => Promise<ResourceContents[]>;
 }
 
 // Helper to format duration
@@ -44,6 +50,7 @@ export const RequestDetailsPanel: React.FC<RequestDetailsPanelProps> = ({
   showDemoData,
   emptyStateTitle,
   emptyStateSubtitle,
+  onReadResource,
 }) => {
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -53,6 +60,8 @@ export const RequestDetailsPanel: React.FC<RequestDetailsPanelProps> = ({
         return <AlertCircle className="w-3 h-3 text-red-500" />;
       case "pending":
         return <Clock className="w-3 h-3 text-blue-500 animate-pulse" />;
+      case "cancelled":
+        return <Ban className="w-3 h-3 text-amber-500" />;
       default:
         return null;
     }
@@ -66,6 +75,8 @@ export const RequestDetailsPanel: React.FC<RequestDetailsPanelProps> = ({
         return "text-red-600 dark:text-red-400";
       case "pending":
         return "text-blue-600 dark:text-blue-400";
+      case "cancelled":
+        return "text-amber-600 dark:text-amber-400";
       default:
         return "text-gray-600 dark:text-gray-400";
     }
@@ -85,6 +96,8 @@ export const RequestDetailsPanel: React.FC<RequestDetailsPanelProps> = ({
     );
   }
 
+  const richContent = getToolResultContent(selected);
+
   return (
     <div className="h-full flex flex-col">
       {/* Details Header - More compact */}
@@ -101,15 +114,24 @@ export const RequestDetailsPanel: React.FC<RequestDetailsPanelProps> = ({
                   ? "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
                   : selected.status === "success"
                     ? "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300"
-                    : "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+                    : selected.status === "cancelled"
+                      ? "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300"
+                      : "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
               }`}
             >
               {selected.status === "pending"
                 ? "Pending"
                 : selected.status === "success"
                   ? "200 OK"
-                  : "500 Error"}
+                  : selected.status === "cancelled"
+                    ? "Cancelled"
+                    : "500 Error"}
             </span>
+            {selected.response?.outputValidation?.valid === false && (
+              <span className="text-[10px] font-medium px-1.5 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+                Schema mismatch
+              </span>
+            )}
             {showDemoData && (
               <span className="text-[10px] font-medium px-1.5 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
                 Demo
@@ -183,6 +205,22 @@ export const RequestDetailsPanel: React.FC<RequestDetailsPanelProps> = ({
             )}
           </div>
         </div>
+
+        {selected.response?.outputValidation && (
+          <div className="mt-2.5">
+            <OutputValidationNotice
+              validation={selected.response.outputValidation}
+            />
+          </div>
+        )}
+
+        {richContent.length > 0 && (
+          <ToolResultContentView
+            content={richContent}
+            onReadResource={onReadResource}
+            className="mt-2.5"
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,288 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from "react";
+import {
+  Download,
+  Pause,
+  Play,
+  ScrollText,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+import { LoggingLevel, ServerLogEntry } from "@mcpconnect/schemas";
+
+export interface ServerLogPanelProps {
+  entries: ServerLogEntry[];
+  connectionName?: string;
+  level?: LoggingLevel;
+  onLevelChange?: (level: LoggingLevel) => void;
+  isSettingLevel?: boolean;
+  levelError?: string | null;
+  loggingSupported?: boolean;
+  onClear?: () => void;
+}
+
+const LOG_LEVELS: LoggingLevel[] = [
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+];
+
+const LEVEL_COLORS: Record<LoggingLevel, string> = {
+  debug: "text-gray-500 dark:text-gray-400",
+  info: "text-blue-600 dark:text-blue-400",
+  notice: "text-cyan-600 dark:text-cyan-400",
+  warning: "text-amber-600 dark:text-amber-400",
+  error: "text-red-600 dark:text-red-400",
+  critical: "text-red-700 dark:text-red-300",
+  alert: "text-red-700 dark:text-red-300",
+  emergency: "text-red-800 dark:text-red-200",
+};
+
+const formatLogData = (data: unknown): string =>
+  typeof data === "string" ? data : JSON.stringify(data);
+
+const downloadLogs = (entries: ServerLogEntry[], connectionName?: string) => {
+  const blob = new Blob([JSON.stringify(entries, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${(connectionName || "server").replace(/[^a-z0-9-_]+/gi, "-")}-logs.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const ServerLogPanel: React.FC<ServerLogPanelProps> = ({
+  entries,
+  connectionName,
+  level,
+  onLevelChange,
+  isSettingLevel = false,
+  levelError,
+  loggingSupported,
+  onClear,
+}) => {
+  const [minLevel, setMinLevel] = useState<LoggingLevel>("debug");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [pausedEntries, setPausedEntries] = useState<ServerLogEntry[] | null>(
+    null
+  );
+  const listRef = useRef<HTMLDivElement>(null);
+  const levelSelectId = useId();
+  const filterSelectId = useId();
+
+  // While paused the view keeps the entries it had when paused
+  const shownEntries = pausedEntries ?? entries;
+  const lastPausedId = pausedEntries?.[pausedEntries.length - 1]?.id;
+  const newWhilePaused = pausedEntries
+    ? entries.length - 1 - entries.findIndex(entry => entry.id === lastPausedId)
+    : 0;
+
+  const filteredEntries = useMemo(() => {
+    const minIndex = LOG_LEVELS.indexOf(minLevel);
+    const query = searchQuery.trim().toLowerCase();
+
+    return shownEntries.filter(entry => {
+      if (LOG_LEVELS.indexOf(entry.level) < minIndex) return false;
+      if (!query) return true;
+      return (
+        entry.logger?.toLowerCase().includes(query) ||
+        formatLogData(entry.data).toLowerCase().includes(query)
+      );
+    });
+  }, [shownEntries, minLevel, searchQuery]);
+
+  useEffect(() => {
+    if (!pausedEntries && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [filteredEntries.length, pausedEntries]);
+
+  const handleClear = () => {
+    setPausedEntries(prev => (prev ? [] : prev));
+    onClear?.();
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 flex flex-col h-full">
+      {/* Header */}
+      <div className="border-b border-gray-200 dark:border-gray-700 px-4 py-3 flex items-center justify-between bg-white dark:bg-gray-900">
+        <div className="flex items-center gap-2">
+          <ScrollText className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          <h3 className="font-semibold text-sm text-gray-900 dark:text-gray-100">
+            Server Logs
+          </h3>
+        </div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {filteredEntries.length} of {shownEntries.length} entries
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 space-y-2">
+        <div className="flex items-center gap-2">
+          <label
+            htmlFor={levelSelectId}
+            className="text-[10px] font-medium text-gray-500 dark:text-gray-400 whitespace-nowrap"
+          >
+            Server level
+          </label>
+          <select
+            id={levelSelectId}
+            value={level || ""}
+            onChange={e => onLevelChange?.(e.target.value as LoggingLevel)}
+            disabled={
+              !onLevelChange || isSettingLevel || loggingSupported === false
+            }
+            className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-200 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+            title="Sent to the server with logging/setLevel"
+          >
+            <option value="" disabled>
+              Server default
+            </option>
+            {LOG_LEVELS.map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <label
+            htmlFor={filterSelectId}
+            className="text-[10px] font-medium text-gray-500 dark:text-gray-400 whitespace-nowrap"
+          >
+            Show
+          </label>
+          <select
+            id={filterSelectId}
+            value={minLevel}
+            onChange={e => setMinLevel(e.target.value as LoggingLevel)}
+            className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-200 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+            title="Hide entries below this level"
+          >
+            {LOG_LEVELS.map(option => (
+              <option key={option} value={option}>
+                {option === "debug" ? "all levels" : `${option}+`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-1.5">
+          <div className="relative flex-1">
+            <div className="absolute inset-y-0 left-0 pl-2.5 flex items-center pointer-events-none">
+              <Search className="h-3.5 w-3.5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              placeholder="Search logger or message..."
+              value={searchQuery}
+              onChange={e => setSearchQuery(e.target.value)}
+              className="block w-full pl-8 pr-7 py-1 text-xs border border-gray-200 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-transparent"
+            />
+            {searchQuery && (
+              <button
+                onClick={() => setSearchQuery("")}
+                className="absolute inset-y-0 right-0 pr-2 flex items-center"
+                type="button"
+              >
+                <X className="h-3 w-3 text-gray-400 hover:text-gray-600 transition-colors" />
+              </button>
+            )}
+          </div>
+          <button
+            onClick={() => setPausedEntries(prev => (prev ? null : entries))}
+            className="p-1.5 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+            title={pausedEntries ? "Resume live updates" : "Pause live updates"}
+          >
+            {pausedEntries ? (
+              <Play className="w-3.5 h-3.5" />
+            ) : (
+              <Pause className="w-3.5 h-3.5" />
+            )}
+          </button>
+          <button
+            onClick={() => downloadLogs(filteredEntries, connectionName)}
+            disabled={filteredEntries.length === 0}
+            className="p-1.5 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-40"
+            title="Export shown entries as JSON"
+          >
+            <Download className="w-3.5 h-3.5" />
+          </button>
+          {onClear && (
+            <button
+              onClick={handleClear}
+              disabled={entries.length === 0}
+              className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors disabled:opacity-40"
+              title="Clear logs"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+
+        {levelError && (
+          <div className="text-[10px] text-red-600 dark:text-red-400">
+            {levelError}
+          </div>
+        )}
+        {loggingSupported === false && (
+          <div className="text-[10px] text-amber-600 dark:text-amber-400">
+            This server does not declare the logging capability
+          </div>
+        )}
+        {pausedEntries && (
+          <div className="text-[10px] text-blue-600 dark:text-blue-400">
+            Paused
+            {newWhilePaused > 0 && ` - ${newWhilePaused} new entries`}
+          </div>
+        )}
+      </div>
+
+      {/* Entries */}
+      <div
+        ref={listRef}
+        className="flex-1 overflow-y-auto bg-gray-50 dark:bg-gray-950 font-mono text-[11px]"
+      >
+        {filteredEntries.length === 0 ? (
+          <div className="h-full flex items-center justify-center p-4 text-xs text-gray-500 dark:text-gray-400 text-center font-sans">
+            {shownEntries.length === 0
+              ? "Log messages from this server will appear here"
+              : "No entries match the current filters"}
+          </div>
+        ) : (
+          filteredEntries.map(entry => (
+            <div
+              key={entry.id}
+              className="px-3 py-1 border-b border-gray-100 dark:border-gray-800 flex gap-2 items-start"
+            >
+              <span className="text-gray-400 dark:text-gray-500 flex-shrink-0">
+                {new Date(entry.receivedAt).toLocaleTimeString()}
+              </span>
+              <span
+                className={`w-16 flex-shrink-0 uppercase font-semibold ${LEVEL_COLORS[entry.level]}`}
+              >
+                {entry.level}
+              </span>
+              <span className="flex-1 min-w-0 text-gray-900 dark:text-gray-100 whitespace-pre-wrap break-words">
+                {entry.logger && (
+                  <span className="text-purple-600 dark:text-purple-400 mr-1.5">
+                    [{entry.logger}]
+                  </span>
+                )}
+                {formatLogData(entry.data)}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef } from "react";
+import { Play, RotateCw, Square, Terminal, Trash2 } from "lucide-react";
+import {
+  StdioProcessState,
+  StdioProcessStatus,
+  StdioStderrLine,
+} from "@mcpconnect/schemas";
+
+export interface StdioProcessPanelProps {
+  status?: StdioProcessStatus | null;
+  stderr: StdioStderrLine[];
+  onStart?: () => void;
+  onStop?: () => void;
+  onRestart?: () => void;
+  onClear?: () => void;
+  isBusy?: boolean;
+  error?: string | null;
+}
+
+const STATE_STYLES: Record<StdioProcessState, string> = {
+  running:
+    "text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/30",
+  stopped: "text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-800",
+  exited: "text-red-700 dark:text-red-300 bg-red-100 dark:bg-red-900/30",
+};
+
+const describeExit = (status: StdioProcessStatus) => {
+  if (status.signal) return `Killed by ${status.signal}`;
+  if (status.exitCode !== undefined && status.exitCode !== null) {
+    return `Exit code ${status.exitCode}`;
+  }
+  return null;
+};
+
+export const StdioProcessPanel: React.FC<StdioProcessPanelProps> = ({
+  status,
+  stderr,
+  onStart,
+  onStop,
+  onRestart,
+  onClear,
+  isBusy = false,
+  error,
+}) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const isRunning = status?.state === "running";
+  const exitDescription = status && !isRunning ? describeExit(status) : null;
+
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [stderr.length]);
+
+  return (
+    <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 flex flex-col h-full">
+      {/* Header */}
+      <div className="border-b border-gray-200 dark:border-gray-700 px-4 py-3 flex items-center justify-between bg-white dark:bg-gray-900">
+        <div className="flex items-center gap-2">
+          <Terminal className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          <h3 className="font-semibold text-sm text-gray-900 dark:text-gray-100">
+            Process
+          </h3>
+        </div>
+        {status && (
+          <span
+            className={`px-1.5 py-0.5 rounded text-[10px] font-medium uppercase ${STATE_STYLES[status.state]}`}
+          >
+            {status.state}
+          </span>
+        )}
+      </div>
+
+      {/* Status and controls */}
+      <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 space-y-2">
+        {status ? (
+          <div className="space-y-1 text-[10px] text-gray-500 dark:text-gray-400">
+            <div
+              className="font-mono text-gray-900 dark:text-gray-100 truncate"
+              title={[status.command, ...status.args].join(" ")}
+            >
+              {[status.command, ...status.args].join(" ")}
+            </div>
+            <div className="flex flex-wrap gap-x-3">
+              {isRunning && status.pid !== undefined && (
+                <span>PID {status.pid}</span>
+              )}
+              {isRunning && status.startedAt && (
+                <span>
+                  Started {new Date(status.startedAt).toLocaleTimeString()}
+                </span>
+              )}
+              {exitDescription && <span>{exitDescription}</span>}
+            </div>
+            {status.error && (
+              <div className="text-red-600 dark:text-red-400">
+                {status.error}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="text-[10px] text-gray-500 dark:text-gray-400">
+            The process starts when the connection is first used
+          </div>
+        )}
+
+        <div className="flex items-center gap-1.5">
+          <button
+            onClick={onStart}
+            disabled={!onStart || !status || isRunning || isBusy}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-green-700 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 rounded transition-colors disabled:opacity-40"
+            title="Start the process"
+          >
+            <Play className="w-3.5 h-3.5" />
+            Start
+          </button>
+          <button
+            onClick={onStop}
+            disabled={!onStop || !isRunning || isBusy}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors disabled:opacity-40"
+            title="Stop the process"
+          >
+            <Square className="w-3.5 h-3.5" />
+            Stop
+          </button>
+          <button
+            onClick={onRestart}
+            disabled={!onRestart || !status || isBusy}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors disabled:opacity-40"
+            title="Restart the process"
+          >
+            <RotateCw
+              className={`w-3.5 h-3.5 ${isBusy ? "animate-spin" : ""}`}
+            />
+            Restart
+          </button>
+          <div className="flex-1" />
+          {onClear && (
+            <button
+              onClick={onClear}
+              disabled={stderr.length === 0}
+              className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors disabled:opacity-40"
+              title="Clear output"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="text-[10px] text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {/* Stderr */}
+      <div
+        ref={listRef}
+        className="flex-1 overflow-y-auto bg-gray-50 dark:bg-gray-950 font-mono text-[11px]"
+      >
+        {stderr.length === 0 ? (
+          <div className="h-full flex items-center justify-center p-4 text-xs text-gray-500 dark:text-gray-400 text-center font-sans">
+            Output the process writes to stderr will appear here
+          </div>
+        ) : (
+          stderr.map(entry => (
+            <div
+              key={entry.seq}
+              className="px-3 py-0.5 flex gap-2 items-start border-b border-gray-100 dark:border-gray-800"
+            >
+              <span className="text-gray-400 dark:text-gray-500 flex-shrink-0">
+                {new Date(entry.timestamp).toLocaleTimeString()}
+              </span>
+              <span className="flex-1 min-w-0 text-gray-900 dark:text-gray-100 whitespace-pre-wrap break-words">
+                {entry.line}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,495 @@
+/* eslint-disable jsx-a11y/click-events-have-key-events */
+/* eslint-disable jsx-a11y/no-static-element-interactions */
+import React, { useEffect, useId, useMemo, useRef, useState } from "react";
+import {
+  Activity,
+  ArrowDownLeft,
+  ArrowUpRight,
+  CircleDot,
+  Download,
+  Pause,
+  Play,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+import { ToolExecution, TrafficEntry } from "@mcpconnect/schemas";
+import { JsonCodeBlock } from "../common/JsonCodeBlock";
+import { RequestDetailsPanel } from "./RequestDetailsPanel";
+
+export interface TrafficPanelProps {
+  entries: TrafficEntry[];
+  connectionName?: string;
+  onClear?: () => void;
+}
+
+type KindFilter = "all" | "messages" | "events" | "errors";
+type DirectionFilter = "all" | "outgoing" | "incoming";
+
+const DIRECTION_DISPLAY: Record<
+  TrafficEntry["direction"],
+  { icon: typeof Activity; className: string; label: string }
+> = {
+  outgoing: {
+    icon: ArrowUpRight,
+    className: "text-blue-600 dark:text-blue-400",
+    label: "Sent",
+  },
+  incoming: {
+    icon: ArrowDownLeft,
+    className: "text-green-600 dark:text-green-400",
+    label: "Received",
+  },
+  internal: {
+    icon: CircleDot,
+    className: "text-gray-400 dark:text-gray-500",
+    label: "Client",
+  },
+};
+
+const KIND_COLORS: Record<TrafficEntry["kind"], string> = {
+  request: "text-blue-700 dark:text-blue-300",
+  response: "text-green-700 dark:text-green-300",
+  notification: "text-amber-700 dark:text-amber-300",
+  event: "text-gray-500 dark:text-gray-400",
+};
+
+const formatTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, "0")}`;
+};
+
+const formatSize = (size?: number) =>
+  size === undefined
+    ? ""
+    : size < 1024
+      ? `${size} B`
+      : `${(size / 1024).toFixed(1)} KB`;
+
+const isMessage = (entry: TrafficEntry) => entry.kind !== "event";
+
+const downloadTraffic = (entries: TrafficEntry[], connectionName?: string) => {
+  const blob = new Blob([JSON.stringify(entries, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${(connectionName || "server").replace(/[^a-z0-9-_]+/gi, "-")}-traffic.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const copyToClipboard = (text: string) => {
+  navigator.clipboard
+    ?.writeText(text)
+    .catch(err => console.warn("Failed to copy text: ", err));
+};
+
+/**
+ * Present a request and its response the way the request inspector shows
+ * tool executions, so they can share the details panel
+ */
+const toExecution = (
+  request: TrafficEntry | undefined,
+  response: TrafficEntry | undefined
+): ToolExecution => {
+  const first = (request || response)!;
+  const method = request?.method || "Response";
+  const params = (request?.payload as any)?.params;
+  const reply = response?.payload as any;
+
+  return {
+    id: first.id,
+    tool: method,
+    status: !response ? "pending" : reply?.error ? "error" : "success",
+    duration:
+      request && response
+        ? new Date(response.timestamp).getTime() -
+          new Date(request.timestamp).getTime()
+        : undefined,
+    timestamp: first.timestamp,
+    request: {
+      tool: method,
+      arguments:
+        params && typeof params === "object" && !Array.isArray(params)
+          ? params
+          : undefined,
+      timestamp: request?.timestamp,
+    },
+    response:
+      response && !reply?.error
+        ? {
+            success: true,
+            result: reply?.result,
+            timestamp: response.timestamp,
+          }
+        : undefined,
+    error: reply?.error
+      ? `${reply.error.code}: ${reply.error.message}`
+      : undefined,
+  };
+};
+
+export const TrafficPanel: React.FC<TrafficPanelProps> = ({
+  entries,
+  connectionName,
+  onClear,
+}) => {
+  const [kindFilter, setKindFilter] = useState<KindFilter>("all");
+  const [directionFilter, setDirectionFilter] =
+    useState<DirectionFilter>("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [pausedEntries, setPausedEntries] = useState<TrafficEntry[] | null>(
+    null
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const kindSelectId = useId();
+  const directionSelectId = useId();
+
+  // While paused the view keeps the entries it had when paused
+  const shownEntries = pausedEntries ?? entries;
+  const lastPausedId = pausedEntries?.[pausedEntries.length - 1]?.id;
+  const newWhilePaused = pausedEntries
+    ? entries.length - 1 - entries.findIndex(entry => entry.id === lastPausedId)
+    : 0;
+
+  // Requests and responses share their JSON-RPC id
+  const exchanges = useMemo(() => {
+    const byId = new Map<
+      string,
+      { request?: TrafficEntry; response?: TrafficEntry }
+    >();
+    shownEntries.forEach(entry => {
+      if (
+        entry.messageId === undefined ||
+        (entry.kind !== "request" && entry.kind !== "response")
+      ) {
+        return;
+      }
+      const key = String(entry.messageId);
+      byId.set(key, { ...byId.get(key), [entry.kind]: entry });
+    });
+    return byId;
+  }, [shownEntries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+
+    return shownEntries.filter(entry => {
+      if (kindFilter === "messages" && !isMessage(entry)) return false;
+      if (kindFilter === "events" && isMessage(entry)) return false;
+      if (kindFilter === "errors" && !entry.error) return false;
+      if (directionFilter !== "all" && entry.direction !== directionFilter) {
+        return false;
+      }
+      if (!query) return true;
+      return [
+        entry.method,
+        entry.event,
+        entry.summary,
+        entry.messageId,
+        entry.sessionId,
+      ].some(value =>
+        String(value ?? "")
+          .toLowerCase()
+          .includes(query)
+      );
+    });
+  }, [shownEntries, kindFilter, directionFilter, searchQuery]);
+
+  useEffect(() => {
+    if (!pausedEntries && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [filteredEntries.length, pausedEntries]);
+
+  const handleClear = () => {
+    setPausedEntries(prev => (prev ? [] : prev));
+    setSelectedId(null);
+    onClear?.();
+  };
+
+  const selected = shownEntries.find(entry => entry.id === selectedId);
+  const exchange =
+    selected?.messageId !== undefined
+      ? exchanges.get(String(selected.messageId))
+      : undefined;
+
+  const getDuration = (entry: TrafficEntry) => {
+    if (entry.duration !== undefined) return entry.duration;
+    if (entry.kind !== "response" || entry.messageId === undefined) return;
+    const request = exchanges.get(String(entry.messageId))?.request;
+    return request
+      ? new Date(entry.timestamp).getTime() -
+          new Date(request.timestamp).getTime()
+      : undefined;
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 flex flex-col h-full">
+      {/* Header */}
+      <div className="border-b border-gray-200 dark:border-gray-700 px-4 py-3 flex items-center justify-between bg-white dark:bg-gray-900">
+        <div className="flex items-center gap-2">
+          <Activity className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+          <h3 className="font-semibold text-sm text-gray-900 dark:text-gray-100">
+            Traffic
+          </h3>
+        </div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {filteredEntries.length} of {shownEntries.length} entries
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 space-y-2">
+        <div className="flex items-center gap-2">
+          <label
+            htmlFor={kindSelectId}
+            className="text-[10px] font-medium text-gray-500 dark:text-gray-400 whitespace-nowrap"
+          >
+            Show
+          </label>
+          <select
+            id={kindSelectId}
+            value={kindFilter}
+            onChange={e => setKindFilter(e.target.value as KindFilter)}
+            className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-200 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="all">everything</option>
+            <option value="messages">JSON-RPC messages</option>
+            <option value="events">transport events</option>
+            <option value="errors">errors only</option>
+          </select>
+          <label
+            htmlFor={directionSelectId}
+            className="text-[10px] font-medium text-gray-500 dark:text-gray-400 whitespace-nowrap"
+          >
+            Direction
+          </label>
+          <select
+            id={directionSelectId}
+            value={directionFilter}
+            onChange={e =>
+              setDirectionFilter(e.target.value as DirectionFilter)
+            }
+            className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-200 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="all">both</option>
+            <option value="outgoing">sent</option>
+            <option value="incoming">received</option>
+          </select>
+        </div>
+
+        <div className="flex items-center gap-1.5">
+          <div className="relative flex-1">
+            <div className="absolute inset-y-0 left-0 pl-2.5 flex items-center pointer-events-none">
+              <Search className="h-3.5 w-3.5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              placeholder="Search method, event, id or session..."
+              value={searchQuery}
+              onChange={e => setSearchQuery(e.target.value)}
+              className="block w-full pl-8 pr-7 py-1 text-xs border border-gray-200 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-transparent"
+            />
+            {searchQuery && (
+              <button
+                onClick={() => setSearchQuery("")}
+                className="absolute inset-y-0 right-0 pr-2 flex items-center"
+                type="button"
+              >
+                <X className="h-3 w-3 text-gray-400 hover:text-gray-600 transition-colors" />
+              </button>
+            )}
+          </div>
+          <button
+            onClick={() => setPausedEntries(prev => (prev ? null : entries))}
+            className="p-1.5 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+            title={pausedEntries ? "Resume live updates" : "Pause live updates"}
+          >
+            {pausedEntries ? (
+              <Play className="w-3.5 h-3.5" />
+            ) : (
+              <Pause className="w-3.5 h-3.5" />
+            )}
+          </button>
+          <button
+            onClick={() => downloadTraffic(filteredEntries, connectionName)}
+            disabled={filteredEntries.length === 0}
+            className="p-1.5 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors disabled:opacity-40"
+            title="Export shown entries as JSON"
+          >
+            <Download className="w-3.5 h-3.5" />
+          </button>
+          {onClear && (
+            <button
+              onClick={handleClear}
+              disabled={entries.length === 0}
+              className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors disabled:opacity-40"
+              title="Clear traffic"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+
+        {pausedEntries && (
+          <div className="text-[10px] text-blue-600 dark:text-blue-400">
+            Paused
+            {newWhilePaused > 0 && ` - ${newWhilePaused} new entries`}
+          </div>
+        )}
+      </div>
+
+      {/* Timeline */}
+      <div
+        ref={listRef}
+        className={`overflow-y-auto bg-gray-50 dark:bg-gray-950 font-mono text-[11px] ${selected ? "h-1/2 flex-shrink-0" : "flex-1"}`}
+      >
+        {filteredEntries.length === 0 ? (
+          <div className="h-full flex items-center justify-center p-4 text-xs text-gray-500 dark:text-gray-400 text-center font-sans">
+            {shownEntries.length === 0
+              ? "Messages and transport events on this connection will appear here"
+              : "No entries match the current filters"}
+          </div>
+        ) : (
+          filteredEntries.map(entry => {
+            const direction = DIRECTION_DISPLAY[entry.direction];
+            const Icon = direction.icon;
+            const duration = getDuration(entry);
+
+            return (
+              <div
+                key={entry.id}
+                onClick={() =>
+                  setSelectedId(prev => (prev === entry.id ? null : entry.id))
+                }
+                className={`px-3 py-1 border-b border-gray-100 dark:border-gray-800 flex gap-2 items-center cursor-pointer ${
+                  selectedId === entry.id
+                    ? "bg-blue-50 dark:bg-blue-900/20"
+                    : "hover:bg-gray-100 dark:hover:bg-gray-800"
+                }`}
+              >
+                <span className="text-gray-400 dark:text-gray-500 flex-shrink-0">
+                  {formatTime(entry.timestamp)}
+                </span>
+                <Icon
+                  className={`w-3 h-3 flex-shrink-0 ${direction.className}`}
+                  aria-label={direction.label}
+                />
+                <span
+                  className={`w-12 flex-shrink-0 ${KIND_COLORS[entry.kind]}`}
+                >
+                  {entry.kind === "notification" ? "notify" : entry.kind}
+                </span>
+                <span
+                  className={`flex-1 min-w-0 truncate ${
+                    entry.error
+                      ? "text-red-600 dark:text-red-400"
+                      : "text-gray-900 dark:text-gray-100"
+                  }`}
+                  title={entry.summary}
+                >
+                  {entry.method || entry.event}
+                  {entry.messageId !== undefined && (
+                    <span className="ml-1.5 text-gray-400 dark:text-gray-500">
+                      #{entry.messageId}
+                    </span>
+                  )}
+                  {entry.kind === "event" && entry.summary && (
+                    <span className="ml-1.5 text-gray-500 dark:text-gray-400">
+                      {entry.summary}
+                    </span>
+                  )}
+                </span>
+                <span className="text-gray-400 dark:text-gray-500 flex-shrink-0">
+                  {[
+                    duration !== undefined && `${duration}ms`,
+                    formatSize(entry.size),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Details */}
+      {selected && (
+        <div className="flex-1 min-h-0 overflow-y-auto border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+          {isMessage(selected) && selected.kind !== "notification" && (
+            <div className="border-b border-gray-200 dark:border-gray-700">
+              <RequestDetailsPanel
+                selected={toExecution(exchange?.request, exchange?.response)}
+                showDemoData={false}
+                emptyStateTitle=""
+                emptyStateSubtitle=""
+              />
+            </div>
+          )}
+
+          <div className="p-3 space-y-2.5">
+            <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-[10px]">
+              {[
+                ["Transport", selected.transport],
+                ["Direction", DIRECTION_DISPLAY[selected.direction].label],
+                ["Time", formatTime(selected.timestamp)],
+                ["Size", formatSize(selected.size)],
+                ["Message id", selected.messageId],
+                ["Session", selected.sessionId],
+                ["HTTP status", selected.status],
+                [
+                  "Duration",
+                  selected.duration !== undefined
+                    ? `${selected.duration}ms`
+                    : undefined,
+                ],
+              ]
+                .filter(([, value]) => value !== undefined && value !== "")
+                .map(([label, value]) => (
+                  <div
+                    key={String(label)}
+                    className="flex justify-between gap-2 min-w-0"
+                  >
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {label}:
+                    </span>
+                    <span className="font-mono text-gray-900 dark:text-gray-100 truncate">
+                      {value}
+                    </span>
+                  </div>
+                ))}
+            </div>
+
+            {selected.summary && (
+              <div
+                className={`text-[11px] ${
+                  selected.error
+                    ? "text-red-600 dark:text-red-400"
+                    : "text-gray-600 dark:text-gray-400"
+                }`}
+              >
+                {selected.summary}
+              </div>
+            )}
+
+            {selected.payload !== undefined && (
+              <JsonCodeBlock
+                data={selected.payload}
+                onCopy={() =>
+                  copyToClipboard(JSON.stringify(selected.payload, null, 2))
+                }
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
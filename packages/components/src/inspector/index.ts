@@ -7,3 +7,7 @@ export * from "./ExecutionRow";
 export * from "./RequestDetailsPanel";
 export * from "./ExpandableSection";
 export * from "./demoExecutions";
+export * from "./ServerLogPanel";
+export * from "./StdioProcessPanel";
+export * from "./ConformancePanel";
+export * from "./TrafficPanel";
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { OutputValidationSchema, ToolResultContentSchema } from "./tool";
 
 const flexibleDateSchema = z
   .union([
@@ -25,8 +26,11 @@ export const ChatMessageSchema = z.object({
   toolExecution: z
     .object({
       toolName: z.string(),
-      status: z.enum(["pending", "success", "error"]),
+      status: z.enum(["pending", "success", "error", "cancelled"]),
       result: z.unknown().optional(),
+      structuredContent: z.unknown().optional(),
+      outputValidation: OutputValidationSchema.optional(),
+      content: z.array(ToolResultContentSchema).optional(),
       error: z.string().optional(),
       timestamp: flexibleDateSchema,
       startTime: z.number().optional(), // Unix timestamp in ms
@@ -35,6 +39,14 @@ export const ChatMessageSchema = z.object({
     })
     .optional(),
 
+  // The user's answer when a destructive tool call needed approval
+  toolApproval: z
+    .object({
+      decision: z.enum(["approved", "denied"]),
+      decidedAt: z.number(), // Unix timestamp in ms
+    })
+    .optional(),
+
   // Semantic search results attached to user messages
   semanticSearch: z
     .object({
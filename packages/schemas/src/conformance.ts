@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+/**
+ * Outcome of one conformance check. Skipped checks did not apply to the
+ * server, such as list checks for a capability it doesn't declare.
+ */
+export const ConformanceStatusSchema = z.enum(["pass", "warn", "fail", "skip"]);
+
+export type ConformanceStatus = z.infer<typeof ConformanceStatusSchema>;
+
+/**
+ * Groups the checks are reported under
+ */
+export const ConformanceCategorySchema = z.enum([
+  "initialize",
+  "capabilities",
+  "errors",
+  "tools",
+  "pagination",
+  "ping",
+  "notifications",
+]);
+
+export type ConformanceCategory = z.infer<typeof ConformanceCategorySchema>;
+
+/**
+ * Result of a single check against a server
+ */
+export const ConformanceCheckResultSchema = z.object({
+  /** Stable identifier, such as "errors.unknown-method" */
+  id: z.string(),
+  category: ConformanceCategorySchema,
+  title: z.string(),
+  status: ConformanceStatusSchema,
+  message: z.string(),
+  /** Individual problems behind a warning or failure */
+  details: z.array(z.string()).optional(),
+  duration: z.number(),
+});
+
+export type ConformanceCheckResult = z.infer<
+  typeof ConformanceCheckResultSchema
+>;
+
+/**
+ * A full conformance run, saved with the connection it was run against
+ */
+export const ConformanceReportSchema = z.object({
+  startedAt: z.string(),
+  finishedAt: z.string(),
+  serverInfo: z
+    .object({
+      name: z.string().optional(),
+      version: z.string().optional(),
+    })
+    .optional(),
+  protocolVersion: z.string().optional(),
+  transport: z.string(),
+  results: z.array(ConformanceCheckResultSchema),
+  summary: z.record(ConformanceStatusSchema, z.number()),
+});
+
+export type ConformanceReport = z.infer<typeof ConformanceReportSchema>;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { ConformanceReportSchema } from "./conformance";
 
 /**
  * Schema for MCP connection types
@@ -8,10 +9,154 @@ export const ConnectionTypeSchema = z.enum([
   "http",
   "websocket",
   "graphql",
+  "stdio",
 ]);
 
 export type ConnectionType = z.infer<typeof ConnectionTypeSchema>;
 
+/**
+ * Schema for the MCP protocol revisions this client can speak, oldest first
+ */
+export const ProtocolVersionSchema = z.enum([
+  "2024-11-05",
+  "2025-03-26",
+  "2025-06-18",
+]);
+
+export type ProtocolVersion = z.infer<typeof ProtocolVersionSchema>;
+
+/**
+ * Schema for the paginated lists fetched during MCP introspection
+ */
+export const IntrospectionListSchema = z.enum([
+  "tools",
+  "resources",
+  "resourceTemplates",
+  "prompts",
+]);
+
+export type IntrospectionList = z.infer<typeof IntrospectionListSchema>;
+
+/**
+ * Schema for the state of a connection's long-lived WebSocket
+ */
+export const WebSocketStateSchema = z.enum(["open", "closed", "reconnecting"]);
+
+export type WebSocketState = z.infer<typeof WebSocketStateSchema>;
+
+/**
+ * Schema for the state of an HTTP+SSE connection's event stream. Failed
+ * once reconnecting has given up.
+ */
+export const SSEStreamStateSchema = z.enum([
+  "open",
+  "closed",
+  "reconnecting",
+  "failed",
+]);
+
+export type SSEStreamState = z.infer<typeof SSEStreamStateSchema>;
+
+/**
+ * Schema for an SSE stream's state along with its reconnect progress
+ */
+export const SSEStreamStatusSchema = z.object({
+  state: SSEStreamStateSchema,
+  attempt: z.number(),
+  maxAttempts: z.number(),
+  error: z.string().optional(),
+});
+
+export type SSEStreamStatus = z.infer<typeof SSEStreamStatusSchema>;
+
+/**
+ * Schema for a local MCP server the CLI server runs and bridges to the UI
+ */
+export const StdioConfigSchema = z.object({
+  command: z.string().min(1, "Command is required"),
+  args: z.array(z.string()).optional().default([]),
+  env: z.record(z.string(), z.string()).optional().default({}),
+  cwd: z.string().optional(),
+});
+
+export type StdioConfig = z.infer<typeof StdioConfigSchema>;
+
+/**
+ * Schema for the state of a bridged stdio server process
+ */
+export const StdioProcessStateSchema = z.enum(["stopped", "running", "exited"]);
+
+export type StdioProcessState = z.infer<typeof StdioProcessStateSchema>;
+
+export const StdioProcessStatusSchema = z.object({
+  state: StdioProcessStateSchema,
+  command: z.string(),
+  args: z.array(z.string()),
+  pid: z.number().optional(),
+  exitCode: z.number().nullable().optional(),
+  signal: z.string().nullable().optional(),
+  startedAt: z.string().optional(),
+  // Set when the process could not be spawned at all
+  error: z.string().optional(),
+});
+
+export type StdioProcessStatus = z.infer<typeof StdioProcessStatusSchema>;
+
+/**
+ * Schema for one line a bridged process wrote to stderr
+ */
+export const StdioStderrLineSchema = z.object({
+  seq: z.number(),
+  line: z.string(),
+  timestamp: z.string(),
+});
+
+export type StdioStderrLine = z.infer<typeof StdioStderrLineSchema>;
+
+/**
+ * Schema for a filesystem root the client exposes to an MCP server
+ */
+export const RootSchema = z.object({
+  uri: z.string().min(1, "Root URI is required"),
+  name: z.string().optional(),
+});
+
+export type Root = z.infer<typeof RootSchema>;
+
+/**
+ * Schema for tokens issued to a connection by its authorization server
+ */
+export const OAuthTokensSchema = z.object({
+  accessToken: z.string().min(1),
+  tokenType: z.string().optional().default("Bearer"),
+  refreshToken: z.string().optional(),
+  // Epoch milliseconds, unset when the server gave no expires_in
+  expiresAt: z.number().optional(),
+  scope: z.string().optional(),
+});
+
+export type OAuthTokens = z.infer<typeof OAuthTokensSchema>;
+
+/**
+ * OAuth 2.1 settings for a connection. Everything but the client and scope
+ * is filled in by discovery and dynamic client registration.
+ */
+export const OAuthConfigSchema = z.object({
+  // Leave unset to register a client dynamically
+  clientId: z.string().optional(),
+  clientSecret: z.string().optional(),
+  scope: z.string().optional(),
+  // Redirect URI a dynamically registered client was registered with
+  registeredRedirectUri: z.string().optional(),
+  authorizationServer: z.string().optional(),
+  tokenEndpoint: z.string().optional(),
+  // Canonical URI of the MCP server, sent as the RFC 8707 resource
+  resource: z.string().optional(),
+  tokens: OAuthTokensSchema.optional(),
+});
+
+export type OAuthConfig = z.infer<typeof OAuthConfigSchema>;
+
 /**
  * GraphQL-specific connection configuration
  */
@@ -45,7 +190,7 @@ export const ConnectionSchema = z.object({
   timeout: z.number().positive().optional().default(30000),
   retryAttempts: z.number().min(0).optional().default(3),
   authType: z
-    .enum(["none", "bearer", "apiKey", "basic"])
+    .enum(["none", "bearer", "apiKey", "basic", "oauth"])
     .optional()
     .default("none"),
   credentials: z
@@ -57,7 +202,24 @@ export const ConnectionSchema = z.object({
     })
     .optional()
     .default({}),
+  oauth: OAuthConfigSchema.optional(),
+  stdio: StdioConfigSchema.optional(),
   graphqlConfig: GraphQLConnectionConfigSchema.optional(),
+  roots: z.array(RootSchema).optional(),
+  // Version requested in initialize, the latest when unset
+  protocolVersion: ProtocolVersionSchema.optional(),
+  // Version the server answered initialize with
+  negotiatedProtocolVersion: z.string().optional(),
+  // Ask before the LLM runs a tool that may be destructive: one the server
+  // doesn't mark read-only or non-destructive, as hints default to destructive
+  confirmDestructiveTools: z.boolean().optional(),
+  // Send requests through the local server's /api/proxy, for servers the
+  // browser can't reach because they don't send CORS headers
+  useProxy: z.boolean().optional(),
+  // Lists the last introspection stopped reading at the page cap
+  incompleteLists: z.array(IntrospectionListSchema).optional(),
+  // Latest run of the protocol conformance checks
+  conformanceReport: ConformanceReportSchema.optional(),
 });
 
 /**
@@ -77,3 +239,39 @@ export const ConnectionStatusSchema = z.object({
 });
 
 export type ConnectionStatus = z.infer<typeof ConnectionStatusSchema>;
+
+/**
+ * Schema for how a connection is doing according to the health monitor.
+ * Degraded after a failed ping, down after several in a row.
+ */
+export const ConnectionHealthStateSchema = z.enum([
+  "unknown",
+  "healthy",
+  "degraded",
+  "down",
+]);
+
+export type ConnectionHealthState = z.infer<typeof ConnectionHealthStateSchema>;
+
+/**
+ * Schema for one health check ping. Failed pings have an error and no
+ * latency.
+ */
+export const HealthCheckSampleSchema = z.object({
+  timestamp: z.number(),
+  latency: z.number().optional(),
+  error: z.string().optional(),
+});
+
+export type HealthCheckSample = z.infer<typeof HealthCheckSampleSchema>;
+
+/**
+ * Schema for a connection's health: its latest status plus recent pings
+ */
+export const ConnectionHealthSchema = ConnectionStatusSchema.extend({
+  state: ConnectionHealthStateSchema,
+  samples: z.array(HealthCheckSampleSchema),
+  consecutiveFailures: z.number(),
+});
+
+export type ConnectionHealth = z.infer<typeof ConnectionHealthSchema>;
@@ -1,12 +1,42 @@
 export {
   ConnectionSchema,
+  ConnectionHealthSchema,
+  ConnectionHealthStateSchema,
   ConnectionStatusSchema,
   ConnectionTypeSchema,
   GraphQLConnectionConfigSchema,
+  HealthCheckSampleSchema,
+  IntrospectionListSchema,
+  OAuthConfigSchema,
+  OAuthTokensSchema,
+  ProtocolVersionSchema,
+  RootSchema,
+  SSEStreamStateSchema,
+  SSEStreamStatusSchema,
+  StdioConfigSchema,
+  StdioProcessStateSchema,
+  StdioProcessStatusSchema,
+  StdioStderrLineSchema,
+  WebSocketStateSchema,
   type Connection,
+  type ConnectionHealth,
+  type ConnectionHealthState,
   type ConnectionStatus,
   type ConnectionType,
   type GraphQLConnectionConfig,
+  type HealthCheckSample,
+  type IntrospectionList,
+  type OAuthConfig,
+  type OAuthTokens,
+  type ProtocolVersion,
+  type Root,
+  type SSEStreamState,
+  type SSEStreamStatus,
+  type StdioConfig,
+  type StdioProcessState,
+  type StdioProcessStatus,
+  type StdioStderrLine,
+  type WebSocketState,
 } from "./connection";
 
 export {
@@ -14,21 +44,51 @@ export {
   ToolExecutionRequestSchema,
   ToolExecutionResponseSchema,
   ToolExecutionSchema,
+  ToolCallProgressSchema,
+  ActiveToolCallSchema,
+  ToolListChangeSchema,
+  OutputValidationSchema,
+  ToolAnnotationsSchema,
+  ToolResultContentSchema,
+  isDestructiveTool,
   type Tool,
   type ToolExecutionRequest,
   type ToolExecutionResponse,
   type ToolExecution,
+  type ToolCallProgress,
+  type ActiveToolCall,
+  type ToolListChange,
+  type OutputValidation,
+  type ToolAnnotations,
+  type ToolResultContent,
 } from "./tool";
 
 export {
   ResourceSchema,
+  ResourceTemplateSchema,
+  ResourceContentsSchema,
+  ResourceReadResultSchema,
   ResourceAccessRequestSchema,
   ResourceAccessResponseSchema,
   type Resource,
+  type ResourceTemplate,
+  type ResourceContents,
+  type ResourceReadResult,
   type ResourceAccessRequest,
   type ResourceAccessResponse,
 } from "./resource";
 
+export {
+  PromptSchema,
+  PromptArgumentSchema,
+  PromptMessageSchema,
+  PromptGetResultSchema,
+  type Prompt,
+  type PromptArgument,
+  type PromptMessage,
+  type PromptGetResult,
+} from "./prompt";
+
 export {
   ChatMessageSchema,
   ChatConversationSchema,
@@ -47,7 +107,18 @@ export {
 
 export * from "./tool-selection";
 
-export { MCPCapabilitiesSchema, type MCPCapabilities } from "./mcp-protocol";
+export {
+  MCPCapabilitiesSchema,
+  LoggingLevelSchema,
+  ServerLogEntrySchema,
+  TrafficTransportSchema,
+  TrafficEntrySchema,
+  type MCPCapabilities,
+  type LoggingLevel,
+  type ServerLogEntry,
+  type TrafficTransport,
+  type TrafficEntry,
+} from "./mcp-protocol";
 
 export {
   Neo4jConfigSchema,
@@ -58,4 +129,15 @@ export {
   type Neo4jSyncState,
 } from "./neo4j-sync";
 
+export {
+  ConformanceStatusSchema,
+  ConformanceCategorySchema,
+  ConformanceCheckResultSchema,
+  ConformanceReportSchema,
+  type ConformanceStatus,
+  type ConformanceCategory,
+  type ConformanceCheckResult,
+  type ConformanceReport,
+} from "./conformance";
+
 export { z } from "zod";
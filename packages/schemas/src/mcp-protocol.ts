@@ -12,3 +12,73 @@ export const MCPCapabilitiesSchema = z.object({
 });
 
 export type MCPCapabilities = z.infer<typeof MCPCapabilitiesSchema>;
+
+/**
+ * Schema for MCP log severity levels, ordered from least to most severe
+ */
+export const LoggingLevelSchema = z.enum([
+  "debug",
+  "info",
+  "notice",
+  "warning",
+  "error",
+  "critical",
+  "alert",
+  "emergency",
+]);
+
+export type LoggingLevel = z.infer<typeof LoggingLevelSchema>;
+
+/**
+ * Schema for a log message a server sent with notifications/message
+ */
+export const ServerLogEntrySchema = z.object({
+  id: z.string(),
+  level: LoggingLevelSchema,
+  logger: z.string().optional(),
+  data: z.unknown(),
+  receivedAt: z.string(),
+});
+
+export type ServerLogEntry = z.infer<typeof ServerLogEntrySchema>;
+
+/**
+ * Schema for the transport a traffic entry was seen on
+ */
+export const TrafficTransportSchema = z.enum([
+  "http",
+  "sse",
+  "websocket",
+  "stdio",
+]);
+
+export type TrafficTransport = z.infer<typeof TrafficTransportSchema>;
+
+/**
+ * Schema for one entry in a connection's traffic log: a JSON-RPC message
+ * in either direction, or an event on the transport that carries them
+ */
+export const TrafficEntrySchema = z.object({
+  id: z.string(),
+  connectionUrl: z.string(),
+  transport: TrafficTransportSchema,
+  // Internal entries are things the client did, like scheduling a retry
+  direction: z.enum(["outgoing", "incoming", "internal"]),
+  kind: z.enum(["request", "response", "notification", "event"]),
+  timestamp: z.string(),
+  method: z.string().optional(),
+  // JSON-RPC id, shared by a request and its response
+  messageId: z.union([z.string(), z.number()]).optional(),
+  sessionId: z.string().optional(),
+  // Transport events only, e.g. http.response or websocket.reconnecting
+  event: z.string().optional(),
+  summary: z.string().optional(),
+  status: z.number().optional(),
+  duration: z.number().optional(),
+  // Bytes on the wire
+  size: z.number().optional(),
+  error: z.boolean().optional(),
+  payload: z.unknown().optional(),
+});
+
+export type TrafficEntry = z.infer<typeof TrafficEntrySchema>;
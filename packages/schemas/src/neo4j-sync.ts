@@ -47,6 +47,8 @@ export const Neo4jSyncStateSchema = z.object({
   savedPassword: z.string().optional(),
   /** Whether the user opted to save the password */
   rememberPassword: z.boolean().optional(),
+  /** Resync on its own when the toolset goes stale (needs a saved password) */
+  autoResync: z.boolean().optional(),
 });
 
 export type Neo4jSyncState = z.infer<typeof Neo4jSyncStateSchema>;
@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+/**
+ * Schema for a single argument accepted by an MCP prompt
+ */
+export const PromptArgumentSchema = z.object({
+  name: z.string().min(1, "Argument name is required"),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+});
+
+export type PromptArgument = z.infer<typeof PromptArgumentSchema>;
+
+/**
+ * Schema for MCP prompt definition
+ */
+export const PromptSchema = z.object({
+  name: z.string().min(1, "Prompt name is required"),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  arguments: z.array(PromptArgumentSchema).optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+export type Prompt = z.infer<typeof PromptSchema>;
+
+/**
+ * Schema for a message rendered by prompts/get
+ */
+export const PromptMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.object({
+    type: z.string(),
+    text: z.string().optional(),
+    data: z.string().optional(),
+    mimeType: z.string().optional(),
+    resource: z.record(z.string(), z.unknown()).optional(),
+  }),
+});
+
+export type PromptMessage = z.infer<typeof PromptMessageSchema>;
+
+/**
+ * Schema for the result of prompts/get
+ */
+export const PromptGetResultSchema = z.object({
+  description: z.string().optional(),
+  messages: z.array(PromptMessageSchema),
+});
+
+export type PromptGetResult = z.infer<typeof PromptGetResultSchema>;
@@ -23,6 +23,41 @@ export const ResourceSchema = z.object({
 
 export type Resource = z.infer<typeof ResourceSchema>;
 
+/**
+ * Schema for MCP resource template (RFC 6570 URI template)
+ */
+export const ResourceTemplateSchema = z.object({
+  uriTemplate: z.string().min(1, "URI template is required"),
+  name: z.string().min(1, "Resource template name is required"),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  mimeType: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+export type ResourceTemplate = z.infer<typeof ResourceTemplateSchema>;
+
+/**
+ * Schema for a single entry returned by resources/read
+ */
+export const ResourceContentsSchema = z.object({
+  uri: z.string(),
+  mimeType: z.string().optional(),
+  text: z.string().optional(),
+  blob: z.string().optional(), // Base64-encoded binary data
+});
+
+export type ResourceContents = z.infer<typeof ResourceContentsSchema>;
+
+/**
+ * Schema for the result of resources/read
+ */
+export const ResourceReadResultSchema = z.object({
+  contents: z.array(ResourceContentsSchema),
+});
+
+export type ResourceReadResult = z.infer<typeof ResourceReadResultSchema>;
+
 /**
  * Schema for resource access request
  */
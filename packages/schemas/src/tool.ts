@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { ResourceContentsSchema } from "./resource";
 
 /**
  * GraphQL-specific tool metadata
@@ -13,6 +14,20 @@ export const GraphQLToolMetadataSchema = z.object({
 
 export type GraphQLToolMetadata = z.infer<typeof GraphQLToolMetadataSchema>;
 
+/**
+ * Schema for the behaviour hints an MCP server attaches to a tool. They
+ * are advisory and come from the server, so they are not a security boundary.
+ */
+export const ToolAnnotationsSchema = z.object({
+  title: z.string().optional(),
+  readOnlyHint: z.boolean().optional(),
+  destructiveHint: z.boolean().optional(),
+  idempotentHint: z.boolean().optional(),
+  openWorldHint: z.boolean().optional(),
+});
+
+export type ToolAnnotations = z.infer<typeof ToolAnnotationsSchema>;
+
 /**
  * Schema for MCP tool definition
  */
@@ -21,6 +36,7 @@ export const ToolSchema = z.object({
   name: z.string().min(1, "Tool name is required"),
   description: z.string().min(1, "Tool description is required"),
   inputSchema: z.record(z.string(), z.unknown()).optional(),
+  outputSchema: z.record(z.string(), z.unknown()).optional(),
   parameters: z
     .array(
       z.object({
@@ -36,6 +52,7 @@ export const ToolSchema = z.object({
   tags: z.array(z.string()).optional(),
   version: z.string().optional(),
   deprecated: z.boolean().optional().default(false),
+  annotations: ToolAnnotationsSchema.optional(),
   metadata: z
     .object({
       graphql: GraphQLToolMetadataSchema.optional(),
@@ -45,6 +62,22 @@ export const ToolSchema = z.object({
 
 export type Tool = z.infer<typeof ToolSchema>;
 
+/**
+ * Whether a tool may be destructive. The MCP spec has destructiveHint default
+ * to true for tools that are not read-only, so only tools marked read-only or
+ * with destructiveHint set to false are safe, including tools without
+ * annotations. GraphQL tools are built from a schema rather than described by
+ * a server, so the hints don't apply to them.
+ */
+export function isDestructiveTool(
+  tool: Pick<Tool, "annotations" | "metadata">
+): boolean {
+  if (tool.metadata?.graphql) return false;
+
+  const annotations = tool.annotations;
+  return !annotations?.readOnlyHint && annotations?.destructiveHint !== false;
+}
+
 /**
  * Schema for tool execution request
  */
@@ -70,13 +103,55 @@ export const ToolExecutionResponseSchema = z.object({
 
 export type ToolExecutionResponse = z.infer<typeof ToolExecutionResponseSchema>;
 
+/**
+ * Schema for the result of checking structuredContent against a tool's
+ * declared outputSchema
+ */
+export const OutputValidationSchema = z.object({
+  valid: z.boolean(),
+  errors: z.array(z.string()),
+});
+
+export type OutputValidation = z.infer<typeof OutputValidationSchema>;
+
+/**
+ * Schema for a non-text item in a tool result's content array. Text items
+ * are folded into the result itself, so only these are kept separately.
+ */
+export const ToolResultContentSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("image"),
+    data: z.string(), // Base64-encoded image data
+    mimeType: z.string(),
+  }),
+  z.object({
+    type: z.literal("audio"),
+    data: z.string(), // Base64-encoded audio data
+    mimeType: z.string(),
+  }),
+  z.object({
+    type: z.literal("resource"),
+    resource: ResourceContentsSchema,
+  }),
+  z.object({
+    type: z.literal("resource_link"),
+    uri: z.string(),
+    name: z.string(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    mimeType: z.string().optional(),
+  }),
+]);
+
+export type ToolResultContent = z.infer<typeof ToolResultContentSchema>;
+
 /**
  * Schema for tool execution (used in NetworkInspector)
  */
 export const ToolExecutionSchema = z.object({
   id: z.string(),
   tool: z.string(),
-  status: z.enum(["success", "error", "pending"]),
+  status: z.enum(["success", "error", "pending", "cancelled"]),
   duration: z.number().optional(),
   timestamp: z.string(),
   chatId: z.string().optional(),
@@ -89,6 +164,9 @@ export const ToolExecutionSchema = z.object({
     .object({
       success: z.boolean(),
       result: z.unknown().optional(),
+      structuredContent: z.unknown().optional(),
+      outputValidation: OutputValidationSchema.optional(),
+      content: z.array(ToolResultContentSchema).optional(),
       timestamp: z.string().optional(),
     })
     .optional(),
@@ -96,3 +174,39 @@ export const ToolExecutionSchema = z.object({
 });
 
 export type ToolExecution = z.infer<typeof ToolExecutionSchema>;
+
+/**
+ * Schema for a progress update reported by a running tool call
+ */
+export const ToolCallProgressSchema = z.object({
+  progress: z.number(),
+  total: z.number().optional(),
+  message: z.string().optional(),
+});
+
+export type ToolCallProgress = z.infer<typeof ToolCallProgressSchema>;
+
+/**
+ * Schema for a tool call that is still waiting on its server
+ */
+export const ActiveToolCallSchema = z.object({
+  executionId: z.string(),
+  connectionUrl: z.string(),
+  toolName: z.string(),
+  startedAt: z.number(),
+  progress: ToolCallProgressSchema.optional(),
+});
+
+export type ActiveToolCall = z.infer<typeof ActiveToolCallSchema>;
+
+/**
+ * Schema for how a connection's tool list changed between two introspections
+ */
+export const ToolListChangeSchema = z.object({
+  added: z.array(z.string()),
+  removed: z.array(z.string()),
+  changed: z.array(z.string()),
+  detectedAt: z.number(),
+});
+
+export type ToolListChange = z.infer<typeof ToolListChangeSchema>;